@@ -1,5 +1,11 @@
 import { createHash, randomUUID } from "crypto";
-import { AgentResponse, ChainId, CrossChainSwapRequest } from "./types";
+import {
+  AgentResponse,
+  ChainId,
+  CrossChainSwapRequest,
+  ExecutionStreamEvent,
+  ExecutionStreamEventType,
+} from "./types";
 
 export interface IdempotencyKeyInput {
   namespace: string;
@@ -54,6 +60,14 @@ export interface ExecuteBtcToStellarSwapOptions {
   signal?: AbortSignalLike;
 }
 
+export interface StreamExecutionOptions {
+  authToken?: string;
+  lastEventId?: number;
+  maxReconnects?: number;
+  retryDelayMs?: number;
+  signal?: AbortSignalLike;
+}
+
 export class AgentRequestError extends Error {
   readonly idempotencyKey: string;
   readonly attempts: number;
@@ -73,13 +87,38 @@ export class AgentRequestError extends Error {
   }
 }
 
+export class ExecutionStreamError extends Error {
+  readonly executionId: string;
+  readonly lastEventId?: number;
+  readonly statusCode?: number;
+
+  constructor(
+    message: string,
+    executionId: string,
+    lastEventId?: number,
+    statusCode?: number
+  ) {
+    super(message);
+    this.name = "ExecutionStreamError";
+    this.executionId = executionId;
+    this.lastEventId = lastEventId;
+    this.statusCode = statusCode;
+  }
+}
+
 interface QueryEnvelope<T = unknown> {
   result: T;
 }
 
+interface StreamReaderLike {
+  read(): Promise<{ done: boolean; value?: Uint8Array }>;
+  cancel?: () => Promise<void>;
+}
+
 interface FetchResponseLike {
   ok: boolean;
   status: number;
+  body?: { getReader(): StreamReaderLike } | null;
   json(): Promise<unknown>;
   text(): Promise<string>;
 }
@@ -143,6 +182,45 @@ export function createBtcToStellarSwapIdempotencyKey(
   });
 }
 
+/**
+ * Parse one Server-Sent Events block; blocks without data (comments,
+ * keep-alives) yield nothing
+ */
+function parseSseEvent(block: string): ExecutionStreamEvent | null {
+  let id: number | undefined;
+  let type = "message";
+  const dataLines: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (!line || line.startsWith(":")) continue;
+
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    let value = separator === -1 ? "" : line.slice(separator + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    if (field === "id") id = Number(value);
+    else if (field === "event") type = value;
+    else if (field === "data") dataLines.push(value);
+  }
+
+  if (dataLines.length === 0) return null;
+
+  const raw = dataLines.join("\n");
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(raw) as Record<string, unknown>;
+  } catch {
+    data = { raw };
+  }
+
+  return {
+    ...(id !== undefined && !Number.isNaN(id) ? { id } : {}),
+    type: type as ExecutionStreamEventType,
+    data,
+  };
+}
+
 function toSwapQuery(request: CrossChainSwapRequest): string {
   return [
     `Swap ${request.amount} ${request.fromToken}`,
@@ -319,4 +397,115 @@ export class AgentClient {
       signal: options.signal,
     });
   }
+
+  /**
+   * Stream the progress of a plan execution. Dropped connections are resumed
+   * from the last received event id; iteration ends after the summary event.
+   */
+  async *streamExecution(
+    executionId: string,
+    options: StreamExecutionOptions = {}
+  ): AsyncGenerator<ExecutionStreamEvent, void, undefined> {
+    const maxReconnects = options.maxReconnects ?? this.defaultMaxRetries;
+    const retryDelayMs = options.retryDelayMs ?? this.defaultRetryDelayMs;
+    const url = `${this.baseUrl}/api/agent/executions/${encodeURIComponent(
+      executionId
+    )}/events`;
+
+    let lastEventId = options.lastEventId;
+    let reconnects = 0;
+
+    while (true) {
+      let failure = "Execution stream ended before the summary event";
+      let statusCode: number | undefined;
+
+      const headers: Record<string, string> = {
+        Accept: "text/event-stream",
+      };
+      if (options.authToken) {
+        headers.Authorization = `Bearer ${options.authToken}`;
+      }
+      if (lastEventId !== undefined) {
+        headers["Last-Event-ID"] = String(lastEventId);
+      }
+
+      try {
+        const response = await this.fetchFn(url, {
+          method: "GET",
+          headers,
+          signal: options.signal,
+        });
+
+        if (!response.ok) {
+          statusCode = response.status;
+          const body = await response.text().catch(() => "");
+          failure = body || `HTTP ${response.status}`;
+
+          if (!RETRIABLE_STATUS_CODES.has(response.status)) {
+            throw new ExecutionStreamError(
+              `Execution stream failed: ${failure}`,
+              executionId,
+              lastEventId,
+              statusCode
+            );
+          }
+        } else if (!response.body) {
+          throw new ExecutionStreamError(
+            "Execution stream failed: response body is not readable",
+            executionId,
+            lastEventId,
+            response.status
+          );
+        } else {
+          const reader = response.body.getReader();
+          const decoder = new TextDecoder();
+          let buffer = "";
+
+          try {
+            while (true) {
+              const { done, value } = await reader.read();
+              if (done) break;
+
+              buffer += decoder
+                .decode(value, { stream: true })
+                .replace(/\r\n?/g, "\n");
+
+              let boundary = buffer.indexOf("\n\n");
+              while (boundary !== -1) {
+                const event = parseSseEvent(buffer.slice(0, boundary));
+                buffer = buffer.slice(boundary + 2);
+                boundary = buffer.indexOf("\n\n");
+
+                if (!event) continue;
+                if (event.id !== undefined) lastEventId = event.id;
+                reconnects = 0;
+
+                yield event;
+                if (event.type === "summary") return;
+              }
+            }
+          } finally {
+            await reader.cancel?.().catch(() => undefined);
+          }
+        }
+      } catch (error) {
+        if (error instanceof ExecutionStreamError) {
+          throw error;
+        }
+        failure = error instanceof Error ? error.message : String(error);
+      }
+
+      if (options.signal?.aborted || reconnects >= maxReconnects) {
+        throw new ExecutionStreamError(
+          `Execution stream failed: ${failure}`,
+          executionId,
+          lastEventId,
+          statusCode
+        );
+      }
+
+      reconnects += 1;
+      await sleep(retryDelayMs * reconnects);
+    }
+  }
 }
@@ -119,3 +119,23 @@ export interface EventSubscription {
   /** Last ledger that was checked. */
   getLastLedger(): number | null;
 }
+
+// ─── Plan execution stream types ─────────────────────────────────────────────
+
+/** Event types emitted while a plan executes. */
+export type ExecutionStreamEventType =
+  | "step_start"
+  | "step_complete"
+  | "step_retry"
+  | "timeout"
+  | "summary";
+
+/** A single progress event from an execution stream. */
+export interface ExecutionStreamEvent {
+  /** Monotonic event id, used to resume a dropped stream. */
+  id?: number;
+  /** Kind of progress event. */
+  type: ExecutionStreamEventType;
+  /** Event payload (step number, status, error, totals, ...). */
+  data: Record<string, unknown>;
+}
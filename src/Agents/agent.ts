@@ -1,70 +1,220 @@
-import Anthropic from "@anthropic-ai/sdk";
-import config from "../config/config";
+import config, { LLMModelConfig } from "../config/config";
 import { memoryStore } from "./memory/memory";
 import logger from "../config/logger";
 import { withTimeout, TimeoutError } from "../utils/timeout";
+import {
+  getLLMProvider,
+  LLMMessage,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMTool,
+} from "./llm";
 
-const client = new Anthropic({
-  apiKey: config.apiKey,
-});
+export interface LLMCallOptions {
+  /** Agent whose model settings apply, a key of config.agent.llm.agents */
+  agent?: string;
+  timeoutMs?: number;
+}
+
+export interface ToolUseCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface ToolCallResult {
+  toolUseId: string;
+  content: string;
+  isError?: boolean;
+}
+
+export interface ToolUseOptions extends LLMCallOptions {
+  /** Maximum number of model turns, including the first (default: 1) */
+  maxTurns?: number;
+  /**
+   * Produce results for the tools called in a turn. When set, the results are
+   * sent back to the model so it can keep calling tools until it stops.
+   */
+  onToolUse?: (calls: ToolUseCall[]) => Promise<ToolCallResult[]>;
+}
+
+export interface ToolUseResponse {
+  calls: ToolUseCall[];
+  text: string;
+  turns: number;
+}
 
 export class AgentLLM {
+  /**
+   * @param provider Provider to call; defaults to the shared provider from
+   * config, which tests can replace with setLLMProvider
+   */
+  constructor(private readonly provider?: LLMProvider) {}
+
+  getModelConfig(agent = "default"): LLMModelConfig {
+    return {
+      ...config.agent.llm.defaults,
+      ...config.agent.llm.agents[agent],
+    };
+  }
+
   async callLLM(
     agentId: string,
     prompt: string,
     userInput: string,
     asJson = true,
-    timeoutMs?: number
+    options: LLMCallOptions = {}
   ): Promise<unknown> {
-    const timeout = timeoutMs || config.agent.timeouts.llmCall;
-    const memoryContext = memoryStore.get(agentId).join("\n");
-    const fullPrompt = `${
-      memoryContext ? "Previous context:\n" + memoryContext + "\n\n" : ""
-    }${prompt}\n\nUser input: ${userInput}${
+    const timeout = options.timeoutMs || config.agent.timeouts.llmCall;
+    const fullPrompt = `${this.buildPrompt(agentId, prompt, userInput)}${
       asJson ? "\n\nPlease respond with valid JSON only." : ""
     }`;
 
-    logger.debug("Starting LLM call", { agentId, timeout, asJson });
+    logger.debug("Starting LLM call", {
+      agentId,
+      agent: options.agent,
+      timeout,
+      asJson,
+    });
 
-    try {
-      const message = await withTimeout(
-        client.messages.create({
-          model: "claude-3-5-haiku-20241022",
-          max_tokens: 4096,
-          messages: [
-            {
-              role: "user",
-              content: fullPrompt,
-            },
-          ],
-        }),
+    const message = await this.complete(
+      agentId,
+      this.buildRequest(options.agent, [{ role: "user", content: fullPrompt }]),
+      timeout
+    );
+
+    const content =
+      message.content[0]?.type === "text" ? message.content[0].text : "{}";
+
+    if (asJson) {
+      try {
+        const parsed = JSON.parse(content);
+        return parsed;
+      } catch (err) {
+        logger.error("JSON parse error", { error: err, rawContent: content });
+        return {};
+      }
+    } else {
+      return content;
+    }
+  }
+
+  /**
+   * Call the LLM with native tool definitions and collect the tools it calls,
+   * in order. Tool input arrives as structured JSON, so no response parsing
+   * is needed.
+   */
+  async callLLMWithTools(
+    agentId: string,
+    prompt: string,
+    userInput: string,
+    tools: LLMTool[],
+    options: ToolUseOptions = {}
+  ): Promise<ToolUseResponse> {
+    const timeout = options.timeoutMs || config.agent.timeouts.llmCall;
+    const maxTurns = options.maxTurns ?? 1;
+    const messages: LLMMessage[] = [
+      { role: "user", content: this.buildPrompt(agentId, prompt, userInput) },
+    ];
+    const calls: ToolUseCall[] = [];
+    const text: string[] = [];
+    let turns = 0;
+
+    logger.debug("Starting LLM tool-use call", {
+      agentId,
+      agent: options.agent,
+      timeout,
+      tools: tools.map((tool) => tool.name),
+    });
+
+    while (turns < maxTurns) {
+      turns++;
+      const message = await this.complete(
+        agentId,
+        this.buildRequest(options.agent, messages, tools),
+        timeout
+      );
+
+      const turnCalls: ToolUseCall[] = [];
+      for (const block of message.content) {
+        if (block.type === "tool_use") {
+          turnCalls.push({
+            id: block.id,
+            name: block.name,
+            input: block.input,
+          });
+        } else if (block.type === "text") {
+          text.push(block.text);
+        }
+      }
+      calls.push(...turnCalls);
+
+      if (
+        message.stopReason !== "tool_use" ||
+        !options.onToolUse ||
+        turns >= maxTurns
+      ) {
+        break;
+      }
+
+      const results = await options.onToolUse(turnCalls);
+      messages.push(
+        { role: "assistant", content: message.content },
         {
-          timeoutMs: timeout,
-          operation: `LLM call for agent ${agentId}`,
-          onTimeout: () => {
-            logger.error("LLM call timeout", { agentId, timeout });
-          },
+          role: "user",
+          content: results.map((result) => ({
+            type: "tool_result" as const,
+            tool_use_id: result.toolUseId,
+            content: result.content,
+            ...(result.isError ? { is_error: true } : {}),
+          })),
         }
       );
+    }
 
-      const content =
-        message.content[0].type === "text" ? message.content[0].text : "{}";
+    logger.debug("LLM tool-use call finished", {
+      agentId,
+      turns,
+      calls: calls.map((call) => call.name),
+    });
 
-      if (asJson) {
-        try {
-          const parsed = JSON.parse(content);
-          return parsed;
-        } catch (err) {
-          logger.error("JSON parse error", { error: err, rawContent: content });
-          return {};
-        }
-      } else {
-        return content;
-      }
+    return { calls, text: text.join("\n"), turns };
+  }
+
+  private buildRequest(
+    agent = "default",
+    messages: LLMMessage[],
+    tools?: LLMTool[]
+  ): LLMRequest {
+    return {
+      agent,
+      ...this.getModelConfig(agent),
+      messages,
+      ...(tools?.length ? { tools } : {}),
+    };
+  }
+
+  private async complete(
+    agentId: string,
+    request: LLMRequest,
+    timeout: number
+  ): Promise<LLMResponse> {
+    const provider = this.provider ?? getLLMProvider();
+
+    try {
+      return await withTimeout(provider.complete(request), {
+        timeoutMs: timeout,
+        operation: `LLM call for agent ${agentId}`,
+        onTimeout: () => {
+          logger.error("LLM call timeout", { agentId, timeout });
+        },
+      });
     } catch (error) {
       if (error instanceof TimeoutError) {
         logger.error("LLM call timed out", {
           agentId,
+          provider: provider.name,
           timeout,
           operation: error.operation,
         });
@@ -73,6 +223,13 @@ export class AgentLLM {
       throw error;
     }
   }
+
+  private buildPrompt(agentId: string, prompt: string, userInput: string) {
+    const memoryContext = memoryStore.get(agentId).join("\n");
+    return `${
+      memoryContext ? "Previous context:\n" + memoryContext + "\n\n" : ""
+    }${prompt}\n\nUser input: ${userInput}`;
+  }
 }
 
 export const agentLLM = new AgentLLM();
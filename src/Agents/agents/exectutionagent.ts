@@ -4,27 +4,64 @@ import { ToolResult } from "../registry/ToolMetadata";
 import { memoryStore } from "../memory/memory";
 import { responseAgent } from "./responseagent";
 import logger from "../../config/logger";
-import { withTimeout, TimeoutError } from "../../utils/timeout";
+import {
+  withTimeout,
+  TimeoutError,
+  CancellationError,
+  throwIfCancelled,
+} from "../../utils/timeout";
 import config from "../../config/config";
+import { randomUUID } from "crypto";
 export class ExecutionAgent {
-  async run(plan: WorkflowPlan, userId: string, input: string, timeoutMs?: number) {
+  /**
+   * Run a workflow. Tools receive a signal that is aborted when `signal` is
+   * aborted or the execution times out, so no step keeps running afterwards.
+   */
+  async run(
+    plan: WorkflowPlan,
+    userId: string,
+    input: string,
+    timeoutMs?: number,
+    signal?: AbortSignal,
+    traceId: string = randomUUID()
+  ) {
     const timeout = timeoutMs || config.agent.timeouts.agentExecution;
     const startTime = Date.now();
+    const controller = new AbortController();
+    const abortRun = () => controller.abort();
+    if (signal?.aborted) controller.abort();
+    signal?.addEventListener("abort", abortRun, { once: true });
 
     logger.info("Starting agent execution", { userId, timeout, stepCount: plan.workflow.length });
 
     try {
       return await withTimeout(
-        this.executeWorkflow(plan, userId, input, startTime, timeout),
+        this.executeWorkflow(
+          plan,
+          userId,
+          input,
+          startTime,
+          timeout,
+          controller.signal,
+          traceId
+        ),
         {
           timeoutMs: timeout,
           operation: `Agent execution for user ${userId}`,
           onTimeout: () => {
             logger.error("Agent execution timeout", { userId, timeout, elapsed: Date.now() - startTime });
+            controller.abort();
           },
         }
       );
     } catch (error) {
+      if (error instanceof CancellationError) {
+        logger.warn("Agent execution cancelled", { userId });
+        return {
+          success: false,
+          error: "Agent execution was cancelled",
+        };
+      }
       if (error instanceof TimeoutError) {
         logger.error("Agent execution timed out", { userId, timeout });
         return {
@@ -33,6 +70,8 @@ export class ExecutionAgent {
         };
       }
       throw error;
+    } finally {
+      signal?.removeEventListener("abort", abortRun);
     }
   }
 
@@ -41,11 +80,15 @@ export class ExecutionAgent {
     userId: string,
     input: string,
     startTime: number,
-    totalTimeout: number
+    totalTimeout: number,
+    signal: AbortSignal,
+    traceId: string
   ) {
     const results: ToolResult[] = [];
 
     for (const step of plan.workflow) {
+      throwIfCancelled(signal, "workflow_execution");
+
       const elapsed = Date.now() - startTime;
       const remainingTime = totalTimeout - elapsed;
 
@@ -63,7 +106,8 @@ export class ExecutionAgent {
           step.action,
           step.payload,
           userId,
-          Math.min(remainingTime, config.agent.timeouts.toolExecution)
+          Math.min(remainingTime, config.agent.timeouts.toolExecution),
+          signal
         );
         logger.info("Tool execution completed", { traceId, action: step.action, status: result.status, userId });
         results.push(result);
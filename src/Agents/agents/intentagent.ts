@@ -3,6 +3,8 @@ import { executionAgent } from "./exectutionagent";
 import { agentLLM } from "../agent";
 import { promptGenerator } from "../registry/PromptGenerator";
 import { toolAutoDiscovery } from "../registry/ToolAutoDiscovery";
+import { toolRegistry } from "../registry/ToolRegistry";
+import { toAnthropicTools } from "../registry/ToolSchema";
 import { WorkflowPlan, WorkflowStep } from "../types";
 import { memoryStore } from "../memory/memory";
 import { parseSorobanIntent } from "../planner/sorobanIntent";
@@ -11,8 +13,13 @@ import { randomUUID } from "crypto";
 
 export class IntentAgent {
   private initialized = false;
+  private readonly MAX_TURNS = 5;
 
-  async handle(input: string, userId: string) {
+  /**
+   * Plan and run the user's request. Aborting `signal`, e.g. when the client
+   * disconnects, stops the tools of the running workflow.
+   */
+  async handle(input: string, userId: string, signal?: AbortSignal) {
     const traceId = randomUUID();
     logger.info("Intent agent started", { traceId, userId, input });
 
@@ -33,7 +40,14 @@ export class IntentAgent {
       logger.warn("Empty workflow", { traceId, userId });
       return { success: false, error: "Could not determine workflow" };
     }
-    return executionAgent.run(workflow, userId, input, traceId);
+    return executionAgent.run(
+      workflow,
+      userId,
+      input,
+      undefined,
+      signal,
+      traceId
+    );
   }
 
   private async planWorkflow(
@@ -62,10 +76,26 @@ export class IntentAgent {
         .replace("{{USER_INPUT}}", input)
         .replace("{{USER_ID}}", userId);
 
-      const parsed = await agentLLM.callLLM(userId, prompt, "", true, traceId);
-      const steps: WorkflowStep[] = Array.isArray(parsed?.workflow)
-        ? parsed.workflow
-        : [];
+      let plannedSteps = 0;
+      const response = await agentLLM.callLLMWithTools(
+        userId,
+        prompt,
+        "",
+        toAnthropicTools(toolRegistry.getToolMetadata()),
+        {
+          agent: "intent",
+          maxTurns: this.MAX_TURNS,
+          onToolUse: async (calls) =>
+            calls.map((call) => ({
+              toolUseId: call.id,
+              content: `Queued as step ${++plannedSteps}`,
+            })),
+        }
+      );
+      const steps: WorkflowStep[] = response.calls.map((call) => ({
+        action: call.name,
+        payload: call.input,
+      }));
 
       if (promptVersionId) {
         const { promptVersionService } = await import(
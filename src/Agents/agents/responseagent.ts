@@ -1,28 +1,39 @@
-import { ToolResult} from "../types";
+import { ToolResult } from "../types";
 import { agentLLM } from "../agent";
 import { promptGenerator } from "../registry/PromptGenerator";
+import logger from "../../config/logger";
 
 class ResponseAgent {
-  async format(workflow: ToolResult[], userId: string, userInput: string, traceId: string) {
-    const responsePrompt = promptGenerator.generateResponsePrompt();
+  async format(
+    workflow: ToolResult[],
+    userId: string,
+    userInput: string,
+    traceId?: string
+  ) {
+    const startTime = Date.now();
+    let promptVersionId: string | undefined;
+    logger.debug("Formatting workflow response", {
+      traceId,
+      userId,
+      steps: workflow.length,
+    });
 
     try {
-      const promptVersion = await promptGenerator.generateResponsePrompt();
-      promptVersionId = (promptVersion as any).id;
-
-    const response = await agentLLM.callLLM(userId, prompt, userInput, true, traceId);
+      const responsePrompt = await promptGenerator.generateResponsePrompt();
+      promptVersionId = (responsePrompt as unknown as { id?: string }).id;
 
       const prompt = responsePrompt
         .replace("{{WORKFLOW_RESULTS}}", JSON.stringify(workflow, null, 2))
         .replace("{{USER_INPUT}}", userInput)
         .replace("{{USER_ID}}", userId);
 
-      const response = await agentLLM.callLLM(userId, prompt, userInput);
+      const response = await agentLLM.callLLM(userId, prompt, userInput, true, {
+        agent: "response",
+      });
 
       if (promptVersionId) {
-        const { promptVersionService } = await import(
-          "../registry/PromptVersionService"
-        );
+        const { promptVersionService } =
+          await import("../registry/PromptVersionService");
         await promptVersionService.trackMetric(
           promptVersionId,
           !!response,
@@ -31,12 +42,11 @@ class ResponseAgent {
         );
       }
 
-      return response;
+      return response as { response: string };
     } catch (err) {
       if (promptVersionId) {
-        const { promptVersionService } = await import(
-          "../registry/PromptVersionService"
-        );
+        const { promptVersionService } =
+          await import("../registry/PromptVersionService");
         await promptVersionService.trackMetric(
           promptVersionId,
           false,
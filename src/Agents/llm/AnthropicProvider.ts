@@ -0,0 +1,57 @@
+import Anthropic from "@anthropic-ai/sdk";
+import type { MessageParam, Tool } from "@anthropic-ai/sdk/resources/messages";
+import config from "../../config/config";
+import {
+  LLMContentBlock,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+} from "./LLMProvider";
+
+const STOP_REASONS: LLMResponse["stopReason"][] = [
+  "end_turn",
+  "tool_use",
+  "max_tokens",
+  "stop_sequence",
+];
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic";
+  private client?: Anthropic;
+
+  constructor(private readonly apiKey: string = config.apiKey) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const message = await this.getClient().messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: request.messages as MessageParam[],
+      ...(request.tools?.length ? { tools: request.tools as Tool[] } : {}),
+    });
+
+    const content: LLMContentBlock[] = [];
+    for (const block of message.content) {
+      if (block.type === "text") {
+        content.push({ type: "text", text: block.text });
+      } else if (block.type === "tool_use") {
+        content.push({
+          type: "tool_use",
+          id: block.id,
+          name: block.name,
+          input: (block.input as Record<string, unknown>) || {},
+        });
+      }
+    }
+
+    const stopReason = STOP_REASONS.find((r) => r === message.stop_reason);
+    return { content, stopReason: stopReason ?? "end_turn" };
+  }
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      this.client = new Anthropic({ apiKey: this.apiKey });
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,79 @@
+export interface LLMTextBlock {
+  type: "text";
+  text: string;
+}
+
+export interface LLMToolUseBlock {
+  type: "tool_use";
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface LLMToolResultBlock {
+  type: "tool_result";
+  tool_use_id: string;
+  content: string;
+  is_error?: boolean;
+}
+
+export type LLMContentBlock =
+  | LLMTextBlock
+  | LLMToolUseBlock
+  | LLMToolResultBlock;
+
+export interface LLMMessage {
+  role: "user" | "assistant";
+  content: string | LLMContentBlock[];
+}
+
+/**
+ * Tool the model may call; `input_schema` is a JSON Schema object
+ */
+export interface LLMTool {
+  name: string;
+  description: string;
+  input_schema: {
+    type: "object";
+    properties?: Record<string, unknown>;
+    required?: string[];
+    [key: string]: unknown;
+  };
+}
+
+export interface LLMRequest {
+  /** Agent making the call, e.g. "intent" or "planner" */
+  agent: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  messages: LLMMessage[];
+  tools?: LLMTool[];
+}
+
+export interface LLMResponse {
+  content: LLMContentBlock[];
+  stopReason: "end_turn" | "tool_use" | "max_tokens" | "stop_sequence";
+}
+
+/**
+ * Backend that turns a conversation into the model's next message
+ */
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+/**
+ * Text of the first user message, which carries the prompt and user input
+ */
+export function getPromptText(request: LLMRequest): string {
+  const message = request.messages.find((m) => m.role === "user");
+  if (!message) return "";
+  if (typeof message.content === "string") return message.content;
+
+  return message.content
+    .filter((block): block is LLMTextBlock => block.type === "text")
+    .map((block) => block.text)
+    .join("\n");
+}
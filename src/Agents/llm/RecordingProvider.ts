@@ -0,0 +1,39 @@
+import fs from "fs";
+import path from "path";
+import logger from "../../config/logger";
+import { LLMProvider, LLMRequest, LLMResponse } from "./LLMProvider";
+import { LLMFixture } from "./ScriptedProvider";
+
+/**
+ * Passes requests through to another provider and records each response as
+ * a fixture the scripted provider can replay. Fixtures are written to
+ * `filePath` after every call when one is given.
+ */
+export class RecordingProvider implements LLMProvider {
+  readonly name = "recording";
+  readonly fixtures: LLMFixture[] = [];
+
+  constructor(
+    private readonly provider: LLMProvider,
+    private readonly filePath?: string
+  ) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.provider.complete(request);
+    this.fixtures.push({ agent: request.agent, response });
+
+    if (this.filePath) {
+      this.save(this.filePath);
+    }
+    return response;
+  }
+
+  save(filePath: string): void {
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(this.fixtures, null, 2));
+    } catch (error) {
+      logger.error("Failed to save LLM fixtures", { filePath, error });
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import fs from "fs";
+import {
+  getPromptText,
+  LLMContentBlock,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMToolUseBlock,
+} from "./LLMProvider";
+
+export type ScriptedContentBlock =
+  | Exclude<LLMContentBlock, LLMToolUseBlock>
+  | (Omit<LLMToolUseBlock, "id"> & { id?: string });
+
+export interface ScriptedResponse {
+  content: ScriptedContentBlock[];
+  /** Defaults to "tool_use" when the content calls a tool, else "end_turn" */
+  stopReason?: LLMResponse["stopReason"];
+}
+
+export interface LLMFixture {
+  /** Only answer requests from this agent */
+  agent?: string;
+  /** Only answer requests whose prompt contains this text or matches it */
+  match?: string | RegExp;
+  /** Plain text reply or a full response */
+  response: string | ScriptedResponse;
+  /** Answer every matching request instead of only the first */
+  repeat?: boolean;
+}
+
+export class ScriptedProviderError extends Error {
+  constructor(public readonly request: LLMRequest) {
+    super(`No scripted LLM response for agent "${request.agent}"`);
+    this.name = "ScriptedProviderError";
+  }
+}
+
+/**
+ * Deterministic provider that replays fixture responses instead of calling a
+ * model. Each request is answered by the first unused fixture whose agent and
+ * match fit it, so a conversation plays back in the order it was scripted.
+ * Requests are kept in `requests` for assertions.
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly name = "scripted";
+  readonly requests: LLMRequest[] = [];
+  private fixtures: Array<{ fixture: LLMFixture; used: boolean }> = [];
+  private toolUseCounter = 0;
+
+  constructor(fixtures: LLMFixture[] = []) {
+    this.add(...fixtures);
+  }
+
+  /**
+   * Load fixtures saved as JSON, e.g. by the recording provider
+   */
+  static fromFile(filePath: string): ScriptedProvider {
+    const fixtures = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    if (!Array.isArray(fixtures)) {
+      throw new Error(`LLM fixture file ${filePath} must contain an array`);
+    }
+    return new ScriptedProvider(fixtures);
+  }
+
+  add(...fixtures: LLMFixture[]): this {
+    this.fixtures.push(
+      ...fixtures.map((fixture) => ({ fixture, used: false }))
+    );
+    return this;
+  }
+
+  /**
+   * Fixtures that have not answered a request yet, excluding repeating ones
+   */
+  pending(): LLMFixture[] {
+    return this.fixtures
+      .filter((entry) => !entry.used && !entry.fixture.repeat)
+      .map((entry) => entry.fixture);
+  }
+
+  reset(): void {
+    this.fixtures = [];
+    this.requests.length = 0;
+    this.toolUseCounter = 0;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    // Callers keep appending to the same messages array between turns
+    this.requests.push({
+      ...request,
+      messages: JSON.parse(JSON.stringify(request.messages)),
+    });
+
+    const prompt = getPromptText(request);
+    const entry = this.fixtures.find(
+      ({ fixture, used }) =>
+        (!used || fixture.repeat) &&
+        (!fixture.agent || fixture.agent === request.agent) &&
+        this.matches(fixture.match, prompt)
+    );
+    if (!entry) {
+      throw new ScriptedProviderError(request);
+    }
+
+    entry.used = true;
+    return this.toResponse(entry.fixture.response);
+  }
+
+  private matches(match: LLMFixture["match"], prompt: string): boolean {
+    if (match === undefined) return true;
+    return typeof match === "string"
+      ? prompt.includes(match)
+      : match.test(prompt);
+  }
+
+  private toResponse(scripted: LLMFixture["response"]): LLMResponse {
+    if (typeof scripted === "string") {
+      return {
+        content: [{ type: "text", text: scripted }],
+        stopReason: "end_turn",
+      };
+    }
+
+    const content = scripted.content.map(
+      (block): LLMContentBlock =>
+        block.type === "tool_use"
+          ? {
+              ...block,
+              id: block.id ?? `toolu_scripted_${++this.toolUseCounter}`,
+            }
+          : block
+    );
+    const callsTool = content.some((block) => block.type === "tool_use");
+
+    return {
+      content,
+      stopReason: scripted.stopReason ?? (callsTool ? "tool_use" : "end_turn"),
+    };
+  }
+}
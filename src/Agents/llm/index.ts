@@ -0,0 +1,57 @@
+import path from "path";
+import config from "../../config/config";
+import { AnthropicProvider } from "./AnthropicProvider";
+import { LLMProvider } from "./LLMProvider";
+import { RecordingProvider } from "./RecordingProvider";
+import { ScriptedProvider } from "./ScriptedProvider";
+
+export * from "./LLMProvider";
+export { AnthropicProvider } from "./AnthropicProvider";
+export { RecordingProvider } from "./RecordingProvider";
+export { ScriptedProvider, ScriptedProviderError } from "./ScriptedProvider";
+export type {
+  LLMFixture,
+  ScriptedResponse,
+  ScriptedContentBlock,
+} from "./ScriptedProvider";
+
+let activeProvider: LLMProvider | undefined;
+
+export function createLLMProvider(
+  name: string = config.agent.llm.provider
+): LLMProvider {
+  const fixturesPath = path.resolve(
+    process.cwd(),
+    config.agent.llm.fixturesPath
+  );
+
+  switch (name) {
+    case "anthropic":
+      return new AnthropicProvider();
+    case "scripted":
+      return ScriptedProvider.fromFile(fixturesPath);
+    case "recording":
+      return new RecordingProvider(new AnthropicProvider(), fixturesPath);
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
+
+/**
+ * Provider used by agents that were not given one, created from config on
+ * first use
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createLLMProvider();
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the shared provider, e.g. with a ScriptedProvider in tests. Pass
+ * nothing to go back to the configured provider.
+ */
+export function setLLMProvider(provider?: LLMProvider): void {
+  activeProvider = provider;
+}
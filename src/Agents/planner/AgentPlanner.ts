@@ -1,13 +1,25 @@
 import { agentLLM } from "../agent";
 import { toolRegistry } from "../registry/ToolRegistry";
+import { toAnthropicTools } from "../registry/ToolSchema";
 import { WorkflowPlan, WorkflowStep } from "../types";
 import { parseSorobanIntent } from "./sorobanIntent";
 import { HashedPlan, planHashService } from "./planHash";
+import {
+  PlanPolicyEngine,
+  planPolicyEngine,
+  PolicyViolation,
+} from "./planPolicy";
+import {
+  PlanRiskAssessment,
+  PlanRiskAssessor,
+  planRiskAssessor,
+} from "./planRisk";
 import logger from "../../config/logger";
 
 export interface PlannerContext {
   userId: string;
   userInput: string;
+  userRole?: string;
   availableBalance?: Record<string, number>;
   constraints?: PlannerConstraints;
 }
@@ -36,17 +48,47 @@ export interface ExecutionPlan {
   riskLevel: "low" | "medium" | "high";
   requiresApproval: boolean;
   summary: string;
+  warnings?: PolicyViolation[];
+  risk?: PlanRiskAssessment;
 }
 
+/**
+ * Workflow step as returned by the planner LLM, optionally declaring the
+ * 1-based step numbers it depends on
+ */
+type PlannedWorkflowStep = WorkflowStep & { dependsOn?: unknown };
+
+const DEPENDS_ON_SCHEMA = {
+  type: "array",
+  items: { type: "integer", minimum: 1 },
+  description: "1-based numbers of earlier steps that must succeed first",
+};
+
 export interface PlanValidation {
   valid: boolean;
-  errors: string[];
-  warnings: string[];
+  errors: PolicyViolation[];
+  warnings: PolicyViolation[];
+}
+
+/**
+ * Thrown when a generated plan violates one or more plan policies
+ */
+export class PlanValidationError extends Error {
+  constructor(public readonly validation: PlanValidation) {
+    super(
+      `Invalid plan: ${validation.errors.map((e) => e.message).join(", ")}`
+    );
+    this.name = "PlanValidationError";
+  }
 }
 
 export class AgentPlanner {
-  private readonly MAX_STEPS = 10;
-  private readonly HIGH_RISK_THRESHOLD = 5;
+  private readonly MAX_PLANNING_TURNS = 10;
+
+  constructor(
+    private readonly policyEngine: PlanPolicyEngine = planPolicyEngine,
+    private readonly riskAssessor: PlanRiskAssessor = planRiskAssessor
+  ) {}
 
   async createPlan(context: PlannerContext): Promise<HashedPlan> {
     logger.info("Creating execution plan", {
@@ -56,20 +98,24 @@ export class AgentPlanner {
 
     try {
       const sorobanPlan = parseSorobanIntent(context.userInput);
-      if (sorobanPlan) {
-        return this.createHashedPlan(
-          this.convertToExecutionPlan(sorobanPlan, context)
-        );
-      }
-
-      const workflowPlan = await this.analyzeWithLLM(context);
+      const workflowPlan = sorobanPlan || (await this.analyzeWithLLM(context));
       const executionPlan = this.convertToExecutionPlan(workflowPlan, context);
-      const validation = this.validatePlan(executionPlan);
+      const validation = this.validatePlan(executionPlan, context);
 
       if (!validation.valid) {
-        throw new Error(`Invalid plan: ${validation.errors.join(", ")}`);
+        throw new PlanValidationError(validation);
+      }
+      if (validation.warnings.length > 0) {
+        executionPlan.warnings = validation.warnings;
       }
 
+      const risk = await this.riskAssessor.assessPlan(executionPlan, {
+        userRole: context.userRole,
+      });
+      executionPlan.risk = risk;
+      executionPlan.riskLevel = risk.level;
+      executionPlan.requiresApproval = risk.requiresApproval;
+
       const hashedPlan = this.createHashedPlan(executionPlan);
 
       logger.info("Execution plan created successfully", {
@@ -90,40 +136,62 @@ export class AgentPlanner {
   }
 
   private async analyzeWithLLM(context: PlannerContext): Promise<WorkflowPlan> {
-    const availableTools = toolRegistry.getToolMetadata();
-    const prompt = this.buildPlannerPrompt(availableTools);
-    const response = await agentLLM.callLLM(
+    const tools = toAnthropicTools(toolRegistry.getToolMetadata()).map(
+      (tool) => ({
+        ...tool,
+        input_schema: {
+          ...tool.input_schema,
+          properties: {
+            ...(tool.input_schema.properties as Record<string, unknown>),
+            dependsOn: DEPENDS_ON_SCHEMA,
+          },
+        },
+      })
+    );
+
+    let plannedSteps = 0;
+    const response = await agentLLM.callLLMWithTools(
       context.userId,
-      prompt,
+      this.buildPlannerPrompt(),
       context.userInput,
-      true
+      tools,
+      {
+        agent: "planner",
+        maxTurns: this.MAX_PLANNING_TURNS,
+        onToolUse: async (calls) =>
+          calls.map((call) => ({
+            toolUseId: call.id,
+            content: `Planned as step ${++plannedSteps}`,
+          })),
+      }
     );
 
-    if (!response.workflow || !Array.isArray(response.workflow)) {
-      throw new Error("Invalid LLM response: missing workflow array");
+    if (response.calls.length === 0) {
+      throw new Error("Invalid LLM response: no tool calls");
     }
 
-    return response as WorkflowPlan;
+    return {
+      workflow: response.calls.map(
+        ({ name, input: { dependsOn, ...payload } }): PlannedWorkflowStep => ({
+          action: name,
+          payload,
+          dependsOn,
+        })
+      ),
+    };
   }
 
-  private buildPlannerPrompt(
-    availableTools: Array<{ name: string; description: string }>
-  ): string {
-    const toolDescriptions = availableTools
-      .map((tool) => `- ${tool.name}: ${tool.description}`)
-      .join("\n");
-
+  private buildPlannerPrompt(): string {
     return `You are a DeFi operation planner. Break down the user's request into executable steps.
 
-Available Tools:
-${toolDescriptions}
+Plan each step by calling the tool that performs it, one call per step, in
+execution order. Tools are not executed while planning; each call is
+acknowledged with its step number. Stop once the request is fully covered.
 
-Output JSON format:
-{
-  "workflow": [
-    { "action": "tool_name", "payload": { "param": "value" } }
-  ]
-}`;
+Steps run in parallel unless they declare dependencies. Use "dependsOn" to list
+the 1-based numbers of earlier steps that must succeed first (e.g. a swap that
+needs a balance check). Independent steps such as price or balance checks should
+use an empty list.`;
   }
 
   private convertToExecutionPlan(
@@ -137,7 +205,8 @@ Output JSON format:
       payload: step.payload,
       description: this.generateStepDescription(step),
       estimatedDuration: 3000,
-      dependencies: [],
+      dependencies: this.resolveDependencies(step, index),
+      rollbackAction: this.deriveRollbackAction(step),
     }));
 
     return {
@@ -145,29 +214,55 @@ Output JSON format:
       steps,
       totalSteps: steps.length,
       estimatedDuration: steps.length * 3000,
-      riskLevel: this.assessRiskLevel(steps),
-      requiresApproval: steps.length > 3,
+      // Assumed until the plan has been risk assessed
+      riskLevel: "high",
+      requiresApproval: true,
       summary: `Plan for "${context.userInput}"`,
     };
   }
 
-  private generateStepDescription(step: WorkflowStep): string {
-    return `Execute ${step.action}`;
+  /**
+   * Use the dependencies declared by the LLM when they only reference earlier
+   * steps; otherwise fall back to depending on the previous step.
+   */
+  private resolveDependencies(
+    step: PlannedWorkflowStep,
+    index: number
+  ): number[] {
+    const declared = step.dependsOn;
+    if (
+      Array.isArray(declared) &&
+      declared.every((dep) => Number.isInteger(dep) && dep >= 1 && dep <= index)
+    ) {
+      return Array.from(new Set(declared as number[])).sort((a, b) => a - b);
+    }
+    return index > 0 ? [index] : [];
   }
 
-  private assessRiskLevel(steps: PlanStep[]): "low" | "medium" | "high" {
-    if (steps.length >= 5) return "high";
-    if (steps.length >= 2) return "medium";
-    return "low";
+  private deriveRollbackAction(step: WorkflowStep): WorkflowStep | undefined {
+    const tool = toolRegistry.getTool(step.action);
+    return tool?.getRollbackAction?.(step.payload) || undefined;
   }
 
-  private validatePlan(plan: ExecutionPlan): PlanValidation {
-    const errors: string[] = [];
-    const warnings: string[] = [];
+  private generateStepDescription(step: WorkflowStep): string {
+    return `Execute ${step.action}`;
+  }
 
-    if (plan.totalSteps === 0) {
-      errors.push("Plan has no steps");
-    }
+  /**
+   * Evaluate the plan against the registered policies, enforcing the
+   * caller's constraints and available balances when given
+   */
+  private validatePlan(
+    plan: ExecutionPlan,
+    context: Partial<PlannerContext> = {}
+  ): PlanValidation {
+    const violations = this.policyEngine.evaluate({
+      plan,
+      availableBalance: context.availableBalance,
+      constraints: context.constraints,
+    });
+    const errors = violations.filter((v) => v.severity === "error");
+    const warnings = violations.filter((v) => v.severity === "warning");
 
     return { valid: errors.length === 0, errors, warnings };
   }
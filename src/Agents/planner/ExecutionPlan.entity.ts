@@ -0,0 +1,100 @@
+import {
+  Entity,
+  PrimaryColumn,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from "typeorm";
+import { ToolResult } from "../registry/ToolMetadata";
+import { HashedPlan } from "./planHash";
+
+export type PlanRunStatus =
+  | "pending"
+  | "running"
+  | "success"
+  | "partial"
+  | "failed"
+  | "cancelled";
+
+export type StepRunStatus =
+  | "running"
+  | "success"
+  | "failed"
+  | "skipped"
+  | "pending";
+
+/**
+ * Persisted execution plan and its latest run state
+ */
+@Entity("execution_plan")
+@Index(["userId", "createdAt"])
+export class ExecutionPlanRecord {
+  @PrimaryColumn({ type: "varchar", length: 64 })
+  planId!: string;
+
+  @Column({ type: "varchar" })
+  userId!: string;
+
+  @Column({ type: "varchar", length: 64 })
+  planHash!: string;
+
+  @Column({ type: "jsonb" })
+  plan!: HashedPlan;
+
+  @Column({ type: "varchar", length: 20, default: "pending" })
+  status!: PlanRunStatus;
+
+  @Column({ type: "int", default: 0 })
+  completedSteps!: number;
+
+  @Column({ type: "text", nullable: true })
+  error?: string | null;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
+
+/**
+ * Persisted outcome of a single plan step, updated on every transition
+ */
+@Entity("plan_step_result")
+@Index(["planId", "stepNumber"], { unique: true })
+export class StepResultRecord {
+  @PrimaryGeneratedColumn("uuid")
+  id!: string;
+
+  @Column({ type: "varchar", length: 64 })
+  planId!: string;
+
+  @Column({ type: "int" })
+  stepNumber!: number;
+
+  @Column({ type: "varchar" })
+  action!: string;
+
+  @Column({ type: "varchar", length: 20 })
+  status!: StepRunStatus;
+
+  @Column({ type: "jsonb", nullable: true })
+  result?: ToolResult | null;
+
+  @Column({ type: "text", nullable: true })
+  error?: string | null;
+
+  @Column({ type: "int", default: 0 })
+  duration!: number;
+
+  @Column({ type: "timestamp", nullable: true })
+  completedAt?: Date | null;
+
+  @CreateDateColumn()
+  startedAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
@@ -1,20 +1,48 @@
 import { toolRegistry } from "../registry/ToolRegistry";
 import { ToolResult } from "../registry/ToolMetadata";
+import { WorkflowStep } from "../types";
 import { ExecutionPlan, PlanStep } from "./AgentPlanner";
 import { HashedPlan, planHashService } from "./planHash";
+import { buildPlanGraph, validatePlanGraph } from "./planGraph";
+import { planStore } from "./planStore";
 import logger from "../../config/logger";
+import {
+  createSimulationSession,
+  runInSimulation,
+  SimulationSession,
+  SimulationSummary,
+  summarizeSimulation,
+} from "../../simulation/simulationContext";
 
 export interface ExecutionResult {
   planId: string;
-  status: "success" | "partial" | "failed";
+  status: "success" | "partial" | "failed" | "cancelled";
   completedSteps: number;
   totalSteps: number;
   stepResults: StepResult[];
   error?: string;
   duration: number;
+  rollback?: RollbackResult;
 }
 
 export interface StepResult {
+  stepNumber: number;
+  action: string;
+  /**
+   * `pending` when the tool is waiting on the user, e.g. for a signature.
+   * Such a step did not happen yet: its dependents are skipped and it is
+   * neither rolled back nor re-run on resume.
+   */
+  status: "success" | "failed" | "skipped" | "pending";
+  result?: ToolResult;
+  error?: string;
+  duration: number;
+  timestamp: string;
+  /** What the step did to the local chain when run in simulate mode */
+  simulation?: SimulationSummary;
+}
+
+export interface RollbackStepResult {
   stepNumber: number;
   action: string;
   status: "success" | "failed" | "skipped";
@@ -24,19 +52,52 @@ export interface StepResult {
   timestamp: string;
 }
 
+export interface RollbackResult {
+  planId: string;
+  status: "success" | "partial" | "failed";
+  rolledBackSteps: number;
+  stepResults: RollbackStepResult[];
+  duration: number;
+}
+
+export interface ExecutionTimeout {
+  stepNumber?: number;
+  action?: string;
+  error: string;
+}
+
 export interface ExecutionOptions {
   stopOnError?: boolean;
   dryRun?: boolean;
   timeout?: number;
+  maxConcurrency?: number;
+  rollbackOnPartial?: boolean;
+  persist?: boolean;
+  retries?: number;
+  retryDelayMs?: number;
   onStepComplete?: (result: StepResult) => void;
   onStepStart?: (step: PlanStep) => void;
+  onStepRetry?: (step: PlanStep, attempt: number, error: string) => void;
+  onTimeout?: (timeout: ExecutionTimeout) => void;
+  signal?: AbortSignal;
   verifyHash?: boolean;
   publicKey?: string;
   strictMode?: boolean;
+  /** Run every step against the local chain instead of the live network */
+  simulate?: boolean;
+}
+
+interface StepRunOutcome {
+  stepResults: StepResult[];
+  error?: string;
+  cancelled?: boolean;
 }
 
 export class PlanExecutor {
   private readonly DEFAULT_TIMEOUT = 60000;
+  private readonly DEFAULT_CONCURRENCY = 4;
+  private readonly DEFAULT_RETRY_DELAY = 1000;
+  private readonly activeExecutions = new Map<string, AbortController>();
 
   async executePlan(
     plan: ExecutionPlan,
@@ -44,14 +105,13 @@ export class PlanExecutor {
     options: ExecutionOptions = {}
   ): Promise<ExecutionResult> {
     const startTime = Date.now();
-    const stepResults: StepResult[] = [];
-    let completedSteps = 0;
 
     logger.info("Starting plan execution", {
       planId: plan.planId,
       userId,
       totalSteps: plan.totalSteps,
       dryRun: options.dryRun || false,
+      simulate: options.simulate || false,
       hashVerification: options.verifyHash || false,
     });
 
@@ -65,73 +125,348 @@ export class PlanExecutor {
       }
     }
 
+    // Rollbacks run inside the plan's session so they are simulated too
+    if (options.simulate) {
+      return runInSimulation(createSimulationSession(userId), () =>
+        this.run(plan, userId, options, startTime, [])
+      );
+    }
+
+    return this.run(plan, userId, options, startTime, []);
+  }
+
+  /**
+   * Resume a persisted plan, re-running every step that has not succeeded.
+   * The stored plan is re-verified against its hash before anything runs.
+   */
+  async resume(
+    planId: string,
+    options: ExecutionOptions = {}
+  ): Promise<ExecutionResult> {
+    const startTime = Date.now();
+    const record = await planStore.getPlan(planId);
+
+    if (!record) {
+      throw new Error(`Plan not found: ${planId}`);
+    }
+
+    const plan = record.plan;
+    const verificationResult = this.verifyPlanIntegrity(plan, options);
+    if (plan.planHash !== record.planHash) {
+      verificationResult.errors.push("Stored plan hash does not match plan");
+    }
+    if (verificationResult.errors.length > 0) {
+      throw new Error(
+        `Plan verification failed: ${verificationResult.errors.join(", ")}`
+      );
+    }
+
+    const previousResults = (await planStore.getStepResults(planId)).filter(
+      (r) => r.status === "success" || r.status === "pending"
+    );
+
+    logger.info("Resuming plan execution", {
+      planId,
+      userId: record.userId,
+      previousStatus: record.status,
+      completedSteps: previousResults.filter((r) => r.status === "success")
+        .length,
+      totalSteps: plan.totalSteps,
+    });
+
+    return this.run(
+      plan,
+      record.userId,
+      { ...options, persist: true },
+      startTime,
+      previousResults
+    );
+  }
+
+  /**
+   * Cancel an in-flight execution. Running tools are signalled to stop and
+   * steps that have not started are skipped. Returns false when the plan is
+   * not executing in this process.
+   */
+  cancel(planId: string): boolean {
+    const controller = this.activeExecutions.get(planId);
+    if (!controller) return false;
+
+    logger.info("Cancelling plan execution", { planId });
+    controller.abort();
+    return true;
+  }
+
+  isExecuting(planId: string): boolean {
+    return this.activeExecutions.has(planId);
+  }
+
+  private async run(
+    plan: ExecutionPlan,
+    userId: string,
+    options: ExecutionOptions,
+    startTime: number,
+    previousResults: StepResult[]
+  ): Promise<ExecutionResult> {
+    const graphErrors = validatePlanGraph(plan.steps);
+    if (graphErrors.length > 0) {
+      throw new Error(`Invalid plan dependencies: ${graphErrors.join(", ")}`);
+    }
+
+    if (options.persist) {
+      const hashedPlan = plan as HashedPlan;
+      await planStore.savePlan(
+        hashedPlan.planHash
+          ? hashedPlan
+          : { ...plan, planHash: planHashService.generatePlanHash(plan) },
+        userId
+      );
+      await planStore.updatePlanStatus(plan.planId, "running", {
+        error: null,
+      });
+    }
+
+    const controller = new AbortController();
+    const abortRun = () => controller.abort();
+    if (options.signal?.aborted) controller.abort();
+    options.signal?.addEventListener("abort", abortRun, { once: true });
+    this.activeExecutions.set(plan.planId, controller);
+
+    let outcome: StepRunOutcome;
     try {
-      for (const step of plan.steps) {
+      outcome = await this.runSteps(
+        plan,
+        userId,
+        { ...options, signal: controller.signal },
+        startTime,
+        previousResults
+      );
+    } finally {
+      options.signal?.removeEventListener("abort", abortRun);
+      if (this.activeExecutions.get(plan.planId) === controller) {
+        this.activeExecutions.delete(plan.planId);
+      }
+    }
+
+    const { stepResults, error, cancelled } = outcome;
+    const completedSteps = stepResults.filter(
+      (r) => r.status === "success"
+    ).length;
+
+    const executionResult: ExecutionResult = {
+      planId: plan.planId,
+      status: cancelled
+        ? "cancelled"
+        : error
+          ? "failed"
+          : this.determineExecutionStatus(completedSteps, plan.totalSteps),
+      completedSteps,
+      totalSteps: plan.totalSteps,
+      stepResults,
+      ...(error ? { error } : {}),
+      duration: Date.now() - startTime,
+    };
+
+    if (
+      executionResult.status === "partial" &&
+      options.rollbackOnPartial &&
+      !options.dryRun
+    ) {
+      executionResult.rollback = await this.rollback(
+        plan,
+        executionResult,
+        userId
+      );
+      executionResult.duration = Date.now() - startTime;
+    }
+
+    if (options.persist) {
+      await this.persist("plan status", () =>
+        planStore.updatePlanStatus(plan.planId, executionResult.status, {
+          completedSteps,
+          error: executionResult.error ?? null,
+        })
+      );
+    }
+
+    return executionResult;
+  }
+
+  /**
+   * Schedule plan steps over the dependency graph.
+   * Steps whose dependencies have all succeeded run concurrently up to
+   * `maxConcurrency`; dependents of failed or skipped steps are skipped.
+   * Steps with a successful previous result are not run again.
+   */
+  private async runSteps(
+    plan: ExecutionPlan,
+    userId: string,
+    options: ExecutionOptions,
+    startTime: number,
+    previousResults: StepResult[]
+  ): Promise<StepRunOutcome> {
+    const graph = buildPlanGraph(plan.steps);
+    const timeout = options.timeout || this.DEFAULT_TIMEOUT;
+    const concurrency = Math.max(
+      1,
+      options.maxConcurrency || this.DEFAULT_CONCURRENCY
+    );
+
+    const results = new Map<number, StepResult>(
+      previousResults.map((r) => [r.stepNumber, r])
+    );
+    const running = new Map<number, Promise<void>>();
+    let pending = plan.steps.filter((s) => !results.has(s.stepNumber));
+    let haltReason: string | undefined;
+    let error: string | undefined;
+    let cancelled = false;
+
+    const record = async (result: StepResult) => {
+      results.set(result.stepNumber, result);
+      if (options.persist) {
+        await this.persist(`step ${result.stepNumber} result`, () =>
+          planStore.recordStepResult(plan.planId, result)
+        );
+      }
+      if (options.onStepComplete) {
+        options.onStepComplete(result);
+      }
+    };
+
+    const checkCancelled = () => {
+      if (!cancelled && options.signal?.aborted) {
+        cancelled = true;
+        error = "Execution cancelled";
+        haltReason = error;
+      }
+    };
+
+    const blockingDependency = (step: PlanStep): number | undefined =>
+      graph.dependencies.get(step.stepNumber)!.find((dep) => {
+        const result = results.get(dep);
+        return result !== undefined && result.status !== "success";
+      });
+
+    const isReady = (step: PlanStep): boolean =>
+      graph.dependencies
+        .get(step.stepNumber)!
+        .every((dep) => results.get(dep)?.status === "success");
+
+    while (pending.length > 0 || running.size > 0) {
+      checkCancelled();
+
+      if (!haltReason) {
         const elapsed = Date.now() - startTime;
-        const timeout = options.timeout || this.DEFAULT_TIMEOUT;
         if (elapsed > timeout) {
-          throw new Error(`Execution timeout after ${elapsed}ms`);
+          error = `Execution timeout after ${elapsed}ms`;
+          haltReason = error;
+          if (options.onTimeout) {
+            options.onTimeout({ error });
+          }
         }
+      }
 
-        const stepResult = await this.executeStep(step, userId, options);
-        stepResults.push(stepResult);
-
-        if (stepResult.status === "success") {
-          completedSteps++;
-        } else if (
-          stepResult.status === "failed" &&
-          options.stopOnError !== false
-        ) {
-          break;
+      // Skip dependents of unsuccessful steps, cascading through the graph
+      let skippedAny = true;
+      while (skippedAny) {
+        skippedAny = false;
+        for (const step of pending) {
+          const blockedBy = blockingDependency(step);
+          if (blockedBy !== undefined) {
+            pending = pending.filter((s) => s !== step);
+            await record(
+              this.createSkippedResult(
+                step,
+                `Dependency step ${blockedBy} did not succeed`
+              )
+            );
+            skippedAny = true;
+          }
         }
+      }
 
-        if (options.onStepComplete) {
-          options.onStepComplete(stepResult);
+      if (!haltReason) {
+        for (const step of pending) {
+          if (running.size >= concurrency) break;
+          if (!isReady(step)) continue;
+
+          pending = pending.filter((s) => s !== step);
+          running.set(
+            step.stepNumber,
+            this.executeStep(plan, step, userId, options).then(async (result) => {
+              running.delete(step.stepNumber);
+              await record(result);
+              if (
+                result.status === "failed" &&
+                options.stopOnError !== false &&
+                !haltReason
+              ) {
+                haltReason = `Execution stopped after step ${step.stepNumber} failed`;
+              }
+            })
+          );
         }
       }
 
-      const duration = Date.now() - startTime;
-      const status = this.determineExecutionStatus(
-        completedSteps,
-        plan.totalSteps
-      );
+      if (running.size === 0) break;
+      await Promise.race(running.values());
+    }
 
-      return {
-        planId: plan.planId,
-        status,
-        completedSteps,
-        totalSteps: plan.totalSteps,
-        stepResults,
-        duration,
-      };
-    } catch (error) {
-      const duration = Date.now() - startTime;
-      const errorMessage =
-        error instanceof Error ? error.message : "Unknown error";
+    checkCancelled();
 
-      return {
-        planId: plan.planId,
-        status: "failed",
-        completedSteps,
-        totalSteps: plan.totalSteps,
-        stepResults,
-        error: errorMessage,
-        duration,
-      };
+    for (const step of pending) {
+      await record(
+        this.createSkippedResult(
+          step,
+          haltReason || "Dependencies could not be satisfied"
+        )
+      );
+    }
+
+    if (error) {
+      logger.warn("Plan execution halted", { planId: plan.planId, error });
     }
+
+    const stepResults = Array.from(results.values()).sort(
+      (a, b) => a.stepNumber - b.stepNumber
+    );
+
+    return { stepResults, error, ...(cancelled ? { cancelled } : {}) };
+  }
+
+  private createSkippedResult(step: PlanStep, reason: string): StepResult {
+    return {
+      stepNumber: step.stepNumber,
+      action: step.action,
+      status: "skipped",
+      error: reason,
+      duration: 0,
+      timestamp: new Date().toISOString(),
+    };
   }
 
   private async executeStep(
+    plan: ExecutionPlan,
     step: PlanStep,
     userId: string,
     options: ExecutionOptions
   ): Promise<StepResult> {
     const startTime = Date.now();
+    // Each step records its own state changes
+    const session = options.simulate
+      ? createSimulationSession(userId)
+      : undefined;
 
     if (options.onStepStart) {
       options.onStepStart(step);
     }
 
+    if (options.persist) {
+      await this.persist(`step ${step.stepNumber} start`, () =>
+        planStore.recordStepStart(plan.planId, step)
+      );
+    }
+
     try {
       if (options.dryRun) {
         return {
@@ -149,19 +484,29 @@ export class PlanExecutor {
         };
       }
 
-      const result = await toolRegistry.executeTool(
-        step.action,
-        step.payload,
-        userId
-      );
+      const result = session
+        ? await runInSimulation(session, () =>
+            this.executeWithRetries(step, userId, options)
+          )
+        : await this.executeWithRetries(step, userId, options);
 
+      // Tools report most failures, e.g. a rejected transaction, as results
       return {
         stepNumber: step.stepNumber,
         action: step.action,
-        status: "success",
+        status:
+          result.status === "error"
+            ? "failed"
+            : result.status === "pending"
+              ? "pending"
+              : "success",
         result,
+        ...(result.status === "error"
+          ? { error: result.error || "Tool reported an error" }
+          : {}),
         duration: Date.now() - startTime,
         timestamp: new Date().toISOString(),
+        ...this.simulationOf(session),
       };
     } catch (error) {
       const errorMessage =
@@ -174,10 +519,88 @@ export class PlanExecutor {
         error: errorMessage,
         duration: Date.now() - startTime,
         timestamp: new Date().toISOString(),
+        ...this.simulationOf(session),
       };
     }
   }
 
+  private simulationOf(
+    session: SimulationSession | undefined
+  ): Pick<StepResult, "simulation"> {
+    return session ? { simulation: summarizeSimulation(session) } : {};
+  }
+
+  /**
+   * Run a step's tool, retrying failed attempts up to `options.retries` times
+   * with a linear backoff
+   */
+  private async executeWithRetries(
+    step: PlanStep,
+    userId: string,
+    options: ExecutionOptions
+  ): Promise<ToolResult> {
+    const maxAttempts = 1 + Math.max(0, options.retries || 0);
+    const retryDelay = options.retryDelayMs ?? this.DEFAULT_RETRY_DELAY;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await toolRegistry.executeTool(
+          step.action,
+          step.payload,
+          userId,
+          undefined,
+          options.signal
+        );
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+
+        const timedOut = (error as { timedOut?: boolean } | undefined)
+          ?.timedOut;
+        if (timedOut && options.onTimeout) {
+          options.onTimeout({
+            stepNumber: step.stepNumber,
+            action: step.action,
+            error: errorMessage,
+          });
+        }
+
+        if (attempt >= maxAttempts || options.signal?.aborted) {
+          throw error;
+        }
+
+        logger.warn("Retrying plan step", {
+          stepNumber: step.stepNumber,
+          action: step.action,
+          attempt,
+          error: errorMessage,
+        });
+
+        if (options.onStepRetry) {
+          options.onStepRetry(step, attempt, errorMessage);
+        }
+
+        await new Promise((resolve) =>
+          setTimeout(resolve, retryDelay * attempt)
+        );
+      }
+    }
+  }
+
+  /**
+   * Record a state transition without letting a storage failure abort the run
+   */
+  private async persist(
+    operation: string,
+    fn: () => Promise<void>
+  ): Promise<void> {
+    try {
+      await fn();
+    } catch (error) {
+      logger.error("Plan persistence failed", { operation, error });
+    }
+  }
+
   private determineExecutionStatus(
     completedSteps: number,
     totalSteps: number
@@ -230,7 +653,9 @@ export class PlanExecutor {
         });
       }
     } else if (plan.signature && !options.publicKey) {
-      warnings.push("Plan has signature but no public key provided for verification");
+      warnings.push(
+        "Plan has signature but no public key provided for verification"
+      );
     }
 
     // Strict mode validations
@@ -258,14 +683,150 @@ export class PlanExecutor {
     return { valid: errors.length === 0, errors, warnings };
   }
 
+  /**
+   * Compensate completed steps by running their rollback actions in reverse
+   * completion order. Rollback is best effort: a failed compensation is
+   * recorded and the remaining steps are still rolled back.
+   */
   async rollback(
     plan: ExecutionPlan,
-    executionResult: ExecutionResult
-  ): Promise<void> {
+    executionResult: ExecutionResult,
+    userId: string
+  ): Promise<RollbackResult> {
+    const startTime = Date.now();
+    const stepsByNumber = new Map(plan.steps.map((s) => [s.stepNumber, s]));
+
     logger.info("Starting rollback", {
       planId: plan.planId,
       completedSteps: executionResult.completedSteps,
     });
+
+    const completed = executionResult.stepResults
+      .filter((r) => r.status === "success")
+      .sort(
+        (a, b) =>
+          b.timestamp.localeCompare(a.timestamp) || b.stepNumber - a.stepNumber
+      );
+
+    const stepResults: RollbackStepResult[] = [];
+    for (const stepResult of completed) {
+      const step = stepsByNumber.get(stepResult.stepNumber);
+      if (!step) continue;
+      stepResults.push(await this.rollbackStep(step, stepResult, userId));
+    }
+
+    const rolledBackSteps = stepResults.filter(
+      (r) => r.status === "success"
+    ).length;
+    const failedSteps = stepResults.filter((r) => r.status === "failed").length;
+
+    const result: RollbackResult = {
+      planId: plan.planId,
+      status:
+        failedSteps === 0
+          ? "success"
+          : rolledBackSteps > 0
+            ? "partial"
+            : "failed",
+      rolledBackSteps,
+      stepResults,
+      duration: Date.now() - startTime,
+    };
+
+    logger.info("Rollback finished", {
+      planId: plan.planId,
+      status: result.status,
+      rolledBackSteps,
+      failedSteps,
+    });
+
+    return result;
+  }
+
+  private async rollbackStep(
+    step: PlanStep,
+    stepResult: StepResult,
+    userId: string
+  ): Promise<RollbackStepResult> {
+    const startTime = Date.now();
+    const baseResult = {
+      stepNumber: step.stepNumber,
+      action: step.rollbackAction?.action || step.action,
+    };
+
+    if (stepResult.result?.data?.dryRun) {
+      return {
+        ...baseResult,
+        status: "skipped",
+        error: "Step was not executed (dry run)",
+        duration: 0,
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    const rollbackAction = this.resolveRollbackAction(step, stepResult);
+    if (!rollbackAction) {
+      return {
+        ...baseResult,
+        status: "skipped",
+        error: "No compensating action available",
+        duration: 0,
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    try {
+      const result = await toolRegistry.executeTool(
+        rollbackAction.action,
+        rollbackAction.payload,
+        userId
+      );
+
+      if (result.status === "error") {
+        throw new Error(result.error || "Compensating action failed");
+      }
+
+      return {
+        stepNumber: step.stepNumber,
+        action: rollbackAction.action,
+        status: "success",
+        result,
+        duration: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+
+      logger.error("Rollback step failed", {
+        stepNumber: step.stepNumber,
+        action: rollbackAction.action,
+        error: errorMessage,
+      });
+
+      return {
+        stepNumber: step.stepNumber,
+        action: rollbackAction.action,
+        status: "failed",
+        error: errorMessage,
+        duration: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  /**
+   * Prefer an action derived from the actual step result, since amounts
+   * received are only known after execution, then fall back to the plan's
+   * declared rollback action
+   */
+  private resolveRollbackAction(
+    step: PlanStep,
+    stepResult: StepResult
+  ): WorkflowStep | null {
+    const tool = toolRegistry.getTool(step.action);
+    const derived = tool?.getRollbackAction?.(step.payload, stepResult.result);
+    return derived || step.rollbackAction || null;
   }
 }
 
@@ -0,0 +1,239 @@
+import { PlanStep } from "./AgentPlanner";
+import type {
+  ExecutionOptions,
+  ExecutionResult,
+  ExecutionTimeout,
+  StepResult,
+} from "./PlanExecutor";
+import logger from "../../config/logger";
+
+export type ExecutionEventType =
+  | "step_start"
+  | "step_complete"
+  | "step_retry"
+  | "timeout"
+  | "summary";
+
+export interface ExecutionEvent {
+  id: number;
+  executionId: string;
+  type: ExecutionEventType;
+  data: Record<string, unknown>;
+  timestamp: string;
+}
+
+export type ExecutionEventListener = (event: ExecutionEvent) => void;
+
+export type ExecutionHooks = Pick<
+  ExecutionOptions,
+  "onStepStart" | "onStepComplete" | "onStepRetry" | "onTimeout"
+>;
+
+export interface ExecutionSubscription {
+  replay: ExecutionEvent[];
+  finished: boolean;
+  unsubscribe: () => void;
+}
+
+interface ExecutionStream {
+  events: ExecutionEvent[];
+  listeners: Set<ExecutionEventListener>;
+  running: boolean;
+  finished: boolean;
+  evictTimer?: NodeJS.Timeout;
+}
+
+/**
+ * In-memory fan-out of plan execution progress.
+ * Each execution keeps a bounded replay buffer so a client reconnecting with
+ * its last seen event id receives everything it missed. Finished executions
+ * are kept for `retentionMs` before their buffer is dropped.
+ */
+export class ExecutionEventBus {
+  private streams = new Map<string, ExecutionStream>();
+  private nextEventId = 1;
+
+  constructor(
+    private readonly bufferSize = 200,
+    private readonly retentionMs = 10 * 60 * 1000
+  ) {}
+
+  /**
+   * Run an execution while publishing its progress, ending the stream with a
+   * summary event once it settles
+   */
+  async track(
+    executionId: string,
+    execute: (hooks: ExecutionHooks) => Promise<ExecutionResult>
+  ): Promise<ExecutionResult> {
+    const stream = this.open(executionId);
+    stream.events = [];
+    stream.running = true;
+    stream.finished = false;
+    clearTimeout(stream.evictTimer);
+
+    try {
+      const result = await execute(this.createHooks(executionId));
+      this.publish(executionId, "summary", {
+        status: result.status,
+        completedSteps: result.completedSteps,
+        totalSteps: result.totalSteps,
+        duration: result.duration,
+        ...(result.error ? { error: result.error } : {}),
+        ...(result.rollback
+          ? {
+              rollback: {
+                status: result.rollback.status,
+                rolledBackSteps: result.rollback.rolledBackSteps,
+              },
+            }
+          : {}),
+      });
+      return result;
+    } catch (error) {
+      this.publish(executionId, "summary", {
+        status: "failed",
+        error: error instanceof Error ? error.message : "Execution failed",
+      });
+      throw error;
+    } finally {
+      this.finish(executionId);
+    }
+  }
+
+  publish(
+    executionId: string,
+    type: ExecutionEventType,
+    data: Record<string, unknown>
+  ): ExecutionEvent | undefined {
+    const stream = this.streams.get(executionId);
+    if (!stream) return undefined;
+
+    const event: ExecutionEvent = {
+      id: this.nextEventId++,
+      executionId,
+      type,
+      data,
+      timestamp: new Date().toISOString(),
+    };
+
+    stream.events.push(event);
+    if (stream.events.length > this.bufferSize) {
+      stream.events.shift();
+    }
+
+    for (const listener of stream.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error("Execution event listener failed", {
+          executionId,
+          type,
+          error,
+        });
+      }
+    }
+
+    return event;
+  }
+
+  /**
+   * Listen for events of an execution. Buffered events newer than
+   * `lastEventId` are returned for replay; an execution that has not started
+   * yet is opened so the listener receives it from its first event.
+   */
+  subscribe(
+    executionId: string,
+    listener: ExecutionEventListener,
+    lastEventId = 0
+  ): ExecutionSubscription {
+    const stream = this.open(executionId);
+    stream.listeners.add(listener);
+
+    return {
+      replay: stream.events.filter((event) => event.id > lastEventId),
+      finished: stream.finished,
+      unsubscribe: () => {
+        stream.listeners.delete(listener);
+        if (
+          !stream.finished &&
+          stream.listeners.size === 0 &&
+          stream.events.length === 0
+        ) {
+          this.streams.delete(executionId);
+        }
+      },
+    };
+  }
+
+  /**
+   * Whether an execution is running or its events are still buffered
+   */
+  hasExecution(executionId: string): boolean {
+    const stream = this.streams.get(executionId);
+    return !!stream && (stream.running || stream.events.length > 0);
+  }
+
+  private open(executionId: string): ExecutionStream {
+    let stream = this.streams.get(executionId);
+    if (!stream) {
+      stream = {
+        events: [],
+        listeners: new Set(),
+        running: false,
+        finished: false,
+      };
+      this.streams.set(executionId, stream);
+    }
+    return stream;
+  }
+
+  private finish(executionId: string): void {
+    const stream = this.streams.get(executionId);
+    if (!stream) return;
+
+    stream.running = false;
+    stream.finished = true;
+    stream.evictTimer = setTimeout(() => {
+      if (this.streams.get(executionId) === stream) {
+        this.streams.delete(executionId);
+      }
+    }, this.retentionMs);
+    stream.evictTimer.unref?.();
+  }
+
+  private createHooks(executionId: string): ExecutionHooks {
+    return {
+      onStepStart: (step: PlanStep) => {
+        this.publish(executionId, "step_start", {
+          stepNumber: step.stepNumber,
+          action: step.action,
+          description: step.description,
+        });
+      },
+      onStepComplete: (result: StepResult) => {
+        this.publish(executionId, "step_complete", {
+          stepNumber: result.stepNumber,
+          action: result.action,
+          status: result.status,
+          duration: result.duration,
+          ...(result.result ? { result: result.result } : {}),
+          ...(result.error ? { error: result.error } : {}),
+        });
+      },
+      onStepRetry: (step: PlanStep, attempt: number, error: string) => {
+        this.publish(executionId, "step_retry", {
+          stepNumber: step.stepNumber,
+          action: step.action,
+          attempt,
+          error,
+        });
+      },
+      onTimeout: (timeout: ExecutionTimeout) => {
+        this.publish(executionId, "timeout", { ...timeout });
+      },
+    };
+  }
+}
+
+export const executionEvents = new ExecutionEventBus();
@@ -4,10 +4,25 @@
  * Provides intelligent planning and execution for multi-step DeFi operations
  */
 
-export { AgentPlanner, agentPlanner } from "./AgentPlanner";
+export {
+  AgentPlanner,
+  agentPlanner,
+  PlanValidationError,
+} from "./AgentPlanner";
 export { PlanExecutor, planExecutor } from "./PlanExecutor";
 export { parseSorobanIntent } from "./sorobanIntent";
 export { planHashService } from "./planHash";
+export { PlanStore, planStore } from "./planStore";
+export { ExecutionPlanRecord, StepResultRecord } from "./ExecutionPlan.entity";
+export { buildPlanGraph, findCycle, validatePlanGraph } from "./planGraph";
+export { ExecutionEventBus, executionEvents } from "./executionEvents";
+export {
+  PlanPolicyEngine,
+  planPolicyEngine,
+  DEFAULT_PLAN_POLICIES,
+} from "./planPolicy";
+export { PlanRiskAssessor, planRiskAssessor } from "./planRisk";
+export { settleSignedStep } from "./signedSteps";
 
 export type {
   PlannerContext,
@@ -21,8 +36,31 @@ export type {
   ExecutionResult,
   StepResult,
   ExecutionOptions,
+  ExecutionTimeout,
+  RollbackResult,
+  RollbackStepResult,
 } from "./PlanExecutor";
 
+export type { PlanGraph } from "./planGraph";
+export type {
+  ExecutionEvent,
+  ExecutionEventType,
+  ExecutionHooks,
+} from "./executionEvents";
+export type {
+  PlanPolicy,
+  PlanPolicyContext,
+  PolicySeverity,
+  PolicyViolation,
+} from "./planPolicy";
+export type {
+  PlanRiskAssessment,
+  RiskContext,
+  RiskLevel,
+  StepRisk,
+} from "./planRisk";
+export type { PlanRunStatus, StepRunStatus } from "./ExecutionPlan.entity";
+
 export type {
   HashedPlan,
   PlanHashMetadata,
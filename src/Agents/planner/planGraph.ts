@@ -0,0 +1,118 @@
+import { PlanStep } from "./AgentPlanner";
+
+export interface PlanGraph {
+  dependencies: Map<number, number[]>;
+  dependents: Map<number, number[]>;
+}
+
+/**
+ * Resolve the step numbers a step depends on.
+ * Steps without a `dependencies` field keep the legacy sequential semantics
+ * and depend on the step listed before them.
+ */
+export function resolveStepDependencies(
+  step: PlanStep,
+  index: number,
+  steps: PlanStep[]
+): number[] {
+  if (Array.isArray(step.dependencies)) {
+    return step.dependencies;
+  }
+  return index > 0 ? [steps[index - 1].stepNumber] : [];
+}
+
+/**
+ * Build the dependency graph for a plan, keyed by step number
+ */
+export function buildPlanGraph(steps: PlanStep[]): PlanGraph {
+  const dependencies = new Map<number, number[]>();
+  const dependents = new Map<number, number[]>();
+
+  steps.forEach((step) => dependents.set(step.stepNumber, []));
+
+  steps.forEach((step, index) => {
+    const deps = resolveStepDependencies(step, index, steps);
+    dependencies.set(step.stepNumber, deps);
+    deps.forEach((dep) => dependents.get(dep)?.push(step.stepNumber));
+  });
+
+  return { dependencies, dependents };
+}
+
+/**
+ * Find a dependency cycle in the graph, returning the step numbers that form it
+ */
+export function findCycle(graph: PlanGraph): number[] | null {
+  const visiting = new Set<number>();
+  const visited = new Set<number>();
+  const path: number[] = [];
+
+  const visit = (stepNumber: number): number[] | null => {
+    if (visiting.has(stepNumber)) {
+      return [...path.slice(path.indexOf(stepNumber)), stepNumber];
+    }
+    if (visited.has(stepNumber)) {
+      return null;
+    }
+
+    visiting.add(stepNumber);
+    path.push(stepNumber);
+
+    for (const dep of graph.dependencies.get(stepNumber) || []) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+
+    path.pop();
+    visiting.delete(stepNumber);
+    visited.add(stepNumber);
+    return null;
+  };
+
+  for (const stepNumber of graph.dependencies.keys()) {
+    const cycle = visit(stepNumber);
+    if (cycle) return cycle;
+  }
+
+  return null;
+}
+
+/**
+ * Validate the structure of a plan's dependency graph
+ */
+export function validatePlanGraph(steps: PlanStep[]): string[] {
+  const errors: string[] = [];
+  const stepNumbers = steps.map((s) => s.stepNumber);
+  const known = new Set(stepNumbers);
+
+  const duplicates = stepNumbers.filter(
+    (num, idx) => stepNumbers.indexOf(num) !== idx
+  );
+  if (duplicates.length > 0) {
+    errors.push(`Duplicate step numbers: ${duplicates.join(", ")}`);
+    return errors;
+  }
+
+  const graph = buildPlanGraph(steps);
+
+  graph.dependencies.forEach((deps, stepNumber) => {
+    deps.forEach((dep) => {
+      if (dep === stepNumber) {
+        errors.push(`Step ${stepNumber} depends on itself`);
+      } else if (!known.has(dep)) {
+        errors.push(`Step ${stepNumber} depends on unknown step ${dep}`);
+      }
+    });
+  });
+
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const cycle = findCycle(graph);
+  if (cycle) {
+    errors.push(`Dependency cycle detected: ${cycle.join(" -> ")}`);
+  }
+
+  return errors;
+}
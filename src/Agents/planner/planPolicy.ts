@@ -0,0 +1,470 @@
+import { toolRegistry } from "../registry/ToolRegistry";
+import { ParameterDefinition } from "../registry/ToolMetadata";
+import { isDeFiAction, validateDeFiIntent } from "../defiValidation";
+import { ExecutionPlan, PlannerConstraints, PlanStep } from "./AgentPlanner";
+import { validatePlanGraph } from "./planGraph";
+import logger from "../../config/logger";
+
+export type PolicySeverity = "error" | "warning";
+
+export interface PolicyViolation {
+  policy: string;
+  code: string;
+  message: string;
+  severity: PolicySeverity;
+  stepNumber?: number;
+  field?: string;
+}
+
+export interface PlanPolicyContext {
+  plan: ExecutionPlan;
+  availableBalance?: Record<string, number>;
+  constraints?: PlannerConstraints;
+}
+
+/**
+ * A rule evaluated against a whole plan. Policies report violations rather
+ * than throwing, so every problem in a plan is surfaced at once.
+ */
+export interface PlanPolicy {
+  name: string;
+  evaluate(context: PlanPolicyContext): PolicyViolation[];
+}
+
+const DEFAULT_MAX_STEPS = 10;
+// Tolerance swap_tool applies when a swap has no maxSlippageBps
+const SWAP_DEFAULT_MAX_SLIPPAGE_BPS = 100;
+
+interface AssetSpend {
+  asset: string;
+  amount: number;
+  field: string;
+}
+
+const violation = (
+  policy: string,
+  severity: PolicySeverity,
+  code: string,
+  message: string,
+  details: { stepNumber?: number; field?: string } = {}
+): PolicyViolation => ({ policy, code, message, severity, ...details });
+
+/**
+ * Plans must have steps, stay within `maxSteps` and form a valid dependency graph
+ */
+export const structurePolicy: PlanPolicy = {
+  name: "structure",
+  evaluate({ plan, constraints }) {
+    const violations: PolicyViolation[] = [];
+    const maxSteps = constraints?.maxSteps ?? DEFAULT_MAX_STEPS;
+
+    if (plan.totalSteps === 0) {
+      violations.push(
+        violation(this.name, "error", "EMPTY_PLAN", "Plan has no steps")
+      );
+    }
+
+    if (plan.steps.length > maxSteps) {
+      violations.push(
+        violation(
+          this.name,
+          "error",
+          "MAX_STEPS_EXCEEDED",
+          `Plan has ${plan.steps.length} steps, more than the maximum of ${maxSteps}`
+        )
+      );
+    }
+
+    for (const error of validatePlanGraph(plan.steps)) {
+      violations.push(
+        violation(this.name, "error", "INVALID_DEPENDENCIES", error)
+      );
+    }
+
+    return violations;
+  },
+};
+
+/**
+ * Every step must use a registered tool permitted by `allowedTools`
+ */
+export const toolAccessPolicy: PlanPolicy = {
+  name: "tool_access",
+  evaluate({ plan, constraints }) {
+    const violations: PolicyViolation[] = [];
+    const allowed = constraints?.allowedTools;
+
+    for (const step of plan.steps) {
+      if (allowed && !allowed.includes(step.action)) {
+        violations.push(
+          violation(
+            this.name,
+            "error",
+            "TOOL_NOT_ALLOWED",
+            `Tool '${step.action}' is not in the allowed tools: ${allowed.join(", ")}`,
+            { stepNumber: step.stepNumber, field: "action" }
+          )
+        );
+      } else if (!toolRegistry.getTool(step.action)) {
+        violations.push(
+          violation(
+            this.name,
+            "error",
+            "UNKNOWN_TOOL",
+            `Tool '${step.action}' is not registered`,
+            { stepNumber: step.stepNumber, field: "action" }
+          )
+        );
+      }
+    }
+
+    return violations;
+  },
+};
+
+/**
+ * Step payloads must satisfy the tool's declared parameters
+ */
+export const parameterPolicy: PlanPolicy = {
+  name: "parameters",
+  evaluate({ plan }) {
+    const violations: PolicyViolation[] = [];
+
+    for (const step of plan.steps) {
+      const tool = toolRegistry.getTool(step.action);
+      if (!tool) continue;
+
+      for (const [field, definition] of Object.entries(
+        tool.metadata.parameters
+      )) {
+        const message = checkParameter(step.payload[field], field, definition);
+        if (message) {
+          violations.push(
+            violation(this.name, "error", message.code, message.text, {
+              stepNumber: step.stepNumber,
+              field,
+            })
+          );
+        }
+      }
+    }
+
+    return violations;
+  },
+};
+
+function checkParameter(
+  value: unknown,
+  field: string,
+  definition: ParameterDefinition
+): { code: string; text: string } | null {
+  if (value === undefined || value === null) {
+    return definition.required
+      ? {
+          code: "MISSING_PARAMETER",
+          text: `Missing required parameter: ${field}`,
+        }
+      : null;
+  }
+
+  const actualType = Array.isArray(value) ? "array" : typeof value;
+  if (
+    actualType !== definition.type ||
+    (definition.type === "number" && Number.isNaN(value))
+  ) {
+    return {
+      code: "INVALID_PARAMETER_TYPE",
+      text: `Invalid type for parameter '${field}': expected ${definition.type}, got ${actualType}`,
+    };
+  }
+
+  if (definition.enum && !definition.enum.includes(String(value))) {
+    return {
+      code: "INVALID_PARAMETER_VALUE",
+      text: `Parameter '${field}' must be one of: ${definition.enum.join(", ")}`,
+    };
+  }
+
+  if (typeof value === "number") {
+    if (definition.min !== undefined && value < definition.min) {
+      return {
+        code: "PARAMETER_OUT_OF_RANGE",
+        text: `Parameter '${field}' must be at least ${definition.min}`,
+      };
+    }
+    if (definition.max !== undefined && value > definition.max) {
+      return {
+        code: "PARAMETER_OUT_OF_RANGE",
+        text: `Parameter '${field}' must be at most ${definition.max}`,
+      };
+    }
+  }
+
+  if (
+    definition.pattern &&
+    typeof value === "string" &&
+    !new RegExp(definition.pattern).test(value)
+  ) {
+    return {
+      code: "PARAMETER_PATTERN_MISMATCH",
+      text: `Parameter '${field}' does not match pattern ${definition.pattern}`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * DeFi steps must pass `validateDeFiIntent`
+ */
+export const defiIntentPolicy: PlanPolicy = {
+  name: "defi_intent",
+  evaluate({ plan }) {
+    const violations: PolicyViolation[] = [];
+
+    for (const step of plan.steps) {
+      if (!isDeFiAction(step.action)) continue;
+
+      const result = validateDeFiIntent(step);
+      for (const error of result.errors) {
+        violations.push(
+          violation(this.name, "error", error.code, error.message, {
+            stepNumber: step.stepNumber,
+            field: error.field,
+          })
+        );
+      }
+      for (const warning of result.warnings || []) {
+        violations.push(
+          violation(this.name, "warning", "DEFI_WARNING", warning, {
+            stepNumber: step.stepNumber,
+          })
+        );
+      }
+    }
+
+    return violations;
+  },
+};
+
+/**
+ * Slippage tolerances must lie within `minSlippage`..`maxSlippage` (percent)
+ */
+export const slippagePolicy: PlanPolicy = {
+  name: "slippage",
+  evaluate({ plan, constraints }) {
+    const violations: PolicyViolation[] = [];
+    const { minSlippage, maxSlippage } = constraints || {};
+    if (minSlippage === undefined && maxSlippage === undefined) {
+      return violations;
+    }
+
+    for (const step of plan.steps) {
+      const tolerance = getSlippage(step);
+      if (!tolerance) continue;
+      const { slippage, field } = tolerance;
+
+      if (minSlippage !== undefined && slippage < minSlippage) {
+        violations.push(
+          violation(
+            this.name,
+            "error",
+            "SLIPPAGE_BELOW_MINIMUM",
+            `Slippage ${slippage}% is below the minimum of ${minSlippage}%`,
+            { stepNumber: step.stepNumber, field }
+          )
+        );
+      }
+      if (maxSlippage !== undefined && slippage > maxSlippage) {
+        violations.push(
+          violation(
+            this.name,
+            "error",
+            "SLIPPAGE_ABOVE_MAXIMUM",
+            `Slippage ${slippage}% exceeds the maximum of ${maxSlippage}%`,
+            { stepNumber: step.stepNumber, field }
+          )
+        );
+      }
+    }
+
+    return violations;
+  },
+};
+
+/**
+ * Slippage tolerance of a step in percent. Swaps give theirs in basis points
+ * and always have one; other actions may give a `slippage` percentage.
+ */
+function getSlippage(
+  step: PlanStep
+): { slippage: number; field: string } | undefined {
+  if (step.action === "swap_tool") {
+    const bps = step.payload.maxSlippageBps ?? SWAP_DEFAULT_MAX_SLIPPAGE_BPS;
+    return typeof bps === "number"
+      ? { slippage: bps / 100, field: "maxSlippageBps" }
+      : undefined;
+  }
+  const { slippage } = step.payload;
+  return typeof slippage === "number"
+    ? { slippage, field: "slippage" }
+    : undefined;
+}
+
+/**
+ * Assets spent by a step, keyed by the payload fields each action uses
+ */
+function getAssetSpends(step: PlanStep): AssetSpend[] {
+  const { payload } = step;
+  const spend = (asset: unknown, amount: unknown, field: string) =>
+    typeof asset === "string" && typeof amount === "number"
+      ? [{ asset: asset.toUpperCase(), amount, field }]
+      : [];
+
+  switch (step.action) {
+    case "swap":
+    case "swap_tool":
+      // A strict receive fixes what arrives; what it spends is only quoted
+      // at execution
+      return payload.mode === "strict_receive"
+        ? []
+        : spend(payload.from, payload.amount, "amount");
+    case "wallet_tool":
+      return payload.operation === "transfer"
+        ? spend(payload.token ?? "STRK", payload.amount, "amount")
+        : [];
+    case "add_liquidity":
+      return [
+        ...spend(payload.tokenA, payload.amountA, "amountA"),
+        ...spend(payload.tokenB, payload.amountB, "amountB"),
+      ];
+    case "lend":
+    case "repay":
+      return spend(payload.token ?? payload.asset, payload.amount, "amount");
+    default:
+      return [];
+  }
+}
+
+/**
+ * Cumulative spending per asset must not exceed `availableBalance`.
+ * Assets received from an earlier swap may cover the shortfall, so those
+ * cases are only reported as warnings.
+ */
+export const balancePolicy: PlanPolicy = {
+  name: "balance",
+  evaluate({ plan, availableBalance }) {
+    const violations: PolicyViolation[] = [];
+    if (!availableBalance) return violations;
+
+    const balances = new Map(
+      Object.entries(availableBalance).map(([asset, amount]) => [
+        asset.toUpperCase(),
+        amount,
+      ])
+    );
+    const spent = new Map<string, number>();
+    const received = new Set<string>();
+    const ordered = [...plan.steps].sort((a, b) => a.stepNumber - b.stepNumber);
+
+    for (const step of ordered) {
+      for (const { asset, amount, field } of getAssetSpends(step)) {
+        const total = (spent.get(asset) || 0) + amount;
+        spent.set(asset, total);
+
+        const available = balances.get(asset);
+        if (available === undefined) {
+          if (!received.has(asset)) {
+            violations.push(
+              violation(
+                this.name,
+                "warning",
+                "UNKNOWN_BALANCE",
+                `No balance information for ${asset}`,
+                { stepNumber: step.stepNumber, field }
+              )
+            );
+          }
+        } else if (total > available) {
+          violations.push(
+            violation(
+              this.name,
+              received.has(asset) ? "warning" : "error",
+              "INSUFFICIENT_BALANCE",
+              `Plan spends ${total} ${asset} by step ${step.stepNumber} but only ${available} is available`,
+              { stepNumber: step.stepNumber, field }
+            )
+          );
+        }
+      }
+
+      if (
+        (step.action === "swap" || step.action === "swap_tool") &&
+        typeof step.payload.to === "string"
+      ) {
+        received.add(step.payload.to.toUpperCase());
+      }
+    }
+
+    return violations;
+  },
+};
+
+export const DEFAULT_PLAN_POLICIES: PlanPolicy[] = [
+  structurePolicy,
+  toolAccessPolicy,
+  parameterPolicy,
+  defiIntentPolicy,
+  slippagePolicy,
+  balancePolicy,
+];
+
+/**
+ * Evaluates a plan against a set of registered policies
+ */
+export class PlanPolicyEngine {
+  private policies: PlanPolicy[];
+
+  constructor(policies: PlanPolicy[] = DEFAULT_PLAN_POLICIES) {
+    this.policies = [...policies];
+  }
+
+  register(policy: PlanPolicy): void {
+    this.unregister(policy.name);
+    this.policies.push(policy);
+  }
+
+  unregister(name: string): boolean {
+    const before = this.policies.length;
+    this.policies = this.policies.filter((p) => p.name !== name);
+    return this.policies.length < before;
+  }
+
+  getPolicies(): string[] {
+    return this.policies.map((p) => p.name);
+  }
+
+  evaluate(context: PlanPolicyContext): PolicyViolation[] {
+    return this.policies.flatMap((policy) => {
+      try {
+        return policy.evaluate(context);
+      } catch (error) {
+        logger.error("Plan policy evaluation failed", {
+          policy: policy.name,
+          planId: context.plan.planId,
+          error,
+        });
+        return [
+          violation(
+            policy.name,
+            "error",
+            "POLICY_FAILED",
+            `Policy '${policy.name}' could not be evaluated`
+          ),
+        ];
+      }
+    });
+  }
+}
+
+export const planPolicyEngine = new PlanPolicyEngine();
@@ -0,0 +1,331 @@
+import { container } from "tsyringe";
+import config, { ApprovalThreshold } from "../../config/config";
+import stellarPriceService from "../../services/stellarPrice.service";
+import {
+  flashSwapRiskAnalyzer,
+  SwapRiskAnalysis,
+} from "../../services/flashSwapRiskAnalyzer";
+import ContactService from "../../Contacts/contact.service";
+import { UserRole } from "../../Auth/roles";
+import { withTimeout } from "../../utils/timeout";
+import { ExecutionPlan, PlanStep } from "./AgentPlanner";
+import logger from "../../config/logger";
+
+export type RiskLevel = "low" | "medium" | "high";
+
+export interface StepRisk {
+  stepNumber: number;
+  action: string;
+  level: RiskLevel;
+  score: number;
+  notionalUsd?: number;
+  network: "mainnet" | "testnet";
+  irreversible: boolean;
+  factors: string[];
+}
+
+export interface PlanRiskAssessment {
+  level: RiskLevel;
+  score: number;
+  totalNotionalUsd: number;
+  requiresApproval: boolean;
+  approvalReasons: string[];
+  steps: StepRisk[];
+}
+
+export interface RiskContext {
+  userRole?: string;
+}
+
+const RISK_ORDER: RiskLevel[] = ["low", "medium", "high"];
+const STABLECOINS = ["USDC", "USDT"];
+const READ_ONLY_OPERATIONS = ["get_balance", "get_address"];
+const LOOKUP_TIMEOUT_MS = 5000;
+
+// Score added for each risk factor; a step scores at most 100
+const BASE_SCORES: Record<string, number> = {
+  swap_tool: 20,
+  wallet_tool: 10,
+  soroban_invoke: 25,
+};
+const SWAP_RISK_SCORES: Record<SwapRiskAnalysis["riskLevel"], number> = {
+  low: 0,
+  medium: 15,
+  high: 30,
+  critical: 60,
+};
+const NOTIONAL_TIERS = [
+  { minUsd: 10000, score: 40 },
+  { minUsd: 1000, score: 20 },
+  { minUsd: 100, score: 5 },
+];
+const UNPRICED_SCORE = 10;
+const NON_CONTACT_TRANSFER_SCORE = 30;
+const MAINNET_SCORE = 20;
+const MANY_STEPS = 5;
+
+const levelFromScore = (score: number): RiskLevel =>
+  score >= 60 ? "high" : score >= 30 ? "medium" : "low";
+
+const maxLevel = (a: RiskLevel, b: RiskLevel): RiskLevel =>
+  RISK_ORDER.indexOf(a) >= RISK_ORDER.indexOf(b) ? a : b;
+
+/**
+ * Scores execution plans by what their steps move and where. Each step is
+ * rated on its USD notional, swap market conditions, irreversibility and
+ * network; the plan takes the riskiest step, and approval is required once
+ * the plan exceeds the thresholds configured for the user's role.
+ */
+export class PlanRiskAssessor {
+  constructor(
+    private readonly thresholds: Record<string, ApprovalThreshold> = config
+      .agent.approval
+  ) {}
+
+  async assessPlan(
+    plan: ExecutionPlan,
+    context: RiskContext = {}
+  ): Promise<PlanRiskAssessment> {
+    const contacts = await this.loadContacts(plan.steps);
+    const steps = await Promise.all(
+      plan.steps.map((step) => this.assessStep(step, contacts))
+    );
+
+    const totalNotionalUsd = steps.reduce(
+      (sum, step) => sum + (step.notionalUsd || 0),
+      0
+    );
+    let level = steps.reduce<RiskLevel>(
+      (current, step) => maxLevel(current, step.level),
+      "low"
+    );
+    if (steps.length >= MANY_STEPS) {
+      level = maxLevel(level, "medium");
+    }
+    const score = Math.max(0, ...steps.map((step) => step.score));
+
+    const approvalReasons = this.getApprovalReasons(
+      { level, totalNotionalUsd, steps },
+      context.userRole
+    );
+
+    return {
+      level,
+      score,
+      totalNotionalUsd,
+      requiresApproval: approvalReasons.length > 0,
+      approvalReasons,
+      steps,
+    };
+  }
+
+  getThreshold(userRole?: string): ApprovalThreshold {
+    return (
+      (userRole && this.thresholds[userRole]) || this.thresholds[UserRole.USER]
+    );
+  }
+
+  private getApprovalReasons(
+    assessment: Pick<
+      PlanRiskAssessment,
+      "level" | "totalNotionalUsd" | "steps"
+    >,
+    userRole?: string
+  ): string[] {
+    const threshold = this.getThreshold(userRole);
+    const reasons: string[] = [];
+
+    if (
+      RISK_ORDER.indexOf(assessment.level) >
+      RISK_ORDER.indexOf(threshold.maxRiskLevel)
+    ) {
+      reasons.push(
+        `Risk level ${assessment.level} exceeds ${threshold.maxRiskLevel}`
+      );
+    }
+    if (assessment.totalNotionalUsd > threshold.maxNotionalUsd) {
+      reasons.push(
+        `Notional value $${assessment.totalNotionalUsd.toFixed(2)} exceeds $${threshold.maxNotionalUsd}`
+      );
+    }
+    if (assessment.steps.length > threshold.maxSteps) {
+      reasons.push(
+        `Plan has ${assessment.steps.length} steps, more than ${threshold.maxSteps}`
+      );
+    }
+
+    return reasons;
+  }
+
+  private async assessStep(
+    step: PlanStep,
+    contacts: Set<string>
+  ): Promise<StepRisk> {
+    const factors: string[] = [];
+    let score = 0;
+    const add = (points: number, factor: string) => {
+      score += points;
+      factors.push(factor);
+    };
+
+    const network = this.getNetwork(step);
+    const outflow = this.getOutflow(step);
+    const readOnly =
+      step.action === "wallet_tool" &&
+      READ_ONLY_OPERATIONS.includes(String(step.payload.operation));
+
+    if (!readOnly && BASE_SCORES[step.action]) {
+      score += BASE_SCORES[step.action];
+    }
+
+    const notionalUsd = outflow
+      ? await this.getNotionalUsd(outflow.asset, outflow.amount)
+      : undefined;
+    if (outflow && notionalUsd === undefined) {
+      add(UNPRICED_SCORE, `Unable to price ${outflow.amount} ${outflow.asset}`);
+    } else if (outflow && notionalUsd !== undefined) {
+      const tier = NOTIONAL_TIERS.find((t) => notionalUsd >= t.minUsd);
+      if (tier) {
+        add(tier.score, `Moves $${notionalUsd.toFixed(2)} of ${outflow.asset}`);
+      }
+    }
+
+    if (step.action === "swap_tool" && outflow) {
+      const swapRisk = await this.analyzeSwap(step);
+      if (swapRisk) {
+        if (SWAP_RISK_SCORES[swapRisk.riskLevel] > 0) {
+          add(
+            SWAP_RISK_SCORES[swapRisk.riskLevel],
+            `Swap risk ${swapRisk.riskLevel}: ${swapRisk.warnings.join(", ") || "unfavourable market conditions"}`
+          );
+        }
+      } else {
+        add(UNPRICED_SCORE, "Swap risk could not be analyzed");
+      }
+    }
+
+    const irreversible =
+      step.action === "wallet_tool" &&
+      step.payload.operation === "transfer" &&
+      !contacts.has(String(step.payload.to ?? "").toLowerCase());
+    if (irreversible) {
+      add(
+        NON_CONTACT_TRANSFER_SCORE,
+        "Irreversible transfer to an address that is not a saved contact"
+      );
+    }
+
+    if (network === "mainnet" && !readOnly) {
+      add(MAINNET_SCORE, "Runs on mainnet");
+    }
+
+    score = Math.min(score, 100);
+
+    return {
+      stepNumber: step.stepNumber,
+      action: step.action,
+      level: levelFromScore(score),
+      score,
+      ...(notionalUsd !== undefined ? { notionalUsd } : {}),
+      network,
+      irreversible,
+      factors,
+    };
+  }
+
+  /**
+   * Asset and amount a step sends out of the user's wallet
+   */
+  private getOutflow(
+    step: PlanStep
+  ): { asset: string; amount: number } | undefined {
+    const { payload } = step;
+    if (typeof payload.amount !== "number") return undefined;
+
+    if (step.action === "swap_tool" && typeof payload.from === "string") {
+      // A strict receive spends about what the received amount is worth
+      return payload.mode === "strict_receive" && typeof payload.to === "string"
+        ? { asset: payload.to.toUpperCase(), amount: payload.amount }
+        : { asset: payload.from.toUpperCase(), amount: payload.amount };
+    }
+    if (step.action === "wallet_tool" && payload.operation === "transfer") {
+      return {
+        asset: String(payload.token ?? "STRK").toUpperCase(),
+        amount: payload.amount,
+      };
+    }
+    return undefined;
+  }
+
+  private getNetwork(step: PlanStep): "mainnet" | "testnet" {
+    const network = step.payload.network ?? config.stellar.network;
+    return network === "mainnet" || network === "public"
+      ? "mainnet"
+      : "testnet";
+  }
+
+  private async getNotionalUsd(
+    asset: string,
+    amount: number
+  ): Promise<number | undefined> {
+    if (STABLECOINS.includes(asset)) return amount;
+
+    try {
+      const quote = await withTimeout(
+        stellarPriceService.getPrice(asset, "USDC", amount),
+        { timeoutMs: LOOKUP_TIMEOUT_MS, operation: `price ${asset}/USDC` }
+      );
+      return quote.estimatedOutput;
+    } catch (error) {
+      logger.warn("Unable to price plan step", { asset, amount, error });
+      return undefined;
+    }
+  }
+
+  private async analyzeSwap(
+    step: PlanStep
+  ): Promise<SwapRiskAnalysis | undefined> {
+    try {
+      return await withTimeout(
+        flashSwapRiskAnalyzer.analyzeSwapRisk({
+          fromAsset: stellarPriceService.getAsset(String(step.payload.from)),
+          toAsset: stellarPriceService.getAsset(String(step.payload.to)),
+          amount: step.payload.amount as number,
+        }),
+        { timeoutMs: LOOKUP_TIMEOUT_MS, operation: "swap risk analysis" }
+      );
+    } catch (error) {
+      logger.warn("Unable to analyze swap risk", {
+        stepNumber: step.stepNumber,
+        error,
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Saved contact names and addresses, lowercased, for plans with transfers
+   */
+  private async loadContacts(steps: PlanStep[]): Promise<Set<string>> {
+    const hasTransfer = steps.some(
+      (step) =>
+        step.action === "wallet_tool" && step.payload.operation === "transfer"
+    );
+    if (!hasTransfer) return new Set();
+
+    try {
+      const contacts = await container.resolve(ContactService).getAllContacts();
+      return new Set(
+        contacts.flatMap((contact) => [
+          contact.name.toLowerCase(),
+          contact.address.toLowerCase(),
+        ])
+      );
+    } catch (error) {
+      logger.warn("Unable to load contacts for risk assessment", { error });
+      return new Set();
+    }
+  }
+}
+
+export const planRiskAssessor = new PlanRiskAssessor();
@@ -0,0 +1,209 @@
+import { In, Repository } from "typeorm";
+import { QueryDeepPartialEntity } from "typeorm/query-builder/QueryPartialEntity";
+import AppDataSource from "../../config/Datasource";
+import { PlanStep } from "./AgentPlanner";
+import { HashedPlan } from "./planHash";
+import {
+  ExecutionPlanRecord,
+  PlanRunStatus,
+  StepResultRecord,
+} from "./ExecutionPlan.entity";
+import type { StepResult } from "./PlanExecutor";
+
+const INTERRUPTED_ERROR = "Execution was interrupted by a restart";
+
+/**
+ * Postgres-backed store for execution plans and their step transitions,
+ * allowing an interrupted execution to be resumed after a restart
+ */
+export class PlanStore {
+  private planRepository: Repository<ExecutionPlanRecord>;
+  private stepRepository: Repository<StepResultRecord>;
+
+  constructor() {
+    this.planRepository = AppDataSource.getRepository(ExecutionPlanRecord);
+    this.stepRepository = AppDataSource.getRepository(StepResultRecord);
+  }
+
+  /**
+   * Store a plan, keeping the run state of an existing record
+   */
+  async savePlan(plan: HashedPlan, userId: string): Promise<void> {
+    await this.planRepository.upsert(
+      {
+        planId: plan.planId,
+        userId,
+        planHash: plan.planHash,
+        plan,
+      } as QueryDeepPartialEntity<ExecutionPlanRecord>,
+      ["planId"]
+    );
+  }
+
+  async getPlan(planId: string): Promise<ExecutionPlanRecord | null> {
+    return this.planRepository.findOne({ where: { planId } });
+  }
+
+  async getPlansForUser(
+    userId: string,
+    limit = 20
+  ): Promise<ExecutionPlanRecord[]> {
+    return this.planRepository.find({
+      where: { userId },
+      order: { createdAt: "DESC" },
+      take: limit,
+    });
+  }
+
+  async updatePlanStatus(
+    planId: string,
+    status: PlanRunStatus,
+    details: { completedSteps?: number; error?: string | null } = {}
+  ): Promise<void> {
+    await this.planRepository.update({ planId }, { status, ...details });
+  }
+
+  /**
+   * Mark a plan as running if it is still in one of `from`. The check and
+   * the update are a single statement, so of two concurrent executions only
+   * one claims the plan. Returns false when the plan was not claimed.
+   */
+  async claimPlan(planId: string, from: PlanRunStatus[]): Promise<boolean> {
+    const result = await this.planRepository.update(
+      { planId, status: In(from) },
+      { status: "running", error: null }
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * Release a plan claimed by a run that threw instead of recording its
+   * outcome. It is marked failed, so resuming it keeps the steps that did
+   * complete.
+   */
+  async releasePlan(planId: string, error: unknown): Promise<void> {
+    await this.planRepository.update(
+      { planId, status: "running" },
+      {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      }
+    );
+  }
+
+  /**
+   * Plans still running when the process starts were interrupted by a
+   * restart. Their unfinished steps are failed and the plan becomes partial
+   * when some steps completed, failed otherwise, so it can be resumed.
+   * Returns the ids of the recovered plans.
+   */
+  async recoverInterruptedPlans(): Promise<string[]> {
+    const plans = await this.planRepository.find({
+      where: { status: "running" },
+    });
+
+    for (const { planId } of plans) {
+      await this.stepRepository.update(
+        { planId, status: "running" },
+        {
+          status: "failed",
+          error: INTERRUPTED_ERROR,
+          completedAt: new Date(),
+        }
+      );
+      const completedSteps = await this.stepRepository.count({
+        where: { planId, status: "success" },
+      });
+      await this.planRepository.update(
+        { planId, status: "running" },
+        {
+          status: completedSteps > 0 ? "partial" : "failed",
+          completedSteps,
+          error: INTERRUPTED_ERROR,
+        }
+      );
+    }
+
+    return plans.map((plan) => plan.planId);
+  }
+
+  async recordStepStart(planId: string, step: PlanStep): Promise<void> {
+    await this.stepRepository.upsert(
+      {
+        planId,
+        stepNumber: step.stepNumber,
+        action: step.action,
+        status: "running",
+        result: null,
+        error: null,
+        duration: 0,
+        completedAt: null,
+      } as QueryDeepPartialEntity<StepResultRecord>,
+      ["planId", "stepNumber"]
+    );
+  }
+
+  async recordStepResult(planId: string, result: StepResult): Promise<void> {
+    await this.stepRepository.upsert(
+      {
+        planId,
+        stepNumber: result.stepNumber,
+        action: result.action,
+        status: result.status,
+        result: result.result ?? null,
+        error: result.error ?? null,
+        duration: result.duration,
+        completedAt: new Date(result.timestamp),
+      } as QueryDeepPartialEntity<StepResultRecord>,
+      ["planId", "stepNumber"]
+    );
+  }
+
+  /**
+   * Load the completed step results of a plan, ordered by step number
+   */
+  async getStepResults(planId: string): Promise<StepResult[]> {
+    const records = await this.stepRepository.find({
+      where: { planId },
+      order: { stepNumber: "ASC" },
+    });
+
+    return records
+      .filter((record) => record.status !== "running")
+      .map((record) => this.toStepResult(record));
+  }
+
+  /**
+   * Find the pending step whose tool result is waiting on the given wallet
+   * signing request
+   */
+  async findStepAwaitingSignature(
+    signingRequestId: string
+  ): Promise<{ planId: string; result: StepResult } | null> {
+    const record = await this.stepRepository
+      .createQueryBuilder("step")
+      .where("step.status = :status", { status: "pending" })
+      .andWhere("step.result -> 'data' ->> 'signingRequestId' = :id", {
+        id: signingRequestId,
+      })
+      .getOne();
+
+    return record
+      ? { planId: record.planId, result: this.toStepResult(record) }
+      : null;
+  }
+
+  private toStepResult(record: StepResultRecord): StepResult {
+    return {
+      stepNumber: record.stepNumber,
+      action: record.action,
+      status: record.status as StepResult["status"],
+      ...(record.result ? { result: record.result } : {}),
+      ...(record.error ? { error: record.error } : {}),
+      duration: record.duration,
+      timestamp: (record.completedAt || record.updatedAt).toISOString(),
+    };
+  }
+}
+
+export const planStore = new PlanStore();
@@ -0,0 +1,70 @@
+import { SigningRequestInfo } from "../../Signing/transactionSigner";
+import logger from "../../config/logger";
+import { executionEvents } from "./executionEvents";
+import { planExecutor, StepResult } from "./PlanExecutor";
+import { planStore } from "./planStore";
+
+/**
+ * Record the outcome of a plan step that was waiting on the user's wallet
+ * signature. A submitted transaction completes the step and resumes the plan
+ * in the background so its dependents run; a rejected request fails it.
+ */
+export async function settleSignedStep(
+  request: SigningRequestInfo
+): Promise<void> {
+  const step = await planStore.findStepAwaitingSignature(request.id);
+  if (!step) return;
+
+  const { planId, result: pending } = step;
+  const submitted = request.status === "submitted";
+  const error = `Signing request was ${request.status}`;
+  const result: StepResult = {
+    stepNumber: pending.stepNumber,
+    action: pending.action,
+    status: submitted ? "success" : "failed",
+    result: {
+      action: pending.result?.action ?? pending.action,
+      status: submitted ? "success" : "error",
+      data: {
+        ...pending.result?.data,
+        awaitingSignature: false,
+        ...(request.txHash ? { txHash: request.txHash } : {}),
+      },
+      ...(submitted ? {} : { error }),
+    },
+    ...(submitted ? {} : { error }),
+    duration: pending.duration,
+    timestamp: new Date().toISOString(),
+  };
+  await planStore.recordStepResult(planId, result);
+
+  logger.info("Plan step signature settled", {
+    planId,
+    stepNumber: result.stepNumber,
+    requestId: request.id,
+    status: result.status,
+  });
+
+  if (!submitted) return;
+
+  // A plan that is running or was stopped picks the step up on its next run
+  if (!(await planStore.claimPlan(planId, ["partial"]))) {
+    logger.info("Plan not resumed after signature", { planId });
+    return;
+  }
+
+  executionEvents
+    .track(planId, (hooks) => planExecutor.resume(planId, hooks))
+    .catch(async (resumeError) => {
+      logger.error("Resuming plan after signature failed", {
+        error: resumeError,
+        planId,
+      });
+      await planStore.releasePlan(planId, resumeError).catch((statusError) =>
+        logger.error("Failed to release plan", {
+          error: statusError,
+          planId,
+        })
+      );
+    });
+}
@@ -17,44 +17,29 @@ export class PromptGenerator {
       return this.getEmptyPrompt();
     }
 
-    const actionTypes = tools.map((tool) => `"${tool.name}"`).join(" | ");
-    const parameterSchemas = this.generateParameterSchemas(tools);
     const examples = this.generateExamples(tools);
 
     return `
-You are a workflow planner. You receive a user request and must generate a JSON workflow
-that can be executed by the system. Always follow this schema exactly:
-
-{
-  "workflow": [
-    {
-      "action": ${actionTypes},
-      "payload": {
-        // Parameter schemas for each action:
-        ${parameterSchemas}
-      }
-    }
-  ]
-}
+You are a workflow planner. You receive a user request and turn it into a workflow
+that can be executed by the system.
+
+Call one tool for each workflow step, in the order the steps must run. Tools are
+not executed while you plan; each call is acknowledged with its step number.
 
 Available Actions:
 ${this.generateActionDescriptions(tools)}
 
 Rules:
-- "action" must be exactly one of: ${actionTypes}.
+- Use the correct parameter names and types from each tool's input schema.
 - "amount" must always be a number (never a string).
-- Always wrap multiple steps in the "workflow" array.
-- Do not add extra keys, explanations, or comments.
-- Generate at least one workflow step for any valid user request.
-- Use the correct parameter names and types as specified above.
+- Generate at least one tool call for any valid user request.
+- Stop calling tools once the request is fully covered.
 
 Examples:
 ${examples}
 
 User input: "{{USER_INPUT}}"
 User id: {{USER_ID}}
-
-Respond with valid JSON only.
 `;
   }
 
@@ -149,25 +134,6 @@ e.g {response: your wallet balance is 1strk}
     return tool?.metadata.examples || [];
   }
 
-  /**
-   * Generate parameter schemas for all tools
-   */
-  private generateParameterSchemas(tools: ToolMetadata[]): string {
-    return tools
-      .map((tool) => {
-        const params = Object.entries(tool.parameters)
-          .map(([paramName, paramDef]) => {
-            const required = paramDef.required ? "required" : "optional";
-            const type = paramDef.type;
-            const description = paramDef.description;
-            return `        //   "${paramName}": ${type} (${required}) - ${description}`;
-          })
-          .join("\n");
-
-        return `        // For ${tool.name}:\n${params}`;
-      })
-      .join("\n\n");
-  }
   /**
    * Generate action descriptions for the LLM
    */
@@ -218,7 +184,7 @@ Please inform the user that no actions are available.
 User input: "{{USER_INPUT}}"
 User id: {{USER_ID}}
 
-Respond with: {"workflow": []}
+Do not plan any steps.
 `;
   }
 
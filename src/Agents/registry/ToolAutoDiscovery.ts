@@ -38,6 +38,12 @@ export class ToolAutoDiscovery {
       toolRegistry.register(sorobanContractStateTool);
       const { riskAnalysisTool } = await import("../tools/riskAnalysis");
       toolRegistry.register(riskAnalysisTool);
+      const { portfolioTool } = await import("../tools/portfolio");
+      toolRegistry.register(portfolioTool);
+      const { scheduleTool } = await import("../tools/schedule");
+      toolRegistry.register(scheduleTool);
+      const { conditionalOrderTool } = await import("../tools/conditionalOrder");
+      toolRegistry.register(conditionalOrderTool);
       // todo
       // await this.discoverToolsFromDirectory();
 
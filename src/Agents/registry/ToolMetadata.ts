@@ -1,3 +1,5 @@
+import { WorkflowStep } from "../types";
+
 export type ParameterType =
   | "string"
   | "number"
@@ -22,17 +24,42 @@ export interface ToolMetadata {
   examples: string[];
   category: string;
   version: string;
+  /**
+   * How the tool behaves in simulate mode: "simulated" tools send their
+   * chain calls to the local chain and "readonly" tools never change state.
+   * Tools without it are refused in simulate mode.
+   */
+  simulation?: "simulated" | "readonly";
 }
 
 export interface ToolDefinition<T = Record<string, unknown>> {
   metadata: ToolMetadata;
-  execute: (payload: T, userId: string) => Promise<ToolResult>;
+  /**
+   * Run the tool. The signal is aborted when the execution is cancelled or
+   * times out; tools must check it before any irreversible action.
+   */
+  execute: (
+    payload: T,
+    userId: string,
+    signal?: AbortSignal
+  ) => Promise<ToolResult>;
   validate?: (payload: T) => { valid: boolean; errors: string[] };
+  /**
+   * Derive the compensating action that undoes this tool's effect.
+   * Called without a result when planning and with the step result when
+   * rolling back. Returns null when the operation is read-only or cannot
+   * be reversed.
+   */
+  getRollbackAction?: (payload: T, result?: ToolResult) => WorkflowStep | null;
 }
 
 export interface ToolResult {
   action: string;
-  status: "success" | "error";
+  /**
+   * `pending` when nothing was executed yet because the tool waits on
+   * someone else, such as a user signing in their own wallet
+   */
+  status: "success" | "error" | "pending";
   message?: string;
   data?: Record<string, unknown>;
   error?: string;
@@ -52,4 +79,3 @@ export interface ToolRegistryEntry {
   enabled: boolean;
   lastUsed?: Date;
 }
-
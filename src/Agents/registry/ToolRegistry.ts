@@ -8,6 +8,7 @@ import {
 import { withTimeout, TimeoutError } from "../../utils/timeout";
 import config from "../../config/config";
 import logger from "../../config/logger";
+import { getSimulationSession } from "../../simulation/simulationContext";
 
 export class ToolRegistry {
   private tools: Map<string, ToolRegistryEntry> = new Map();
@@ -208,13 +209,16 @@ export class ToolRegistry {
   }
 
   /**
-   * Execute a tool with payload validation and timeout
+   * Execute a tool with payload validation and timeout.
+   * The tool receives a signal that is aborted when the caller's signal is
+   * aborted or the timeout elapses, so it can stop before irreversible work.
    */
   async executeTool(
     toolName: string,
     payload: ToolPayload,
     userId: string,
-    timeoutMs?: number
+    timeoutMs?: number,
+    signal?: AbortSignal
   ): Promise<ToolResult> {
     const tool = this.getTool(toolName);
 
@@ -222,6 +226,17 @@ export class ToolRegistry {
       throw new ToolExecutionError(`Tool '${toolName}' not found or disabled`);
     }
 
+    // Only tools that cannot touch the live network may run in simulate mode
+    if (getSimulationSession() && !tool.metadata.simulation) {
+      const toolError = new ToolExecutionError(
+        `Tool '${toolName}' is not available in simulate mode`
+      );
+      toolError.toolName = toolName;
+      toolError.payload = payload;
+      toolError.userId = userId;
+      throw toolError;
+    }
+
     // Validate payload if tool has validation
     if (tool.validate) {
       const validation = tool.validate(payload);
@@ -234,17 +249,27 @@ export class ToolRegistry {
       }
     }
 
+    if (signal?.aborted) {
+      throw this.createCancelledError(toolName, payload, userId);
+    }
+
     const timeout = timeoutMs || config.agent.timeouts.toolExecution;
     logger.debug("Executing tool with timeout", { toolName, userId, timeout });
 
+    const controller = new AbortController();
+    const abortTool = () => controller.abort();
+    signal?.addEventListener("abort", abortTool, { once: true });
+
     try {
       const result = await withTimeout(
-        tool.execute(payload, userId),
+        tool.execute(payload, userId, controller.signal),
         {
           timeoutMs: timeout,
           operation: `Tool execution: ${toolName}`,
+          signal,
           onTimeout: () => {
             logger.error("Tool execution timeout", { toolName, userId, timeout });
+            controller.abort();
           },
         }
       );
@@ -257,6 +282,10 @@ export class ToolRegistry {
 
       return result;
     } catch (error) {
+      if (signal?.aborted) {
+        throw this.createCancelledError(toolName, payload, userId);
+      }
+
       if (error instanceof TimeoutError) {
         const toolError = new ToolExecutionError(
           `Tool '${toolName}' execution timed out after ${timeout}ms`
@@ -264,6 +293,7 @@ export class ToolRegistry {
         toolError.toolName = toolName;
         toolError.payload = payload;
         toolError.userId = userId;
+        toolError.timedOut = true;
         throw toolError;
       }
 
@@ -276,9 +306,27 @@ export class ToolRegistry {
       toolError.payload = payload;
       toolError.userId = userId;
       throw toolError;
+    } finally {
+      signal?.removeEventListener("abort", abortTool);
     }
   }
 
+  private createCancelledError(
+    toolName: string,
+    payload: ToolPayload,
+    userId: string
+  ): ToolExecutionError {
+    logger.warn("Tool execution cancelled", { toolName, userId });
+    const toolError = new ToolExecutionError(
+      `Tool '${toolName}' execution was cancelled`
+    );
+    toolError.toolName = toolName;
+    toolError.payload = payload;
+    toolError.userId = userId;
+    toolError.cancelled = true;
+    return toolError;
+  }
+
   /**
    * Get tool metadata for prompt generation
    */
@@ -384,6 +432,8 @@ class ToolExecutionError extends Error {
   public toolName: string = "";
   public payload: Record<string, unknown> = {};
   public userId: string = "";
+  public timedOut: boolean = false;
+  public cancelled: boolean = false;
 
   constructor(message: string) {
     super(message);
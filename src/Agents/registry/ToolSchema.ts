@@ -0,0 +1,57 @@
+import type { LLMTool } from "../llm/LLMProvider";
+import { ParameterDefinition, ToolMetadata } from "./ToolMetadata";
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Map a tool parameter to the JSON Schema the LLM validates its input against
+ */
+export function parameterToJsonSchema(
+  definition: ParameterDefinition
+): JsonSchema {
+  const schema: JsonSchema = {
+    type: definition.type,
+    description: definition.description,
+  };
+
+  if (definition.enum) schema.enum = definition.enum;
+  if (definition.pattern) schema.pattern = definition.pattern;
+  if (definition.min !== undefined) schema.minimum = definition.min;
+  if (definition.max !== undefined) schema.maximum = definition.max;
+
+  return schema;
+}
+
+export function toToolInputSchema(
+  metadata: ToolMetadata
+): LLMTool["input_schema"] {
+  const entries = Object.entries(metadata.parameters);
+
+  return {
+    type: "object",
+    properties: Object.fromEntries(
+      entries.map(([name, definition]) => [
+        name,
+        parameterToJsonSchema(definition),
+      ])
+    ),
+    required: entries
+      .filter(([, definition]) => definition.required)
+      .map(([name]) => name),
+  };
+}
+
+/**
+ * Anthropic tool definition for a registered tool
+ */
+export function toAnthropicTool(metadata: ToolMetadata): LLMTool {
+  return {
+    name: metadata.name,
+    description: metadata.description,
+    input_schema: toToolInputSchema(metadata),
+  };
+}
+
+export function toAnthropicTools(tools: ToolMetadata[]): LLMTool[] {
+  return tools.map(toAnthropicTool);
+}
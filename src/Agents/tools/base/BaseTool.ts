@@ -4,13 +4,18 @@ import {
   ToolResult,
   ToolPayload,
 } from "../../registry/ToolMetadata";
+import { throwIfCancelled } from "../../../utils/timeout";
 
-export abstract class BaseTool<T extends ToolPayload = ToolPayload>
-  implements ToolDefinition<T>
-{
+export abstract class BaseTool<
+  T extends ToolPayload = ToolPayload,
+> implements ToolDefinition<T> {
   abstract metadata: ToolMetadata;
 
-  abstract execute(payload: T, userId: string): Promise<ToolResult>;
+  abstract execute(
+    payload: T,
+    userId: string,
+    signal?: AbortSignal
+  ): Promise<ToolResult>;
 
   /**
    * Default validation method - can be overridden by subclasses
@@ -98,6 +103,39 @@ export abstract class BaseTool<T extends ToolPayload = ToolPayload>
       data,
     };
   }
-}
 
+  /**
+   * pending result
+   */
+  protected createPendingResult(
+    action: string,
+    message: string,
+    data: Record<string, unknown> = {}
+  ): ToolResult {
+    return {
+      action,
+      status: "pending",
+      message,
+      data,
+    };
+  }
+
+  /**
+   * Whether the execution this tool runs in was cancelled or timed out
+   */
+  protected isCancelled(signal?: AbortSignal): boolean {
+    return signal?.aborted === true;
+  }
 
+  /**
+   * Throw a CancellationError if the execution was cancelled or timed out.
+   * Call immediately before irreversible actions such as signing and
+   * submitting a transaction.
+   */
+  protected ensureNotCancelled(
+    signal: AbortSignal | undefined,
+    operation: string
+  ): void {
+    throwIfCancelled(signal, operation);
+  }
+}
@@ -0,0 +1,239 @@
+import { BaseTool } from "./base/BaseTool";
+import { ToolMetadata, ToolResult } from "../registry/ToolMetadata";
+import logger from "../../config/logger";
+import { ConditionalOrder } from "../../ConditionalOrders/conditionalOrder.entity";
+import {
+  ConditionalOrderError,
+  ConditionalOrderNotFoundError,
+  ConditionalOrderStateError,
+  conditionalOrderService,
+} from "../../ConditionalOrders/conditionalOrder.service";
+import {
+  CONDITIONAL_ORDER_TYPES,
+  ConditionalOrderType,
+  describeTrigger,
+  TriggerDirection,
+} from "../../ConditionalOrders/orderTrigger";
+
+type ConditionalOrderOperation = "create" | "list" | "cancel";
+
+interface ConditionalOrderPayload extends Record<string, unknown> {
+  operation: ConditionalOrderOperation;
+  type?: ConditionalOrderType;
+  from?: string;
+  to?: string;
+  amount?: number;
+  triggerPrice?: number;
+  direction?: TriggerDirection;
+  trailingPercent?: number;
+  priceAsset?: string;
+  maxSlippageBps?: number;
+  expiresAt?: string;
+  orderId?: string;
+}
+
+const summarizeOrder = (order: ConditionalOrder) => ({
+  id: order.id,
+  type: order.type,
+  swap: `${Number(order.amount)} ${order.fromAsset} to ${order.toAsset}`,
+  condition: describeOrder(order),
+  status: order.status,
+  expiresAt: order.expiresAt ?? null,
+});
+
+const describeOrder = (order: ConditionalOrder) =>
+  describeTrigger(
+    {
+      type: order.type,
+      direction: order.direction,
+      triggerPrice:
+        order.triggerPrice != null ? Number(order.triggerPrice) : null,
+      trailingPercent:
+        order.trailingPercent != null ? Number(order.trailingPercent) : null,
+    },
+    order.priceAsset
+  );
+
+export class ConditionalOrderTool extends BaseTool<ConditionalOrderPayload> {
+  metadata: ToolMetadata = {
+    name: "conditional_order_tool",
+    description:
+      "Place and manage conditional orders: swaps that execute automatically when a price condition is met, such as stop losses, take profits and trailing stops. Prices are in USDC.",
+    parameters: {
+      operation: {
+        type: "string",
+        description: "What to do",
+        required: true,
+        enum: ["create", "list", "cancel"],
+      },
+      type: {
+        type: "string",
+        description:
+          "For create: stop_loss sells when the price falls to triggerPrice, take_profit when it rises to it, trailing_stop when it falls trailingPercent from its peak, price_trigger in the given direction",
+        required: false,
+        enum: CONDITIONAL_ORDER_TYPES,
+      },
+      from: {
+        type: "string",
+        description: "For create: token to sell",
+        required: false,
+        enum: ["XLM", "USDC", "USDT"],
+      },
+      to: {
+        type: "string",
+        description: "For create: token to buy",
+        required: false,
+        enum: ["XLM", "USDC", "USDT"],
+      },
+      amount: {
+        type: "number",
+        description: "For create: amount of the from token to sell",
+        required: false,
+        min: 0,
+      },
+      triggerPrice: {
+        type: "number",
+        description: "For create: USDC price that triggers the order",
+        required: false,
+        min: 0,
+      },
+      direction: {
+        type: "string",
+        description:
+          "For price_trigger: trigger when the price is above or below triggerPrice",
+        required: false,
+        enum: ["above", "below"],
+      },
+      trailingPercent: {
+        type: "number",
+        description: "For trailing_stop: percent drop from the peak price",
+        required: false,
+        min: 0,
+        max: 100,
+      },
+      priceAsset: {
+        type: "string",
+        description:
+          "For create: token whose price is watched (defaults to the side of the swap that is not USDC)",
+        required: false,
+        enum: ["XLM", "USDT"],
+      },
+      maxSlippageBps: {
+        type: "number",
+        description:
+          "For create: highest acceptable price impact in basis points (default 100)",
+        required: false,
+        min: 1,
+        max: 1000,
+      },
+      expiresAt: {
+        type: "string",
+        description: "For create: when the order lapses (ISO 8601)",
+        required: false,
+      },
+      orderId: {
+        type: "string",
+        description: "For cancel: the order to cancel",
+        required: false,
+      },
+    },
+    examples: [
+      "Swap 1000 XLM to USDC if XLM drops below $0.09",
+      "Sell 500 XLM when it reaches $0.15",
+      "Set a 10% trailing stop on 2000 XLM",
+      "Buy XLM with 100 USDC if XLM falls under $0.08",
+      "Show my open orders",
+    ],
+    category: "trading",
+    version: "1.0.0",
+  };
+
+  async execute(
+    payload: ConditionalOrderPayload,
+    userId: string
+  ): Promise<ToolResult> {
+    try {
+      switch (payload.operation) {
+        case "create": {
+          const order = await conditionalOrderService.createOrder(userId, {
+            type: payload.type!,
+            fromAsset: payload.from!,
+            toAsset: payload.to!,
+            amount: payload.amount!,
+            triggerPrice: payload.triggerPrice,
+            direction: payload.direction,
+            trailingPercent: payload.trailingPercent,
+            priceAsset: payload.priceAsset,
+            maxSlippageBps: payload.maxSlippageBps,
+            expiresAt: payload.expiresAt,
+          });
+          return {
+            action: "conditional_order",
+            status: "success",
+            data: { order: summarizeOrder(order) },
+            message: `Order placed: swap ${Number(order.amount)} ${order.fromAsset} to ${order.toAsset} ${describeOrder(order)}. ${order.priceAsset} is at ${Number(order.createdPrice)} USDC now.`,
+          };
+        }
+        case "list": {
+          const orders = await conditionalOrderService.listOrders(
+            userId,
+            "active"
+          );
+          return {
+            action: "conditional_order",
+            status: "success",
+            data: { orders: orders.map(summarizeOrder) },
+            message:
+              orders.length === 0
+                ? "You have no open conditional orders."
+                : orders
+                    .map(
+                      (order) =>
+                        `${order.type}: ${Number(order.amount)} ${order.fromAsset} to ${order.toAsset} ${describeOrder(order)} - id ${order.id}`
+                    )
+                    .join("\n"),
+          };
+        }
+        case "cancel": {
+          if (!payload.orderId) {
+            return this.createErrorResult(
+              "conditional_order",
+              "orderId is required"
+            );
+          }
+          const order = await conditionalOrderService.cancelOrder(
+            userId,
+            payload.orderId
+          );
+          return {
+            action: "conditional_order",
+            status: "success",
+            data: { order: summarizeOrder(order) },
+            message: `Order ${order.id} cancelled.`,
+          };
+        }
+        default:
+          return this.createErrorResult(
+            "conditional_order",
+            `Unknown operation: ${String(payload.operation)}`
+          );
+      }
+    } catch (error) {
+      if (
+        !(
+          error instanceof ConditionalOrderError ||
+          error instanceof ConditionalOrderNotFoundError ||
+          error instanceof ConditionalOrderStateError
+        )
+      ) {
+        logger.error("Conditional order tool error:", error);
+      }
+      return this.createErrorResult(
+        "conditional_order",
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    }
+  }
+}
+
+export const conditionalOrderTool = new ConditionalOrderTool();
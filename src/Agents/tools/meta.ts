@@ -21,6 +21,7 @@ export class MetaTool extends BaseTool {
     ],
     category: "meta",
     version: "1.0.0",
+    simulation: "readonly",
   };
 
   async execute(
@@ -0,0 +1,152 @@
+import { BaseTool } from "./base/BaseTool";
+import { ToolMetadata, ToolResult } from "../registry/ToolMetadata";
+import logger from "../../config/logger";
+import {
+  CostBasisMethod,
+  PortfolioError,
+  portfolioService,
+} from "../../services/portfolio.service";
+
+type PortfolioPeriod = "today" | "week" | "month" | "year" | "all";
+
+interface PortfolioPayload extends Record<string, unknown> {
+  method?: CostBasisMethod;
+  quoteAsset?: string;
+  asset?: string;
+  period?: PortfolioPeriod;
+  startDate?: string;
+  endDate?: string;
+}
+
+/**
+ * Start of the calendar period containing now, in UTC
+ */
+function periodStart(
+  period: PortfolioPeriod,
+  now = new Date()
+): string | undefined {
+  const start = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  );
+  switch (period) {
+    case "today":
+      break;
+    case "week":
+      // Weeks start on Monday
+      start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+      break;
+    case "month":
+      start.setUTCDate(1);
+      break;
+    case "year":
+      start.setUTCMonth(0, 1);
+      break;
+    default:
+      return undefined;
+  }
+  return start.toISOString();
+}
+
+const formatSigned = (value: number, asset: string): string =>
+  `${value >= 0 ? "+" : ""}${value.toFixed(2)} ${asset}`;
+
+export class PortfolioTool extends BaseTool<PortfolioPayload> {
+  metadata: ToolMetadata = {
+    name: "portfolio_tool",
+    description:
+      "Report the user's holdings with cost basis and realized and unrealized profit and loss",
+    parameters: {
+      method: {
+        type: "string",
+        description: "Cost basis method (default: fifo)",
+        required: false,
+        enum: ["fifo", "lifo", "average"],
+      },
+      quoteAsset: {
+        type: "string",
+        description: "Asset profit and loss is expressed in (default: USDC)",
+        required: false,
+        enum: ["XLM", "USDC", "USDT"],
+      },
+      asset: {
+        type: "string",
+        description: "Only report this asset, e.g. XLM",
+        required: false,
+      },
+      period: {
+        type: "string",
+        description:
+          "Calendar period for realized profit and loss; overrides startDate",
+        required: false,
+        enum: ["today", "week", "month", "year", "all"],
+      },
+      startDate: {
+        type: "string",
+        description: "Start of the realized P&L window (ISO 8601)",
+        required: false,
+      },
+      endDate: {
+        type: "string",
+        description: "End of the realized P&L window (ISO 8601)",
+        required: false,
+      },
+    },
+    examples: [
+      "How much have I made on XLM this month?",
+      "Show my portfolio with LIFO cost basis",
+      "What is my unrealized profit in XLM terms?",
+    ],
+    category: "portfolio",
+    version: "1.0.0",
+    simulation: "readonly",
+  };
+
+  async execute(
+    payload: PortfolioPayload,
+    userId: string
+  ): Promise<ToolResult> {
+    try {
+      const startDate =
+        payload.period && payload.period !== "all"
+          ? periodStart(payload.period)
+          : payload.startDate;
+
+      const portfolio = await portfolioService.getPortfolio(userId, {
+        method: payload.method,
+        quoteAsset: payload.quoteAsset,
+        asset: payload.asset,
+        startDate,
+        endDate: payload.endDate,
+      });
+
+      const { totals, quoteAsset } = portfolio;
+      const scope = payload.asset ? ` on ${payload.asset}` : "";
+      const window =
+        payload.period && payload.period !== "all"
+          ? ` (${payload.period === "today" ? "today" : `this ${payload.period}`})`
+          : startDate
+            ? ` since ${startDate}`
+            : "";
+
+      return {
+        action: "portfolio",
+        status: "success",
+        data: { portfolio },
+        message:
+          `Realized P&L${scope}${window}: ${formatSigned(totals.realizedPnl, quoteAsset)}. ` +
+          `Unrealized P&L${scope}: ${formatSigned(totals.unrealizedPnl, quoteAsset)} ` +
+          `on a cost basis of ${totals.costBasis.toFixed(2)} ${quoteAsset}.`,
+      };
+    } catch (error) {
+      if (!(error instanceof PortfolioError)) {
+        logger.error("Portfolio tool error:", error);
+      }
+      return this.createErrorResult(
+        "portfolio",
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    }
+  }
+}
+
+export const portfolioTool = new PortfolioTool();
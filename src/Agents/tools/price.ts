@@ -65,6 +65,7 @@ export class PriceTool extends BaseTool<PricePayload> {
     ],
     category: "price",
     version: "1.0.0",
+    simulation: "readonly",
   };
 
   async execute(payload: PricePayload): Promise<ToolResult> {
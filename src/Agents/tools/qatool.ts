@@ -35,6 +35,7 @@ export class QATool extends BaseTool {
     ],
     category: "qa",
     version: "1.0.0",
+    simulation: "readonly",
   };
 
   private qaService = container.resolve(QaService);
@@ -51,6 +51,7 @@ export class RiskAnalysisTool extends BaseTool<RiskAnalysisPayload> {
     ],
     category: "security",
     version: "1.0.0",
+    simulation: "readonly",
   };
 
   async execute(payload: RiskAnalysisPayload, userId: string): Promise<ToolResult> {
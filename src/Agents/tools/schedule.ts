@@ -0,0 +1,245 @@
+import { BaseTool } from "./base/BaseTool";
+import { ToolMetadata, ToolResult } from "../registry/ToolMetadata";
+import logger from "../../config/logger";
+import { PlanValidationError } from "../planner/AgentPlanner";
+import {
+  MissedRunPolicy,
+  ScheduledJob,
+} from "../../Scheduler/scheduledJob.entity";
+import {
+  SCHEDULE_TOOL_NAME,
+  ScheduledJobError,
+  ScheduledJobNotFoundError,
+  ScheduledJobStateError,
+  scheduledJobService,
+} from "../../Scheduler/scheduledJob.service";
+import {
+  describeSchedule,
+  ScheduleError,
+  ScheduleFrequency,
+  SCHEDULE_FREQUENCIES,
+} from "../../Scheduler/schedule";
+
+type ScheduleOperation = "create" | "list" | "pause" | "resume" | "cancel";
+
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+interface SchedulePayload extends Record<string, unknown> {
+  operation: ScheduleOperation;
+  instruction?: string;
+  name?: string;
+  frequency?: ScheduleFrequency;
+  runAt?: string;
+  intervalMinutes?: number;
+  time?: string;
+  dayOfWeek?: string;
+  dayOfMonth?: number;
+  missedRunPolicy?: MissedRunPolicy;
+  jobId?: string;
+}
+
+const summarizeJob = (job: ScheduledJob) => ({
+  id: job.id,
+  name: job.name,
+  instruction: job.instruction,
+  schedule: describeSchedule(job.schedule),
+  status: job.status,
+  nextRunAt: job.nextRunAt ?? null,
+});
+
+export class ScheduleTool extends BaseTool<SchedulePayload> {
+  metadata: ToolMetadata = {
+    name: SCHEDULE_TOOL_NAME,
+    description:
+      "Create and manage recurring or scheduled jobs that run an action on the user's behalf, such as dollar cost averaging or scheduled transfers. Times are UTC.",
+    parameters: {
+      operation: {
+        type: "string",
+        description: "What to do",
+        required: true,
+        enum: ["create", "list", "pause", "resume", "cancel"],
+      },
+      instruction: {
+        type: "string",
+        description:
+          "For create: the action to run each time, without the timing, e.g. 'buy 50 XLM with USDC'",
+        required: false,
+      },
+      name: {
+        type: "string",
+        description: "For create: short name for the job",
+        required: false,
+      },
+      frequency: {
+        type: "string",
+        description: "For create: how often the job runs",
+        required: false,
+        enum: SCHEDULE_FREQUENCIES,
+      },
+      runAt: {
+        type: "string",
+        description:
+          "For once (and optionally interval) jobs: first run time (ISO 8601)",
+        required: false,
+      },
+      intervalMinutes: {
+        type: "number",
+        description: "For interval jobs: minutes between runs (at least 5)",
+        required: false,
+        min: 5,
+      },
+      time: {
+        type: "string",
+        description:
+          "For daily, weekly and monthly jobs: time of day as HH:MM UTC (default 00:00)",
+        required: false,
+      },
+      dayOfWeek: {
+        type: "string",
+        description: "For weekly jobs: day of the week",
+        required: false,
+        enum: WEEKDAYS,
+      },
+      dayOfMonth: {
+        type: "number",
+        description:
+          "For monthly jobs: day of the month (1-31); short months use their last day",
+        required: false,
+        min: 1,
+      },
+      missedRunPolicy: {
+        type: "string",
+        description:
+          "For create: what to do with runs missed while the service was down (default run_once)",
+        required: false,
+        enum: ["skip", "run_once", "run_all"],
+      },
+      jobId: {
+        type: "string",
+        description: "For pause, resume and cancel: the job to change",
+        required: false,
+      },
+    },
+    examples: [
+      "Buy 50 XLM with USDC every Monday",
+      "Send 10 USDC to Alice on the 1st of every month",
+      "Show my scheduled jobs",
+      "Pause my weekly XLM purchase",
+    ],
+    category: "automation",
+    version: "1.0.0",
+  };
+
+  async execute(payload: SchedulePayload, userId: string): Promise<ToolResult> {
+    try {
+      switch (payload.operation) {
+        case "create":
+          return await this.create(payload, userId);
+        case "list": {
+          const jobs = await scheduledJobService.listJobs(userId);
+          const active = jobs.filter(
+            (job) => job.status === "active" || job.status === "paused"
+          );
+          return {
+            action: "schedule",
+            status: "success",
+            data: { jobs: active.map(summarizeJob) },
+            message:
+              active.length === 0
+                ? "You have no scheduled jobs."
+                : active
+                    .map(
+                      (job) =>
+                        `${job.name} (${describeSchedule(job.schedule)}, ${job.status}) - id ${job.id}`
+                    )
+                    .join("\n"),
+          };
+        }
+        case "pause":
+        case "resume":
+        case "cancel": {
+          if (!payload.jobId) {
+            return this.createErrorResult("schedule", "jobId is required");
+          }
+          const job =
+            payload.operation === "pause"
+              ? await scheduledJobService.pauseJob(userId, payload.jobId)
+              : payload.operation === "resume"
+                ? await scheduledJobService.resumeJob(userId, payload.jobId)
+                : await scheduledJobService.cancelJob(userId, payload.jobId);
+          return {
+            action: "schedule",
+            status: "success",
+            data: { job: summarizeJob(job) },
+            message: `${job.name} is now ${job.status}.`,
+          };
+        }
+        default:
+          return this.createErrorResult(
+            "schedule",
+            `Unknown operation: ${String(payload.operation)}`
+          );
+      }
+    } catch (error) {
+      if (
+        !(
+          error instanceof ScheduleError ||
+          error instanceof ScheduledJobError ||
+          error instanceof ScheduledJobNotFoundError ||
+          error instanceof ScheduledJobStateError ||
+          error instanceof PlanValidationError
+        )
+      ) {
+        logger.error("Schedule tool error:", error);
+      }
+      return this.createErrorResult(
+        "schedule",
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    }
+  }
+
+  private async create(
+    payload: SchedulePayload,
+    userId: string
+  ): Promise<ToolResult> {
+    if (!payload.instruction) {
+      return this.createErrorResult("schedule", "instruction is required");
+    }
+
+    const dayOfWeek = payload.dayOfWeek
+      ? WEEKDAYS.indexOf(payload.dayOfWeek.toLowerCase())
+      : undefined;
+
+    const job = await scheduledJobService.createJob(userId, {
+      instruction: payload.instruction,
+      name: payload.name,
+      missedRunPolicy: payload.missedRunPolicy,
+      schedule: {
+        frequency: payload.frequency,
+        runAt: payload.runAt,
+        intervalMinutes: payload.intervalMinutes,
+        time: payload.time,
+        dayOfWeek,
+        dayOfMonth: payload.dayOfMonth,
+      },
+    });
+
+    return {
+      action: "schedule",
+      status: "success",
+      data: { job: summarizeJob(job) },
+      message: `Scheduled "${job.instruction}" ${describeSchedule(job.schedule)}. Next run: ${job.nextRunAt?.toISOString()}.`,
+    };
+  }
+}
+
+export const scheduleTool = new ScheduleTool();
@@ -76,9 +76,14 @@ export class SorobanTool extends BaseTool<SorobanInvokePayload> {
     ],
     category: "soroban",
     version: "1.0.0",
+    simulation: "simulated",
   };
 
-  async execute(payload: SorobanInvokePayload): Promise<ToolResult> {
+  async execute(
+    payload: SorobanInvokePayload,
+    _userId: string,
+    signal?: AbortSignal
+  ): Promise<ToolResult> {
     try {
       const params: InvokeContractParams = {
         network: payload.network || "testnet",
@@ -91,6 +96,7 @@ export class SorobanTool extends BaseTool<SorobanInvokePayload> {
         timeoutMs: payload.timeoutMs,
       };
 
+      this.ensureNotCancelled(signal, "contract invocation");
       const result = await invokeContract(params);
 
       return this.createSuccessResult("soroban_invoke", {
@@ -123,6 +123,7 @@ export class SorobanContractStateTool extends BaseTool<ContractStatePayload> {
     ],
     category: "soroban",
     version: "1.0.0",
+    simulation: "simulated",
   };
 
   async execute(
@@ -1,204 +1,230 @@
 import { BaseTool } from "./base/BaseTool";
 import { ToolMetadata, ToolResult } from "../registry/ToolMetadata";
+import { WorkflowStep } from "../types";
 import * as StellarSdk from "@stellar/stellar-sdk";
 import config from "../../config/config";
-import accountsData from "../../Auth/accounts.json";
 import logger from "../../config/logger";
 import stellarPriceService from "../../services/stellarPrice.service";
 import { flashSwapRiskAnalyzer } from "../../services/flashSwapRiskAnalyzer";
+import {
+  AssetVerificationService,
+  assetVerificationService,
+} from "../../services/assetVerificationService";
+import { transactionSigningService } from "../../Signing/signing.service";
+import {
+  interceptorFor,
+  ServiceInterceptor,
+} from "../../simulation/ServiceInterceptor";
+import { SwapResponse } from "../../simulation/ResponseGenerator";
+
+type SwapMode = "strict_send" | "strict_receive";
 
 interface SwapPayload extends Record<string, unknown> {
+  /** `XLM`, a built-in symbol (USDC, USDT) or `CODE:ISSUER` */
   from: string;
   to: string;
+  /** Amount of `from` to send, or of `to` to receive in strict_receive mode */
+  amount: number;
+  mode?: SwapMode;
+  maxSlippageBps?: number;
+}
+
+interface ResolvedSwap {
+  sourceAsset: StellarSdk.Asset;
+  destAsset: StellarSdk.Asset;
+  mode: SwapMode;
   amount: number;
+  maxSlippageBps: number;
 }
 
-interface StellarAccountData {
-  userId: string;
-  secretKey: string;
-  publicKey: string;
+interface SwapQuote {
+  sendAmount: number;
+  destAmount: number;
+  path: StellarSdk.Asset[];
 }
 
-// Stellar asset definitions
-const STELLAR_ASSETS: Record<string, StellarSdk.Asset> = {
-  XLM: StellarSdk.Asset.native(),
-  USDC: new StellarSdk.Asset(
-    "USDC",
-    "GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN" // Stellar USDC issuer (Circle)
-  ),
-  USDT: new StellarSdk.Asset(
-    "USDT",
-    "GCQTGZQQ5G4PTM2GL7CDIFKUBIPEC52BROAQIAPW53XBRJVN6ZJVTG6V" // Stellar USDT issuer
-  ),
+type PathRecord = {
+  source_amount: string;
+  destination_amount: string;
+  path: Array<{
+    asset_type: string;
+    asset_code?: string;
+    asset_issuer?: string;
+  }>;
 };
 
+const DEFAULT_MAX_SLIPPAGE_BPS = 100;
+const MAX_SLIPPAGE_BPS = 1000;
+const ASSET_CODE = /^[A-Za-z0-9]{1,12}$/;
+
+const formatAsset = (asset: StellarSdk.Asset) =>
+  asset.isNative() ? "XLM" : `${asset.getCode()}:${asset.getIssuer()}`;
+
+const toAmount = (value: number) => value.toFixed(7);
+
 export class SwapTool extends BaseTool<SwapPayload> {
   metadata: ToolMetadata = {
     name: "swap_tool",
-    description: "Swap tokens on the Stellar DEX using path payments",
+    description:
+      "Swap tokens on the Stellar DEX using path payments. Either sends an exact amount (strict_send) or receives an exact amount (strict_receive), and refuses to fill beyond the slippage tolerance.",
     parameters: {
       from: {
         type: "string",
-        description: "Source token symbol",
+        description:
+          "Token to sell: XLM, USDC, USDT or any other asset as CODE:ISSUER",
         required: true,
-        enum: ["XLM", "USDC", "USDT"],
       },
       to: {
         type: "string",
-        description: "Target token symbol",
+        description:
+          "Token to buy: XLM, USDC, USDT or any other asset as CODE:ISSUER",
         required: true,
-        enum: ["XLM", "USDC", "USDT"],
       },
       amount: {
         type: "number",
-        description: "Amount to swap",
+        description:
+          "Amount of the from token to sell, or of the to token to buy in strict_receive mode",
         required: true,
         min: 0,
       },
+      mode: {
+        type: "string",
+        description:
+          "strict_send (default) sells exactly amount; strict_receive buys exactly amount",
+        required: false,
+        enum: ["strict_send", "strict_receive"],
+      },
+      maxSlippageBps: {
+        type: "number",
+        description:
+          "Largest acceptable move against the quoted price, in basis points (default 100 = 1%)",
+        required: false,
+        min: 1,
+        max: MAX_SLIPPAGE_BPS,
+      },
     },
     examples: [
       "Swap 100 XLM to USDC",
       "Convert 50 USDC to XLM",
       "Exchange 10 USDT for XLM",
+      "Buy exactly 25 USDC with XLM",
+      "Swap 100 XLM to USDC with at most 0.5% slippage",
     ],
     category: "trading",
-    version: "1.0.0",
+    version: "2.0.0",
+    simulation: "simulated",
   };
 
   private server: StellarSdk.Horizon.Server;
 
-  constructor() {
+  constructor(
+    private readonly assetVerifier: Pick<
+      AssetVerificationService,
+      "verifyAsset"
+    > = assetVerificationService
+  ) {
     super();
     this.server = new StellarSdk.Horizon.Server(config.stellar.horizonUrl);
   }
 
-  private getStellarAccount(userId: string): StellarSdk.Keypair {
-    const accounts = accountsData as StellarAccountData[];
-    const accountData = accounts.find((a) => a.userId === userId);
+  /**
+   * The inverse of a swap sells the received asset back into the source asset.
+   * For strict sends the amount is only known once the swap has executed, so
+   * the plan-time action omits it and the executor re-derives it from the
+   * step result.
+   */
+  getRollbackAction(
+    payload: SwapPayload,
+    result?: ToolResult
+  ): WorkflowStep | null {
+    // An unsigned swap never reached the network
+    if (result?.status === "pending") return null;
 
-    if (!accountData) {
-      throw new Error(`Stellar account not found for user: ${userId}`);
-    }
+    const received =
+      result?.data?.receivedAmount ??
+      result?.data?.estimatedOutput ??
+      (payload.mode === "strict_receive" ? payload.amount : undefined);
 
-    return StellarSdk.Keypair.fromSecret(accountData.secretKey);
+    return {
+      action: this.metadata.name,
+      payload: {
+        from: payload.to,
+        to: payload.from,
+        ...(typeof received === "number" ? { amount: received } : {}),
+        ...(payload.maxSlippageBps !== undefined
+          ? { maxSlippageBps: payload.maxSlippageBps }
+          : {}),
+      },
+    };
   }
 
-  async execute(payload: SwapPayload, userId: string): Promise<ToolResult> {
+  async execute(
+    payload: SwapPayload,
+    userId: string,
+    signal?: AbortSignal
+  ): Promise<ToolResult> {
     try {
-      // Validate tokens
-      if (payload.from === payload.to) {
+      const mode = payload.mode ?? "strict_send";
+      if (mode !== "strict_send" && mode !== "strict_receive") {
         return this.createErrorResult(
           "swap",
-          "Source and destination tokens must be different"
+          "mode must be strict_send or strict_receive"
         );
       }
-
-      const sourceAsset = STELLAR_ASSETS[payload.from];
-      const destAsset = STELLAR_ASSETS[payload.to];
-
-      if (!sourceAsset || !destAsset) {
+      const maxSlippageBps = payload.maxSlippageBps ?? DEFAULT_MAX_SLIPPAGE_BPS;
+      if (
+        !Number.isInteger(maxSlippageBps) ||
+        maxSlippageBps < 1 ||
+        maxSlippageBps > MAX_SLIPPAGE_BPS
+      ) {
         return this.createErrorResult(
           "swap",
-          "Invalid token symbol. Supported: XLM, USDC, USDT"
+          `maxSlippageBps must be a whole number from 1 to ${MAX_SLIPPAGE_BPS}`
         );
       }
+      if (!(payload.amount > 0)) {
+        return this.createErrorResult("swap", "Amount must be greater than 0");
+      }
 
-      // Get price quote (with caching)
-      const priceQuote = await stellarPriceService.getPrice(
-        payload.from,
-        payload.to,
-        payload.amount
-      );
-
-      logger.info("Price quote obtained", {
-        price: priceQuote.price,
-        estimatedOutput: priceQuote.estimatedOutput,
-        cached: priceQuote.cached,
-        path: priceQuote.path,
-      });
-
-      // Analyze swap risk for sandwich attacks
-      logger.info("Analyzing swap risk", { userId, amount: payload.amount });
-      const riskAnalysis = await flashSwapRiskAnalyzer.analyzeSwapRisk({
-        fromAsset: sourceAsset,
-        toAsset: destAsset,
-        amount: payload.amount,
-      });
-
-      // Notify user of risks
-      if (riskAnalysis.riskLevel === "critical") {
+      const sourceAsset = await this.resolveAsset(payload.from);
+      const destAsset = await this.resolveAsset(payload.to);
+      if (sourceAsset.equals(destAsset)) {
         return this.createErrorResult(
           "swap",
-          `CRITICAL RISK: Swap blocked due to high sandwich attack risk (${(riskAnalysis.sandwichAttackRisk * 100).toFixed(1)}%). ${riskAnalysis.warnings.join(". ")}. Recommendations: ${riskAnalysis.recommendations.join(". ")}`
+          "Source and destination tokens must be different"
         );
       }
 
-      if (riskAnalysis.riskLevel === "high") {
-        logger.warn("High risk swap detected", { userId, riskAnalysis });
-      }
-
-      // Get user's Stellar keypair
-      const sourceKeypair = this.getStellarAccount(userId);
-      const sourcePublicKey = sourceKeypair.publicKey();
-
-      logger.info("Initiating swap", {
-        userId,
+      const order: ResolvedSwap = {
+        sourceAsset,
+        destAsset,
+        mode,
         amount: payload.amount,
-        from: payload.from,
-        to: payload.to,
-        riskLevel: riskAnalysis.riskLevel,
-      });
-
-      // Load source account to get sequence number
-      const sourceAccount = await this.server.loadAccount(sourcePublicKey);
-
-      // Convert amount to Stellar format (7 decimal places)
-      const sendAmount = payload.amount.toFixed(7);
-
-      // Calculate minimum destination amount with 1% slippage tolerance
-      const minDestAmount = (priceQuote.estimatedOutput * 0.99).toFixed(7);
-
-      // Build transaction with path payment strict send
-      // This automatically finds the best path through Stellar's DEX
-      const transaction = new StellarSdk.TransactionBuilder(sourceAccount, {
-        fee: StellarSdk.BASE_FEE,
-        networkPassphrase: config.stellar.networkPassphrase,
-      })
-        .addOperation(
-          StellarSdk.Operation.pathPaymentStrictSend({
-            sendAsset: sourceAsset,
-            sendAmount: sendAmount,
-            destination: sourcePublicKey, // Send to self (swap)
-            destAsset: destAsset,
-            destMin: minDestAmount, // Minimum acceptable amount with slippage
-          })
-        )
-        .setTimeout(30)
-        .build();
-
-      // Sign transaction
-      transaction.sign(sourceKeypair);
-
-      // Submit to Stellar network
-      const result = await this.server.submitTransaction(transaction);
+        maxSlippageBps,
+      };
+      const interceptor = interceptorFor("swap");
+      if (interceptor?.shouldIntercept("swap")) {
+        return await this.simulateSwap(interceptor, order, userId);
+      }
 
-      return this.createSuccessResult("swap", {
-        from: payload.from,
-        to: payload.to,
-        amount: payload.amount,
-        estimatedOutput: priceQuote.estimatedOutput,
-        price: priceQuote.price,
-        txHash: result.hash,
-        timestamp: new Date().toISOString(),
-        ledger: result.ledger,
-        successful: result.successful,
-        riskAnalysis: {
-          riskLevel: riskAnalysis.riskLevel,
-          sandwichAttackRisk: riskAnalysis.sandwichAttackRisk,
-          warnings: riskAnalysis.warnings,
-          recommendations: riskAnalysis.recommendations,
-        },
-      });
+      const onDex = () => this.swapOnDex(payload, order, userId, signal);
+      // Record or replay the swap as one call when fixtures are in use
+      return await (interceptor
+        ? interceptor.passThrough(
+            "swap",
+            "swap",
+            [
+              {
+                from: formatAsset(sourceAsset),
+                to: formatAsset(destAsset),
+                mode,
+                amount: payload.amount,
+                maxSlippageBps,
+              },
+            ],
+            onDex
+          )
+        : onDex());
     } catch (error) {
       let errorMessage = "Unknown error";
 
@@ -227,6 +253,12 @@ export class SwapTool extends BaseTool<SwapPayload> {
             errorMessage = `Insufficient ${payload.from} balance for swap`;
           } else if (codes.operations?.includes("op_too_few_offers")) {
             errorMessage = `No liquidity path found for ${payload.from} → ${payload.to} swap`;
+          } else if (
+            codes.operations?.includes("op_under_dest_min") ||
+            codes.operations?.includes("op_over_source_max")
+          ) {
+            errorMessage =
+              "The price moved beyond the slippage tolerance before the swap executed";
           }
         }
       }
@@ -234,6 +266,360 @@ export class SwapTool extends BaseTool<SwapPayload> {
       return this.createErrorResult("swap", `Swap failed: ${errorMessage}`);
     }
   }
+
+  /**
+   * Quote the swap from the DEX, sign it and submit it to Stellar
+   */
+  private async swapOnDex(
+    payload: SwapPayload,
+    order: ResolvedSwap,
+    userId: string,
+    signal?: AbortSignal
+  ): Promise<ToolResult> {
+    const { sourceAsset, destAsset, mode, maxSlippageBps } = order;
+
+    // Quote straight from the DEX; cached prices are too stale for limits
+    const quote = await this.findBestPath(
+      mode,
+      sourceAsset,
+      destAsset,
+      payload.amount
+    );
+    const quotedPrice = quote.destAmount / quote.sendAmount;
+    const tolerance = maxSlippageBps / 10000;
+    const limits =
+      mode === "strict_send"
+        ? { destMin: toAmount(quote.destAmount * (1 - tolerance)) }
+        : { sendMax: toAmount(quote.sendAmount * (1 + tolerance)) };
+
+    logger.info("Swap path quoted", {
+      mode,
+      sendAmount: quote.sendAmount,
+      destAmount: quote.destAmount,
+      path: quote.path.map(formatAsset),
+      ...limits,
+    });
+
+    // Analyze swap risk for sandwich attacks
+    logger.info("Analyzing swap risk", { userId, amount: quote.sendAmount });
+    const riskAnalysis = await flashSwapRiskAnalyzer.analyzeSwapRisk({
+      fromAsset: sourceAsset,
+      toAsset: destAsset,
+      amount: quote.sendAmount,
+    });
+
+    // Notify user of risks
+    if (riskAnalysis.riskLevel === "critical") {
+      return this.createErrorResult(
+        "swap",
+        `CRITICAL RISK: Swap blocked due to high sandwich attack risk (${(riskAnalysis.sandwichAttackRisk * 100).toFixed(1)}%). ${riskAnalysis.warnings.join(". ")}. Recommendations: ${riskAnalysis.recommendations.join(". ")}`
+      );
+    }
+
+    if (riskAnalysis.riskLevel === "high") {
+      logger.warn("High risk swap detected", { userId, riskAnalysis });
+    }
+
+    // Resolve how this user's transactions are signed
+    const signer = await transactionSigningService.forUser(userId);
+    const sourcePublicKey = await signer.getPublicKey(userId);
+
+    logger.info("Initiating swap", {
+      userId,
+      mode,
+      amount: payload.amount,
+      from: payload.from,
+      to: payload.to,
+      riskLevel: riskAnalysis.riskLevel,
+    });
+
+    // Load source account to get sequence number
+    const sourceAccount = await this.server.loadAccount(sourcePublicKey);
+
+    // The path payment pays ourselves, which is what makes it a swap
+    const operation =
+      mode === "strict_send"
+        ? StellarSdk.Operation.pathPaymentStrictSend({
+            sendAsset: sourceAsset,
+            sendAmount: toAmount(payload.amount),
+            destination: sourcePublicKey,
+            destAsset,
+            destMin: limits.destMin!,
+            path: quote.path,
+          })
+        : StellarSdk.Operation.pathPaymentStrictReceive({
+            sendAsset: sourceAsset,
+            sendMax: limits.sendMax!,
+            destination: sourcePublicKey,
+            destAsset,
+            destAmount: toAmount(payload.amount),
+            path: quote.path,
+          });
+
+    const transaction = new StellarSdk.TransactionBuilder(sourceAccount, {
+      fee: StellarSdk.BASE_FEE,
+      networkPassphrase: config.stellar.networkPassphrase,
+    })
+      .addOperation(operation)
+      .setTimeout(30)
+      .build();
+
+    // Stop here if the execution was cancelled while quoting
+    this.ensureNotCancelled(signal, "swap submission");
+
+    // Sign transaction
+    const signed = await signer.signTransaction({
+      userId,
+      transaction,
+      purpose: "swap",
+      metadata: {
+        from: payload.from,
+        to: payload.to,
+        amount: payload.amount,
+        mode,
+        maxSlippageBps,
+      },
+      signal,
+    });
+
+    const quoted = {
+      from: formatAsset(sourceAsset),
+      to: formatAsset(destAsset),
+      mode,
+      amount: payload.amount,
+      sendAmount: quote.sendAmount,
+      estimatedOutput: quote.destAmount,
+      quotedPrice,
+      maxSlippageBps,
+      ...limits,
+      path: [sourceAsset, ...quote.path, destAsset].map(formatAsset),
+    };
+
+    // The user signs in their own wallet and posts the envelope back
+    if (signed.status === "pending") {
+      return this.createPendingResult(
+        "swap",
+        "Swap is waiting to be signed in the user's wallet",
+        {
+          ...quoted,
+          awaitingSignature: true,
+          signingRequestId: signed.request.id,
+          unsignedXdr: signed.request.xdr,
+          networkPassphrase: signed.request.networkPassphrase,
+          expiresAt: signed.request.expiresAt,
+        }
+      );
+    }
+
+    // Submit to Stellar network
+    const result = await this.server.submitTransaction(signed.transaction);
+    const executed = await this.getExecutedAmounts(result.hash);
+
+    return this.createSuccessResult("swap", {
+      ...quoted,
+      ...(executed
+        ? {
+            sentAmount: executed.sent,
+            receivedAmount: executed.received,
+            executedPrice: executed.received / executed.sent,
+            // Positive when the fill was worse than the quote
+            slippageBps:
+              Math.round(
+                ((quotedPrice - executed.received / executed.sent) /
+                  quotedPrice) *
+                  1000000
+              ) / 100,
+          }
+        : {}),
+      txHash: result.hash,
+      timestamp: new Date().toISOString(),
+      ledger: result.ledger,
+      successful: result.successful,
+      riskAnalysis: {
+        riskLevel: riskAnalysis.riskLevel,
+        sandwichAttackRisk: riskAnalysis.sandwichAttackRisk,
+        warnings: riskAnalysis.warnings,
+        recommendations: riskAnalysis.recommendations,
+      },
+    });
+  }
+
+  /**
+   * Fill the swap against the local chain's pools instead of the DEX. The
+   * user's simulated balances move, and ledger failures carry the same result
+   * codes as Horizon's, so they are reported like live ones.
+   */
+  private async simulateSwap(
+    interceptor: ServiceInterceptor,
+    swap: ResolvedSwap,
+    userId: string
+  ): Promise<ToolResult> {
+    const from = formatAsset(swap.sourceAsset);
+    const to = formatAsset(swap.destAsset);
+    const response = await interceptor.simulate(
+      "swap",
+      "swap",
+      {
+        inputToken: from,
+        outputToken: to,
+        [swap.mode === "strict_send" ? "inputAmount" : "outputAmount"]:
+          toAmount(swap.amount),
+        mode: swap.mode,
+        maxSlippageBps: swap.maxSlippageBps,
+      },
+      userId
+    );
+
+    const fill = response.data as SwapResponse;
+    const sent = parseFloat(fill.inputAmount);
+    const received = parseFloat(fill.outputAmount);
+
+    return this.createSuccessResult("swap", {
+      from,
+      to,
+      mode: swap.mode,
+      amount: swap.amount,
+      sendAmount: sent,
+      estimatedOutput: received,
+      maxSlippageBps: swap.maxSlippageBps,
+      sentAmount: sent,
+      receivedAmount: received,
+      executedPrice: received / sent,
+      priceImpact: fill.slippage,
+      fee: fill.fee,
+      txHash: fill.txHash,
+      timestamp: new Date().toISOString(),
+      simulated: true,
+    });
+  }
+
+  /**
+   * Turn a payload asset into a Stellar asset. Assets other than XLM and the
+   * built-in stablecoins must pass issuer verification before we trade them.
+   */
+  private async resolveAsset(identifier: unknown): Promise<StellarSdk.Asset> {
+    if (typeof identifier !== "string" || !identifier.trim()) {
+      throw new Error("Source and destination tokens are required");
+    }
+
+    const [code, issuer] = identifier.trim().split(":");
+    if (issuer === undefined) {
+      try {
+        return stellarPriceService.getAsset(code);
+      } catch {
+        throw new Error(
+          `Unknown token ${identifier}. Identify other assets as CODE:ISSUER`
+        );
+      }
+    }
+
+    if (
+      !ASSET_CODE.test(code) ||
+      !StellarSdk.StrKey.isValidEd25519PublicKey(issuer)
+    ) {
+      throw new Error(`Invalid asset ${identifier}; expected CODE:ISSUER`);
+    }
+    const asset = new StellarSdk.Asset(code, issuer);
+
+    try {
+      if (stellarPriceService.getAsset(code).equals(asset)) {
+        return asset;
+      }
+    } catch {
+      // Not a built-in asset
+    }
+
+    const verification = await this.assetVerifier.verifyAsset(code, issuer);
+    if (!verification.isSafe) {
+      throw new Error(
+        `Asset ${identifier} failed verification (${verification.status})${verification.details ? `: ${verification.details}` : ""}`
+      );
+    }
+    return asset;
+  }
+
+  /**
+   * Best DEX path for the swap: the most received for a strict send, the
+   * least spent for a strict receive
+   */
+  private async findBestPath(
+    mode: SwapMode,
+    sourceAsset: StellarSdk.Asset,
+    destAsset: StellarSdk.Asset,
+    amount: number
+  ): Promise<SwapQuote> {
+    const { records } =
+      mode === "strict_send"
+        ? await this.server
+            .strictSendPaths(sourceAsset, toAmount(amount), [destAsset])
+            .call()
+        : await this.server
+            .strictReceivePaths([sourceAsset], destAsset, toAmount(amount))
+            .call();
+
+    if (!records || records.length === 0) {
+      throw new Error(
+        `No liquidity path found for ${formatAsset(sourceAsset)} → ${formatAsset(destAsset)}`
+      );
+    }
+
+    const best = (records as PathRecord[]).reduce((best, record) =>
+      mode === "strict_send"
+        ? parseFloat(record.destination_amount) >
+          parseFloat(best.destination_amount)
+          ? record
+          : best
+        : parseFloat(record.source_amount) < parseFloat(best.source_amount)
+          ? record
+          : best
+    );
+
+    return {
+      sendAmount: parseFloat(best.source_amount),
+      destAmount: parseFloat(best.destination_amount),
+      path: best.path.map((hop) =>
+        hop.asset_type === "native"
+          ? StellarSdk.Asset.native()
+          : new StellarSdk.Asset(hop.asset_code!, hop.asset_issuer!)
+      ),
+    };
+  }
+
+  /**
+   * What the submitted path payment actually sent and received, or null
+   * when Horizon cannot tell us
+   */
+  private async getExecutedAmounts(
+    hash: string
+  ): Promise<{ sent: number; received: number } | null> {
+    try {
+      const { records } = await this.server
+        .operations()
+        .forTransaction(hash)
+        .call();
+      const payment = (
+        records as unknown as Array<{
+          type: string;
+          amount?: string;
+          source_amount?: string;
+        }>
+      ).find(
+        (record) =>
+          record.type === "path_payment_strict_send" ||
+          record.type === "path_payment_strict_receive"
+      );
+      if (!payment?.amount || !payment.source_amount) {
+        return null;
+      }
+      return {
+        sent: parseFloat(payment.source_amount),
+        received: parseFloat(payment.amount),
+      };
+    } catch (error) {
+      logger.warn("Unable to load executed swap amounts", { hash, error });
+      return null;
+    }
+  }
 }
 
 export const swapTool = new SwapTool();
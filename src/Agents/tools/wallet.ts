@@ -1,5 +1,4 @@
 import { Account, RpcProvider, Contract, uint256 } from "starknet";
-import accountsData from "../../Auth/accounts.json";
 import tokenAbi from "../../abis/token.json";
 import { container } from "tsyringe";
 import {
@@ -9,24 +8,18 @@ import {
 } from "../../constants/tokenaddresses";
 import { BaseTool } from "./base/BaseTool";
 import { ToolMetadata, ToolResult } from "../registry/ToolMetadata";
+import { WorkflowStep } from "../types";
 import ContactService from "../../Contacts/contact.service";
+import { keyCustodyService } from "../../Custody/custody.service";
 import config from "../../config/config";
 import logger from "../../config/logger";
+import { interceptorFor } from "../../simulation/ServiceInterceptor";
 const tokensMap: Record<supportedTokens, string> = {
   DAI: DAITokenAddress,
   STRK: STRKTokenAddress,
   ETH: ETHTokenAddress,
 };
 
-interface AccountData {
-  userId: string;
-  privateKey: string;
-  publicKey: string;
-  precalculatedAddress: string;
-  deployed: boolean;
-  contract_address?: string;
-}
-
 type supportedTokens = "STRK" | "ETH" | "DAI";
 
 interface BalancePayload {
@@ -76,38 +69,61 @@ export class WalletTool extends BaseTool {
     ],
     category: "wallet",
     version: "1.0.0",
+    simulation: "simulated",
   };
 
-  private accounts: AccountData[];
   private provider: RpcProvider;
   private contactService = container.resolve(ContactService);
   constructor() {
     super();
-    this.accounts = accountsData as AccountData[];
     this.provider = new RpcProvider({
       nodeUrl: config.node_url,
     });
   }
 
-  private getAccount(userId: string): AccountData {
-    const account = this.accounts.find((a) => a.userId === userId);
-    if (!account) throw new Error(`Account not found: ${userId}`);
-    return account;
+  private async getAddress(userId: string): Promise<string> {
+    const key = await keyCustodyService.requireKeyInfo(userId, "starknet");
+    if (!key.address) throw new Error(`Account address not found: ${userId}`);
+    return key.address;
   }
 
-  private getStarkAccount(userId: string): Account {
-    const accountData = this.getAccount(userId);
-
+  private async getStarkAccount(userId: string): Promise<Account> {
     return new Account(
       this.provider,
-      accountData.precalculatedAddress,
-      accountData.privateKey
+      await this.getAddress(userId),
+      await keyCustodyService.getStarknetSigner(userId)
     );
   }
 
+  /**
+   * Run a wallet call on Starknet, or answer it from the local chain when
+   * the wallet is simulated
+   */
+  private async onChain<T>(
+    operation: string,
+    parameters: Record<string, unknown>,
+    userId: string,
+    live: () => Promise<T>
+  ): Promise<T> {
+    const interceptor = interceptorFor("wallet");
+    return interceptor
+      ? interceptor.intercept("wallet", operation, [parameters], live, userId)
+      : live();
+  }
+
+  /**
+   * Balance and address lookups are read-only, and a transfer to another
+   * party cannot be reversed by the sender, so no wallet operation has a
+   * compensating action.
+   */
+  getRollbackAction(): WorkflowStep | null {
+    return null;
+  }
+
   async execute(
     payload: Record<string, unknown>,
-    userId: string
+    userId: string,
+    signal?: AbortSignal
   ): Promise<ToolResult> {
     const operation = payload.operation as string;
 
@@ -115,7 +131,11 @@ export class WalletTool extends BaseTool {
       case "get_balance":
         return this.getBalance(payload as unknown as BalancePayload, userId);
       case "transfer":
-        return this.transfer(payload as unknown as TransferPayload, userId);
+        return this.transfer(
+          payload as unknown as TransferPayload,
+          userId,
+          signal
+        );
       case "get_address":
         return this.getWalletAddress(userId);
       default:
@@ -132,23 +152,29 @@ export class WalletTool extends BaseTool {
   ): Promise<ToolResult> {
     try {
       logger.info("Getting wallet balance", { token: payload.token, userId });
-      const accountData = this.getAccount(userId);
-      const acct = this.getStarkAccount(userId);
-
       const contractAddress = tokensMap[payload.token];
       if (!contractAddress) throw new Error("invalid token ");
-      const contract = new Contract(tokenAbi, contractAddress, acct);
-      const balance = await contract.balanceOf(
-        accountData.precalculatedAddress
+
+      const data = await this.onChain(
+        "get_balance",
+        { token: payload.token },
+        userId,
+        async () => {
+          const address = await this.getAddress(userId);
+          const acct = await this.getStarkAccount(userId);
+          const contract = new Contract(tokenAbi, contractAddress, acct);
+          const balance = await contract.balanceOf(address);
+          return {
+            balance: `${(Number(balance.balance.toString()) / 10 ** 18).toFixed(
+              2
+            )} ${payload.token}`,
+            token: contractAddress,
+            address,
+          };
+        }
       );
 
-      const result = this.createSuccessResult("wallet_balance", {
-        balance: `${(Number(balance.balance.toString()) / 10 ** 18).toFixed(
-          2
-        )} ${payload.token}`,
-        token: contractAddress,
-        address: accountData.precalculatedAddress,
-      });
+      const result = this.createSuccessResult("wallet_balance", data);
       logger.info("Balance retrieved successfully", { token: payload.token, userId });
       return result;
     } catch (error) {
@@ -164,11 +190,11 @@ export class WalletTool extends BaseTool {
 
   private async transfer(
     payload: TransferPayload,
-    userId: string
+    userId: string,
+    signal?: AbortSignal
   ): Promise<ToolResult> {
     try {
       logger.info("Initiating transfer", { to: payload.to, amount: payload.amount, token: payload.token, userId });
-      const starkAccount = this.getStarkAccount(userId);
       const tokenAddress = payload.token
         ? tokensMap[payload.token]
         : STRKTokenAddress;
@@ -176,25 +202,36 @@ export class WalletTool extends BaseTool {
         payload.to
       );
       if (isValidContact) payload.to = isValidContact.address;
-      const amount = uint256.bnToUint256(payload.amount * 10 ** 18);
-      const tx = await starkAccount.execute({
-        contractAddress: tokenAddress,
-        entrypoint: "transfer",
-        calldata: [payload.to, amount.low, amount.high],
-      });
+      this.ensureNotCancelled(signal, "transfer submission");
 
-      await starkAccount.waitForTransaction(tx.transaction_hash);
+      const data = await this.onChain(
+        "transfer",
+        { to: payload.to, amount: payload.amount, token: payload.token },
+        userId,
+        async () => {
+          const starkAccount = await this.getStarkAccount(userId);
+          const amount = uint256.bnToUint256(payload.amount * 10 ** 18);
+          const tx = await starkAccount.execute({
+            contractAddress: tokenAddress,
+            entrypoint: "transfer",
+            calldata: [payload.to, amount.low, amount.high],
+          });
 
-      const result = this.createSuccessResult("transfer", {
-        from: starkAccount.address,
-        to: payload.to,
-        amount: payload.amount,
-        txHash: tx.transaction_hash,
-      });
+          await starkAccount.waitForTransaction(tx.transaction_hash);
+          return {
+            from: starkAccount.address,
+            to: payload.to,
+            amount: payload.amount,
+            txHash: tx.transaction_hash,
+          };
+        }
+      );
+
+      const result = this.createSuccessResult("transfer", data);
       logger.info("Transfer completed successfully", {
         to: payload.to,
         amount: payload.amount,
-        txHash: tx.transaction_hash,
+        txHash: data.txHash,
         userId
       });
       return result;
@@ -211,11 +248,11 @@ export class WalletTool extends BaseTool {
 
   private async getWalletAddress(userId: string): Promise<ToolResult> {
     try {
-      const account = this.getAccount(userId);
+      const data = await this.onChain("get_address", {}, userId, async () => ({
+        address: await this.getAddress(userId),
+      }));
       logger.info("Retrieved wallet address", { userId });
-      return this.createSuccessResult("address", {
-        address: account.precalculatedAddress,
-      });
+      return this.createSuccessResult("address", data);
     } catch (error) {
       logger.error("Failed to get wallet address", { error, userId });
       return this.createErrorResult(
@@ -28,7 +28,7 @@ export type WorkflowPlan = {
 // Legacy ToolResult interface - now superseded by registry types
 export interface ToolResult {
   action: string;
-  status: "success" | "error";
+  status: "success" | "error" | "pending";
   message?: string;
   data?: Record<string, unknown>;
   error?: string;
@@ -27,6 +27,7 @@ export enum AuditAction {
   TRADE_INITIATED = "trade_initiated",
   TRADE_CONFIRMED = "trade_confirmed",
   TRADE_FAILED = "trade_failed",
+  TRADE_CANCELLED = "trade_cancelled",
   SWAP_EXECUTED = "swap_executed",
   TRANSFER_INITIATED = "transfer_initiated",
   TRANSFER_COMPLETED = "transfer_completed",
@@ -35,6 +36,17 @@ export enum AuditAction {
   WALLET_FUNDED = "wallet_funded",
   WALLET_DEPLOYED = "wallet_deployed",
 
+  // Key custody
+  KEY_STORED = "key_stored",
+  KEY_DECRYPTED = "key_decrypted",
+  KEY_ROTATED = "key_rotated",
+  KEY_DELETED = "key_deleted",
+
+  // Transaction signing
+  SIGNATURE_REQUESTED = "signature_requested",
+  SIGNATURE_SUBMITTED = "signature_submitted",
+  SIGNATURE_REJECTED = "signature_rejected",
+
   // Security events
   UNAUTHORIZED_ACCESS = "unauthorized_access",
   PERMISSION_DENIED = "permission_denied",
@@ -44,6 +44,9 @@ export class User {
   @Column({ type: "varchar", default: "user" })
   role!: string;
 
+  @Column({ type: "varchar", default: "custody" })
+  signingMode!: string;
+
   @Column({ type: "varchar", nullable: true })
   resetTokenHash?: string;
 
@@ -5,6 +5,7 @@ import AppDataSource from "../config/Datasource";
 import { generateStellarKeypair } from "./stellar.service";
 import { encrypt, decrypt } from "../utils/encryption";
 import { ConflictError, BadError } from "../utils/error";
+import { keyCustodyService } from "../Custody/custody.service";
 
 interface CreateUserPayload {
   name: string;
@@ -62,6 +63,19 @@ export default class UserService {
 
     const savedUser = await this.userRepository.save(user);
 
+    // Tools sign through custody, so the user cannot trade without the key
+    try {
+      await keyCustodyService.storeKey({
+        userId: savedUser.id,
+        chain: "stellar",
+        secret: secretKey,
+        publicKey,
+      });
+    } catch (error) {
+      await this.userRepository.delete({ id: savedUser.id });
+      throw error;
+    }
+
     return {
       id: savedUser.id,
       name: savedUser.name,
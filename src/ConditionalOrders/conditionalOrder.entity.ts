@@ -0,0 +1,116 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from "typeorm";
+import { ConditionalOrderType, TriggerDirection } from "./orderTrigger";
+
+/**
+ * active: waiting for its condition. triggered: the swap was sent to the
+ * user's wallet for signing. executed, failed, cancelled and expired are
+ * final.
+ */
+export type ConditionalOrderStatus =
+  | "active"
+  | "triggered"
+  | "executed"
+  | "failed"
+  | "cancelled"
+  | "expired";
+
+/**
+ * A swap the monitor executes once the price of `priceAsset` meets the
+ * order's condition. Prices are quoted in USDC.
+ */
+@Entity("conditional_order")
+@Index(["status", "createdAt"])
+@Index(["userId", "createdAt"])
+export class ConditionalOrder {
+  @PrimaryGeneratedColumn("uuid")
+  id!: string;
+
+  @Column({ type: "varchar" })
+  userId!: string;
+
+  @Column({ type: "varchar", length: 20 })
+  type!: ConditionalOrderType;
+
+  @Column({ type: "varchar", length: 5 })
+  direction!: TriggerDirection;
+
+  @Column({ type: "varchar", length: 12 })
+  fromAsset!: string;
+
+  @Column({ type: "varchar", length: 12 })
+  toAsset!: string;
+
+  /** Amount of `fromAsset` to sell */
+  @Column({ type: "numeric", precision: 30, scale: 7 })
+  amount!: string;
+
+  /** Asset whose price is watched */
+  @Column({ type: "varchar", length: 12 })
+  priceAsset!: string;
+
+  @Column({ type: "numeric", precision: 30, scale: 10, nullable: true })
+  triggerPrice?: string | null;
+
+  @Column({ type: "numeric", precision: 6, scale: 3, nullable: true })
+  trailingPercent?: string | null;
+
+  /** Highest price seen since the order was created, for trailing stops */
+  @Column({ type: "numeric", precision: 30, scale: 10, nullable: true })
+  peakPrice?: string | null;
+
+  /** Slippage tolerance of the swap and highest price impact accepted, in basis points */
+  @Column({ type: "int", default: 100 })
+  maxSlippageBps!: number;
+
+  @Column({ type: "varchar", length: 20, default: "active" })
+  status!: ConditionalOrderStatus;
+
+  @Column({ type: "numeric", precision: 30, scale: 10 })
+  createdPrice!: string;
+
+  @Column({ type: "numeric", precision: 30, scale: 10, nullable: true })
+  lastPrice?: string | null;
+
+  @Column({ type: "timestamp", nullable: true })
+  lastCheckedAt?: Date | null;
+
+  /** Why a triggered order has not executed yet, e.g. thin liquidity */
+  @Column({ type: "text", nullable: true })
+  deferredReason?: string | null;
+
+  @Column({ type: "timestamp", nullable: true })
+  expiresAt?: Date | null;
+
+  @Column({ type: "timestamp", nullable: true })
+  triggeredAt?: Date | null;
+
+  @Column({ type: "numeric", precision: 30, scale: 10, nullable: true })
+  triggeredPrice?: string | null;
+
+  @Column({ type: "varchar", length: 64, nullable: true })
+  txHash?: string | null;
+
+  /** Data returned by the swap */
+  @Column({ type: "jsonb", nullable: true })
+  result?: Record<string, unknown> | null;
+
+  @Column({ type: "text", nullable: true })
+  error?: string | null;
+
+  /** Set while a worker is executing the order so others leave it alone */
+  @Column({ type: "timestamp", nullable: true })
+  lockedUntil?: Date | null;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
@@ -0,0 +1,163 @@
+import { Router, Request, Response } from "express";
+import { authenticateToken } from "../Auth/auth.middleware";
+import logger from "../config/logger";
+import {
+  ConditionalOrder,
+  ConditionalOrderStatus,
+} from "./conditionalOrder.entity";
+import {
+  ConditionalOrderError,
+  ConditionalOrderNotFoundError,
+  ConditionalOrderStateError,
+  conditionalOrderService,
+} from "./conditionalOrder.service";
+import { describeTrigger } from "./orderTrigger";
+
+const router = Router();
+
+const ORDER_STATUSES: ConditionalOrderStatus[] = [
+  "active",
+  "triggered",
+  "executed",
+  "failed",
+  "cancelled",
+  "expired",
+];
+
+const toNumber = (value?: string | null) =>
+  value != null ? Number(value) : null;
+
+function serializeOrder(order: ConditionalOrder) {
+  const trigger = {
+    type: order.type,
+    direction: order.direction,
+    triggerPrice: toNumber(order.triggerPrice),
+    trailingPercent: toNumber(order.trailingPercent),
+  };
+  return {
+    id: order.id,
+    ...trigger,
+    condition: describeTrigger(trigger, order.priceAsset),
+    fromAsset: order.fromAsset,
+    toAsset: order.toAsset,
+    amount: Number(order.amount),
+    priceAsset: order.priceAsset,
+    peakPrice: toNumber(order.peakPrice),
+    maxSlippageBps: order.maxSlippageBps,
+    status: order.status,
+    createdPrice: Number(order.createdPrice),
+    lastPrice: toNumber(order.lastPrice),
+    lastCheckedAt: order.lastCheckedAt ?? null,
+    deferredReason: order.deferredReason ?? null,
+    expiresAt: order.expiresAt ?? null,
+    triggeredAt: order.triggeredAt ?? null,
+    triggeredPrice: toNumber(order.triggeredPrice),
+    txHash: order.txHash ?? null,
+    ...(order.error ? { error: order.error } : {}),
+    createdAt: order.createdAt,
+  };
+}
+
+/**
+ * Map conditional order failures to HTTP responses
+ */
+function handleOrderError(res: Response, error: unknown, message: string) {
+  if (error instanceof ConditionalOrderNotFoundError) {
+    return res.status(404).json({ success: false, message: error.message });
+  }
+  if (error instanceof ConditionalOrderStateError) {
+    return res.status(409).json({ success: false, message: error.message });
+  }
+  if (error instanceof ConditionalOrderError) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+
+  logger.error(message, { error });
+  return res.status(500).json({ success: false, message });
+}
+
+/**
+ * POST /orders - Place a conditional order
+ * Body: { type: price_trigger | stop_loss | take_profit | trailing_stop,
+ * fromAsset, toAsset, amount, triggerPrice?, direction?, trailingPercent?,
+ * priceAsset?, maxSlippageBps?, expiresAt? }
+ */
+router.post("/", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const order = await conditionalOrderService.createOrder(
+      req.user!.userId,
+      req.body ?? {}
+    );
+    return res
+      .status(201)
+      .json({ success: true, order: serializeOrder(order) });
+  } catch (error) {
+    return handleOrderError(res, error, "Failed to create conditional order");
+  }
+});
+
+/**
+ * GET /orders - The authenticated user's conditional orders
+ * Query: status
+ */
+router.get("/", authenticateToken, async (req: Request, res: Response) => {
+  const status = req.query.status as ConditionalOrderStatus | undefined;
+  if (status && !ORDER_STATUSES.includes(status)) {
+    return res.status(400).json({
+      success: false,
+      message: `status must be one of: ${ORDER_STATUSES.join(", ")}`,
+    });
+  }
+
+  try {
+    const orders = await conditionalOrderService.listOrders(
+      req.user!.userId,
+      status
+    );
+    return res
+      .status(200)
+      .json({ success: true, orders: orders.map(serializeOrder) });
+  } catch (error) {
+    return handleOrderError(res, error, "Failed to list conditional orders");
+  }
+});
+
+/**
+ * GET /orders/:id - A conditional order
+ */
+router.get("/:id", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const order = await conditionalOrderService.getOrder(
+      req.user!.userId,
+      req.params.id as string
+    );
+    return res
+      .status(200)
+      .json({ success: true, order: serializeOrder(order) });
+  } catch (error) {
+    return handleOrderError(res, error, "Failed to load conditional order");
+  }
+});
+
+/**
+ * DELETE /orders/:id - Cancel an active order
+ */
+router.delete(
+  "/:id",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const order = await conditionalOrderService.cancelOrder(
+        req.user!.userId,
+        req.params.id as string
+      );
+      return res
+        .status(200)
+        .json({ success: true, order: serializeOrder(order) });
+    } catch (error) {
+      return handleOrderError(res, error, "Failed to cancel conditional order");
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,245 @@
+import { Repository } from "typeorm";
+import AppDataSource from "../config/Datasource";
+import logger from "../config/logger";
+import stellarPriceService, {
+  StellarPriceService,
+} from "../services/stellarPrice.service";
+import {
+  ConditionalOrder,
+  ConditionalOrderStatus,
+} from "./conditionalOrder.entity";
+import {
+  CONDITIONAL_ORDER_TYPES,
+  ConditionalOrderType,
+  impliedDirection,
+  PRICE_QUOTE_ASSET,
+  TriggerDirection,
+} from "./orderTrigger";
+
+export interface CreateConditionalOrderParams {
+  type: ConditionalOrderType;
+  fromAsset: string;
+  toAsset: string;
+  amount: number;
+  /** Required for price triggers; other types imply it */
+  direction?: TriggerDirection;
+  triggerPrice?: number;
+  trailingPercent?: number;
+  /** Defaults to whichever side of the swap is not USDC */
+  priceAsset?: string;
+  maxSlippageBps?: number;
+  /** ISO 8601 */
+  expiresAt?: string;
+}
+
+const DEFAULT_MAX_SLIPPAGE_BPS = 100;
+const MAX_SLIPPAGE_BPS = 1000;
+
+export class ConditionalOrderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConditionalOrderError";
+  }
+}
+
+export class ConditionalOrderNotFoundError extends Error {
+  constructor(public readonly orderId: string) {
+    super(`Conditional order not found: ${orderId}`);
+    this.name = "ConditionalOrderNotFoundError";
+  }
+}
+
+export class ConditionalOrderStateError extends Error {
+  constructor(
+    public readonly orderId: string,
+    public readonly status: ConditionalOrderStatus
+  ) {
+    super(`Conditional order ${orderId} is ${status}`);
+    this.name = "ConditionalOrderStateError";
+  }
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Creates and manages users' conditional orders. The conditional order
+ * monitor watches active orders and executes them.
+ */
+export class ConditionalOrderService {
+  private orderRepository: Repository<ConditionalOrder>;
+
+  constructor(
+    private readonly prices: Pick<
+      StellarPriceService,
+      "getAsset" | "getPrice"
+    > = stellarPriceService
+  ) {
+    this.orderRepository = AppDataSource.getRepository(ConditionalOrder);
+  }
+
+  async createOrder(
+    userId: string,
+    params: CreateConditionalOrderParams
+  ): Promise<ConditionalOrder> {
+    const { type } = params;
+    if (!CONDITIONAL_ORDER_TYPES.includes(type)) {
+      throw new ConditionalOrderError(
+        `type must be one of: ${CONDITIONAL_ORDER_TYPES.join(", ")}`
+      );
+    }
+
+    const fromAsset = this.assetSymbol(params.fromAsset, "fromAsset");
+    const toAsset = this.assetSymbol(params.toAsset, "toAsset");
+    if (fromAsset === toAsset) {
+      throw new ConditionalOrderError(
+        "fromAsset and toAsset must be different"
+      );
+    }
+    if (!isPositive(params.amount)) {
+      throw new ConditionalOrderError("amount must be a positive number");
+    }
+
+    const priceAsset = params.priceAsset
+      ? this.assetSymbol(params.priceAsset, "priceAsset")
+      : fromAsset === PRICE_QUOTE_ASSET
+        ? toAsset
+        : fromAsset;
+    if (priceAsset === PRICE_QUOTE_ASSET) {
+      throw new ConditionalOrderError(
+        `Prices are quoted in ${PRICE_QUOTE_ASSET}; watch another asset`
+      );
+    }
+
+    const direction = impliedDirection(type) ?? params.direction;
+    if (direction !== "above" && direction !== "below") {
+      throw new ConditionalOrderError(
+        "direction must be above or below for price triggers"
+      );
+    }
+    if (params.direction && params.direction !== direction) {
+      throw new ConditionalOrderError(
+        `A ${type} order always triggers ${direction} its price`
+      );
+    }
+
+    if (type === "trailing_stop") {
+      const { trailingPercent } = params;
+      if (!isPositive(trailingPercent) || trailingPercent >= 100) {
+        throw new ConditionalOrderError(
+          "trailingPercent must be between 0 and 100"
+        );
+      }
+      if (params.triggerPrice !== undefined) {
+        throw new ConditionalOrderError(
+          "Trailing stops follow the price; do not give a triggerPrice"
+        );
+      }
+    } else if (!isPositive(params.triggerPrice)) {
+      throw new ConditionalOrderError("triggerPrice must be a positive number");
+    }
+
+    const maxSlippageBps = params.maxSlippageBps ?? DEFAULT_MAX_SLIPPAGE_BPS;
+    if (
+      !Number.isInteger(maxSlippageBps) ||
+      maxSlippageBps < 1 ||
+      maxSlippageBps > MAX_SLIPPAGE_BPS
+    ) {
+      throw new ConditionalOrderError(
+        `maxSlippageBps must be a whole number from 1 to ${MAX_SLIPPAGE_BPS}`
+      );
+    }
+
+    let expiresAt: Date | null = null;
+    if (params.expiresAt !== undefined) {
+      expiresAt = new Date(params.expiresAt);
+      if (isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+        throw new ConditionalOrderError(
+          "expiresAt must be a date in the future"
+        );
+      }
+    }
+
+    const quote = await this.prices.getPrice(priceAsset, PRICE_QUOTE_ASSET, 1);
+
+    const order = await this.orderRepository.save(
+      this.orderRepository.create({
+        userId,
+        type,
+        direction,
+        fromAsset,
+        toAsset,
+        amount: params.amount.toFixed(7),
+        priceAsset,
+        triggerPrice:
+          type === "trailing_stop" ? null : String(params.triggerPrice),
+        trailingPercent:
+          type === "trailing_stop" ? String(params.trailingPercent) : null,
+        peakPrice: type === "trailing_stop" ? String(quote.price) : null,
+        maxSlippageBps,
+        status: "active",
+        createdPrice: String(quote.price),
+        expiresAt,
+      })
+    );
+
+    logger.info("Conditional order created", {
+      orderId: order.id,
+      userId,
+      type,
+      priceAsset,
+      price: quote.price,
+    });
+
+    return order;
+  }
+
+  async listOrders(
+    userId: string,
+    status?: ConditionalOrderStatus
+  ): Promise<ConditionalOrder[]> {
+    return this.orderRepository.find({
+      where: status ? { userId, status } : { userId },
+      order: { createdAt: "DESC" },
+    });
+  }
+
+  async getOrder(userId: string, orderId: string): Promise<ConditionalOrder> {
+    const order = await this.orderRepository.findOne({
+      where: { id: orderId, userId },
+    });
+    if (!order) {
+      throw new ConditionalOrderNotFoundError(orderId);
+    }
+    return order;
+  }
+
+  async cancelOrder(
+    userId: string,
+    orderId: string
+  ): Promise<ConditionalOrder> {
+    const order = await this.getOrder(userId, orderId);
+    if (order.status !== "active") {
+      throw new ConditionalOrderStateError(order.id, order.status);
+    }
+
+    order.status = "cancelled";
+    return this.orderRepository.save(order);
+  }
+
+  private assetSymbol(value: unknown, field: string): string {
+    if (typeof value !== "string" || !value.trim()) {
+      throw new ConditionalOrderError(`${field} is required`);
+    }
+    const symbol = value.trim().toUpperCase();
+    try {
+      this.prices.getAsset(symbol);
+    } catch {
+      throw new ConditionalOrderError(`Unsupported asset: ${value}`);
+    }
+    return symbol;
+  }
+}
+
+export const conditionalOrderService = new ConditionalOrderService();
@@ -0,0 +1,388 @@
+import {
+  FindOptionsWhere,
+  LessThanOrEqual,
+  MoreThan,
+  Repository,
+} from "typeorm";
+import { QueryDeepPartialEntity } from "typeorm/query-builder/QueryPartialEntity";
+import AppDataSource from "../config/Datasource";
+import logger from "../config/logger";
+import { SwapTool, swapTool } from "../Agents/tools/swap";
+import stellarPriceService, {
+  StellarPriceService,
+} from "../services/stellarPrice.service";
+import {
+  FlashSwapRiskAnalyzer,
+  flashSwapRiskAnalyzer,
+} from "../services/flashSwapRiskAnalyzer";
+import { auditLogService } from "../AuditLog/auditLog.service";
+import { AuditAction, AuditSeverity } from "../AuditLog/auditLog.entity";
+import { ConditionalOrder } from "./conditionalOrder.entity";
+import {
+  evaluateTrigger,
+  OrderTrigger,
+  PRICE_QUOTE_ASSET,
+} from "./orderTrigger";
+
+interface ConditionalOrderMonitorOptions {
+  swapper?: Pick<SwapTool, "execute">;
+  prices?: Pick<
+    StellarPriceService,
+    "getAsset" | "getPrice" | "getOrderbookDepth"
+  >;
+  riskAnalyzer?: Pick<FlashSwapRiskAnalyzer, "analyzeSwapRisk">;
+  enabled?: boolean;
+  pollIntervalMs?: number;
+  /** How long a claimed order stays locked if its worker dies */
+  lockMs?: number;
+  batchSize?: number;
+}
+
+/** Order book levels read when checking whether an order can fill */
+const ORDERBOOK_DEPTH_LEVELS = 50;
+
+const toTrigger = (order: ConditionalOrder): OrderTrigger => ({
+  type: order.type,
+  direction: order.direction,
+  triggerPrice: order.triggerPrice != null ? Number(order.triggerPrice) : null,
+  trailingPercent:
+    order.trailingPercent != null ? Number(order.trailingPercent) : null,
+});
+
+/**
+ * Watches active conditional orders. Each poll expires stale orders, quotes
+ * every watched asset once from the price cache and executes the orders
+ * whose condition holds through the swap tool. An order whose swap the
+ * order book cannot fill within its slippage limit stays active and is
+ * retried on the next poll.
+ */
+export class ConditionalOrderMonitorService {
+  private readonly swapper: Pick<SwapTool, "execute">;
+  private readonly prices: Pick<
+    StellarPriceService,
+    "getAsset" | "getPrice" | "getOrderbookDepth"
+  >;
+  private readonly riskAnalyzer: Pick<FlashSwapRiskAnalyzer, "analyzeSwapRisk">;
+  private readonly enabled: boolean;
+  private readonly pollIntervalMs: number;
+  private readonly lockMs: number;
+  private readonly batchSize: number;
+  private orderRepository: Repository<ConditionalOrder>;
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+
+  constructor(options: ConditionalOrderMonitorOptions = {}) {
+    this.swapper = options.swapper ?? swapTool;
+    this.prices = options.prices ?? stellarPriceService;
+    this.riskAnalyzer = options.riskAnalyzer ?? flashSwapRiskAnalyzer;
+    this.enabled =
+      options.enabled ?? process.env.CONDITIONAL_ORDERS_ENABLED !== "false";
+    this.pollIntervalMs =
+      options.pollIntervalMs ??
+      Number.parseInt(process.env.CONDITIONAL_ORDERS_POLL_MS || "15000", 10);
+    this.lockMs =
+      options.lockMs ??
+      Number.parseInt(process.env.CONDITIONAL_ORDERS_LOCK_MS || "120000", 10);
+    this.batchSize = options.batchSize ?? 200;
+    this.orderRepository = AppDataSource.getRepository(ConditionalOrder);
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    if (!this.enabled) {
+      logger.info("Conditional order monitor disabled by configuration");
+      return;
+    }
+
+    this.running = true;
+    logger.info("Conditional order monitor started", {
+      pollIntervalMs: this.pollIntervalMs,
+    });
+    void this.poll();
+  }
+
+  stop(): void {
+    this.running = false;
+
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      await this.checkOrders();
+    } catch (error) {
+      logger.error("Failed to check conditional orders", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (this.running) {
+      this.pollTimer = setTimeout(() => {
+        this.pollTimer = null;
+        void this.poll();
+      }, this.pollIntervalMs);
+    }
+  }
+
+  /**
+   * Check every active order against current prices, returning how many
+   * were handed to the swap tool. Orders are read in pages of `batchSize`,
+   * keyed on creation time so orders leaving the active set do not shift
+   * the pages.
+   */
+  async checkOrders(now = new Date()): Promise<number> {
+    await this.orderRepository.update(
+      { status: "active", expiresAt: LessThanOrEqual(now) },
+      { status: "expired" }
+    );
+
+    const prices = new Map<string, number | undefined>();
+    let after: ConditionalOrder | undefined;
+    let executed = 0;
+
+    for (;;) {
+      const where: FindOptionsWhere<ConditionalOrder>[] = after
+        ? [
+            { status: "active", createdAt: MoreThan(after.createdAt) },
+            {
+              status: "active",
+              createdAt: after.createdAt,
+              id: MoreThan(after.id),
+            },
+          ]
+        : [{ status: "active" }];
+      const orders = await this.orderRepository.find({
+        where,
+        order: { createdAt: "ASC", id: "ASC" },
+        take: this.batchSize,
+      });
+
+      executed += await this.checkBatch(orders, prices, now);
+      if (orders.length < this.batchSize) {
+        return executed;
+      }
+      after = orders[orders.length - 1];
+    }
+  }
+
+  /**
+   * Check a page of orders, quoting each watched asset once per poll
+   */
+  private async checkBatch(
+    orders: ConditionalOrder[],
+    prices: Map<string, number | undefined>,
+    now: Date
+  ): Promise<number> {
+    for (const asset of new Set(orders.map((order) => order.priceAsset))) {
+      if (prices.has(asset)) {
+        continue;
+      }
+      prices.set(asset, undefined);
+      try {
+        const quote = await this.prices.getPrice(asset, PRICE_QUOTE_ASSET, 1);
+        prices.set(asset, quote.price);
+      } catch (error) {
+        logger.warn("No price for conditional orders", {
+          asset,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    let executed = 0;
+    for (const order of orders) {
+      const price = prices.get(order.priceAsset);
+      if (price === undefined) {
+        continue;
+      }
+
+      try {
+        if (await this.checkOrder(order, price, now)) {
+          executed++;
+        }
+      } catch (error) {
+        logger.error("Conditional order check failed", {
+          orderId: order.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        await this.orderRepository.update(order.id, { lockedUntil: null });
+      }
+    }
+    return executed;
+  }
+
+  private async checkOrder(
+    order: ConditionalOrder,
+    price: number,
+    now: Date
+  ): Promise<boolean> {
+    const evaluation = evaluateTrigger(
+      toTrigger(order),
+      price,
+      order.peakPrice != null ? Number(order.peakPrice) : null
+    );
+
+    const progress = {
+      lastPrice: String(price),
+      lastCheckedAt: now,
+      ...(evaluation.peakPrice !== null
+        ? { peakPrice: String(evaluation.peakPrice) }
+        : {}),
+    };
+    if (!evaluation.triggered) {
+      await this.orderRepository.update(order.id, progress);
+      return false;
+    }
+
+    if (!(await this.claim(order, now))) {
+      return false;
+    }
+
+    logger.info("Conditional order triggered", {
+      orderId: order.id,
+      type: order.type,
+      price,
+      stopPrice: evaluation.stopPrice,
+    });
+
+    const deferredReason = await this.checkLiquidity(order);
+    if (deferredReason) {
+      logger.warn("Conditional order deferred", {
+        orderId: order.id,
+        reason: deferredReason,
+      });
+      await this.orderRepository.update(order.id, {
+        ...progress,
+        deferredReason,
+        lockedUntil: null,
+      });
+      return false;
+    }
+
+    await this.orderRepository.update(order.id, {
+      ...(await this.execute(order)),
+      ...progress,
+      triggeredAt: now,
+      triggeredPrice: String(price),
+      deferredReason: null,
+      lockedUntil: null,
+    } as QueryDeepPartialEntity<ConditionalOrder>);
+    return true;
+  }
+
+  /**
+   * Lock an order for this worker; false when another worker holds it or it
+   * is no longer active
+   */
+  private async claim(order: ConditionalOrder, now: Date): Promise<boolean> {
+    const result = await this.orderRepository
+      .createQueryBuilder()
+      .update(ConditionalOrder)
+      .set({ lockedUntil: new Date(now.getTime() + this.lockMs) })
+      .where("id = :id", { id: order.id })
+      .andWhere("status = :status", { status: "active" })
+      .andWhere('("lockedUntil" IS NULL OR "lockedUntil" < :now)', { now })
+      .execute();
+    return result.affected === 1;
+  }
+
+  /**
+   * Why the order book cannot take the order right now, or null when it can
+   */
+  private async checkLiquidity(
+    order: ConditionalOrder
+  ): Promise<string | null> {
+    const amount = Number(order.amount);
+
+    // Bids are priced in toAsset per fromAsset with amounts in toAsset
+    const { bids } = await this.prices.getOrderbookDepth(
+      order.fromAsset,
+      order.toAsset,
+      ORDERBOOK_DEPTH_LEVELS
+    );
+    const fillable = bids.reduce(
+      (total, bid) => total + (bid.price > 0 ? bid.amount / bid.price : 0),
+      0
+    );
+    if (fillable < amount) {
+      return `The order book can only fill ${fillable.toFixed(7)} of ${order.amount} ${order.fromAsset}`;
+    }
+
+    const risk = await this.riskAnalyzer.analyzeSwapRisk({
+      fromAsset: this.prices.getAsset(order.fromAsset),
+      toAsset: this.prices.getAsset(order.toAsset),
+      amount,
+    });
+    if (risk.riskLevel === "critical") {
+      return `Swap blocked by critical sandwich attack risk: ${risk.warnings.join(". ")}`;
+    }
+    const maxImpact = order.maxSlippageBps / 100;
+    if (risk.metrics.priceImpact > maxImpact) {
+      return `Expected price impact of ${risk.metrics.priceImpact.toFixed(2)}% exceeds the order's ${maxImpact}% slippage limit`;
+    }
+    return null;
+  }
+
+  private async execute(
+    order: ConditionalOrder
+  ): Promise<Partial<ConditionalOrder>> {
+    await auditLogService.log({
+      userId: order.userId,
+      action: AuditAction.TRADE_INITIATED,
+      severity: AuditSeverity.INFO,
+      resource: order.id,
+      metadata: {
+        conditionalOrderType: order.type,
+        from: order.fromAsset,
+        to: order.toAsset,
+        amount: order.amount,
+      },
+    });
+
+    const result = await this.swapper.execute(
+      {
+        from: order.fromAsset,
+        to: order.toAsset,
+        amount: Number(order.amount),
+        maxSlippageBps: order.maxSlippageBps,
+      },
+      order.userId
+    );
+
+    if (result.status === "error") {
+      const error = result.error ?? "Swap failed";
+      await auditLogService.log({
+        userId: order.userId,
+        action: AuditAction.TRADE_FAILED,
+        severity: AuditSeverity.WARNING,
+        resource: order.id,
+        success: false,
+        errorMessage: error,
+      });
+      logger.warn("Conditional order failed", { orderId: order.id, error });
+      return { status: "failed", error };
+    }
+
+    const data = result.data ?? {};
+    logger.info("Conditional order executed", {
+      orderId: order.id,
+      txHash: data.txHash,
+      awaitingSignature: result.status === "pending",
+    });
+    return {
+      // External wallets sign the swap themselves
+      status: result.status === "pending" ? "triggered" : "executed",
+      txHash: typeof data.txHash === "string" ? data.txHash : null,
+      result: data,
+    };
+  }
+}
+
+export const conditionalOrderMonitorService =
+  new ConditionalOrderMonitorService();
@@ -0,0 +1,90 @@
+export type ConditionalOrderType =
+  | "price_trigger"
+  | "stop_loss"
+  | "take_profit"
+  | "trailing_stop";
+
+export const CONDITIONAL_ORDER_TYPES: ConditionalOrderType[] = [
+  "price_trigger",
+  "stop_loss",
+  "take_profit",
+  "trailing_stop",
+];
+
+export type TriggerDirection = "above" | "below";
+
+/** Asset every watched price is quoted in */
+export const PRICE_QUOTE_ASSET = "USDC";
+
+/**
+ * The condition an order waits for. Stop losses and trailing stops fire
+ * when the price falls, take profits when it rises; a plain price trigger
+ * names its direction.
+ */
+export interface OrderTrigger {
+  type: ConditionalOrderType;
+  direction: TriggerDirection;
+  /** Fixed trigger price; null for trailing stops */
+  triggerPrice: number | null;
+  /** How far below its peak the price may fall before a trailing stop fires */
+  trailingPercent: number | null;
+}
+
+export interface TriggerEvaluation {
+  triggered: boolean;
+  /** Price the order compared against */
+  stopPrice: number;
+  /** Highest price seen, tracked for trailing stops only */
+  peakPrice: number | null;
+}
+
+/**
+ * Direction implied by an order type, or null when the caller has to give one
+ */
+export function impliedDirection(
+  type: ConditionalOrderType
+): TriggerDirection | null {
+  switch (type) {
+    case "stop_loss":
+    case "trailing_stop":
+      return "below";
+    case "take_profit":
+      return "above";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check an order's condition against the current price. A trailing stop's
+ * peak moves up with the price, so its stop price follows it.
+ */
+export function evaluateTrigger(
+  trigger: OrderTrigger,
+  price: number,
+  peakPrice: number | null = null
+): TriggerEvaluation {
+  if (trigger.type === "trailing_stop") {
+    const peak = Math.max(peakPrice ?? price, price);
+    const stopPrice = peak * (1 - trigger.trailingPercent! / 100);
+    return { triggered: price <= stopPrice, stopPrice, peakPrice: peak };
+  }
+
+  const stopPrice = trigger.triggerPrice!;
+  return {
+    triggered:
+      trigger.direction === "below" ? price <= stopPrice : price >= stopPrice,
+    stopPrice,
+    peakPrice: null,
+  };
+}
+
+/**
+ * Human readable condition, e.g. "when XLM is at or below 0.09 USDC"
+ */
+export function describeTrigger(trigger: OrderTrigger, asset: string): string {
+  if (trigger.type === "trailing_stop") {
+    return `when ${asset} falls ${trigger.trailingPercent}% from its peak`;
+  }
+  return `when ${asset} is at or ${trigger.direction} ${trigger.triggerPrice} ${PRICE_QUOTE_ASSET}`;
+}
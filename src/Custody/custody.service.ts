@@ -0,0 +1,465 @@
+import { Not, Repository } from "typeorm";
+import { Keypair } from "@stellar/stellar-sdk";
+import AppDataSource from "../config/Datasource";
+import config from "../config/config";
+import logger from "../config/logger";
+import { auditLogService } from "../AuditLog/auditLog.service";
+import { AuditAction, AuditSeverity } from "../AuditLog/auditLog.entity";
+import {
+  decrypt,
+  decryptWithKey,
+  encryptWithKey,
+  generateDataKey,
+} from "../utils/encryption";
+import { CustodyChain, CustodyKey } from "./custodyKey.entity";
+import {
+  CustodyStarknetSigner,
+  CustodyStellarSigner,
+  SecretAccessor,
+  StellarSigner,
+} from "./custody.signer";
+
+export interface StoreKeyParams {
+  userId: string;
+  chain: CustodyChain;
+  secret: string;
+  publicKey: string;
+  address?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Public part of a custodied key; never includes the secret
+ */
+export interface CustodyKeyInfo {
+  userId: string;
+  chain: CustodyChain;
+  publicKey: string;
+  address?: string;
+  metadata?: Record<string, unknown>;
+  keyVersion: number;
+  lastUsedAt?: Date;
+}
+
+/**
+ * Entry of the legacy src/Auth/accounts.json file. Stellar entries carry a
+ * `secretKey`, Starknet entries a `privateKey` and account address.
+ */
+export interface LegacyAccountEntry {
+  userId: string;
+  publicKey?: string;
+  secretKey?: string;
+  privateKey?: string;
+  precalculatedAddress?: string;
+  contract_address?: string;
+  deployed?: boolean;
+}
+
+/**
+ * A user row from before custody, holding the Stellar secret generated at
+ * signup encrypted with the application key
+ */
+export interface LegacyUserKey {
+  id: string;
+  address: string;
+  encryptedPrivateKey: string;
+}
+
+// Column default of `User.encryptedPrivateKey` for users created without a key
+const NO_USER_KEY = "STRK";
+
+export interface ImportResult {
+  imported: number;
+  skipped: number;
+  failed: Array<{ userId: string; error: string }>;
+}
+
+export class KeyNotFoundError extends Error {
+  constructor(
+    public readonly userId: string,
+    public readonly chain: CustodyChain
+  ) {
+    super(`No ${chain} key in custody for user: ${userId}`);
+    this.name = "KeyNotFoundError";
+  }
+}
+
+/**
+ * Parse master keys given as "version:hex" pairs. Without any, the
+ * application encryption key is used as version 1.
+ */
+export function parseMasterKeys(
+  spec: string,
+  fallbackKey?: string
+): Map<number, Buffer> {
+  const entries = spec
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [version, hex] = entry.split(":");
+      return [Number(version), hex] as const;
+    });
+  if (entries.length === 0 && fallbackKey) {
+    entries.push([1, fallbackKey]);
+  }
+
+  const keys = new Map<number, Buffer>();
+  for (const [version, hex] of entries) {
+    if (!Number.isInteger(version) || !/^[0-9a-fA-F]{64}$/.test(hex ?? "")) {
+      throw new Error(
+        `Invalid custody master key for version ${version}: expected version:<64 hex chars>`
+      );
+    }
+    keys.set(version, Buffer.from(hex, "hex"));
+  }
+  return keys;
+}
+
+/**
+ * Stores users' signing keys encrypted at rest and hands out signers, so
+ * tools never see raw secrets. Each key is encrypted with its own data key,
+ * which is wrapped by a versioned master key; rotating the master key only
+ * re-wraps data keys. Every decryption is written to the audit log, and a
+ * secret is not decrypted if that write fails.
+ */
+export class KeyCustodyService {
+  private keyRepository: Repository<CustodyKey>;
+  private masterKeys?: Map<number, Buffer>;
+
+  constructor(
+    masterKeys?: Map<number, Buffer>,
+    private readonly activeKeyVersion: number = config.custody.activeKeyVersion
+  ) {
+    this.keyRepository = AppDataSource.getRepository(CustodyKey);
+    this.masterKeys = masterKeys;
+  }
+
+  async storeKey(params: StoreKeyParams): Promise<CustodyKeyInfo> {
+    const record =
+      (await this.findKey(params.userId, params.chain)) ??
+      this.keyRepository.create({
+        userId: params.userId,
+        chain: params.chain,
+      });
+
+    record.publicKey = params.publicKey;
+    record.address = params.address ?? null;
+    record.metadata = params.metadata ?? null;
+    this.encryptSecret(record, params.secret);
+
+    const saved = await this.keyRepository.save(record);
+    await auditLogService.log({
+      userId: params.userId,
+      action: AuditAction.KEY_STORED,
+      resource: `custody_key:${params.chain}`,
+      metadata: { publicKey: params.publicKey, keyVersion: saved.keyVersion },
+    });
+
+    return this.toInfo(saved);
+  }
+
+  async getKeyInfo(
+    userId: string,
+    chain: CustodyChain
+  ): Promise<CustodyKeyInfo | null> {
+    const record = await this.findKey(userId, chain);
+    return record ? this.toInfo(record) : null;
+  }
+
+  async hasKey(userId: string, chain: CustodyChain): Promise<boolean> {
+    return (await this.findKey(userId, chain)) !== null;
+  }
+
+  async requireKeyInfo(
+    userId: string,
+    chain: CustodyChain
+  ): Promise<CustodyKeyInfo> {
+    return this.toInfo(await this.requireKey(userId, chain));
+  }
+
+  async getStellarSigner(userId: string): Promise<StellarSigner> {
+    const record = await this.requireKey(userId, "stellar");
+    return new CustodyStellarSigner(
+      record.publicKey,
+      this.secretAccessor(record)
+    );
+  }
+
+  async getStarknetSigner(userId: string): Promise<CustodyStarknetSigner> {
+    const record = await this.requireKey(userId, "starknet");
+    return new CustodyStarknetSigner(
+      record.publicKey,
+      this.secretAccessor(record)
+    );
+  }
+
+  async deleteKey(userId: string, chain: CustodyChain): Promise<boolean> {
+    const result = await this.keyRepository.delete({ userId, chain });
+    if (!result.affected) return false;
+
+    await auditLogService.log({
+      userId,
+      action: AuditAction.KEY_DELETED,
+      severity: AuditSeverity.WARNING,
+      resource: `custody_key:${chain}`,
+    });
+    return true;
+  }
+
+  /**
+   * Re-wrap every data key still encrypted with an older master key using
+   * the active master key. Secrets are not decrypted.
+   */
+  async rotateMasterKey(): Promise<number> {
+    const activeKey = this.getMasterKey(this.activeKeyVersion);
+    const records = await this.keyRepository.find({
+      where: { keyVersion: Not(this.activeKeyVersion) },
+    });
+
+    for (const record of records) {
+      const dataKey = this.unwrapDataKey(record);
+      record.encryptedDataKey = encryptWithKey(
+        dataKey.toString("hex"),
+        activeKey
+      );
+      record.keyVersion = this.activeKeyVersion;
+      dataKey.fill(0);
+      await this.keyRepository.save(record);
+    }
+
+    await auditLogService.log({
+      action: AuditAction.KEY_ROTATED,
+      severity: AuditSeverity.WARNING,
+      resource: "custody_key",
+      metadata: { keyVersion: this.activeKeyVersion, rotated: records.length },
+    });
+    logger.info("Custody master key rotated", {
+      keyVersion: this.activeKeyVersion,
+      rotated: records.length,
+    });
+
+    return records.length;
+  }
+
+  /**
+   * Re-encrypt one key's secret under a fresh data key
+   */
+  async rotateDataKey(userId: string, chain: CustodyChain): Promise<void> {
+    const record = await this.requireKey(userId, chain);
+    await this.secretAccessor(record)("data_key_rotation", (secret) =>
+      this.encryptSecret(record, secret)
+    );
+    await this.keyRepository.save(record);
+
+    await auditLogService.log({
+      userId,
+      action: AuditAction.KEY_ROTATED,
+      resource: `custody_key:${chain}`,
+      metadata: { keyVersion: record.keyVersion },
+    });
+  }
+
+  /**
+   * One-shot migration of entries from the legacy accounts.json file.
+   * Users who already have a key for the chain are skipped unless
+   * `overwrite` is set.
+   */
+  async importAccounts(
+    entries: LegacyAccountEntry[],
+    { overwrite = false }: { overwrite?: boolean } = {}
+  ): Promise<ImportResult> {
+    const result: ImportResult = { imported: 0, skipped: 0, failed: [] };
+
+    for (const entry of entries) {
+      try {
+        const params = this.fromLegacyEntry(entry);
+        if (!overwrite && (await this.hasKey(params.userId, params.chain))) {
+          result.skipped++;
+          continue;
+        }
+        await this.storeKey(params);
+        result.imported++;
+      } catch (error) {
+        result.failed.push({
+          userId: entry.userId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    logger.info("Imported custody keys", {
+      imported: result.imported,
+      skipped: result.skipped,
+      failed: result.failed.length,
+    });
+    return result;
+  }
+
+  /**
+   * Migrate the Stellar keys users were given at signup before custody
+   * existed. Users without a generated key are skipped.
+   */
+  async importUserKeys(
+    users: LegacyUserKey[],
+    options: { overwrite?: boolean } = {}
+  ): Promise<ImportResult> {
+    const entries: LegacyAccountEntry[] = [];
+    const failed: ImportResult["failed"] = [];
+    let skipped = 0;
+
+    for (const user of users) {
+      if (
+        !user.encryptedPrivateKey ||
+        user.encryptedPrivateKey === NO_USER_KEY
+      ) {
+        skipped++;
+        continue;
+      }
+      try {
+        entries.push({
+          userId: user.id,
+          publicKey: user.address,
+          secretKey: decrypt(user.encryptedPrivateKey),
+        });
+      } catch (error) {
+        failed.push({
+          userId: user.id,
+          error: `Could not decrypt key: ${error instanceof Error ? error.message : String(error)}`,
+        });
+      }
+    }
+
+    const result = await this.importAccounts(entries, options);
+    return {
+      imported: result.imported,
+      skipped: result.skipped + skipped,
+      failed: [...failed, ...result.failed],
+    };
+  }
+
+  private fromLegacyEntry(entry: LegacyAccountEntry): StoreKeyParams {
+    if (!entry.userId) {
+      throw new Error("Account entry has no userId");
+    }
+    if (entry.secretKey) {
+      return {
+        userId: entry.userId,
+        chain: "stellar",
+        secret: entry.secretKey,
+        publicKey:
+          entry.publicKey ?? Keypair.fromSecret(entry.secretKey).publicKey(),
+      };
+    }
+    if (entry.privateKey && entry.publicKey) {
+      return {
+        userId: entry.userId,
+        chain: "starknet",
+        secret: entry.privateKey,
+        publicKey: entry.publicKey,
+        address: entry.precalculatedAddress,
+        metadata: {
+          deployed: entry.deployed ?? false,
+          ...(entry.contract_address
+            ? { contractAddress: entry.contract_address }
+            : {}),
+        },
+      };
+    }
+    throw new Error("Account entry has no secretKey or privateKey/publicKey");
+  }
+
+  private secretAccessor(record: CustodyKey): SecretAccessor {
+    return async (purpose, use) => {
+      await auditLogService.log({
+        userId: record.userId,
+        action: AuditAction.KEY_DECRYPTED,
+        resource: `custody_key:${record.chain}`,
+        metadata: { purpose, keyVersion: record.keyVersion },
+      });
+
+      const dataKey = this.unwrapDataKey(record);
+      let secret: string;
+      try {
+        secret = decryptWithKey(record.encryptedSecret, dataKey);
+      } finally {
+        dataKey.fill(0);
+      }
+
+      await this.keyRepository.update(
+        { id: record.id },
+        { lastUsedAt: new Date() }
+      );
+      return use(secret);
+    };
+  }
+
+  private encryptSecret(record: CustodyKey, secret: string): void {
+    const dataKey = generateDataKey();
+    record.encryptedSecret = encryptWithKey(secret, dataKey);
+    record.encryptedDataKey = encryptWithKey(
+      dataKey.toString("hex"),
+      this.getMasterKey(this.activeKeyVersion)
+    );
+    record.keyVersion = this.activeKeyVersion;
+    dataKey.fill(0);
+  }
+
+  private unwrapDataKey(record: CustodyKey): Buffer {
+    return Buffer.from(
+      decryptWithKey(
+        record.encryptedDataKey,
+        this.getMasterKey(record.keyVersion)
+      ),
+      "hex"
+    );
+  }
+
+  private getMasterKey(version: number): Buffer {
+    if (!this.masterKeys) {
+      this.masterKeys = parseMasterKeys(
+        config.custody.masterKeys,
+        config.encryptionKey
+      );
+    }
+    const key = this.masterKeys.get(version);
+    if (!key) {
+      throw new Error(
+        `Custody master key version ${version} is not configured`
+      );
+    }
+    return key;
+  }
+
+  private async findKey(
+    userId: string,
+    chain: CustodyChain
+  ): Promise<CustodyKey | null> {
+    return this.keyRepository.findOne({ where: { userId, chain } });
+  }
+
+  private async requireKey(
+    userId: string,
+    chain: CustodyChain
+  ): Promise<CustodyKey> {
+    const record = await this.findKey(userId, chain);
+    if (!record) {
+      throw new KeyNotFoundError(userId, chain);
+    }
+    return record;
+  }
+
+  private toInfo(record: CustodyKey): CustodyKeyInfo {
+    return {
+      userId: record.userId,
+      chain: record.chain,
+      publicKey: record.publicKey,
+      ...(record.address ? { address: record.address } : {}),
+      ...(record.metadata ? { metadata: record.metadata } : {}),
+      keyVersion: record.keyVersion,
+      ...(record.lastUsedAt ? { lastUsedAt: record.lastUsedAt } : {}),
+    };
+  }
+}
+
+export const keyCustodyService = new KeyCustodyService();
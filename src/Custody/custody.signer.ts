@@ -0,0 +1,93 @@
+import { FeeBumpTransaction, Keypair, Transaction } from "@stellar/stellar-sdk";
+import {
+  Call,
+  DeclareSignerDetails,
+  DeployAccountSignerDetails,
+  InvocationsSignerDetails,
+  Signature,
+  Signer,
+  SignerInterface,
+  TypedData,
+} from "starknet";
+
+/**
+ * Decrypts a custodied secret for one use, recording `purpose` in the audit
+ * log. The secret only lives for the duration of `use`.
+ */
+export type SecretAccessor = <T>(
+  purpose: string,
+  use: (secret: string) => T | Promise<T>
+) => Promise<T>;
+
+export interface StellarSigner {
+  readonly publicKey: string;
+  /** Add this account's signature to the transaction */
+  sign(transaction: Transaction | FeeBumpTransaction): Promise<void>;
+}
+
+export class CustodyStellarSigner implements StellarSigner {
+  constructor(
+    readonly publicKey: string,
+    private readonly accessSecret: SecretAccessor
+  ) {}
+
+  async sign(transaction: Transaction | FeeBumpTransaction): Promise<void> {
+    await this.accessSecret("stellar_transaction", (secret) => {
+      transaction.sign(Keypair.fromSecret(secret));
+    });
+  }
+}
+
+/**
+ * Starknet signer backed by a custodied key, usable anywhere starknet.js
+ * accepts a SignerInterface, such as `new Account(provider, address, signer)`
+ */
+export class CustodyStarknetSigner implements SignerInterface {
+  constructor(
+    private readonly publicKey: string,
+    private readonly accessSecret: SecretAccessor
+  ) {}
+
+  async getPubKey(): Promise<string> {
+    return this.publicKey;
+  }
+
+  signMessage(
+    typedData: TypedData,
+    accountAddress: string
+  ): Promise<Signature> {
+    return this.withSigner("starknet_message", (signer) =>
+      signer.signMessage(typedData, accountAddress)
+    );
+  }
+
+  signTransaction(
+    transactions: Call[],
+    details: InvocationsSignerDetails
+  ): Promise<Signature> {
+    return this.withSigner("starknet_transaction", (signer) =>
+      signer.signTransaction(transactions, details)
+    );
+  }
+
+  signDeployAccountTransaction(
+    details: DeployAccountSignerDetails
+  ): Promise<Signature> {
+    return this.withSigner("starknet_deploy_account", (signer) =>
+      signer.signDeployAccountTransaction(details)
+    );
+  }
+
+  signDeclareTransaction(details: DeclareSignerDetails): Promise<Signature> {
+    return this.withSigner("starknet_declare", (signer) =>
+      signer.signDeclareTransaction(details)
+    );
+  }
+
+  private withSigner<T>(
+    purpose: string,
+    use: (signer: Signer) => Promise<T>
+  ): Promise<T> {
+    return this.accessSecret(purpose, (secret) => use(new Signer(secret)));
+  }
+}
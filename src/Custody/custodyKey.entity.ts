@@ -0,0 +1,56 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from "typeorm";
+
+export type CustodyChain = "stellar" | "starknet";
+
+/**
+ * A user's signing key, encrypted at rest with envelope encryption: the
+ * secret is encrypted with its own data key, and the data key with the
+ * master key of `keyVersion`
+ */
+@Entity("custody_key")
+@Index(["userId", "chain"], { unique: true })
+export class CustodyKey {
+  @PrimaryGeneratedColumn("uuid")
+  id!: string;
+
+  @Column({ type: "varchar" })
+  userId!: string;
+
+  @Column({ type: "varchar", length: 20 })
+  chain!: CustodyChain;
+
+  @Column({ type: "varchar" })
+  publicKey!: string;
+
+  /** Account address, for chains where it differs from the public key */
+  @Column({ type: "varchar", nullable: true })
+  address?: string | null;
+
+  @Column({ type: "text" })
+  encryptedSecret!: string;
+
+  @Column({ type: "text" })
+  encryptedDataKey!: string;
+
+  @Column({ type: "int" })
+  keyVersion!: number;
+
+  @Column({ type: "jsonb", nullable: true })
+  metadata?: Record<string, unknown> | null;
+
+  @Column({ type: "timestamp", nullable: true })
+  lastUsedAt?: Date | null;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
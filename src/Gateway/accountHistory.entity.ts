@@ -0,0 +1,175 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from "typeorm";
+
+/**
+ * Transaction in the Horizon history of a tracked account. A transaction
+ * touching two tracked accounts is stored once per account so each history
+ * pages independently. The memo is searchable through a full-text index
+ * created in the migration.
+ */
+@Entity("account_transaction")
+@Index(["account", "pagingToken"])
+@Index(["account", "type"])
+@Index(["hash"])
+export class AccountTransaction {
+  @PrimaryColumn({ type: "varchar", length: 56 })
+  account!: string;
+
+  @PrimaryColumn({ type: "varchar", length: 64 })
+  id!: string;
+
+  /** Horizon paging token; orders the history and serves as the cursor */
+  @Column({ type: "bigint" })
+  pagingToken!: string;
+
+  @Column({ type: "varchar", length: 64 })
+  hash!: string;
+
+  @Column({ type: "int" })
+  ledger!: number;
+
+  @Column({ type: "varchar", length: 20 })
+  type!: string;
+
+  @Column({ type: "varchar", length: 56 })
+  sourceAccount!: string;
+
+  @Column({ type: "bigint" })
+  feePaid!: string;
+
+  @Column({ type: "int" })
+  operationCount!: number;
+
+  @Column({ type: "boolean" })
+  successful!: boolean;
+
+  @Column({ type: "varchar", length: 10, nullable: true })
+  memoType?: string | null;
+
+  @Column({ type: "text", nullable: true })
+  memo?: string | null;
+
+  /** Ledger close time reported by Horizon */
+  @Column({ type: "timestamp" })
+  createdAt!: Date;
+
+  @CreateDateColumn()
+  syncedAt!: Date;
+}
+
+/**
+ * Operation of a synced transaction. Amounts are numeric so history can be
+ * filtered by value; path payments also keep the sending leg.
+ */
+@Entity("account_operation")
+@Index(["transactionHash"])
+@Index(["asset", "amount"])
+export class AccountOperation {
+  @PrimaryColumn({ type: "varchar", length: 32 })
+  id!: string;
+
+  @Column({ type: "bigint" })
+  pagingToken!: string;
+
+  @Column({ type: "varchar", length: 64 })
+  transactionHash!: string;
+
+  @Column({ type: "varchar", length: 50 })
+  type!: string;
+
+  @Column({ type: "varchar", length: 56 })
+  sourceAccount!: string;
+
+  @Column({ type: "varchar", length: 69, nullable: true })
+  from?: string | null;
+
+  @Column({ type: "varchar", length: 69, nullable: true })
+  to?: string | null;
+
+  @Column({ type: "numeric", precision: 30, scale: 7, nullable: true })
+  amount?: string | null;
+
+  /** `XLM` or `CODE:ISSUER` */
+  @Column({ type: "varchar", length: 70, nullable: true })
+  asset?: string | null;
+
+  @Column({ type: "numeric", precision: 30, scale: 7, nullable: true })
+  sourceAmount?: string | null;
+
+  @Column({ type: "varchar", length: 70, nullable: true })
+  sourceAsset?: string | null;
+
+  /** Type specific Horizon fields, e.g. data entry names or offer prices */
+  @Column({ type: "jsonb", default: () => "'{}'" })
+  details!: Record<string, unknown>;
+
+  @Column({ type: "timestamp" })
+  createdAt!: Date;
+}
+
+/**
+ * Effect of a synced transaction
+ */
+@Entity("account_effect")
+@Index(["transactionHash"])
+@Index(["account", "type"])
+export class AccountEffect {
+  /** Zero padded `<operation id>-<index>`, so ids sort chronologically */
+  @PrimaryColumn({ type: "varchar", length: 64 })
+  id!: string;
+
+  @Column({ type: "varchar", length: 64 })
+  transactionHash!: string;
+
+  @Column({ type: "varchar", length: 32 })
+  operationId!: string;
+
+  @Column({ type: "varchar", length: 56 })
+  account!: string;
+
+  @Column({ type: "varchar", length: 50 })
+  type!: string;
+
+  @Column({ type: "numeric", precision: 30, scale: 7, nullable: true })
+  amount?: string | null;
+
+  @Column({ type: "varchar", length: 70, nullable: true })
+  asset?: string | null;
+
+  @Column({ type: "timestamp" })
+  createdAt!: Date;
+}
+
+/**
+ * Sync progress for one account
+ */
+@Entity("account_history_checkpoint")
+export class AccountHistoryCheckpoint {
+  @PrimaryColumn({ type: "varchar", length: 56 })
+  account!: string;
+
+  @Column({ type: "uuid", nullable: true })
+  userId?: string | null;
+
+  /** Paging token of the newest stored transaction */
+  @Column({ type: "varchar", nullable: true })
+  cursor?: string | null;
+
+  @Column({ type: "int", default: 0 })
+  lastLedger!: number;
+
+  @Column({ type: "timestamp", nullable: true })
+  lastSyncedAt?: Date | null;
+
+  @Column({ type: "text", nullable: true })
+  lastError?: string | null;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
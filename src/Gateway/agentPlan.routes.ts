@@ -0,0 +1,754 @@
+import { Router, Request, Response } from "express";
+import { authenticateToken } from "../Auth/auth.middleware";
+import {
+  agentPlanner,
+  PlanValidationError,
+} from "../Agents/planner/AgentPlanner";
+import { planExecutor, ExecutionResult } from "../Agents/planner/PlanExecutor";
+import { planStore } from "../Agents/planner/planStore";
+import {
+  executionEvents,
+  ExecutionEvent,
+} from "../Agents/planner/executionEvents";
+import {
+  ExecutionPlanRecord,
+  PlanRunStatus,
+} from "../Agents/planner/ExecutionPlan.entity";
+import { HashedPlan } from "../Agents/planner/planHash";
+import { auditLogService } from "../AuditLog/auditLog.service";
+import { AuditAction, AuditSeverity } from "../AuditLog/auditLog.entity";
+import logger from "../config/logger";
+import {
+  isSimulationRequested,
+  SIMULATION_HEADER,
+} from "../simulation/simulationContext";
+
+const router = Router();
+
+const SSE_HEARTBEAT_MS = 15000;
+const TERMINAL_STATUSES = ["success", "partial", "failed", "cancelled"];
+const EXECUTABLE_STATUSES: PlanRunStatus[] = ["pending", "partial", "failed"];
+
+function serializePlan(plan: HashedPlan) {
+  return {
+    planId: plan.planId,
+    planHash: plan.planHash,
+    summary: plan.summary,
+    totalSteps: plan.totalSteps,
+    estimatedDuration: plan.estimatedDuration,
+    riskLevel: plan.riskLevel,
+    requiresApproval: plan.requiresApproval,
+    steps: plan.steps.map((step) => ({
+      stepNumber: step.stepNumber,
+      description: step.description,
+      action: step.action,
+      payload: step.payload,
+      dependencies: step.dependencies,
+      estimatedDuration: step.estimatedDuration,
+    })),
+    ...(plan.risk ? { risk: plan.risk } : {}),
+    ...(plan.warnings?.length ? { warnings: plan.warnings } : {}),
+  };
+}
+
+function serializeExecution(result: ExecutionResult) {
+  return {
+    planId: result.planId,
+    status: result.status,
+    completedSteps: result.completedSteps,
+    totalSteps: result.totalSteps,
+    duration: result.duration,
+    error: result.error,
+    stepResults: result.stepResults.map((sr) => ({
+      stepNumber: sr.stepNumber,
+      action: sr.action,
+      status: sr.status,
+      duration: sr.duration,
+      timestamp: sr.timestamp,
+      error: sr.error,
+      ...(sr.simulation ? { simulation: sr.simulation } : {}),
+    })),
+    rollback: result.rollback,
+  };
+}
+
+function formatSseEvent(event: ExecutionEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify({
+    ...event.data,
+    executionId: event.executionId,
+    timestamp: event.timestamp,
+  })}\n\n`;
+}
+
+/**
+ * Load a stored plan and make sure it belongs to the authenticated user
+ */
+async function loadOwnedPlan(
+  req: Request,
+  res: Response,
+  planId: string
+): Promise<ExecutionPlanRecord | null> {
+  const record = await planStore.getPlan(planId);
+
+  if (!record) {
+    res.status(404).json({ success: false, message: "Plan not found" });
+    return null;
+  }
+
+  if (record.userId !== req.user!.userId) {
+    res.status(403).json({ success: false, message: "Unauthorized" });
+    return null;
+  }
+
+  return record;
+}
+
+/**
+ * @swagger
+ * /api/agent/plan:
+ *   post:
+ *     summary: Create an execution plan from a natural language request
+ *     tags: [Agent Plans]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userInput
+ *             properties:
+ *               userInput:
+ *                 type: string
+ *                 description: Natural language request (e.g. "Swap 100 XLM to USDC")
+ *               availableBalance:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: number
+ *               constraints:
+ *                 type: object
+ *                 properties:
+ *                   maxSteps:
+ *                     type: integer
+ *                   allowedTools:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                   minSlippage:
+ *                     type: number
+ *                   maxSlippage:
+ *                     type: number
+ *     responses:
+ *       201:
+ *         description: Plan created and stored for confirmation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 plan:
+ *                   $ref: '#/components/schemas/ExecutionPlan'
+ *       400:
+ *         description: Missing userInput
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Authentication required
+ *       422:
+ *         description: Plan violates one or more policies
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 errors:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PolicyViolation'
+ *                 warnings:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PolicyViolation'
+ *       500:
+ *         description: Plan creation failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post("/plan", authenticateToken, async (req: Request, res: Response) => {
+  const userId = req.user!.userId;
+
+  try {
+    const { userInput, availableBalance, constraints } = req.body;
+
+    if (!userInput || typeof userInput !== "string") {
+      return res.status(400).json({
+        success: false,
+        message: "userInput is required",
+      });
+    }
+
+    const plan = await agentPlanner.createPlan({
+      userId,
+      userInput,
+      userRole: req.user!.role,
+      availableBalance,
+      constraints,
+    });
+
+    await planStore.savePlan(plan, userId);
+
+    logger.info("Plan created via API", {
+      userId,
+      planId: plan.planId,
+      requiresApproval: plan.requiresApproval,
+    });
+
+    return res.status(201).json({
+      success: true,
+      plan: serializePlan(plan),
+    });
+  } catch (error) {
+    if (error instanceof PlanValidationError) {
+      return res.status(422).json({
+        success: false,
+        message: error.message,
+        errors: error.validation.errors,
+        warnings: error.validation.warnings,
+      });
+    }
+
+    logger.error("Plan creation failed", { error, userId });
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : "Plan creation failed",
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/agent/execute:
+ *   post:
+ *     summary: Execute a stored plan
+ *     description: >
+ *       Plans that require approval must be executed with `approved: true`
+ *       once the user has confirmed them. Dry runs never require approval.
+ *       Simulated runs (`simulate: true` or the X-Simulation-Mode: local
+ *       header) execute every step against the local chain, do not require
+ *       approval or change the plan's state, and report each step's
+ *       simulated state changes.
+ *       Plans that ended in `partial` or `failed` are resumed from the steps
+ *       that did not succeed. With `background: true` the request returns
+ *       immediately and progress is streamed from
+ *       `/api/agent/executions/{planId}/events`.
+ *     tags: [Agent Plans]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - planId
+ *             properties:
+ *               planId:
+ *                 type: string
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *               simulate:
+ *                 type: boolean
+ *                 default: false
+ *               approved:
+ *                 type: boolean
+ *                 default: false
+ *               background:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Execution finished
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 result:
+ *                   $ref: '#/components/schemas/ExecutionResult'
+ *       202:
+ *         description: Execution started in the background
+ *       400:
+ *         description: Missing planId
+ *       403:
+ *         description: Plan belongs to another user
+ *       404:
+ *         description: Plan not found
+ *       409:
+ *         description: Plan requires approval or is not executable in its current state
+ *       500:
+ *         description: Execution failed
+ */
+router.post(
+  "/execute",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const userId = req.user!.userId;
+
+    try {
+      const {
+        planId,
+        dryRun = false,
+        approved = false,
+        background = false,
+      } = req.body;
+      const simulate =
+        req.body.simulate === true ||
+        isSimulationRequested(userId, req.headers[SIMULATION_HEADER]);
+      // Dry and simulated runs never reach the network or change the plan
+      const live = !dryRun && !simulate;
+
+      if (!planId || typeof planId !== "string") {
+        return res.status(400).json({
+          success: false,
+          message: "planId is required",
+        });
+      }
+
+      const record = await loadOwnedPlan(req, res, planId);
+      if (!record) return;
+
+      const plan = record.plan;
+
+      if (live && plan.requiresApproval && approved !== true) {
+        return res.status(409).json({
+          success: false,
+          message: "Plan requires approval before execution",
+          requiresApproval: true,
+        });
+      }
+
+      // A second run of the same plan would take over its cancellation and
+      // event stream, even when it is only simulated
+      if (planExecutor.isExecuting(planId)) {
+        return res.status(409).json({
+          success: false,
+          message: "Plan is already executing",
+        });
+      }
+
+      if (live && !(await planStore.claimPlan(planId, EXECUTABLE_STATUSES))) {
+        return res.status(409).json({
+          success: false,
+          message: "Plan is already running or can no longer be executed",
+        });
+      }
+
+      if (live) {
+        await auditLogService.log({
+          userId,
+          action: AuditAction.TRADE_INITIATED,
+          severity: AuditSeverity.INFO,
+          resource: planId,
+          metadata: {
+            planHash: plan.planHash,
+            riskLevel: plan.riskLevel,
+            approved,
+            resumed: record.status !== "pending",
+          },
+        });
+      }
+
+      const execution = executionEvents
+        .track(planId, (hooks) =>
+          live && (record.status === "partial" || record.status === "failed")
+            ? planExecutor.resume(planId, hooks)
+            : planExecutor.executePlan(plan, userId, {
+                ...hooks,
+                dryRun,
+                simulate,
+                stopOnError: true,
+                persist: live,
+              })
+        )
+        .catch(async (error) => {
+          // The plan was claimed above and must not stay running
+          if (live) {
+            await planStore.releasePlan(planId, error).catch((statusError) =>
+              logger.error("Failed to release plan", {
+                error: statusError,
+                planId,
+              })
+            );
+          }
+          throw error;
+        });
+
+      if (background === true) {
+        execution.catch((error) =>
+          logger.error("Background plan execution failed", {
+            error,
+            userId,
+            planId,
+          })
+        );
+
+        return res.status(202).json({
+          success: true,
+          message: "Execution started",
+          executionId: planId,
+          events: `/api/agent/executions/${planId}/events`,
+        });
+      }
+
+      const result = await execution;
+
+      return res.status(200).json({
+        success: result.status === "success",
+        result: serializeExecution(result),
+      });
+    } catch (error) {
+      logger.error("Plan execution failed", { error, userId });
+      return res.status(500).json({
+        success: false,
+        message: error instanceof Error ? error.message : "Execution failed",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/agent/plan/{planId}:
+ *   get:
+ *     summary: Get a stored plan with its execution state
+ *     tags: [Agent Plans]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: planId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Plan details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 plan:
+ *                   $ref: '#/components/schemas/ExecutionPlan'
+ *                 status:
+ *                   type: string
+ *                   enum: [pending, running, success, partial, failed, cancelled]
+ *                 stepResults:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *       403:
+ *         description: Plan belongs to another user
+ *       404:
+ *         description: Plan not found
+ */
+router.get(
+  "/plan/:planId",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const planId = req.params.planId as string;
+      const record = await loadOwnedPlan(req, res, planId);
+      if (!record) return;
+
+      const stepResults = await planStore.getStepResults(planId);
+
+      return res.status(200).json({
+        success: true,
+        plan: serializePlan(record.plan),
+        status: record.status,
+        completedSteps: record.completedSteps,
+        error: record.error,
+        stepResults,
+      });
+    } catch (error) {
+      logger.error("Failed to retrieve plan", { error });
+      return res.status(500).json({
+        success: false,
+        message: "Failed to retrieve plan",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/agent/plan/{planId}:
+ *   delete:
+ *     summary: Cancel a plan that has not started executing
+ *     tags: [Agent Plans]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: planId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Plan cancelled
+ *       403:
+ *         description: Plan belongs to another user
+ *       404:
+ *         description: Plan not found
+ *       409:
+ *         description: >
+ *           Plan is running or already finished. Running plans are cancelled
+ *           through `/api/agent/executions/{planId}/cancel`.
+ */
+router.delete(
+  "/plan/:planId",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const planId = req.params.planId as string;
+      const record = await loadOwnedPlan(req, res, planId);
+      if (!record) return;
+
+      if (record.status === "running" || record.status === "success") {
+        return res.status(409).json({
+          success: false,
+          message: `Plan cannot be cancelled while ${record.status}`,
+        });
+      }
+
+      await planStore.updatePlanStatus(planId, "cancelled");
+
+      return res.status(200).json({
+        success: true,
+        message: "Plan cancelled",
+      });
+    } catch (error) {
+      logger.error("Failed to cancel plan", { error });
+      return res.status(500).json({
+        success: false,
+        message: "Failed to cancel plan",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/agent/executions/{executionId}/cancel:
+ *   post:
+ *     summary: Cancel an in-flight execution
+ *     description: >
+ *       Signals running tools to stop before any further irreversible action
+ *       and skips steps that have not started. The execution finishes with
+ *       status `cancelled`. The execution id is the plan id.
+ *     tags: [Agent Plans]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: executionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       202:
+ *         description: Cancellation requested
+ *       403:
+ *         description: Plan belongs to another user
+ *       404:
+ *         description: Plan not found
+ *       409:
+ *         description: Plan is not executing
+ */
+router.post(
+  "/executions/:executionId/cancel",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const userId = req.user!.userId;
+
+    try {
+      const executionId = req.params.executionId as string;
+      const record = await loadOwnedPlan(req, res, executionId);
+      if (!record) return;
+
+      if (!planExecutor.cancel(executionId)) {
+        return res.status(409).json({
+          success: false,
+          message: "Plan is not executing",
+        });
+      }
+
+      await auditLogService.log({
+        userId,
+        action: AuditAction.TRADE_CANCELLED,
+        severity: AuditSeverity.WARNING,
+        resource: executionId,
+        metadata: { planHash: record.planHash },
+      });
+
+      return res.status(202).json({
+        success: true,
+        message: "Cancellation requested",
+      });
+    } catch (error) {
+      logger.error("Failed to cancel execution", { error, userId });
+      return res.status(500).json({
+        success: false,
+        message: "Failed to cancel execution",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/agent/executions/{executionId}/events:
+ *   get:
+ *     summary: Stream execution progress as Server-Sent Events
+ *     description: >
+ *       Emits `step_start`, `step_complete`, `step_retry`, `timeout` and a
+ *       final `summary` event, after which the stream is closed. The
+ *       execution id is the plan id. Clients reconnecting with the
+ *       `Last-Event-ID` header (or `lastEventId` query parameter) first
+ *       receive the buffered events they missed.
+ *     tags: [Agent Plans]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: executionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: Last-Event-ID
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: lastEventId
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       403:
+ *         description: Plan belongs to another user
+ *       404:
+ *         description: Plan not found
+ */
+router.get(
+  "/executions/:executionId/events",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    let executionId: string;
+    let record: ExecutionPlanRecord | null;
+
+    try {
+      executionId = req.params.executionId as string;
+      record = await loadOwnedPlan(req, res, executionId);
+      if (!record) return;
+    } catch (error) {
+      logger.error("Failed to open execution stream", { error });
+      return res.status(500).json({
+        success: false,
+        message: "Failed to open execution stream",
+      });
+    }
+
+    const lastEventId =
+      Number(req.header("Last-Event-ID") ?? req.query.lastEventId) || 0;
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+
+    // Nothing buffered for a finished plan: report its stored outcome
+    if (
+      !executionEvents.hasExecution(executionId) &&
+      TERMINAL_STATUSES.includes(record.status)
+    ) {
+      res.write(
+        `event: summary\ndata: ${JSON.stringify({
+          executionId,
+          status: record.status,
+          completedSteps: record.completedSteps,
+          totalSteps: record.plan.totalSteps,
+          ...(record.error ? { error: record.error } : {}),
+        })}\n\n`
+      );
+      return res.end();
+    }
+
+    let closed = false;
+    const heartbeat = setInterval(
+      () => res.write(": keep-alive\n\n"),
+      SSE_HEARTBEAT_MS
+    );
+    let unsubscribe = () => {};
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+      res.end();
+    };
+
+    const send = (event: ExecutionEvent) => {
+      if (closed) return;
+      res.write(formatSseEvent(event));
+      if (event.type === "summary") close();
+    };
+
+    const subscription = executionEvents.subscribe(
+      executionId,
+      send,
+      lastEventId
+    );
+    unsubscribe = subscription.unsubscribe;
+
+    subscription.replay.forEach(send);
+    if (closed) return;
+
+    if (subscription.finished) {
+      return close();
+    }
+
+    req.on("close", close);
+  }
+);
+
+export default router;
@@ -13,6 +13,13 @@ import { authenticate } from "../Auth/auth";
 import UserService from "../Auth/user.service";
 import { validateQuery } from "../Agents/validationService";
 import { intentAgent } from "../Agents/agents/intentagent";
+import {
+  createSimulationSession,
+  isSimulationRequested,
+  runInSimulation,
+  SIMULATION_HEADER,
+  summarizeSimulation,
+} from "../simulation/simulationContext";
 import { ErrorHandler } from "./middleware/errorHandler";
 import { UnauthorizedError, ValidationError, BadError } from "../utils/error";
 
@@ -123,7 +130,18 @@ app.post("/query", sensitiveLimiter, async (req, res, next) => {
  * /query:
  *   post:
  *     summary: Send a natural-language query to the AI agent
+ *     description: >
+ *       With the X-Simulation-Mode: local header, or for users configured in
+ *       LOCAL_CHAIN_USERS, the query runs against the local chain and the
+ *       response includes the simulated state changes.
  *     tags: [AI Agent]
+ *     parameters:
+ *       - in: header
+ *         name: X-Simulation-Mode
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [local]
  *     requestBody:
  *       required: true
  *       content:
@@ -151,6 +169,9 @@ app.post("/query", sensitiveLimiter, async (req, res, next) => {
  *               properties:
  *                 result:
  *                   type: object
+ *                 simulation:
+ *                   type: object
+ *                   description: Present for simulated queries
  *       401:
  *         description: Invalid credentials
  *         content:
@@ -165,6 +186,12 @@ app.post("/query", sensitiveLimiter, async (req, res, next) => {
  *               $ref: '#/components/schemas/ErrorResponse'
  */
 // app.post("/query", async (req, res, next) => {
+  // Stops the agent's tools when the client disconnects mid-query
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
   try {
     const { userId, query } = req.body;
 
@@ -176,7 +203,16 @@ app.post("/query", sensitiveLimiter, async (req, res, next) => {
     if (!valid) throw new ValidationError("invalid query");
 
     // 3. intent → execution
-    const result = await intentAgent.handle(query, userId);
+    if (isSimulationRequested(userId, req.headers[SIMULATION_HEADER])) {
+      const session = createSimulationSession(userId);
+      const result = await runInSimulation(session, () =>
+        intentAgent.handle(query, userId, controller.signal)
+      );
+      res.json({ result, simulation: summarizeSimulation(session) });
+      return;
+    }
+
+    const result = await intentAgent.handle(query, userId, controller.signal);
 
     res.json({ result });
   } catch (error) {
@@ -15,6 +15,13 @@ import logger from "../config/logger";
 import authRoutes from "../Auth/auth.routes";
 import dataExportRoutes from "../services/dataExport.routes";
 import auditLogRoutes from "../AuditLog/auditLog.routes";
+import agentPlanRoutes from "./agentPlan.routes";
+import signingRoutes from "../Signing/signing.routes";
+import multisigRoutes from "../services/multisig.routes";
+import sorobanEventRoutes from "../services/sorobanEvents.routes";
+import portfolioRoutes from "../services/portfolio.routes";
+import scheduledJobRoutes from "../Scheduler/scheduledJob.routes";
+import conditionalOrderRoutes from "../ConditionalOrders/conditionalOrder.routes";
 import { stellarLiquidityTool } from "../Agents/tools/stellarLiquidityTool";
 import { authenticateToken } from "../Auth/auth.middleware";
 import {
@@ -53,6 +60,27 @@ router.use("/export", dataExportRoutes);
 // Mount audit log routes
 router.use("/audit", auditLogRoutes);
 
+// Mount agent plan lifecycle routes
+router.use("/agent", agentPlanRoutes);
+
+// Mount transaction signing routes
+router.use("/signing", signingRoutes);
+
+// Mount multisig coordination routes
+router.use("/multisig", multisigRoutes);
+
+// Mount indexed Soroban event routes
+router.use("/events", sorobanEventRoutes);
+
+// Mount portfolio cost basis and P&L routes
+router.use("/portfolio", portfolioRoutes);
+
+// Mount scheduled job routes
+router.use("/jobs", scheduledJobRoutes);
+
+// Mount conditional order routes
+router.use("/orders", conditionalOrderRoutes);
+
 // Public webhook endpoint for Stellar funding notifications
 router.post("/webhook/stellar/funding", async (req: Request, res: Response) => {
   try {
@@ -282,11 +310,100 @@ router.post("/signup", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Validate the filters shared by the transaction history endpoints
+ */
+function parseTransactionQuery(
+  query: Request["query"]
+): { params: TransactionQueryParams } | { error: string } {
+  const {
+    type,
+    startDate,
+    endDate,
+    limit,
+    cursor,
+    search,
+    asset,
+    minAmount,
+    maxAmount,
+  } = query as Record<string, string | undefined>;
+
+  // Validate type parameter
+  const validTypes = ["funding", "deployment", "swap", "transfer", "all"];
+  if (type && !validTypes.includes(type)) {
+    return {
+      error: `Invalid type. Must be one of: ${validTypes.join(", ")}`,
+    };
+  }
+
+  // Validate limit parameter
+  const parsedLimit = limit ? parseInt(limit, 10) : 20;
+  if (isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > 100) {
+    return { error: "Limit must be a number between 1 and 100" };
+  }
+
+  // Validate date parameters
+  if (startDate && isNaN(Date.parse(startDate))) {
+    return {
+      error:
+        "Invalid startDate format. Use ISO 8601 format (e.g., 2024-01-01T00:00:00Z)",
+    };
+  }
+
+  if (endDate && isNaN(Date.parse(endDate))) {
+    return {
+      error:
+        "Invalid endDate format. Use ISO 8601 format (e.g., 2024-01-01T00:00:00Z)",
+    };
+  }
+
+  // Cursors are paging tokens, suffixed with the account for admin searches
+  if (cursor && !/^\d+(:G[A-Z2-7]{55})?$/.test(cursor)) {
+    return { error: "Invalid cursor" };
+  }
+
+  // Validate amount parameters
+  const amounts: { minAmount?: number; maxAmount?: number } = {};
+  for (const [name, value] of Object.entries({ minAmount, maxAmount })) {
+    if (value === undefined) continue;
+    const amount = Number(value);
+    if (value.trim() === "" || !Number.isFinite(amount) || amount < 0) {
+      return { error: `${name} must be a non-negative number` };
+    }
+    amounts[name as keyof typeof amounts] = amount;
+  }
+
+  if (
+    amounts.minAmount !== undefined &&
+    amounts.maxAmount !== undefined &&
+    amounts.minAmount > amounts.maxAmount
+  ) {
+    return { error: "minAmount cannot be greater than maxAmount" };
+  }
+
+  return {
+    params: {
+      type: type as TransactionType,
+      startDate,
+      endDate,
+      limit: parsedLimit,
+      cursor,
+      search: search?.trim() || undefined,
+      asset:
+        asset && ["native", "xlm"].includes(asset.toLowerCase())
+          ? "XLM"
+          : asset || undefined,
+      ...amounts,
+    },
+  };
+}
+
 /**
  * @swagger
  * /api/account/{userId}/transactions:
  *   get:
  *     summary: Get paginated Stellar transaction history
+ *     description: Served from the locally synced copy of the account's Horizon history
  *     tags: [Transactions]
  *     parameters:
  *       - in: path
@@ -327,6 +444,26 @@ router.post("/signup", async (req: Request, res: Response) => {
  *         schema:
  *           type: string
  *         description: Pagination cursor from previous response
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Full-text search over transaction memos
+ *       - in: query
+ *         name: asset
+ *         schema:
+ *           type: string
+ *         description: Only transactions moving this asset (XLM, an asset code or CODE:ISSUER)
+ *       - in: query
+ *         name: minAmount
+ *         schema:
+ *           type: number
+ *         description: Minimum operation amount
+ *       - in: query
+ *         name: maxAmount
+ *         schema:
+ *           type: number
+ *         description: Maximum operation amount
  *     responses:
  *       200:
  *         description: Paginated transaction list
@@ -387,60 +524,18 @@ router.get(
         });
       }
 
-      // Extract and validate query parameters
-      const { type, startDate, endDate, limit, cursor } = req.query as Record<
-        string,
-        string | undefined
-      >;
-
-      // Validate type parameter
-      const validTypes = ["funding", "deployment", "swap", "transfer", "all"];
-      if (type && !validTypes.includes(type)) {
-        return res.status(400).json({
-          success: false,
-          message: `Invalid type. Must be one of: ${validTypes.join(", ")}`,
-        });
-      }
-
-      // Validate limit parameter
-      const parsedLimit = limit ? parseInt(limit, 10) : 20;
-      if (isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > 100) {
-        return res.status(400).json({
-          success: false,
-          message: "Limit must be a number between 1 and 100",
-        });
-      }
-
-      // Validate date parameters
-      if (startDate && isNaN(Date.parse(startDate))) {
-        return res.status(400).json({
-          success: false,
-          message:
-            "Invalid startDate format. Use ISO 8601 format (e.g., 2024-01-01T00:00:00Z)",
-        });
-      }
-
-      if (endDate && isNaN(Date.parse(endDate))) {
+      const parsed = parseTransactionQuery(req.query);
+      if ("error" in parsed) {
         return res.status(400).json({
           success: false,
-          message:
-            "Invalid endDate format. Use ISO 8601 format (e.g., 2024-01-01T00:00:00Z)",
+          message: parsed.error,
         });
       }
 
-      // Build query parameters
-      const queryParams: TransactionQueryParams = {
-        type: type as TransactionType,
-        startDate,
-        endDate,
-        limit: parsedLimit,
-        cursor,
-      };
-
       // Fetch transaction history
       const result = await transactionHistoryService.getTransactionHistory(
         userId,
-        queryParams
+        parsed.params
       );
 
       return res.status(200).json({
@@ -481,6 +576,111 @@ router.get(
   })
 );
 
+/**
+ * @swagger
+ * /api/admin/transactions:
+ *   get:
+ *     summary: Search synced Stellar transactions across all users
+ *     description: Accepts the same filters as the per-account history endpoint. Admin only.
+ *     tags: [Transactions]
+ *     parameters:
+ *       - in: query
+ *         name: account
+ *         schema:
+ *           type: string
+ *         description: Restrict the search to one Stellar account
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [funding, deployment, swap, transfer, all]
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Full-text search over transaction memos
+ *       - in: query
+ *         name: asset
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: minAmount
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: maxAmount
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Paginated transaction list
+ *       400:
+ *         description: Invalid query parameters
+ *       403:
+ *         description: Admin role required
+ */
+router.get(
+  "/admin/transactions",
+  authenticateToken,
+  requireAdmin,
+  async (req: Request, res: Response) => {
+    try {
+      const parsed = parseTransactionQuery(req.query);
+      if ("error" in parsed) {
+        return res.status(400).json({
+          success: false,
+          message: parsed.error,
+        });
+      }
+
+      const { account } = req.query as Record<string, string | undefined>;
+      if (account && !/^G[A-Z2-7]{55}$/.test(account)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid account",
+        });
+      }
+
+      const result = await transactionHistoryService.searchTransactions({
+        ...parsed.params,
+        account,
+      });
+
+      return res.status(200).json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      logger.error("Transaction search error", { error });
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error",
+      });
+    }
+  }
+);
+
 // GET /admin/stats - Internal admin route for CPU and memory usage
 router.get(
   "/admin/stats",
@@ -26,8 +26,24 @@ const options: swaggerJsdoc.Options = {
         name: "Transactions",
         description: "Stellar transaction history endpoints",
       },
+      {
+        name: "Agent Plans",
+        description: "Create, confirm, execute and cancel multi-step plans",
+      },
+      {
+        name: "Signing",
+        description:
+          "Signing modes and transactions awaiting a wallet signature",
+      },
     ],
     components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          bearerFormat: "JWT",
+        },
+      },
       schemas: {
         User: {
           type: "object",
@@ -62,6 +78,7 @@ const options: swaggerJsdoc.Options = {
           properties: {
             id: { type: "string" },
             hash: { type: "string" },
+            account: { type: "string" },
             type: {
               type: "string",
               enum: ["funding", "deployment", "swap", "transfer", "all"],
@@ -98,6 +115,103 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        PlanStep: {
+          type: "object",
+          properties: {
+            stepNumber: { type: "integer" },
+            description: { type: "string" },
+            action: { type: "string", example: "swap_tool" },
+            payload: { type: "object" },
+            dependencies: { type: "array", items: { type: "integer" } },
+            estimatedDuration: { type: "integer" },
+          },
+        },
+        ExecutionPlan: {
+          type: "object",
+          properties: {
+            planId: { type: "string" },
+            planHash: { type: "string" },
+            summary: { type: "string" },
+            totalSteps: { type: "integer" },
+            estimatedDuration: { type: "integer" },
+            riskLevel: { type: "string", enum: ["low", "medium", "high"] },
+            requiresApproval: { type: "boolean" },
+            steps: {
+              type: "array",
+              items: { $ref: "#/components/schemas/PlanStep" },
+            },
+            risk: { $ref: "#/components/schemas/PlanRiskAssessment" },
+            warnings: {
+              type: "array",
+              items: { $ref: "#/components/schemas/PolicyViolation" },
+            },
+          },
+        },
+        PlanRiskAssessment: {
+          type: "object",
+          properties: {
+            level: { type: "string", enum: ["low", "medium", "high"] },
+            score: { type: "integer", minimum: 0, maximum: 100 },
+            totalNotionalUsd: { type: "number" },
+            requiresApproval: { type: "boolean" },
+            approvalReasons: { type: "array", items: { type: "string" } },
+            steps: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  stepNumber: { type: "integer" },
+                  action: { type: "string" },
+                  level: { type: "string", enum: ["low", "medium", "high"] },
+                  score: { type: "integer" },
+                  notionalUsd: { type: "number" },
+                  network: { type: "string", enum: ["mainnet", "testnet"] },
+                  irreversible: { type: "boolean" },
+                  factors: { type: "array", items: { type: "string" } },
+                },
+              },
+            },
+          },
+        },
+        PolicyViolation: {
+          type: "object",
+          properties: {
+            policy: { type: "string", example: "balance" },
+            code: { type: "string", example: "INSUFFICIENT_BALANCE" },
+            message: { type: "string" },
+            severity: { type: "string", enum: ["error", "warning"] },
+            stepNumber: { type: "integer" },
+            field: { type: "string" },
+          },
+        },
+        ExecutionResult: {
+          type: "object",
+          properties: {
+            planId: { type: "string" },
+            status: { type: "string", enum: ["success", "partial", "failed"] },
+            completedSteps: { type: "integer" },
+            totalSteps: { type: "integer" },
+            duration: { type: "integer" },
+            error: { type: "string" },
+            stepResults: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  stepNumber: { type: "integer" },
+                  action: { type: "string" },
+                  status: {
+                    type: "string",
+                    enum: ["success", "failed", "skipped"],
+                  },
+                  duration: { type: "integer" },
+                  timestamp: { type: "string", format: "date-time" },
+                  error: { type: "string" },
+                },
+              },
+            },
+          },
+        },
         WebhookPayload: {
           type: "object",
           required: ["id", "type", "source", "created_at", "data"],
@@ -126,7 +240,12 @@ const options: swaggerJsdoc.Options = {
       },
     },
   },
-  apis: ["./src/Gateway/api.ts", "./src/Gateway/routes.ts"],
+  apis: [
+    "./src/Gateway/api.ts",
+    "./src/Gateway/routes.ts",
+    "./src/Gateway/agentPlan.routes.ts",
+    "./src/Signing/signing.routes.ts",
+  ],
 };
 
 export const swaggerSpec = swaggerJsdoc(options);
@@ -1,7 +1,11 @@
-import * as StellarSdk from "@stellar/stellar-sdk";
-import config from "../config/config";
+import { In, Repository } from "typeorm";
 import AppDataSource from "../config/Datasource";
 import { User } from "../Auth/user.entity";
+import {
+  AccountEffect,
+  AccountOperation,
+  AccountTransaction,
+} from "./accountHistory.entity";
 
 /**
  * Transaction types supported by the endpoint
@@ -22,6 +26,21 @@ export interface TransactionQueryParams {
   endDate?: string;
   limit?: number;
   cursor?: string;
+  /** Full-text search over transaction memos */
+  search?: string;
+  /** `XLM`, an asset code or `CODE:ISSUER` */
+  asset?: string;
+  minAmount?: number;
+  maxAmount?: number;
+}
+
+/**
+ * Query parameters for searching the history of every synced account
+ */
+export interface TransactionSearchParams extends TransactionQueryParams {
+  account?: string;
+  /** Paging direction, newest first by default */
+  order?: "asc" | "desc";
 }
 
 /**
@@ -29,16 +48,19 @@ export interface TransactionQueryParams {
  */
 export interface HorizonTransaction {
   id: string;
+  paging_token: string;
   hash: string;
-  ledger: number;
+  ledger?: number;
+  /** The SDK renames `ledger` because it clashes with the ledger link */
+  ledger_attr?: number;
   created_at: string;
   source_account: string;
-  fee_paid: number;
+  fee_paid?: number | string;
+  fee_charged?: number | string;
   operation_count: number;
   successful: boolean;
   memo_type?: string;
   memo?: string;
-  operations: HorizonOperation[];
 }
 
 /**
@@ -46,6 +68,7 @@ export interface HorizonTransaction {
  */
 export interface HorizonOperation {
   id: string;
+  paging_token?: string;
   type: string;
   source_account: string;
   created_at: string;
@@ -53,9 +76,16 @@ export interface HorizonOperation {
   asset_type?: string;
   asset_code?: string;
   asset_issuer?: string;
+  source_asset_type?: string;
+  source_asset_code?: string;
+  source_asset_issuer?: string;
   from?: string;
   to?: string;
+  funder?: string;
+  account?: string;
+  into?: string;
   amount?: string;
+  source_amount?: string;
   starting_balance?: string;
   name?: string;
   value?: string;
@@ -66,6 +96,7 @@ export interface HorizonOperation {
  */
 export interface HorizonEffect {
   id: string;
+  paging_token?: string;
   account: string;
   type: string;
   created_at: string;
@@ -82,6 +113,8 @@ export interface HorizonEffect {
 export interface TransactionHistoryItem {
   id: string;
   hash: string;
+  /** Account whose history the transaction belongs to */
+  account: string;
   type: TransactionType;
   ledger: number;
   createdAt: string;
@@ -95,6 +128,9 @@ export interface TransactionHistoryItem {
     to?: string;
     amount?: string;
     asset?: string;
+    /** Sending leg of path payments */
+    sourceAmount?: string;
+    sourceAsset?: string;
   }[];
   effects: {
     type: string;
@@ -117,82 +153,65 @@ export interface PaginatedTransactionsResponse {
 }
 
 /**
- * Cache entry
+ * Format a Horizon asset as `XLM` or `CODE:ISSUER`
  */
-interface CacheEntry {
-  data: PaginatedTransactionsResponse;
-  timestamp: number;
+export function formatAsset(
+  assetType?: string,
+  assetCode?: string,
+  assetIssuer?: string,
+): string | undefined {
+  if (assetCode) {
+    return `${assetCode}:${assetIssuer}`;
+  }
+  return assetType === "native" ? "XLM" : undefined;
 }
 
 /**
- * Service for fetching and caching Stellar transaction history
+ * Determine transaction type based on operations
  */
-export class TransactionHistoryService {
-  private server: StellarSdk.Horizon.Server;
-  private userRepository = AppDataSource.getRepository(User);
-  private cache = new Map<string, CacheEntry>();
-  private readonly CACHE_TTL = 30000; // 30 seconds in milliseconds
-
-  constructor() {
-    this.server = new StellarSdk.Horizon.Server(config.stellar.horizonUrl);
-  }
-
-  /**
-   * Generate cache key from query parameters
-   */
-  private generateCacheKey(
-    userId: string,
-    params: TransactionQueryParams,
-  ): string {
-    return `${userId}-${JSON.stringify(params)}`;
-  }
-
-  /**
-   * Get cached data if available and not expired
-   */
-  private getCachedData(
-    cacheKey: string,
-  ): PaginatedTransactionsResponse | null {
-    const entry = this.cache.get(cacheKey);
-    if (!entry) {
-      return null;
-    }
-
-    const now = Date.now();
-    if (now - entry.timestamp > this.CACHE_TTL) {
-      this.cache.delete(cacheKey);
-      return null;
+export function determineTransactionType(
+  operations: Pick<HorizonOperation, "type" | "from" | "to" | "name">[],
+): TransactionType {
+  for (const op of operations) {
+    switch (op.type) {
+      case "create_account":
+        return "funding";
+      case "path_payment_strict_send":
+      case "path_payment_strict_receive":
+        return "swap";
+      case "payment":
+        // Check if it's a transfer (not self-payment)
+        if (op.from && op.to && op.from !== op.to) {
+          return "transfer";
+        }
+        break;
+      case "manage_data":
+        // Could be deployment-related
+        if (op.name === "deployment") {
+          return "deployment";
+        }
+        break;
     }
-
-    return entry.data;
   }
+  return "transfer"; // Default to transfer for unknown types
+}
 
-  /**
-   * Set cache data
-   */
-  private setCachedData(
-    cacheKey: string,
-    data: PaginatedTransactionsResponse,
-  ): void {
-    this.cache.set(cacheKey, {
-      data,
-      timestamp: Date.now(),
-    });
-
-    // Clean up expired cache entries periodically
-    this.cleanExpiredCache();
-  }
+/**
+ * Serves Stellar transaction history from the local tables kept current by
+ * the account history sync job
+ */
+export class TransactionHistoryService {
+  private userRepository: Repository<User>;
+  private transactionRepository: Repository<AccountTransaction>;
+  private operationRepository: Repository<AccountOperation>;
+  private effectRepository: Repository<AccountEffect>;
 
-  /**
-   * Clean up expired cache entries
-   */
-  private cleanExpiredCache(): void {
-    const now = Date.now();
-    for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > this.CACHE_TTL) {
-        this.cache.delete(key);
-      }
-    }
+  constructor() {
+    this.userRepository = AppDataSource.getRepository(User);
+    this.transactionRepository =
+      AppDataSource.getRepository(AccountTransaction);
+    this.operationRepository = AppDataSource.getRepository(AccountOperation);
+    this.effectRepository = AppDataSource.getRepository(AccountEffect);
   }
 
   /**
@@ -210,245 +229,214 @@ export class TransactionHistoryService {
   }
 
   /**
-   * Determine transaction type based on operations
+   * Build the EXISTS clause matching transactions with an operation of the
+   * requested asset and amount. Path payments match on either leg.
    */
-  private determineTransactionType(
-    operations: HorizonOperation[],
-  ): TransactionType {
-    for (const op of operations) {
-      switch (op.type) {
-        case "create_account":
-          return "funding";
-        case "path_payment_strict_send":
-        case "path_payment_strict_receive":
-          return "swap";
-        case "payment":
-          // Check if it's a transfer (not self-payment)
-          if (op.from && op.to && op.from !== op.to) {
-            return "transfer";
-          }
-          break;
-        case "manage_data":
-          // Could be deployment-related
-          if (op.name === "deployment") {
-            return "deployment";
-          }
-          break;
-      }
+  private buildOperationFilter(params: TransactionQueryParams): string | null {
+    const { asset, minAmount, maxAmount } = params;
+    if (!asset && minAmount === undefined && maxAmount === undefined) {
+      return null;
     }
-    return "transfer"; // Default to transfer for unknown types
+
+    const legs = [
+      ["asset", "amount"],
+      ["sourceAsset", "sourceAmount"],
+    ].map(([assetColumn, amountColumn]) => {
+      const conditions: string[] = [];
+      if (asset) {
+        // Bare asset codes match any issuer
+        conditions.push(
+          asset.includes(":")
+            ? `op."${assetColumn}" = :asset`
+            : `split_part(op."${assetColumn}", ':', 1) = :asset`,
+        );
+      }
+      if (minAmount !== undefined) {
+        conditions.push(`op."${amountColumn}" >= :minAmount`);
+      }
+      if (maxAmount !== undefined) {
+        conditions.push(`op."${amountColumn}" <= :maxAmount`);
+      }
+      return `(${conditions.join(" AND ")})`;
+    });
+
+    return `EXISTS (SELECT 1 FROM "account_operation" op WHERE op."transactionHash" = tx.hash AND (${legs.join(" OR ")}))`;
   }
 
   /**
-   * Normalize Horizon transaction to our format
+   * Convert stored rows to the response format
    */
-  private normalizeTransaction(
-    tx: HorizonTransaction,
-    effects: HorizonEffect[],
+  private toHistoryItem(
+    tx: AccountTransaction,
+    operations: AccountOperation[],
+    effects: AccountEffect[],
   ): TransactionHistoryItem {
-    const type = this.determineTransactionType(tx.operations);
-
-    const normalizedOps = tx.operations.map((op) => ({
-      type: op.type,
-      from: op.from,
-      to: op.to,
-      amount: op.amount || op.starting_balance,
-      asset: op.asset_code
-        ? `${op.asset_code}:${op.asset_issuer}`
-        : op.asset_type === "native"
-          ? "XLM"
-          : undefined,
-    }));
-
-    const normalizedEffects = effects.map((effect) => ({
-      type: effect.type,
-      amount: effect.amount || effect.starting_balance,
-      asset: effect.asset_code
-        ? `${effect.asset_code}:${effect.asset_issuer}`
-        : effect.asset_type === "native"
-          ? "XLM"
-          : undefined,
-    }));
-
     return {
       id: tx.id,
       hash: tx.hash,
-      type,
+      account: tx.account,
+      type: tx.type as TransactionType,
       ledger: tx.ledger,
-      createdAt: tx.created_at,
-      sourceAccount: tx.source_account,
-      feePaid: tx.fee_paid,
+      createdAt: new Date(tx.createdAt).toISOString(),
+      sourceAccount: tx.sourceAccount,
+      feePaid: Number(tx.feePaid),
       successful: tx.successful,
-      memo: tx.memo,
-      operations: normalizedOps,
-      effects: normalizedEffects,
+      memo: tx.memo ?? undefined,
+      operations: operations.map((op) => ({
+        type: op.type,
+        from: op.from ?? undefined,
+        to: op.to ?? undefined,
+        amount: op.amount ?? undefined,
+        asset: op.asset ?? undefined,
+        ...(op.sourceAsset
+          ? {
+              sourceAmount: op.sourceAmount ?? undefined,
+              sourceAsset: op.sourceAsset,
+            }
+          : {}),
+      })),
+      effects: effects.map((effect) => ({
+        type: effect.type,
+        amount: effect.amount ?? undefined,
+        asset: effect.asset ?? undefined,
+      })),
     };
   }
 
   /**
-   * Filter transactions by type
+   * Search synced transactions, newest first unless `order` is `asc`.
+   * Without an account the search spans every synced account, and cursors
+   * carry the account as well.
    */
-  private filterByType(
-    transactions: TransactionHistoryItem[],
-    type: TransactionType,
-  ): TransactionHistoryItem[] {
-    if (type === "all") {
-      return transactions;
+  public async searchTransactions(
+    params: TransactionSearchParams = {},
+  ): Promise<PaginatedTransactionsResponse> {
+    // Set default limit
+    const limit = params.limit || 20;
+    if (limit > 100) {
+      throw new Error("Limit cannot exceed 100");
     }
-    return transactions.filter((tx) => tx.type === type);
-  }
 
-  /**
-   * Filter transactions by date range
-   */
-  private filterByDate(
-    transactions: TransactionHistoryItem[],
-    startDate?: string,
-    endDate?: string,
-  ): TransactionHistoryItem[] {
-    let filtered = transactions;
-
-    if (startDate) {
-      const start = new Date(startDate);
-      filtered = filtered.filter((tx) => new Date(tx.createdAt) >= start);
-    }
+    const ascending = params.order === "asc";
+    const query = this.transactionRepository.createQueryBuilder("tx");
 
-    if (endDate) {
-      const end = new Date(endDate);
-      filtered = filtered.filter((tx) => new Date(tx.createdAt) <= end);
+    if (params.account) {
+      query.andWhere("tx.account = :account", { account: params.account });
     }
 
-    return filtered;
-  }
-
-  /**
-   * Fetch transactions from Horizon API
-   */
-  private async fetchTransactions(
-    address: string,
-    limit: number,
-    cursor?: string,
-  ): Promise<{ transactions: HorizonTransaction[]; nextCursor?: string }> {
-    try {
-      const builder = this.server
-        .transactions()
-        .forAccount(address)
-        .order("desc")
-        .limit(limit);
-
-      if (cursor) {
-        builder.cursor(cursor);
-      }
-
-      const response = await builder.call();
-      const nextCursor =
-        response.records.length === limit
-          ? response.records[response.records.length - 1].paging_token
-          : undefined;
-
-      return {
-        transactions: response.records as unknown as HorizonTransaction[],
-        nextCursor,
-      };
-    } catch (error) {
-      console.error("Error fetching transactions from Horizon:", error);
-      throw new Error(
-        `Failed to fetch transactions: ${error instanceof Error ? error.message : "Unknown error"}`,
-      );
+    if (params.type && params.type !== "all") {
+      query.andWhere("tx.type = :type", { type: params.type });
     }
-  }
 
-  /**
-   * Fetch effects for a transaction
-   */
-  private async fetchEffects(
-    transactionHash: string,
-  ): Promise<HorizonEffect[]> {
-    try {
-      const response = await this.server
-        .effects()
-        .forTransaction(transactionHash)
-        .call();
-      return response.records as unknown as HorizonEffect[];
-    } catch (error) {
-      console.error(
-        `Error fetching effects for transaction ${transactionHash}:`,
-        error,
-      );
-      return [];
+    if (params.startDate) {
+      query.andWhere("tx.createdAt >= :startDate", {
+        startDate: new Date(params.startDate),
+      });
     }
-  }
 
-  /**
-   * Get transaction history for a user
-   */
-  public async getTransactionHistory(
-    userId: string,
-    params: TransactionQueryParams = {},
-  ): Promise<PaginatedTransactionsResponse> {
-    // Check cache first
-    const cacheKey = this.generateCacheKey(userId, params);
-    const cached = this.getCachedData(cacheKey);
-    if (cached) {
-      return cached;
+    if (params.endDate) {
+      query.andWhere("tx.createdAt <= :endDate", {
+        endDate: new Date(params.endDate),
+      });
     }
 
-    // Find user
-    const user = await this.findUserById(userId);
-    if (!user) {
-      throw new Error("User not found");
+    if (params.search) {
+      // Same expression as the memo search index
+      query.andWhere(
+        "to_tsvector('simple', coalesce(tx.memo, '')) @@ plainto_tsquery('simple', :search)",
+        { search: params.search },
+      );
     }
 
-    // Set default limit
-    const limit = params.limit || 20;
-    if (limit > 100) {
-      throw new Error("Limit cannot exceed 100");
+    const operationFilter = this.buildOperationFilter(params);
+    if (operationFilter) {
+      query.andWhere(operationFilter, {
+        asset: params.asset,
+        minAmount: params.minAmount,
+        maxAmount: params.maxAmount,
+      });
     }
 
-    // Fetch transactions from Horizon
-    const { transactions: horizonTxs, nextCursor } =
-      await this.fetchTransactions(user.address, limit, params.cursor);
+    if (params.cursor) {
+      const [pagingToken, cursorAccount] = params.cursor.split(":");
+      if (!/^\d+$/.test(pagingToken)) {
+        throw new Error("Invalid cursor");
+      }
+      const comparison = ascending ? ">" : "<";
+      if (cursorAccount && !params.account) {
+        query.andWhere(
+          `(tx.pagingToken ${comparison} :pagingToken OR (tx.pagingToken = :pagingToken AND tx.account > :cursorAccount))`,
+          { pagingToken, cursorAccount },
+        );
+      } else {
+        query.andWhere(`tx.pagingToken ${comparison} :pagingToken`, {
+          pagingToken,
+        });
+      }
+    }
 
-    // Fetch effects for each transaction
-    const transactionsWithEffects = await Promise.all(
-      horizonTxs.map(async (tx) => {
-        const effects = await this.fetchEffects(tx.hash);
-        return this.normalizeTransaction(tx, effects);
-      }),
+    const records = await query
+      .orderBy("tx.pagingToken", ascending ? "ASC" : "DESC")
+      .addOrderBy("tx.account", "ASC")
+      .take(limit + 1)
+      .getMany();
+
+    const page = records.slice(0, limit);
+    const hashes = [...new Set(page.map((tx) => tx.hash))];
+    const [operations, effects] = hashes.length
+      ? await Promise.all([
+          this.operationRepository.find({
+            where: { transactionHash: In(hashes) },
+            order: { pagingToken: "ASC" },
+          }),
+          this.effectRepository.find({
+            where: { transactionHash: In(hashes) },
+            order: { id: "ASC" },
+          }),
+        ])
+      : [[], []];
+
+    const transactions = page.map((tx) =>
+      this.toHistoryItem(
+        tx,
+        operations.filter((op) => op.transactionHash === tx.hash),
+        effects.filter((effect) => effect.transactionHash === tx.hash),
+      ),
     );
 
-    // Apply filters
-    let filteredTransactions = transactionsWithEffects;
-
-    if (params.type) {
-      filteredTransactions = this.filterByType(
-        filteredTransactions,
-        params.type,
-      );
-    }
-
-    if (params.startDate || params.endDate) {
-      filteredTransactions = this.filterByDate(
-        filteredTransactions,
-        params.startDate,
-        params.endDate,
-      );
-    }
+    const last = page[page.length - 1];
+    const nextCursor =
+      records.length > limit
+        ? params.account
+          ? last.pagingToken
+          : `${last.pagingToken}:${last.account}`
+        : undefined;
 
-    const response: PaginatedTransactionsResponse = {
-      transactions: filteredTransactions,
+    return {
+      transactions,
       pagination: {
         nextCursor,
         prevCursor: params.cursor,
         limit,
-        total: filteredTransactions.length,
+        total: transactions.length,
       },
     };
+  }
 
-    // Cache the response
-    this.setCachedData(cacheKey, response);
+  /**
+   * Get transaction history for a user
+   */
+  public async getTransactionHistory(
+    userId: string,
+    params: TransactionQueryParams = {},
+  ): Promise<PaginatedTransactionsResponse> {
+    // Find user
+    const user = await this.findUserById(userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
 
-    return response;
+    return this.searchTransactions({ ...params, account: user.address });
   }
 }
 
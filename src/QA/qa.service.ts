@@ -29,7 +29,9 @@ Context:
 ${contextString}
     `;
 
-    const result = await agentLLM.callLLM(userId, prompt, input);
+    const result = await agentLLM.callLLM(userId, prompt, input, true, {
+      agent: "qa",
+    });
     return result;
   }
 }
@@ -0,0 +1,109 @@
+import { Repository } from "typeorm";
+import AppDataSource from "../config/Datasource";
+import logger from "../config/logger";
+import { User } from "../Auth/user.entity";
+import { EmailService, emailService } from "../services/email.service";
+import { ScheduledJob, ScheduledJobRun } from "./scheduledJob.entity";
+import { describeSchedule } from "./schedule";
+
+export type JobNotificationEvent =
+  | "run_finished"
+  | "runs_skipped"
+  | "job_paused"
+  | "job_completed";
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Emails users about their scheduled jobs. Users without a verified email
+ * address are skipped; a failed notification never fails the run.
+ */
+export class JobNotificationService {
+  private userRepository: Repository<User>;
+
+  constructor(private readonly email: EmailService = emailService) {
+    this.userRepository = AppDataSource.getRepository(User);
+  }
+
+  async notify(
+    job: ScheduledJob,
+    event: JobNotificationEvent,
+    run?: ScheduledJobRun,
+    detail?: string
+  ): Promise<void> {
+    if (!job.notify) {
+      return;
+    }
+
+    try {
+      const user = await this.userRepository.findOne({
+        where: { id: job.userId },
+      });
+      if (!user?.email || !user.isEmailVerified) {
+        return;
+      }
+
+      const { subject, lines } = this.compose(job, event, run, detail);
+      await this.email.sendEmail({
+        to: user.email,
+        subject: `${subject} - ChenPilot`,
+        html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>${escapeHtml(subject)}</h2>
+        ${lines.map((line) => `<p>${escapeHtml(line)}</p>`).join("\n        ")}
+      </div>
+    `,
+      });
+    } catch (error) {
+      logger.error("Failed to send scheduled job notification", {
+        jobId: job.id,
+        event,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private compose(
+    job: ScheduledJob,
+    event: JobNotificationEvent,
+    run?: ScheduledJobRun,
+    detail?: string
+  ): { subject: string; lines: string[] } {
+    const lines = [
+      `Job: ${job.name}`,
+      `Schedule: ${describeSchedule(job.schedule)}`,
+    ];
+
+    switch (event) {
+      case "run_finished":
+        lines.push(
+          `Run for ${run!.scheduledFor.toISOString()}: ${run!.status}, ${run!.completedSteps} of ${run!.totalSteps} steps completed.`
+        );
+        if (run!.error) lines.push(`Error: ${run!.error}`);
+        return {
+          subject:
+            run!.status === "success"
+              ? "Scheduled job ran"
+              : "Scheduled job did not complete",
+          lines,
+        };
+      case "runs_skipped":
+        lines.push(detail ?? "Missed runs were skipped.");
+        return { subject: "Scheduled job runs skipped", lines };
+      case "job_paused":
+        lines.push(detail ?? "The job was paused.");
+        return { subject: "Scheduled job paused", lines };
+      case "job_completed":
+        lines.push("The job has no runs left.");
+        return { subject: "Scheduled job completed", lines };
+    }
+  }
+}
+
+export const jobNotificationService = new JobNotificationService();
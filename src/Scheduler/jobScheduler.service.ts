@@ -0,0 +1,333 @@
+import { LessThanOrEqual, Repository } from "typeorm";
+import AppDataSource from "../config/Datasource";
+import logger from "../config/logger";
+import { PlanExecutor, planExecutor } from "../Agents/planner/PlanExecutor";
+import { auditLogService } from "../AuditLog/auditLog.service";
+import { AuditAction, AuditSeverity } from "../AuditLog/auditLog.entity";
+import { ScheduledJob, ScheduledJobRun } from "./scheduledJob.entity";
+import {
+  JobNotificationService,
+  jobNotificationService,
+} from "./jobNotifications";
+import { nextRunAfter } from "./schedule";
+
+interface JobSchedulerOptions {
+  executor?: Pick<PlanExecutor, "executePlan">;
+  notifier?: Pick<JobNotificationService, "notify">;
+  enabled?: boolean;
+  pollIntervalMs?: number;
+  /** How late a run may start before it counts as missed */
+  missedRunGraceMs?: number;
+  /** How long a claimed job stays locked if its worker dies */
+  lockMs?: number;
+  batchSize?: number;
+  /** Consecutive failed runs after which a job is paused */
+  maxConsecutiveFailures?: number;
+}
+
+/** Most missed occurrences a `run_all` job catches up on in one go */
+const MAX_CATCH_UP_RUNS = 10;
+
+/**
+ * Runs scheduled jobs when they fall due. Each poll claims due jobs with a
+ * lock so several app instances never run the same job twice, executes the
+ * job's stored plan with hash verification, records the run and moves the
+ * job to its next occurrence. Runs that fell due while no worker was running
+ * are handled according to the job's missed run policy.
+ */
+export class JobSchedulerService {
+  private readonly executor: Pick<PlanExecutor, "executePlan">;
+  private readonly notifier: Pick<JobNotificationService, "notify">;
+  private readonly enabled: boolean;
+  private readonly pollIntervalMs: number;
+  private readonly missedRunGraceMs: number;
+  private readonly lockMs: number;
+  private readonly batchSize: number;
+  private readonly maxConsecutiveFailures: number;
+  private jobRepository: Repository<ScheduledJob>;
+  private runRepository: Repository<ScheduledJobRun>;
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+
+  constructor(options: JobSchedulerOptions = {}) {
+    this.executor = options.executor ?? planExecutor;
+    this.notifier = options.notifier ?? jobNotificationService;
+    this.enabled =
+      options.enabled ?? process.env.JOB_SCHEDULER_ENABLED !== "false";
+    this.pollIntervalMs =
+      options.pollIntervalMs ??
+      Number.parseInt(process.env.JOB_SCHEDULER_POLL_MS || "30000", 10);
+    this.missedRunGraceMs =
+      options.missedRunGraceMs ??
+      Number.parseInt(
+        process.env.JOB_SCHEDULER_MISSED_GRACE_MS || "300000",
+        10
+      );
+    this.lockMs =
+      options.lockMs ??
+      Number.parseInt(process.env.JOB_SCHEDULER_LOCK_MS || "600000", 10);
+    this.batchSize = options.batchSize ?? 20;
+    this.maxConsecutiveFailures = options.maxConsecutiveFailures ?? 3;
+    this.jobRepository = AppDataSource.getRepository(ScheduledJob);
+    this.runRepository = AppDataSource.getRepository(ScheduledJobRun);
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    if (!this.enabled) {
+      logger.info("Job scheduler disabled by configuration");
+      return;
+    }
+
+    this.running = true;
+    logger.info("Job scheduler started", {
+      pollIntervalMs: this.pollIntervalMs,
+    });
+    void this.poll();
+  }
+
+  stop(): void {
+    this.running = false;
+
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      await this.runDueJobs();
+    } catch (error) {
+      logger.error("Failed to run scheduled jobs", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (this.running) {
+      this.pollTimer = setTimeout(() => {
+        this.pollTimer = null;
+        void this.poll();
+      }, this.pollIntervalMs);
+    }
+  }
+
+  /**
+   * Run every active job due at `now`, returning how many were processed
+   */
+  async runDueJobs(now = new Date()): Promise<number> {
+    const jobs = await this.jobRepository.find({
+      where: { status: "active", nextRunAt: LessThanOrEqual(now) },
+      order: { nextRunAt: "ASC" },
+      take: this.batchSize,
+    });
+
+    let processed = 0;
+    for (const job of jobs) {
+      if (!(await this.claim(job, now))) {
+        continue;
+      }
+      try {
+        await this.processJob(job, now);
+        processed++;
+      } catch (error) {
+        logger.error("Scheduled job failed", {
+          jobId: job.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        await this.jobRepository.update(job.id, { lockedUntil: null });
+      }
+    }
+    return processed;
+  }
+
+  /**
+   * Lock a job for this worker; false when another worker holds it or it is
+   * no longer active
+   */
+  private async claim(job: ScheduledJob, now: Date): Promise<boolean> {
+    const result = await this.jobRepository
+      .createQueryBuilder()
+      .update(ScheduledJob)
+      .set({ lockedUntil: new Date(now.getTime() + this.lockMs) })
+      .where("id = :id", { id: job.id })
+      .andWhere("status = :status", { status: "active" })
+      .andWhere('("lockedUntil" IS NULL OR "lockedUntil" < :now)', { now })
+      .execute();
+    return result.affected === 1;
+  }
+
+  private async processJob(job: ScheduledJob, now: Date): Promise<void> {
+    const scheduledFor = job.nextRunAt!;
+    let toRun = [scheduledFor];
+    let toSkip: Date[] = [];
+
+    if (now.getTime() - scheduledFor.getTime() > this.missedRunGraceMs) {
+      const missed = this.occurrencesUntil(job, scheduledFor, now);
+      logger.warn("Scheduled job missed runs", {
+        jobId: job.id,
+        missed: missed.length,
+        policy: job.missedRunPolicy,
+      });
+
+      switch (job.missedRunPolicy) {
+        case "skip":
+          toRun = [];
+          toSkip = missed;
+          break;
+        case "run_all":
+          toRun = missed.slice(-MAX_CATCH_UP_RUNS);
+          toSkip = missed.slice(0, -MAX_CATCH_UP_RUNS);
+          break;
+        default:
+          // Catch up with the latest missed occurrence only
+          toRun = missed.slice(-1);
+          toSkip = missed.slice(0, -1);
+      }
+    }
+
+    if (toSkip.length > 0) {
+      await this.runRepository.save(
+        toSkip.map((occurrence) =>
+          this.runRepository.create({
+            jobId: job.id,
+            userId: job.userId,
+            scheduledFor: occurrence,
+            status: "skipped",
+            totalSteps: job.plan.totalSteps,
+            error: "Missed while the scheduler was not running",
+          })
+        )
+      );
+      await this.notifier.notify(
+        job,
+        "runs_skipped",
+        undefined,
+        `${toSkip.length} missed run(s) since ${toSkip[0].toISOString()} were skipped.`
+      );
+    }
+
+    for (const occurrence of toRun) {
+      const run = await this.execute(job, occurrence);
+      job.runCount++;
+      job.lastRunAt = run.finishedAt;
+      job.lastRunStatus = run.status;
+      job.consecutiveFailures =
+        run.status === "success" ? 0 : job.consecutiveFailures + 1;
+      await this.notifier.notify(job, "run_finished", run);
+
+      if (job.consecutiveFailures >= this.maxConsecutiveFailures) {
+        job.status = "paused";
+        await this.notifier.notify(
+          job,
+          "job_paused",
+          undefined,
+          `The job was paused after ${job.consecutiveFailures} runs in a row did not complete. Resume it once the problem is fixed.`
+        );
+        break;
+      }
+    }
+
+    if (job.status === "active") {
+      job.nextRunAt = nextRunAfter(job.schedule, now);
+      if (!job.nextRunAt) {
+        job.status = "completed";
+        await this.notifier.notify(job, "job_completed");
+      }
+    } else {
+      job.nextRunAt = null;
+    }
+
+    const runState = {
+      lastRunAt: job.lastRunAt,
+      lastRunStatus: job.lastRunStatus,
+      runCount: job.runCount,
+      consecutiveFailures: job.consecutiveFailures,
+      lockedUntil: null,
+    };
+    const result = await this.jobRepository.update(
+      { id: job.id, status: "active" },
+      { ...runState, status: job.status, nextRunAt: job.nextRunAt }
+    );
+    // Paused or cancelled while it ran: keep the user's status and schedule
+    if (!result.affected) {
+      await this.jobRepository.update(job.id, runState);
+    }
+  }
+
+  /**
+   * Occurrences from `from` up to and including `now`
+   */
+  private occurrencesUntil(job: ScheduledJob, from: Date, now: Date): Date[] {
+    const occurrences: Date[] = [];
+    let occurrence: Date | null = from;
+    // Bounded so a long outage of a frequent job stays cheap
+    while (occurrence && occurrence <= now && occurrences.length < 1000) {
+      occurrences.push(occurrence);
+      occurrence = nextRunAfter(job.schedule, occurrence);
+    }
+    return occurrences;
+  }
+
+  /**
+   * Execute the job's plan once and record the run
+   */
+  private async execute(
+    job: ScheduledJob,
+    scheduledFor: Date
+  ): Promise<ScheduledJobRun> {
+    const run = await this.runRepository.save(
+      this.runRepository.create({
+        jobId: job.id,
+        userId: job.userId,
+        scheduledFor,
+        status: "running",
+        totalSteps: job.plan.totalSteps,
+        startedAt: new Date(),
+      })
+    );
+
+    try {
+      if (job.plan.planHash !== job.planHash) {
+        throw new Error("Stored plan hash does not match the job");
+      }
+
+      await auditLogService.log({
+        userId: job.userId,
+        action: AuditAction.TRADE_INITIATED,
+        severity: AuditSeverity.INFO,
+        resource: job.plan.planId,
+        metadata: {
+          planHash: job.planHash,
+          scheduledJobId: job.id,
+          scheduledFor: scheduledFor.toISOString(),
+        },
+      });
+
+      const result = await this.executor.executePlan(job.plan, job.userId, {
+        verifyHash: true,
+        stopOnError: true,
+      });
+      run.status = result.status === "cancelled" ? "failed" : result.status;
+      run.completedSteps = result.completedSteps;
+      run.stepResults = result.stepResults;
+      run.error = result.error ?? null;
+    } catch (error) {
+      run.status = "failed";
+      run.error = error instanceof Error ? error.message : String(error);
+    }
+
+    run.finishedAt = new Date();
+    logger.info("Scheduled job run finished", {
+      jobId: job.id,
+      runId: run.id,
+      status: run.status,
+    });
+    return this.runRepository.save(run);
+  }
+}
+
+export const jobSchedulerService = new JobSchedulerService();
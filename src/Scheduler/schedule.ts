@@ -0,0 +1,250 @@
+export type ScheduleFrequency =
+  | "once"
+  | "interval"
+  | "daily"
+  | "weekly"
+  | "monthly";
+
+export const SCHEDULE_FREQUENCIES: ScheduleFrequency[] = [
+  "once",
+  "interval",
+  "daily",
+  "weekly",
+  "monthly",
+];
+
+/**
+ * When a scheduled job runs. All times are UTC.
+ */
+export interface JobSchedule {
+  frequency: ScheduleFrequency;
+  /** First run for `once` and `interval` schedules (ISO 8601) */
+  runAt?: string;
+  /** Minutes between runs of an `interval` schedule */
+  intervalMinutes?: number;
+  /** Time of day as HH:MM for daily, weekly and monthly schedules */
+  time?: string;
+  /** 0 (Sunday) to 6 (Saturday) for weekly schedules */
+  dayOfWeek?: number;
+  /** 1 to 31 for monthly schedules; short months run on their last day */
+  dayOfMonth?: number;
+}
+
+export class ScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScheduleError";
+  }
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+/** Shortest interval accepted, so a job cannot hammer the executor */
+const MIN_INTERVAL_MINUTES = 5;
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+function isInteger(value: unknown, min: number, max: number): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= min &&
+    value <= max
+  );
+}
+
+function parseTime(time = "00:00"): [number, number] {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time);
+  if (!match) {
+    throw new ScheduleError("time must be HH:MM in 24 hour UTC time");
+  }
+  return [Number(match[1]), Number(match[2])];
+}
+
+/**
+ * Check a schedule from user input and return it with defaults applied.
+ * `now` anchors interval schedules that do not give a first run.
+ */
+export function validateSchedule(
+  input: unknown,
+  now = new Date()
+): JobSchedule {
+  if (!input || typeof input !== "object") {
+    throw new ScheduleError("schedule is required");
+  }
+
+  const schedule = input as Partial<JobSchedule>;
+  const frequency = schedule.frequency;
+  if (!frequency || !SCHEDULE_FREQUENCIES.includes(frequency)) {
+    throw new ScheduleError(
+      `frequency must be one of: ${SCHEDULE_FREQUENCIES.join(", ")}`
+    );
+  }
+
+  const runAt = schedule.runAt ? new Date(schedule.runAt) : undefined;
+  if (runAt && isNaN(runAt.getTime())) {
+    throw new ScheduleError("runAt must be an ISO 8601 date");
+  }
+
+  switch (frequency) {
+    case "once":
+      if (!runAt) {
+        throw new ScheduleError("runAt is required for one-off jobs");
+      }
+      if (runAt <= now) {
+        throw new ScheduleError("runAt must be in the future");
+      }
+      return { frequency, runAt: runAt.toISOString() };
+
+    case "interval":
+      if (
+        !isInteger(
+          schedule.intervalMinutes,
+          MIN_INTERVAL_MINUTES,
+          366 * 24 * 60
+        )
+      ) {
+        throw new ScheduleError(
+          `intervalMinutes must be a whole number of at least ${MIN_INTERVAL_MINUTES}`
+        );
+      }
+      return {
+        frequency,
+        intervalMinutes: schedule.intervalMinutes,
+        runAt: (
+          runAt ??
+          new Date(now.getTime() + schedule.intervalMinutes * MINUTE_MS)
+        ).toISOString(),
+      };
+
+    case "daily":
+      parseTime(schedule.time);
+      return { frequency, time: schedule.time ?? "00:00" };
+
+    case "weekly":
+      parseTime(schedule.time);
+      if (!isInteger(schedule.dayOfWeek, 0, 6)) {
+        throw new ScheduleError("dayOfWeek must be 0 (Sunday) to 6 (Saturday)");
+      }
+      return {
+        frequency,
+        time: schedule.time ?? "00:00",
+        dayOfWeek: schedule.dayOfWeek,
+      };
+
+    case "monthly":
+      parseTime(schedule.time);
+      if (!isInteger(schedule.dayOfMonth, 1, 31)) {
+        throw new ScheduleError("dayOfMonth must be 1 to 31");
+      }
+      return {
+        frequency,
+        time: schedule.time ?? "00:00",
+        dayOfMonth: schedule.dayOfMonth,
+      };
+  }
+}
+
+/**
+ * First run of a schedule strictly after `after`, or null when a one-off
+ * job has no runs left
+ */
+export function nextRunAfter(schedule: JobSchedule, after: Date): Date | null {
+  const time = after.getTime();
+
+  switch (schedule.frequency) {
+    case "once": {
+      const runAt = new Date(schedule.runAt!);
+      return runAt.getTime() > time ? runAt : null;
+    }
+
+    case "interval": {
+      const first = new Date(schedule.runAt!).getTime();
+      if (first > time) return new Date(first);
+      const interval = schedule.intervalMinutes! * MINUTE_MS;
+      return new Date(
+        first + (Math.floor((time - first) / interval) + 1) * interval
+      );
+    }
+
+    case "daily":
+    case "weekly": {
+      const [hours, minutes] = parseTime(schedule.time);
+      const candidate = new Date(
+        Date.UTC(
+          after.getUTCFullYear(),
+          after.getUTCMonth(),
+          after.getUTCDate(),
+          hours,
+          minutes
+        )
+      );
+      if (schedule.frequency === "weekly") {
+        const days = (schedule.dayOfWeek! - candidate.getUTCDay() + 7) % 7;
+        candidate.setTime(candidate.getTime() + days * DAY_MS);
+      }
+      if (candidate.getTime() <= time) {
+        const step = schedule.frequency === "weekly" ? 7 : 1;
+        candidate.setTime(candidate.getTime() + step * DAY_MS);
+      }
+      return candidate;
+    }
+
+    case "monthly": {
+      const [hours, minutes] = parseTime(schedule.time);
+      const inMonth = (year: number, month: number) => {
+        const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+        return new Date(
+          Date.UTC(
+            year,
+            month,
+            Math.min(schedule.dayOfMonth!, lastDay),
+            hours,
+            minutes
+          )
+        );
+      };
+      const candidate = inMonth(after.getUTCFullYear(), after.getUTCMonth());
+      return candidate.getTime() > time
+        ? candidate
+        : inMonth(after.getUTCFullYear(), after.getUTCMonth() + 1);
+    }
+  }
+}
+
+/**
+ * Human readable form of a schedule, e.g. "every Monday at 09:00 UTC"
+ */
+export function describeSchedule(schedule: JobSchedule): string {
+  const at = `at ${schedule.time ?? "00:00"} UTC`;
+
+  switch (schedule.frequency) {
+    case "once":
+      return `once at ${schedule.runAt}`;
+    case "interval":
+      return `every ${schedule.intervalMinutes} minutes from ${schedule.runAt}`;
+    case "daily":
+      return `every day ${at}`;
+    case "weekly":
+      return `every ${WEEKDAYS[schedule.dayOfWeek!]} ${at}`;
+    case "monthly": {
+      const day = schedule.dayOfMonth!;
+      const suffix =
+        day % 10 === 1 && day !== 11
+          ? "st"
+          : day % 10 === 2 && day !== 12
+            ? "nd"
+            : day % 10 === 3 && day !== 13
+              ? "rd"
+              : "th";
+      return `on the ${day}${suffix} of every month ${at}`;
+    }
+  }
+}
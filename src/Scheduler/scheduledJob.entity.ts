@@ -0,0 +1,141 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from "typeorm";
+import { HashedPlan } from "../Agents/planner/planHash";
+import type { StepResult } from "../Agents/planner/PlanExecutor";
+import { JobSchedule } from "./schedule";
+
+export type ScheduledJobStatus =
+  | "active"
+  | "paused"
+  | "completed"
+  | "cancelled";
+
+/**
+ * What the worker does with runs that were due while it was not running:
+ * skip them, run once to catch up, or run every missed occurrence
+ */
+export type MissedRunPolicy = "skip" | "run_once" | "run_all";
+
+export type ScheduledJobRunStatus =
+  | "running"
+  | "success"
+  | "partial"
+  | "failed"
+  | "skipped";
+
+/**
+ * A plan the worker executes on a schedule on the user's behalf. The plan
+ * is created once, when the job is, and verified against its hash before
+ * every run.
+ */
+@Entity("scheduled_job")
+@Index(["status", "nextRunAt"])
+@Index(["userId", "createdAt"])
+export class ScheduledJob {
+  @PrimaryGeneratedColumn("uuid")
+  id!: string;
+
+  @Column({ type: "varchar" })
+  userId!: string;
+
+  @Column({ type: "varchar", length: 120 })
+  name!: string;
+
+  /** The request the plan was created from, e.g. "buy 50 XLM with USDC" */
+  @Column({ type: "text" })
+  instruction!: string;
+
+  @Column({ type: "jsonb" })
+  plan!: HashedPlan;
+
+  @Column({ type: "varchar", length: 64 })
+  planHash!: string;
+
+  @Column({ type: "jsonb" })
+  schedule!: JobSchedule;
+
+  @Column({ type: "varchar", length: 20, default: "run_once" })
+  missedRunPolicy!: MissedRunPolicy;
+
+  @Column({ type: "varchar", length: 20, default: "active" })
+  status!: ScheduledJobStatus;
+
+  @Column({ type: "timestamp", nullable: true })
+  nextRunAt?: Date | null;
+
+  @Column({ type: "timestamp", nullable: true })
+  lastRunAt?: Date | null;
+
+  @Column({ type: "varchar", length: 20, nullable: true })
+  lastRunStatus?: ScheduledJobRunStatus | null;
+
+  @Column({ type: "int", default: 0 })
+  runCount!: number;
+
+  @Column({ type: "int", default: 0 })
+  consecutiveFailures!: number;
+
+  /** Email the user about runs */
+  @Column({ type: "boolean", default: true })
+  notify!: boolean;
+
+  /** Set while a worker is running the job so others leave it alone */
+  @Column({ type: "timestamp", nullable: true })
+  lockedUntil?: Date | null;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
+
+/**
+ * One run of a scheduled job
+ */
+@Entity("scheduled_job_run")
+@Index(["jobId", "scheduledFor"])
+export class ScheduledJobRun {
+  @PrimaryGeneratedColumn("uuid")
+  id!: string;
+
+  @Column({ type: "uuid" })
+  jobId!: string;
+
+  @Column({ type: "varchar" })
+  userId!: string;
+
+  /** The occurrence this run is for; earlier than startedAt when catching up */
+  @Column({ type: "timestamp" })
+  scheduledFor!: Date;
+
+  @Column({ type: "varchar", length: 20 })
+  status!: ScheduledJobRunStatus;
+
+  @Column({ type: "int", default: 0 })
+  completedSteps!: number;
+
+  @Column({ type: "int", default: 0 })
+  totalSteps!: number;
+
+  @Column({ type: "jsonb", nullable: true })
+  stepResults?: StepResult[] | null;
+
+  @Column({ type: "text", nullable: true })
+  error?: string | null;
+
+  @Column({ type: "timestamp", nullable: true })
+  startedAt?: Date | null;
+
+  @Column({ type: "timestamp", nullable: true })
+  finishedAt?: Date | null;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
@@ -0,0 +1,240 @@
+import { Router, Request, Response } from "express";
+import { authenticateToken } from "../Auth/auth.middleware";
+import logger from "../config/logger";
+import { PlanValidationError } from "../Agents/planner/AgentPlanner";
+import { ScheduledJob, ScheduledJobRun } from "./scheduledJob.entity";
+import {
+  ScheduledJobError,
+  ScheduledJobNotFoundError,
+  ScheduledJobStateError,
+  scheduledJobService,
+} from "./scheduledJob.service";
+import { describeSchedule, ScheduleError } from "./schedule";
+
+const router = Router();
+
+function serializeJob(job: ScheduledJob) {
+  return {
+    id: job.id,
+    name: job.name,
+    instruction: job.instruction,
+    schedule: job.schedule,
+    scheduleDescription: describeSchedule(job.schedule),
+    missedRunPolicy: job.missedRunPolicy,
+    notify: job.notify,
+    status: job.status,
+    nextRunAt: job.nextRunAt ?? null,
+    lastRunAt: job.lastRunAt ?? null,
+    lastRunStatus: job.lastRunStatus ?? null,
+    runCount: job.runCount,
+    plan: {
+      planId: job.plan.planId,
+      planHash: job.planHash,
+      summary: job.plan.summary,
+      steps: job.plan.steps.map((step) => ({
+        stepNumber: step.stepNumber,
+        action: step.action,
+        description: step.description,
+      })),
+    },
+    createdAt: job.createdAt,
+  };
+}
+
+function serializeRun(run: ScheduledJobRun) {
+  return {
+    id: run.id,
+    scheduledFor: run.scheduledFor,
+    status: run.status,
+    completedSteps: run.completedSteps,
+    totalSteps: run.totalSteps,
+    stepResults: run.stepResults ?? [],
+    startedAt: run.startedAt ?? null,
+    finishedAt: run.finishedAt ?? null,
+    ...(run.error ? { error: run.error } : {}),
+  };
+}
+
+/**
+ * Map scheduled job failures to HTTP responses
+ */
+function handleJobError(res: Response, error: unknown, message: string) {
+  if (error instanceof ScheduledJobNotFoundError) {
+    return res.status(404).json({ success: false, message: error.message });
+  }
+  if (error instanceof ScheduledJobStateError) {
+    return res.status(409).json({ success: false, message: error.message });
+  }
+  if (error instanceof ScheduleError) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+  if (error instanceof ScheduledJobError) {
+    return res.status(422).json({ success: false, message: error.message });
+  }
+  if (error instanceof PlanValidationError) {
+    return res.status(422).json({
+      success: false,
+      message: error.message,
+      errors: error.validation.errors,
+    });
+  }
+
+  logger.error(message, { error });
+  return res.status(500).json({ success: false, message });
+}
+
+/**
+ * POST /jobs - Schedule a plan
+ * Body: { instruction, schedule, name?, missedRunPolicy?, notify? }
+ * schedule: { frequency: once | interval | daily | weekly | monthly,
+ * runAt?, intervalMinutes?, time? (HH:MM UTC), dayOfWeek? (0-6), dayOfMonth? }
+ */
+router.post("/", authenticateToken, async (req: Request, res: Response) => {
+  const { instruction, schedule, name, missedRunPolicy, notify } =
+    req.body ?? {};
+  if (typeof instruction !== "string" || !instruction.trim()) {
+    return res
+      .status(400)
+      .json({ success: false, message: "instruction is required" });
+  }
+  if (notify !== undefined && typeof notify !== "boolean") {
+    return res
+      .status(400)
+      .json({ success: false, message: "notify must be a boolean" });
+  }
+
+  try {
+    const job = await scheduledJobService.createJob(req.user!.userId, {
+      instruction,
+      schedule,
+      name,
+      missedRunPolicy,
+      notify,
+      userRole: req.user!.role,
+    });
+    return res.status(201).json({ success: true, job: serializeJob(job) });
+  } catch (error) {
+    return handleJobError(res, error, "Failed to create scheduled job");
+  }
+});
+
+/**
+ * GET /jobs - The authenticated user's scheduled jobs
+ */
+router.get("/", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const jobs = await scheduledJobService.listJobs(req.user!.userId);
+    return res
+      .status(200)
+      .json({ success: true, jobs: jobs.map(serializeJob) });
+  } catch (error) {
+    return handleJobError(res, error, "Failed to list scheduled jobs");
+  }
+});
+
+/**
+ * GET /jobs/:id - A scheduled job
+ */
+router.get("/:id", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const job = await scheduledJobService.getJob(
+      req.user!.userId,
+      req.params.id as string
+    );
+    return res.status(200).json({ success: true, job: serializeJob(job) });
+  } catch (error) {
+    return handleJobError(res, error, "Failed to load scheduled job");
+  }
+});
+
+/**
+ * GET /jobs/:id/runs - Run history of a job, newest first
+ * Query: limit (default 20, max 100)
+ */
+router.get(
+  "/:id/runs",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const limit = req.query.limit
+      ? Number.parseInt(req.query.limit as string, 10)
+      : 20;
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      return res.status(400).json({
+        success: false,
+        message: "limit must be between 1 and 100",
+      });
+    }
+
+    try {
+      const runs = await scheduledJobService.listRuns(
+        req.user!.userId,
+        req.params.id as string,
+        limit
+      );
+      return res
+        .status(200)
+        .json({ success: true, runs: runs.map(serializeRun) });
+    } catch (error) {
+      return handleJobError(res, error, "Failed to list scheduled job runs");
+    }
+  }
+);
+
+/**
+ * POST /jobs/:id/pause - Stop running a job until it is resumed
+ */
+router.post(
+  "/:id/pause",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const job = await scheduledJobService.pauseJob(
+        req.user!.userId,
+        req.params.id as string
+      );
+      return res.status(200).json({ success: true, job: serializeJob(job) });
+    } catch (error) {
+      return handleJobError(res, error, "Failed to pause scheduled job");
+    }
+  }
+);
+
+/**
+ * POST /jobs/:id/resume - Resume a paused job from its next occurrence
+ */
+router.post(
+  "/:id/resume",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const job = await scheduledJobService.resumeJob(
+        req.user!.userId,
+        req.params.id as string
+      );
+      return res.status(200).json({ success: true, job: serializeJob(job) });
+    } catch (error) {
+      return handleJobError(res, error, "Failed to resume scheduled job");
+    }
+  }
+);
+
+/**
+ * DELETE /jobs/:id - Cancel a job; its run history is kept
+ */
+router.delete(
+  "/:id",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const job = await scheduledJobService.cancelJob(
+        req.user!.userId,
+        req.params.id as string
+      );
+      return res.status(200).json({ success: true, job: serializeJob(job) });
+    } catch (error) {
+      return handleJobError(res, error, "Failed to cancel scheduled job");
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,202 @@
+import { Repository } from "typeorm";
+import AppDataSource from "../config/Datasource";
+import logger from "../config/logger";
+import { agentPlanner } from "../Agents/planner/AgentPlanner";
+import {
+  MissedRunPolicy,
+  ScheduledJob,
+  ScheduledJobRun,
+} from "./scheduledJob.entity";
+import { nextRunAfter, validateSchedule } from "./schedule";
+
+export const MISSED_RUN_POLICIES: MissedRunPolicy[] = [
+  "skip",
+  "run_once",
+  "run_all",
+];
+
+/** Tool that creates jobs; a scheduled plan must not schedule more jobs */
+export const SCHEDULE_TOOL_NAME = "schedule_tool";
+
+export interface CreateScheduledJobParams {
+  instruction: string;
+  schedule: unknown;
+  name?: string;
+  missedRunPolicy?: MissedRunPolicy;
+  notify?: boolean;
+  userRole?: string;
+}
+
+export class ScheduledJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScheduledJobError";
+  }
+}
+
+export class ScheduledJobNotFoundError extends Error {
+  constructor(public readonly jobId: string) {
+    super(`Scheduled job not found: ${jobId}`);
+    this.name = "ScheduledJobNotFoundError";
+  }
+}
+
+export class ScheduledJobStateError extends Error {
+  constructor(
+    public readonly jobId: string,
+    public readonly status: ScheduledJob["status"]
+  ) {
+    super(`Scheduled job ${jobId} is ${status}`);
+    this.name = "ScheduledJobStateError";
+  }
+}
+
+/**
+ * Creates and manages users' scheduled jobs. The plan for a job is built
+ * once from its instruction and executed unchanged by the job scheduler on
+ * every run.
+ */
+export class ScheduledJobService {
+  private jobRepository: Repository<ScheduledJob>;
+  private runRepository: Repository<ScheduledJobRun>;
+
+  constructor() {
+    this.jobRepository = AppDataSource.getRepository(ScheduledJob);
+    this.runRepository = AppDataSource.getRepository(ScheduledJobRun);
+  }
+
+  async createJob(
+    userId: string,
+    params: CreateScheduledJobParams
+  ): Promise<ScheduledJob> {
+    const instruction = params.instruction?.trim();
+    if (!instruction) {
+      throw new ScheduledJobError("instruction is required");
+    }
+    const missedRunPolicy = params.missedRunPolicy ?? "run_once";
+    if (!MISSED_RUN_POLICIES.includes(missedRunPolicy)) {
+      throw new ScheduledJobError(
+        `missedRunPolicy must be one of: ${MISSED_RUN_POLICIES.join(", ")}`
+      );
+    }
+
+    const now = new Date();
+    const schedule = validateSchedule(params.schedule, now);
+
+    const plan = await agentPlanner.createPlan({
+      userId,
+      userInput: instruction,
+      userRole: params.userRole,
+    });
+    if (plan.steps.some((step) => step.action === SCHEDULE_TOOL_NAME)) {
+      throw new ScheduledJobError("A scheduled job cannot schedule other jobs");
+    }
+    // Scheduled runs are unattended, so nobody is there to approve them
+    if (plan.requiresApproval) {
+      throw new ScheduledJobError(
+        `The plan for "${instruction}" requires approval and cannot run unattended`
+      );
+    }
+
+    const job = await this.jobRepository.save(
+      this.jobRepository.create({
+        userId,
+        name: (params.name?.trim() || instruction).slice(0, 120),
+        instruction,
+        plan,
+        planHash: plan.planHash,
+        schedule,
+        missedRunPolicy,
+        notify: params.notify ?? true,
+        status: "active",
+        nextRunAt: nextRunAfter(schedule, now),
+      })
+    );
+
+    logger.info("Scheduled job created", {
+      jobId: job.id,
+      userId,
+      schedule,
+      planId: plan.planId,
+    });
+
+    return job;
+  }
+
+  async listJobs(userId: string): Promise<ScheduledJob[]> {
+    return this.jobRepository.find({
+      where: { userId },
+      order: { createdAt: "DESC" },
+    });
+  }
+
+  async getJob(userId: string, jobId: string): Promise<ScheduledJob> {
+    const job = await this.jobRepository.findOne({
+      where: { id: jobId, userId },
+    });
+    if (!job) {
+      throw new ScheduledJobNotFoundError(jobId);
+    }
+    return job;
+  }
+
+  async pauseJob(userId: string, jobId: string): Promise<ScheduledJob> {
+    const job = await this.getJob(userId, jobId);
+    if (job.status !== "active") {
+      throw new ScheduledJobStateError(job.id, job.status);
+    }
+
+    job.status = "paused";
+    job.nextRunAt = null;
+    return this.jobRepository.save(job);
+  }
+
+  /**
+   * Resume a paused job from its next occurrence. Runs due while it was
+   * paused are not made up.
+   */
+  async resumeJob(userId: string, jobId: string): Promise<ScheduledJob> {
+    const job = await this.getJob(userId, jobId);
+    if (job.status !== "paused") {
+      throw new ScheduledJobStateError(job.id, job.status);
+    }
+
+    const nextRunAt = nextRunAfter(job.schedule, new Date());
+    if (!nextRunAt) {
+      throw new ScheduledJobError(
+        "The job's only run has passed; create a new job instead"
+      );
+    }
+
+    job.status = "active";
+    job.nextRunAt = nextRunAt;
+    job.consecutiveFailures = 0;
+    return this.jobRepository.save(job);
+  }
+
+  async cancelJob(userId: string, jobId: string): Promise<ScheduledJob> {
+    const job = await this.getJob(userId, jobId);
+    if (job.status === "cancelled" || job.status === "completed") {
+      throw new ScheduledJobStateError(job.id, job.status);
+    }
+
+    job.status = "cancelled";
+    job.nextRunAt = null;
+    return this.jobRepository.save(job);
+  }
+
+  async listRuns(
+    userId: string,
+    jobId: string,
+    limit = 20
+  ): Promise<ScheduledJobRun[]> {
+    await this.getJob(userId, jobId);
+    return this.runRepository.find({
+      where: { jobId },
+      order: { scheduledFor: "DESC", createdAt: "DESC" },
+      take: Math.min(Math.max(limit, 1), 100),
+    });
+  }
+}
+
+export const scheduledJobService = new ScheduledJobService();
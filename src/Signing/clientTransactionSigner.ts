@@ -0,0 +1,46 @@
+import { auditLogService } from "../AuditLog/auditLog.service";
+import { AuditAction } from "../AuditLog/auditLog.entity";
+import { PublicKeyResolver } from "./remoteTransactionSigner";
+import { SigningRequestStore } from "./signingRequests";
+import {
+  SignTransactionRequest,
+  SignTransactionResult,
+  TransactionSigner,
+} from "./transactionSigner";
+
+/**
+ * Non-custodial mode: the unsigned XDR is handed back to the client so the
+ * user can sign it in their own wallet (Freighter, Albedo, ...) and post the
+ * signed envelope to `/api/signing/requests/{id}`.
+ */
+export class ClientTransactionSigner implements TransactionSigner {
+  readonly mode = "client" as const;
+
+  constructor(
+    private readonly requests: SigningRequestStore,
+    private readonly resolvePublicKey: PublicKeyResolver
+  ) {}
+
+  getPublicKey(userId: string): Promise<string> {
+    return this.resolvePublicKey(userId);
+  }
+
+  async signTransaction(
+    request: SignTransactionRequest
+  ): Promise<SignTransactionResult> {
+    const pending = await this.requests.create({
+      userId: request.userId,
+      publicKey: await this.getPublicKey(request.userId),
+      purpose: request.purpose,
+      transaction: request.transaction,
+      metadata: request.metadata,
+    });
+    await auditLogService.log({
+      userId: request.userId,
+      action: AuditAction.SIGNATURE_REQUESTED,
+      resource: `signing_request:${pending.id}`,
+      metadata: { purpose: pending.purpose, hash: pending.hash },
+    });
+    return { status: "pending", request: pending };
+  }
+}
@@ -0,0 +1,26 @@
+import { keyCustodyService } from "../Custody/custody.service";
+import {
+  SignTransactionRequest,
+  SignTransactionResult,
+  TransactionSigner,
+} from "./transactionSigner";
+
+/**
+ * Signs in-process with the user's key held by the custody service
+ */
+export class CustodyTransactionSigner implements TransactionSigner {
+  readonly mode = "custody" as const;
+
+  async getPublicKey(userId: string): Promise<string> {
+    return (await keyCustodyService.requireKeyInfo(userId, "stellar"))
+      .publicKey;
+  }
+
+  async signTransaction(
+    request: SignTransactionRequest
+  ): Promise<SignTransactionResult> {
+    const signer = await keyCustodyService.getStellarSigner(request.userId);
+    await signer.sign(request.transaction);
+    return { status: "signed", transaction: request.transaction };
+  }
+}
@@ -0,0 +1,115 @@
+import logger from "../config/logger";
+import {
+  SignTransactionRequest,
+  SignTransactionResult,
+  SigningError,
+  TransactionSigner,
+  verifySignedEnvelope,
+} from "./transactionSigner";
+
+export interface RemoteSignerOptions {
+  url: string;
+  token?: string;
+  timeoutMs: number;
+}
+
+export type PublicKeyResolver = (userId: string) => Promise<string>;
+
+/**
+ * Delegates signing to an external signer, such as an HSM gateway or a
+ * hardware wallet bridge. The signer receives
+ * `{ userId, publicKey, purpose, networkPassphrase, xdr, metadata }` and must
+ * answer with `{ signedXdr }`; the returned envelope is checked before use.
+ */
+export class RemoteTransactionSigner implements TransactionSigner {
+  readonly mode = "remote" as const;
+
+  constructor(
+    private readonly options: RemoteSignerOptions,
+    private readonly resolvePublicKey: PublicKeyResolver
+  ) {}
+
+  getPublicKey(userId: string): Promise<string> {
+    return this.resolvePublicKey(userId);
+  }
+
+  async signTransaction(
+    request: SignTransactionRequest
+  ): Promise<SignTransactionResult> {
+    if (!this.options.url) {
+      throw new SigningError("Remote signer URL is not configured");
+    }
+
+    const { transaction } = request;
+    const publicKey = await this.getPublicKey(request.userId);
+    const body = await this.post(
+      {
+        userId: request.userId,
+        publicKey,
+        purpose: request.purpose,
+        networkPassphrase: transaction.networkPassphrase,
+        xdr: transaction.toXDR(),
+        ...(request.metadata ? { metadata: request.metadata } : {}),
+      },
+      request.signal
+    );
+
+    if (typeof body.signedXdr !== "string") {
+      throw new SigningError("Remote signer response has no signedXdr");
+    }
+
+    const signed = verifySignedEnvelope(
+      body.signedXdr,
+      transaction.hash().toString("hex"),
+      publicKey,
+      transaction.networkPassphrase
+    );
+    return { status: "signed", transaction: signed };
+  }
+
+  private async post(
+    payload: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<{ signedXdr?: unknown }> {
+    const timeout = AbortSignal.timeout(this.options.timeoutMs);
+    let response: Response;
+
+    try {
+      response = await fetch(this.options.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.options.token
+            ? { Authorization: `Bearer ${this.options.token}` }
+            : {}),
+        },
+        body: JSON.stringify(payload),
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+    } catch (error) {
+      logger.error("Remote signer request failed", {
+        userId: payload.userId,
+        error,
+      });
+      throw new SigningError(
+        timeout.aborted
+          ? `Remote signer did not respond within ${this.options.timeoutMs}ms`
+          : `Remote signer request failed: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+      );
+    }
+
+    if (!response.ok) {
+      throw new SigningError(
+        `Remote signer refused to sign (HTTP ${response.status})`
+      );
+    }
+
+    try {
+      return (await response.json()) as { signedXdr?: unknown };
+    } catch {
+      throw new SigningError("Remote signer returned invalid JSON");
+    }
+  }
+}
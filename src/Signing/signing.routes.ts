@@ -0,0 +1,261 @@
+import { Router, Request, Response } from "express";
+import { authenticateToken } from "../Auth/auth.middleware";
+import logger from "../config/logger";
+import {
+  isSigningMode,
+  SigningRequestNotFoundError,
+  SigningRequestStateError,
+  transactionSigningService,
+} from "./signing.service";
+import { SIGNING_MODES, SigningError } from "./transactionSigner";
+
+const router = Router();
+
+/**
+ * Map signing failures to HTTP responses
+ */
+function handleSigningError(res: Response, error: unknown, message: string) {
+  if (error instanceof SigningRequestNotFoundError) {
+    return res.status(404).json({ success: false, message: error.message });
+  }
+  if (error instanceof SigningRequestStateError) {
+    return res.status(409).json({ success: false, message: error.message });
+  }
+  if (error instanceof SigningError) {
+    return res.status(422).json({ success: false, message: error.message });
+  }
+
+  logger.error(message, { error });
+  return res.status(500).json({ success: false, message });
+}
+
+/**
+ * @swagger
+ * /api/signing/mode:
+ *   get:
+ *     summary: Get how the authenticated user's transactions are signed
+ *     tags: [Signing]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Current signing mode
+ *   put:
+ *     summary: Change how the authenticated user's transactions are signed
+ *     description: >
+ *       `custody` signs with the key held by the platform, `remote` asks the
+ *       configured external signer and `client` returns unsigned transactions
+ *       to be signed in the user's own wallet.
+ *     tags: [Signing]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - mode
+ *             properties:
+ *               mode:
+ *                 type: string
+ *                 enum: [custody, remote, client]
+ *     responses:
+ *       200:
+ *         description: Signing mode updated
+ *       400:
+ *         description: Unknown signing mode
+ *       422:
+ *         description: Mode cannot be used by this user
+ */
+router.get("/mode", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const mode = await transactionSigningService.getSigningMode(
+      req.user!.userId
+    );
+    return res.status(200).json({ success: true, mode });
+  } catch (error) {
+    return handleSigningError(res, error, "Failed to get signing mode");
+  }
+});
+
+router.put("/mode", authenticateToken, async (req: Request, res: Response) => {
+  const { mode } = req.body ?? {};
+  if (!isSigningMode(mode)) {
+    return res.status(400).json({
+      success: false,
+      message: `mode must be one of: ${SIGNING_MODES.join(", ")}`,
+    });
+  }
+
+  try {
+    await transactionSigningService.setSigningMode(req.user!.userId, mode);
+    return res.status(200).json({ success: true, mode });
+  } catch (error) {
+    return handleSigningError(res, error, "Failed to update signing mode");
+  }
+});
+
+/**
+ * @swagger
+ * /api/signing/requests:
+ *   get:
+ *     summary: List transactions waiting for the user's wallet signature
+ *     tags: [Signing]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Pending signing requests with their unsigned XDR
+ */
+router.get(
+  "/requests",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const requests = await transactionSigningService.listPendingRequests(
+        req.user!.userId
+      );
+      return res.status(200).json({ success: true, requests });
+    } catch (error) {
+      return handleSigningError(res, error, "Failed to list signing requests");
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/signing/requests/{requestId}:
+ *   get:
+ *     summary: Get a signing request
+ *     tags: [Signing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Signing request
+ *       404:
+ *         description: Signing request not found
+ *   post:
+ *     summary: Submit the signed transaction envelope
+ *     description: >
+ *       The envelope must be the requested transaction signed by the user's
+ *       account. It is submitted to the Stellar network on success.
+ *     tags: [Signing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - signedXdr
+ *             properties:
+ *               signedXdr:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Transaction submitted
+ *       400:
+ *         description: Missing signedXdr
+ *       404:
+ *         description: Signing request not found
+ *       409:
+ *         description: Request already submitted, rejected or expired
+ *       422:
+ *         description: Envelope is not the requested transaction or is not signed by the user
+ *   delete:
+ *     summary: Reject a signing request without signing it
+ *     tags: [Signing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Request rejected
+ *       404:
+ *         description: Signing request not found
+ *       409:
+ *         description: Request is no longer pending
+ */
+router.get(
+  "/requests/:requestId",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const request = await transactionSigningService.getRequest(
+        req.params.requestId as string,
+        req.user!.userId
+      );
+      return res.status(200).json({ success: true, request });
+    } catch (error) {
+      return handleSigningError(res, error, "Failed to get signing request");
+    }
+  }
+);
+
+router.post(
+  "/requests/:requestId",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const { signedXdr } = req.body ?? {};
+    if (typeof signedXdr !== "string" || !signedXdr) {
+      return res
+        .status(400)
+        .json({ success: false, message: "signedXdr is required" });
+    }
+
+    try {
+      const request = await transactionSigningService.submitSignedRequest(
+        req.params.requestId as string,
+        req.user!.userId,
+        signedXdr
+      );
+      return res.status(200).json({ success: true, request });
+    } catch (error) {
+      return handleSigningError(
+        res,
+        error,
+        "Failed to submit signed transaction"
+      );
+    }
+  }
+);
+
+router.delete(
+  "/requests/:requestId",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const request = await transactionSigningService.rejectRequest(
+        req.params.requestId as string,
+        req.user!.userId
+      );
+      return res.status(200).json({ success: true, request });
+    } catch (error) {
+      return handleSigningError(res, error, "Failed to reject signing request");
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,252 @@
+import * as StellarSdk from "@stellar/stellar-sdk";
+import { Repository } from "typeorm";
+import AppDataSource from "../config/Datasource";
+import config from "../config/config";
+import logger from "../config/logger";
+import { User } from "../Auth/user.entity";
+import { auditLogService } from "../AuditLog/auditLog.service";
+import { AuditAction } from "../AuditLog/auditLog.entity";
+import { keyCustodyService } from "../Custody/custody.service";
+import { ClientTransactionSigner } from "./clientTransactionSigner";
+import { CustodyTransactionSigner } from "./custodyTransactionSigner";
+import { RemoteTransactionSigner } from "./remoteTransactionSigner";
+import { SigningRequestStore } from "./signingRequests";
+import {
+  SIGNING_MODES,
+  SigningError,
+  SigningMode,
+  SigningRequestInfo,
+  TransactionSigner,
+  verifySignedEnvelope,
+} from "./transactionSigner";
+
+export class SigningRequestNotFoundError extends Error {
+  constructor(public readonly requestId: string) {
+    super(`Signing request not found: ${requestId}`);
+    this.name = "SigningRequestNotFoundError";
+  }
+}
+
+export class SigningRequestStateError extends Error {
+  constructor(
+    public readonly requestId: string,
+    public readonly status: SigningRequestInfo["status"]
+  ) {
+    super(`Signing request ${requestId} is ${status}`);
+    this.name = "SigningRequestStateError";
+  }
+}
+
+/**
+ * Called once a signing request is submitted or rejected
+ */
+export type SigningRequestListener = (
+  request: SigningRequestInfo
+) => void | Promise<void>;
+
+export function isSigningMode(value: unknown): value is SigningMode {
+  return SIGNING_MODES.includes(value as SigningMode);
+}
+
+/**
+ * Resolves the transaction signer for each user from their signing mode and
+ * completes transactions that were handed to the client for signing
+ */
+export class TransactionSigningService {
+  private userRepository: Repository<User>;
+  private server: StellarSdk.Horizon.Server;
+  private signers = new Map<SigningMode, TransactionSigner>();
+  private settledListeners = new Set<SigningRequestListener>();
+  readonly requests: SigningRequestStore;
+
+  constructor(requests?: SigningRequestStore) {
+    this.userRepository = AppDataSource.getRepository(User);
+    this.server = new StellarSdk.Horizon.Server(config.stellar.horizonUrl);
+    this.requests =
+      requests ?? new SigningRequestStore(config.signing.requestTtlMs);
+
+    const resolvePublicKey = (userId: string) =>
+      this.getAccountPublicKey(userId);
+    this.registerSigner(new CustodyTransactionSigner());
+    this.registerSigner(
+      new RemoteTransactionSigner(config.signing.remote, resolvePublicKey)
+    );
+    this.registerSigner(
+      new ClientTransactionSigner(this.requests, resolvePublicKey)
+    );
+  }
+
+  /**
+   * Replace the signer used for a mode
+   */
+  registerSigner(signer: TransactionSigner): void {
+    this.signers.set(signer.mode, signer);
+  }
+
+  onRequestSettled(listener: SigningRequestListener): () => void {
+    this.settledListeners.add(listener);
+    return () => this.settledListeners.delete(listener);
+  }
+
+  async getSigningMode(userId: string): Promise<SigningMode> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (user && isSigningMode(user.signingMode)) {
+      return user.signingMode;
+    }
+    return isSigningMode(config.signing.defaultMode)
+      ? config.signing.defaultMode
+      : "custody";
+  }
+
+  async setSigningMode(userId: string, mode: SigningMode): Promise<void> {
+    if (
+      mode === "custody" &&
+      !(await keyCustodyService.hasKey(userId, "stellar"))
+    ) {
+      throw new SigningError("No custodied Stellar key for this user");
+    }
+
+    const result = await this.userRepository.update(
+      { id: userId },
+      { signingMode: mode }
+    );
+    if (!result.affected) {
+      throw new SigningError(`User not found: ${userId}`);
+    }
+    logger.info("Signing mode updated", { userId, mode });
+  }
+
+  async forUser(userId: string): Promise<TransactionSigner> {
+    const mode = await this.getSigningMode(userId);
+    const signer = this.signers.get(mode);
+    if (!signer) {
+      throw new SigningError(`No signer registered for mode: ${mode}`);
+    }
+    return signer;
+  }
+
+  async getRequest(
+    requestId: string,
+    userId: string
+  ): Promise<SigningRequestInfo> {
+    const request = await this.requests.get(requestId);
+    if (!request || request.userId !== userId) {
+      throw new SigningRequestNotFoundError(requestId);
+    }
+    return request;
+  }
+
+  listPendingRequests(userId: string): Promise<SigningRequestInfo[]> {
+    return this.requests.listPending(userId);
+  }
+
+  /**
+   * Verify the envelope the user signed in their wallet and submit it
+   */
+  async submitSignedRequest(
+    requestId: string,
+    userId: string,
+    signedXdr: string
+  ): Promise<SigningRequestInfo> {
+    const request = await this.requirePending(requestId, userId);
+    const transaction = verifySignedEnvelope(
+      signedXdr,
+      request.hash,
+      request.publicKey,
+      request.networkPassphrase
+    );
+
+    const result = await this.server.submitTransaction(transaction);
+    const submitted = await this.requests.settle(requestId, {
+      status: "submitted",
+      txHash: result.hash,
+    });
+    // Another submission of the same envelope got there first
+    if (!submitted) {
+      throw new SigningRequestStateError(requestId, "submitted");
+    }
+
+    await auditLogService.log({
+      userId,
+      action: AuditAction.SIGNATURE_SUBMITTED,
+      resource: `signing_request:${requestId}`,
+      metadata: { purpose: request.purpose, txHash: result.hash },
+    });
+    logger.info("Client-signed transaction submitted", {
+      userId,
+      requestId,
+      txHash: result.hash,
+    });
+
+    await this.notifySettled(submitted);
+    return submitted;
+  }
+
+  async rejectRequest(
+    requestId: string,
+    userId: string
+  ): Promise<SigningRequestInfo> {
+    const request = await this.requirePending(requestId, userId);
+    const rejected = await this.requests.settle(requestId, {
+      status: "rejected",
+    });
+    if (!rejected) {
+      const { status } = await this.getRequest(requestId, userId);
+      throw new SigningRequestStateError(requestId, status);
+    }
+
+    await auditLogService.log({
+      userId,
+      action: AuditAction.SIGNATURE_REJECTED,
+      resource: `signing_request:${requestId}`,
+      metadata: { purpose: request.purpose },
+    });
+
+    await this.notifySettled(rejected);
+    return rejected;
+  }
+
+  /**
+   * The transaction is already settled by now, so a failing listener is
+   * logged rather than failing the request
+   */
+  private async notifySettled(request: SigningRequestInfo): Promise<void> {
+    for (const listener of this.settledListeners) {
+      try {
+        await listener(request);
+      } catch (error) {
+        logger.error("Signing request listener failed", {
+          error,
+          requestId: request.id,
+          status: request.status,
+        });
+      }
+    }
+  }
+
+  private async requirePending(
+    requestId: string,
+    userId: string
+  ): Promise<SigningRequestInfo> {
+    const request = await this.getRequest(requestId, userId);
+    if (request.status !== "pending") {
+      throw new SigningRequestStateError(requestId, request.status);
+    }
+    return request;
+  }
+
+  /**
+   * Non-custodial users sign with the Stellar account they registered with
+   */
+  private async getAccountPublicKey(userId: string): Promise<string> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user?.address) {
+      throw new SigningError(
+        `No Stellar account registered for user: ${userId}`
+      );
+    }
+    return user.address;
+  }
+}
+
+export const transactionSigningService = new TransactionSigningService();
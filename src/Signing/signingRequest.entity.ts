@@ -0,0 +1,56 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from "typeorm";
+import { SigningRequestInfo } from "./transactionSigner";
+
+/**
+ * Unsigned transaction handed to the user's wallet, kept until it is signed,
+ * rejected or expires
+ */
+@Entity("signing_request")
+@Index(["userId", "status"])
+export class SigningRequestRecord {
+  @PrimaryColumn("uuid")
+  id!: string;
+
+  @Column({ type: "varchar" })
+  userId!: string;
+
+  @Column({ type: "varchar" })
+  publicKey!: string;
+
+  @Column({ type: "varchar" })
+  purpose!: string;
+
+  @Column({ type: "text" })
+  xdr!: string;
+
+  @Column({ type: "varchar", length: 64 })
+  hash!: string;
+
+  @Column({ type: "varchar" })
+  networkPassphrase!: string;
+
+  @Column({ type: "jsonb", nullable: true })
+  metadata?: Record<string, unknown> | null;
+
+  @Column({ type: "varchar", length: 20, default: "pending" })
+  status!: SigningRequestInfo["status"];
+
+  @Column({ type: "varchar", length: 64, nullable: true })
+  txHash?: string | null;
+
+  @Column({ type: "timestamp" })
+  expiresAt!: Date;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
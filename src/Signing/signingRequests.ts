@@ -0,0 +1,111 @@
+import { randomUUID } from "crypto";
+import { Transaction } from "@stellar/stellar-sdk";
+import { Repository } from "typeorm";
+import AppDataSource from "../config/Datasource";
+import { SigningRequestRecord } from "./signingRequest.entity";
+import { SigningRequestInfo } from "./transactionSigner";
+
+export interface CreateSigningRequestParams {
+  userId: string;
+  publicKey: string;
+  purpose: string;
+  transaction: Transaction;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Postgres-backed store of transactions waiting for a wallet signature, so
+ * a request can still be signed after a restart. Requests expire after
+ * `ttlMs`; an expired transaction could no longer be submitted anyway once
+ * its time bounds pass.
+ */
+export class SigningRequestStore {
+  private repository: Repository<SigningRequestRecord>;
+
+  constructor(private readonly ttlMs: number) {
+    this.repository = AppDataSource.getRepository(SigningRequestRecord);
+  }
+
+  async create(
+    params: CreateSigningRequestParams
+  ): Promise<SigningRequestInfo> {
+    const now = Date.now();
+    const record = await this.repository.save({
+      id: randomUUID(),
+      userId: params.userId,
+      publicKey: params.publicKey,
+      purpose: params.purpose,
+      xdr: params.transaction.toXDR(),
+      hash: params.transaction.hash().toString("hex"),
+      networkPassphrase: params.transaction.networkPassphrase,
+      metadata: params.metadata ?? null,
+      status: "pending",
+      txHash: null,
+      createdAt: new Date(now),
+      expiresAt: new Date(now + this.ttlMs),
+    });
+
+    return this.toInfo(record);
+  }
+
+  async get(id: string): Promise<SigningRequestInfo | null> {
+    const record = await this.repository.findOne({ where: { id } });
+    if (!record) return null;
+
+    if (record.status === "pending" && this.isExpired(record)) {
+      await this.settle(id, { status: "expired" });
+      record.status = "expired";
+    }
+    return this.toInfo(record);
+  }
+
+  async listPending(userId: string): Promise<SigningRequestInfo[]> {
+    const records = await this.repository.find({
+      where: { userId, status: "pending" },
+      order: { createdAt: "ASC" },
+    });
+    return records
+      .filter((record) => !this.isExpired(record))
+      .map((record) => this.toInfo(record));
+  }
+
+  /**
+   * Move a pending request to its final status. Only one caller can settle a
+   * request; returns null when it was no longer pending.
+   */
+  async settle(
+    id: string,
+    changes: Pick<SigningRequestInfo, "status"> &
+      Partial<Pick<SigningRequestInfo, "txHash">>
+  ): Promise<SigningRequestInfo | null> {
+    const result = await this.repository.update(
+      { id, status: "pending" },
+      changes
+    );
+    if (!result.affected) return null;
+
+    const record = await this.repository.findOne({ where: { id } });
+    return record ? this.toInfo(record) : null;
+  }
+
+  private isExpired(record: SigningRequestRecord): boolean {
+    return record.expiresAt.getTime() <= Date.now();
+  }
+
+  private toInfo(record: SigningRequestRecord): SigningRequestInfo {
+    return {
+      id: record.id,
+      userId: record.userId,
+      publicKey: record.publicKey,
+      purpose: record.purpose,
+      xdr: record.xdr,
+      hash: record.hash,
+      networkPassphrase: record.networkPassphrase,
+      ...(record.metadata ? { metadata: record.metadata } : {}),
+      status: record.status,
+      ...(record.txHash ? { txHash: record.txHash } : {}),
+      createdAt: record.createdAt.toISOString(),
+      expiresAt: record.expiresAt.toISOString(),
+    };
+  }
+}
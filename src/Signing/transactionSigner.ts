@@ -0,0 +1,92 @@
+import { Keypair, Transaction } from "@stellar/stellar-sdk";
+
+export type SigningMode = "custody" | "remote" | "client";
+
+export const SIGNING_MODES: SigningMode[] = ["custody", "remote", "client"];
+
+export interface SignTransactionRequest {
+  userId: string;
+  transaction: Transaction;
+  /** What the transaction does, e.g. "swap"; shown to remote signers and wallets */
+  purpose: string;
+  metadata?: Record<string, unknown>;
+  signal?: AbortSignal;
+}
+
+/**
+ * Unsigned transaction waiting for the user to sign it in their own wallet
+ */
+export interface SigningRequestInfo {
+  id: string;
+  userId: string;
+  publicKey: string;
+  purpose: string;
+  xdr: string;
+  hash: string;
+  networkPassphrase: string;
+  metadata?: Record<string, unknown>;
+  status: "pending" | "submitted" | "rejected" | "expired";
+  txHash?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export type SignTransactionResult =
+  | { status: "signed"; transaction: Transaction }
+  | { status: "pending"; request: SigningRequestInfo };
+
+/**
+ * Signs Stellar transactions on behalf of a user. Signers either return the
+ * signed transaction, or hand it back unsigned as a pending request when the
+ * signature has to come from outside the platform.
+ */
+export interface TransactionSigner {
+  readonly mode: SigningMode;
+  getPublicKey(userId: string): Promise<string>;
+  signTransaction(
+    request: SignTransactionRequest
+  ): Promise<SignTransactionResult>;
+}
+
+export class SigningError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SigningError";
+  }
+}
+
+/**
+ * Parse a signed envelope and check it is the expected transaction carrying
+ * a valid signature from `publicKey`
+ */
+export function verifySignedEnvelope(
+  signedXdr: string,
+  expectedHash: string,
+  publicKey: string,
+  networkPassphrase: string
+): Transaction {
+  let signed: Transaction;
+  try {
+    signed = new Transaction(signedXdr, networkPassphrase);
+  } catch {
+    throw new SigningError("Signed envelope is not a valid transaction XDR");
+  }
+
+  const hash = signed.hash();
+  if (hash.toString("hex") !== expectedHash) {
+    throw new SigningError("Signed envelope does not match the transaction");
+  }
+
+  const keypair = Keypair.fromPublicKey(publicKey);
+  const hint = keypair.signatureHint();
+  const isSigned = signed.signatures.some(
+    (signature) =>
+      signature.hint().equals(hint) &&
+      keypair.verify(hash, signature.signature())
+  );
+  if (!isSigned) {
+    throw new SigningError(`Transaction is not signed by ${publicKey}`);
+  }
+
+  return signed;
+}
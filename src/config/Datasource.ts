@@ -7,6 +7,28 @@ import { AgentTool } from "../Agents/tools/agent-tool.entity";
 import { PromptVersion, PromptMetric } from "../Agents/registry/PromptVersion.entity";
 import { WebhookIdempotency } from "../Gateway/webhookIdempotency.entity";
 import { AuditLog } from "../AuditLog/auditLog.entity";
+import {
+  ExecutionPlanRecord,
+  StepResultRecord,
+} from "../Agents/planner/ExecutionPlan.entity";
+import { CustodyKey } from "../Custody/custodyKey.entity";
+import { MultisigTransaction } from "../services/multisigTransaction.entity";
+import {
+  SorobanEvent,
+  SorobanEventCheckpoint,
+} from "../services/sorobanEvent.entity";
+import {
+  AccountTransaction,
+  AccountOperation,
+  AccountEffect,
+  AccountHistoryCheckpoint,
+} from "../Gateway/accountHistory.entity";
+import {
+  ScheduledJob,
+  ScheduledJobRun,
+} from "../Scheduler/scheduledJob.entity";
+import { ConditionalOrder } from "../ConditionalOrders/conditionalOrder.entity";
+import { SigningRequestRecord } from "../Signing/signingRequest.entity";
 
 const isDev = config.env === "development";
 
@@ -18,7 +40,28 @@ const dbOptions: DataSourceOptions = {
   password: config.db.postgres.password || undefined,
   database: config.db.postgres.database,
   synchronize: false,
-  entities: [Contact, User, RefreshToken, AgentTool, WebhookIdempotency, AuditLog],
+  entities: [
+    Contact,
+    User,
+    RefreshToken,
+    AgentTool,
+    WebhookIdempotency,
+    AuditLog,
+    ExecutionPlanRecord,
+    StepResultRecord,
+    CustodyKey,
+    MultisigTransaction,
+    SorobanEvent,
+    SorobanEventCheckpoint,
+    AccountTransaction,
+    AccountOperation,
+    AccountEffect,
+    AccountHistoryCheckpoint,
+    ScheduledJob,
+    ScheduledJobRun,
+    ConditionalOrder,
+    SigningRequestRecord,
+  ],
   migrations: [isDev ? "src/migrations/**/*.ts" : "dist/migrations/**/*.js"],
   subscribers: [],
 };
@@ -9,6 +9,18 @@ dotenv.config();
 import { generateDeFiAdapterConfigs, getEnabledAdapters } from "./defiAdapters";
 
 type StellarNetwork = "testnet" | "public";
+
+export interface ApprovalThreshold {
+  maxRiskLevel: "low" | "medium" | "high";
+  maxNotionalUsd: number;
+  maxSteps: number;
+}
+
+export interface LLMModelConfig {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
 //console.log(process.env.DB_PASSWORD,  process.env.DB_NAME)
 
 // Stellar network configurations
@@ -52,6 +64,24 @@ export default {
   apiKey: process.env.ANTHROPIC_API_KEY!,
   node_url: process.env.NODE_URL!,
   encryptionKey: process.env.ENCRYPTION_KEY!,
+  custody: {
+    // Master keys wrapping per-key data keys, as "version:hex" pairs, e.g.
+    // "1:<64 hex chars>,2:<64 hex chars>". Defaults to ENCRYPTION_KEY as version 1.
+    masterKeys: process.env.CUSTODY_MASTER_KEYS || "",
+    // Version used to wrap new data keys and targeted by rotation
+    activeKeyVersion: parseInt(process.env.CUSTODY_ACTIVE_KEY_VERSION || "1", 10),
+  },
+  signing: {
+    // Mode for users without their own preference: "custody", "remote" or "client"
+    defaultMode: process.env.SIGNING_DEFAULT_MODE || "custody",
+    remote: {
+      url: process.env.REMOTE_SIGNER_URL || "",
+      token: process.env.REMOTE_SIGNER_TOKEN || "",
+      timeoutMs: parseInt(process.env.REMOTE_SIGNER_TIMEOUT || "10000", 10),
+    },
+    // How long an unsigned transaction waits for the user's wallet signature
+    requestTtlMs: parseInt(process.env.SIGNING_REQUEST_TTL || "300000", 10),
+  },
   stellar: {
     network: stellarNetwork,
     horizonUrl: process.env.STELLAR_HORIZON_URL || stellarConfig.horizonUrl,
@@ -59,6 +89,34 @@ export default {
       process.env.STELLAR_NETWORK_PASSPHRASE || stellarConfig.networkPassphrase,
     friendbotUrl: stellarConfig.friendbotUrl,
   },
+  // Local chain simulation answering swap, wallet and Soroban calls
+  simulation: {
+    // Simulate every request; otherwise only requests that ask for it
+    enabled: process.env.LOCAL_CHAIN_ENABLED === "true",
+    // "local" simulates every service, "hybrid" only LOCAL_CHAIN_SERVICES
+    mode: (process.env.LOCAL_CHAIN_MODE || "local") as "local" | "live" | "hybrid",
+    services: (process.env.LOCAL_CHAIN_SERVICES || "soroban,wallet,swap")
+      .split(",")
+      .map((service) => service.trim())
+      .filter(Boolean),
+    // Users whose requests are always simulated, e.g. QA and demo accounts
+    users: (process.env.LOCAL_CHAIN_USERS || "")
+      .split(",")
+      .map((user) => user.trim())
+      .filter(Boolean),
+    latencyMs: parseInt(process.env.LOCAL_CHAIN_LATENCY_MS || "0", 10),
+    errorRate: parseFloat(process.env.LOCAL_CHAIN_ERROR_RATE || "0"),
+    // Makes simulated latency, errors, gas and fills repeat run to run
+    seed: process.env.LOCAL_CHAIN_SEED
+      ? parseInt(process.env.LOCAL_CHAIN_SEED, 10)
+      : undefined,
+    // "record" saves the calls that go live, "replay" answers them from the file
+    fixtureMode: (process.env.LOCAL_CHAIN_FIXTURE_MODE || "off") as
+      | "off"
+      | "record"
+      | "replay",
+    fixturesPath: process.env.LOCAL_CHAIN_FIXTURES || "data/chain-fixtures.json",
+  },
   redis: {
     host: process.env.REDIS_HOST || "localhost",
     port: parseInt(process.env.REDIS_PORT || "6379"),
@@ -100,5 +158,41 @@ export default {
       agentExecution: parseInt(process.env.AGENT_EXECUTION_TIMEOUT || "120000", 10),
       planExecution: parseInt(process.env.AGENT_PLAN_TIMEOUT || "180000", 10),
     },
+    // Plans above any of these limits need explicit approval before execution
+    approval: {
+      user: {
+        maxRiskLevel: "low",
+        maxNotionalUsd: parseFloat(process.env.AGENT_APPROVAL_USER_MAX_USD || "1000"),
+        maxSteps: 3,
+      },
+      moderator: {
+        maxRiskLevel: "medium",
+        maxNotionalUsd: parseFloat(process.env.AGENT_APPROVAL_MODERATOR_MAX_USD || "10000"),
+        maxSteps: 5,
+      },
+      admin: {
+        maxRiskLevel: "medium",
+        maxNotionalUsd: parseFloat(process.env.AGENT_APPROVAL_ADMIN_MAX_USD || "100000"),
+        maxSteps: 10,
+      },
+    } as Record<string, ApprovalThreshold>,
+    llm: {
+      // "anthropic", "scripted" (replays fixtures) or "recording" (anthropic, saving fixtures)
+      provider: process.env.AGENT_LLM_PROVIDER || "anthropic",
+      fixturesPath: process.env.AGENT_LLM_FIXTURES || "data/llm-fixtures.json",
+      defaults: {
+        model: process.env.AGENT_LLM_MODEL || "claude-3-5-haiku-20241022",
+        temperature: parseFloat(process.env.AGENT_LLM_TEMPERATURE || "1"),
+        maxTokens: parseInt(process.env.AGENT_LLM_MAX_TOKENS || "4096", 10),
+      },
+      // Per-agent overrides of the defaults
+      agents: {
+        intent: { temperature: 0 },
+        planner: { temperature: 0 },
+        validation: { temperature: 0, maxTokens: 16 },
+        response: { temperature: 0.7, maxTokens: 1024 },
+        qa: { temperature: 0.2, maxTokens: 1024 },
+      } as Record<string, Partial<LLMModelConfig>>,
+    },
   },
 };
@@ -5,6 +5,14 @@ import config from "./config/config";
 import AppDataSource from "./config/Datasource";
 import logger from "./config/logger";
 import { horizonOperationStreamerService } from "./services/horizonOperationStreamer.service";
+import { eventIndexingService } from "./services/eventIndexingService";
+import { accountHistorySyncService } from "./services/accountHistorySync.service";
+import { jobSchedulerService } from "./Scheduler/jobScheduler.service";
+import { conditionalOrderMonitorService } from "./ConditionalOrders/conditionalOrderMonitor.service";
+import { localChainManager } from "./simulation/LocalChainManager";
+import { transactionSigningService } from "./Signing/signing.service";
+import { settleSignedStep } from "./Agents/planner/signedSteps";
+import { planStore } from "./Agents/planner/planStore";
 class Server {
   private server: http.Server;
   private port: number;
@@ -19,10 +27,15 @@ class Server {
       horizonOperationStreamerService.onLargeOperation((alert) => {
         logger.info("Stellar large operation alert emitted", alert);
       });
+      transactionSigningService.onRequestSettled(settleSignedStep);
 
       const shutdown = async () => {
         logger.info("Shutting down gracefully...");
         horizonOperationStreamerService.stop();
+        eventIndexingService.stop();
+        accountHistorySyncService.stop();
+        jobSchedulerService.stop();
+        conditionalOrderMonitorService.stop();
         await AppDataSource.destroy();
         this.server.close(() => {
           logger.info("Server closed");
@@ -33,7 +46,18 @@ class Server {
       await AppDataSource.initialize();
       console.log("DB connection established!");
       logger.info("Database connected successfully");
+      const interruptedPlans = await planStore.recoverInterruptedPlans();
+      if (interruptedPlans.length > 0) {
+        logger.warn("Recovered plans interrupted by a restart", {
+          planIds: interruptedPlans,
+        });
+      }
+      await localChainManager.initialize();
       horizonOperationStreamerService.start();
+      eventIndexingService.start();
+      accountHistorySyncService.start();
+      jobSchedulerService.start();
+      conditionalOrderMonitorService.start();
       process.on("SIGTERM", shutdown);
       process.on("SIGINT", shutdown);
 
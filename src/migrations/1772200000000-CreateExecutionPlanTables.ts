@@ -0,0 +1,57 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CreateExecutionPlanTables1772200000000 implements MigrationInterface {
+  name = "CreateExecutionPlanTables1772200000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "execution_plan" (
+        "planId" character varying(64) NOT NULL,
+        "userId" character varying NOT NULL,
+        "planHash" character varying(64) NOT NULL,
+        "plan" jsonb NOT NULL,
+        "status" character varying(20) NOT NULL DEFAULT 'pending',
+        "completedSteps" integer NOT NULL DEFAULT 0,
+        "error" text,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_execution_plan_plan_id" PRIMARY KEY ("planId")
+      )`
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_execution_plan_user_created_at"
+       ON "execution_plan" ("userId", "createdAt")`
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE "plan_step_result" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "planId" character varying(64) NOT NULL,
+        "stepNumber" integer NOT NULL,
+        "action" character varying NOT NULL,
+        "status" character varying(20) NOT NULL,
+        "result" jsonb,
+        "error" text,
+        "duration" integer NOT NULL DEFAULT 0,
+        "completedAt" TIMESTAMP,
+        "startedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_plan_step_result_id" PRIMARY KEY ("id")
+      )`
+    );
+
+    // One row per step, upserted on every status transition
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_plan_step_result_plan_step"
+       ON "plan_step_result" ("planId", "stepNumber")`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_plan_step_result_plan_step"`);
+    await queryRunner.query(`DROP TABLE "plan_step_result"`);
+    await queryRunner.query(`DROP INDEX "IDX_execution_plan_user_created_at"`);
+    await queryRunner.query(`DROP TABLE "execution_plan"`);
+  }
+}
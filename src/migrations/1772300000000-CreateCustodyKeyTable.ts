@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CreateCustodyKeyTable1772300000000 implements MigrationInterface {
+  name = "CreateCustodyKeyTable1772300000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "custody_key" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "userId" character varying NOT NULL,
+        "chain" character varying(20) NOT NULL,
+        "publicKey" character varying NOT NULL,
+        "address" character varying,
+        "encryptedSecret" text NOT NULL,
+        "encryptedDataKey" text NOT NULL,
+        "keyVersion" integer NOT NULL,
+        "metadata" jsonb,
+        "lastUsedAt" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_custody_key_id" PRIMARY KEY ("id")
+      )`
+    );
+
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_custody_key_user_chain"
+       ON "custody_key" ("userId", "chain")`
+    );
+
+    // Rotation looks up keys still wrapped with an older master key
+    await queryRunner.query(
+      `CREATE INDEX "IDX_custody_key_key_version"
+       ON "custody_key" ("keyVersion")`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_custody_key_key_version"`);
+    await queryRunner.query(`DROP INDEX "IDX_custody_key_user_chain"`);
+    await queryRunner.query(`DROP TABLE "custody_key"`);
+  }
+}
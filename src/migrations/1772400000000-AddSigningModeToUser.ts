@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddSigningModeToUser1772400000000 implements MigrationInterface {
+  name = "AddSigningModeToUser1772400000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user" ADD COLUMN IF NOT EXISTS "signingMode" character varying NOT NULL DEFAULT 'custody'`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user" DROP COLUMN IF EXISTS "signingMode"`
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CreateMultisigTransactionTable1772500000000 implements MigrationInterface {
+  name = "CreateMultisigTransactionTable1772500000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "multisig_transaction" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "hash" character varying(64) NOT NULL,
+        "createdBy" character varying NOT NULL,
+        "sourceAccount" character varying NOT NULL,
+        "networkPassphrase" character varying NOT NULL,
+        "xdr" text NOT NULL,
+        "thresholdLevel" character varying(10) NOT NULL,
+        "requiredWeight" integer NOT NULL,
+        "currentWeight" integer NOT NULL DEFAULT 0,
+        "signers" jsonb NOT NULL,
+        "signerKeys" text array NOT NULL,
+        "signatures" jsonb NOT NULL DEFAULT '[]',
+        "status" character varying(20) NOT NULL DEFAULT 'pending',
+        "txHash" character varying,
+        "error" text,
+        "expiresAt" TIMESTAMP NOT NULL,
+        "submittedAt" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_multisig_transaction_id" PRIMARY KEY ("id")
+      )`
+    );
+
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_multisig_transaction_hash"
+       ON "multisig_transaction" ("hash")`
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_multisig_transaction_status_expires"
+       ON "multisig_transaction" ("status", "expiresAt")`
+    );
+
+    // Pending transactions are listed per signer
+    await queryRunner.query(
+      `CREATE INDEX "IDX_multisig_transaction_signer_keys"
+       ON "multisig_transaction" USING GIN ("signerKeys")`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "IDX_multisig_transaction_signer_keys"`
+    );
+    await queryRunner.query(
+      `DROP INDEX "IDX_multisig_transaction_status_expires"`
+    );
+    await queryRunner.query(`DROP INDEX "IDX_multisig_transaction_hash"`);
+    await queryRunner.query(`DROP TABLE "multisig_transaction"`);
+  }
+}
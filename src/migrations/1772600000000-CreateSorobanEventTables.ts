@@ -0,0 +1,62 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CreateSorobanEventTables1772600000000 implements MigrationInterface {
+  name = "CreateSorobanEventTables1772600000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "soroban_event" (
+        "id" character varying(64) NOT NULL,
+        "contractId" character varying(64) NOT NULL,
+        "type" character varying(20) NOT NULL,
+        "ledger" integer NOT NULL,
+        "ledgerClosedAt" TIMESTAMP NOT NULL,
+        "txHash" character varying(64) NOT NULL,
+        "topic" jsonb NOT NULL,
+        "topic0" character varying,
+        "topic1" character varying,
+        "topic2" character varying,
+        "topic3" character varying,
+        "value" jsonb,
+        "inSuccessfulContractCall" boolean NOT NULL DEFAULT true,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_soroban_event_id" PRIMARY KEY ("id")
+      )`
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_soroban_event_contract_ledger"
+       ON "soroban_event" ("contractId", "ledger")`
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_soroban_event_contract_topic0"
+       ON "soroban_event" ("contractId", "topic0")`
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_soroban_event_topic0_topic1"
+       ON "soroban_event" ("topic0", "topic1")`
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE "soroban_event_checkpoint" (
+        "contractId" character varying(64) NOT NULL,
+        "lastLedger" integer NOT NULL,
+        "cursor" character varying,
+        "gaps" jsonb NOT NULL DEFAULT '[]',
+        "lastError" text,
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_soroban_event_checkpoint_contract_id" PRIMARY KEY ("contractId")
+      )`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "soroban_event_checkpoint"`);
+    await queryRunner.query(`DROP INDEX "IDX_soroban_event_topic0_topic1"`);
+    await queryRunner.query(`DROP INDEX "IDX_soroban_event_contract_topic0"`);
+    await queryRunner.query(`DROP INDEX "IDX_soroban_event_contract_ledger"`);
+    await queryRunner.query(`DROP TABLE "soroban_event"`);
+  }
+}
@@ -0,0 +1,136 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CreateAccountHistoryTables1772700000000 implements MigrationInterface {
+  name = "CreateAccountHistoryTables1772700000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "account_transaction" (
+        "account" character varying(56) NOT NULL,
+        "id" character varying(64) NOT NULL,
+        "pagingToken" bigint NOT NULL,
+        "hash" character varying(64) NOT NULL,
+        "ledger" integer NOT NULL,
+        "type" character varying(20) NOT NULL,
+        "sourceAccount" character varying(56) NOT NULL,
+        "feePaid" bigint NOT NULL,
+        "operationCount" integer NOT NULL,
+        "successful" boolean NOT NULL,
+        "memoType" character varying(10),
+        "memo" text,
+        "createdAt" TIMESTAMP NOT NULL,
+        "syncedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_account_transaction_account_id" PRIMARY KEY ("account", "id")
+      )`
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_account_transaction_account_paging_token"
+       ON "account_transaction" ("account", "pagingToken")`
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_account_transaction_account_type"
+       ON "account_transaction" ("account", "type")`
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_account_transaction_hash"
+       ON "account_transaction" ("hash")`
+    );
+
+    // Backs memo search; must match the expression used in queries
+    await queryRunner.query(
+      `CREATE INDEX "IDX_account_transaction_memo_search"
+       ON "account_transaction"
+       USING GIN (to_tsvector('simple', coalesce("memo", '')))`
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE "account_operation" (
+        "id" character varying(32) NOT NULL,
+        "pagingToken" bigint NOT NULL,
+        "transactionHash" character varying(64) NOT NULL,
+        "type" character varying(50) NOT NULL,
+        "sourceAccount" character varying(56) NOT NULL,
+        "from" character varying(69),
+        "to" character varying(69),
+        "amount" numeric(30,7),
+        "asset" character varying(70),
+        "sourceAmount" numeric(30,7),
+        "sourceAsset" character varying(70),
+        "details" jsonb NOT NULL DEFAULT '{}',
+        "createdAt" TIMESTAMP NOT NULL,
+        CONSTRAINT "PK_account_operation_id" PRIMARY KEY ("id")
+      )`
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_account_operation_transaction_hash"
+       ON "account_operation" ("transactionHash")`
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_account_operation_asset_amount"
+       ON "account_operation" ("asset", "amount")`
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE "account_effect" (
+        "id" character varying(64) NOT NULL,
+        "transactionHash" character varying(64) NOT NULL,
+        "operationId" character varying(32) NOT NULL,
+        "account" character varying(56) NOT NULL,
+        "type" character varying(50) NOT NULL,
+        "amount" numeric(30,7),
+        "asset" character varying(70),
+        "createdAt" TIMESTAMP NOT NULL,
+        CONSTRAINT "PK_account_effect_id" PRIMARY KEY ("id")
+      )`
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_account_effect_transaction_hash"
+       ON "account_effect" ("transactionHash")`
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_account_effect_account_type"
+       ON "account_effect" ("account", "type")`
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE "account_history_checkpoint" (
+        "account" character varying(56) NOT NULL,
+        "userId" uuid,
+        "cursor" character varying,
+        "lastLedger" integer NOT NULL DEFAULT 0,
+        "lastSyncedAt" TIMESTAMP,
+        "lastError" text,
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_account_history_checkpoint_account" PRIMARY KEY ("account")
+      )`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "account_history_checkpoint"`);
+    await queryRunner.query(`DROP INDEX "IDX_account_effect_account_type"`);
+    await queryRunner.query(`DROP INDEX "IDX_account_effect_transaction_hash"`);
+    await queryRunner.query(`DROP TABLE "account_effect"`);
+    await queryRunner.query(`DROP INDEX "IDX_account_operation_asset_amount"`);
+    await queryRunner.query(
+      `DROP INDEX "IDX_account_operation_transaction_hash"`
+    );
+    await queryRunner.query(`DROP TABLE "account_operation"`);
+    await queryRunner.query(`DROP INDEX "IDX_account_transaction_memo_search"`);
+    await queryRunner.query(`DROP INDEX "IDX_account_transaction_hash"`);
+    await queryRunner.query(
+      `DROP INDEX "IDX_account_transaction_account_type"`
+    );
+    await queryRunner.query(
+      `DROP INDEX "IDX_account_transaction_account_paging_token"`
+    );
+    await queryRunner.query(`DROP TABLE "account_transaction"`);
+  }
+}
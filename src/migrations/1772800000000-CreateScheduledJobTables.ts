@@ -0,0 +1,81 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CreateScheduledJobTables1772800000000 implements MigrationInterface {
+  name = "CreateScheduledJobTables1772800000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "scheduled_job" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "userId" character varying NOT NULL,
+        "name" character varying(120) NOT NULL,
+        "instruction" text NOT NULL,
+        "plan" jsonb NOT NULL,
+        "planHash" character varying(64) NOT NULL,
+        "schedule" jsonb NOT NULL,
+        "missedRunPolicy" character varying(20) NOT NULL DEFAULT 'run_once',
+        "status" character varying(20) NOT NULL DEFAULT 'active',
+        "nextRunAt" TIMESTAMP,
+        "lastRunAt" TIMESTAMP,
+        "lastRunStatus" character varying(20),
+        "runCount" integer NOT NULL DEFAULT 0,
+        "consecutiveFailures" integer NOT NULL DEFAULT 0,
+        "notify" boolean NOT NULL DEFAULT true,
+        "lockedUntil" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_scheduled_job_id" PRIMARY KEY ("id")
+      )`
+    );
+
+    // Backs the worker's due job query
+    await queryRunner.query(
+      `CREATE INDEX "IDX_scheduled_job_status_next_run_at"
+       ON "scheduled_job" ("status", "nextRunAt")`
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_scheduled_job_user_id_created_at"
+       ON "scheduled_job" ("userId", "createdAt")`
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE "scheduled_job_run" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "jobId" uuid NOT NULL,
+        "userId" character varying NOT NULL,
+        "scheduledFor" TIMESTAMP NOT NULL,
+        "status" character varying(20) NOT NULL,
+        "completedSteps" integer NOT NULL DEFAULT 0,
+        "totalSteps" integer NOT NULL DEFAULT 0,
+        "stepResults" jsonb,
+        "error" text,
+        "startedAt" TIMESTAMP,
+        "finishedAt" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_scheduled_job_run_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_scheduled_job_run_job_id" FOREIGN KEY ("jobId")
+          REFERENCES "scheduled_job"("id") ON DELETE CASCADE
+      )`
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_scheduled_job_run_job_id_scheduled_for"
+       ON "scheduled_job_run" ("jobId", "scheduledFor")`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "IDX_scheduled_job_run_job_id_scheduled_for"`
+    );
+    await queryRunner.query(`DROP TABLE "scheduled_job_run"`);
+    await queryRunner.query(
+      `DROP INDEX "IDX_scheduled_job_user_id_created_at"`
+    );
+    await queryRunner.query(
+      `DROP INDEX "IDX_scheduled_job_status_next_run_at"`
+    );
+    await queryRunner.query(`DROP TABLE "scheduled_job"`);
+  }
+}
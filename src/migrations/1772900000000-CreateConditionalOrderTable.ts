@@ -0,0 +1,60 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CreateConditionalOrderTable1772900000000 implements MigrationInterface {
+  name = "CreateConditionalOrderTable1772900000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "conditional_order" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "userId" character varying NOT NULL,
+        "type" character varying(20) NOT NULL,
+        "direction" character varying(5) NOT NULL,
+        "fromAsset" character varying(12) NOT NULL,
+        "toAsset" character varying(12) NOT NULL,
+        "amount" numeric(30,7) NOT NULL,
+        "priceAsset" character varying(12) NOT NULL,
+        "triggerPrice" numeric(30,10),
+        "trailingPercent" numeric(6,3),
+        "peakPrice" numeric(30,10),
+        "maxSlippageBps" integer NOT NULL DEFAULT 100,
+        "status" character varying(20) NOT NULL DEFAULT 'active',
+        "createdPrice" numeric(30,10) NOT NULL,
+        "lastPrice" numeric(30,10),
+        "lastCheckedAt" TIMESTAMP,
+        "deferredReason" text,
+        "expiresAt" TIMESTAMP,
+        "triggeredAt" TIMESTAMP,
+        "triggeredPrice" numeric(30,10),
+        "txHash" character varying(64),
+        "result" jsonb,
+        "error" text,
+        "lockedUntil" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_conditional_order_id" PRIMARY KEY ("id")
+      )`
+    );
+
+    // Backs the monitor's active order query
+    await queryRunner.query(
+      `CREATE INDEX "IDX_conditional_order_status_created_at"
+       ON "conditional_order" ("status", "createdAt")`
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_conditional_order_user_id_created_at"
+       ON "conditional_order" ("userId", "createdAt")`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "IDX_conditional_order_user_id_created_at"`
+    );
+    await queryRunner.query(
+      `DROP INDEX "IDX_conditional_order_status_created_at"`
+    );
+    await queryRunner.query(`DROP TABLE "conditional_order"`);
+  }
+}
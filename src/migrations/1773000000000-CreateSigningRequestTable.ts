@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CreateSigningRequestTable1773000000000 implements MigrationInterface {
+  name = "CreateSigningRequestTable1773000000000";
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "signing_request" (
+        "id" uuid NOT NULL,
+        "userId" character varying NOT NULL,
+        "publicKey" character varying NOT NULL,
+        "purpose" character varying NOT NULL,
+        "xdr" text NOT NULL,
+        "hash" character varying(64) NOT NULL,
+        "networkPassphrase" character varying NOT NULL,
+        "metadata" jsonb,
+        "status" character varying(20) NOT NULL DEFAULT 'pending',
+        "txHash" character varying(64),
+        "expiresAt" TIMESTAMP NOT NULL,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_signing_request_id" PRIMARY KEY ("id")
+      )`
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_signing_request_user_id_status"
+       ON "signing_request" ("userId", "status")`
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_signing_request_user_id_status"`);
+    await queryRunner.query(`DROP TABLE "signing_request"`);
+  }
+}
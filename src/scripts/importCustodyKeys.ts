@@ -0,0 +1,87 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Custody Key Import Script
+ *
+ * One-shot migration of existing secret keys into the encrypted custody
+ * store: the Stellar keys generated at signup, kept encrypted in the user
+ * table, and the keys in src/Auth/accounts.json. Users who already have a key
+ * for a chain are skipped unless --overwrite is passed:
+ *
+ * npm run custody:import -- [path/to/accounts.json] [--overwrite]
+ *
+ * Delete the JSON file once the import has been verified.
+ */
+
+import "reflect-metadata";
+import fs from "fs";
+import path from "path";
+import AppDataSource from "../config/Datasource";
+import logger from "../config/logger";
+import { User } from "../Auth/user.entity";
+import {
+  ImportResult,
+  keyCustodyService,
+  LegacyAccountEntry,
+} from "../Custody/custody.service";
+
+const DEFAULT_ACCOUNTS_FILE = "src/Auth/accounts.json";
+
+function logResult(source: string, result: ImportResult) {
+  logger.info(
+    `Custody key import from ${source} completed. Imported ${result.imported}, skipped ${result.skipped}, failed ${result.failed.length}`
+  );
+  for (const failure of result.failed) {
+    logger.error("Failed to import key", { source, ...failure });
+  }
+}
+
+async function importCustodyKeys() {
+  const args = process.argv.slice(2);
+  const overwrite = args.includes("--overwrite");
+  const fileArg = args.find((arg) => !arg.startsWith("--"));
+  const filePath = path.resolve(fileArg ?? DEFAULT_ACCOUNTS_FILE);
+
+  try {
+    logger.info("Starting custody key import...", { filePath, overwrite });
+
+    if (!AppDataSource.isInitialized) {
+      await AppDataSource.initialize();
+      logger.info("Database connection established");
+    }
+
+    const users = await AppDataSource.getRepository(User).find({
+      select: ["id", "address", "encryptedPrivateKey"],
+    });
+    const userResult = await keyCustodyService.importUserKeys(users, {
+      overwrite,
+    });
+    logResult("user table", userResult);
+    let failed = userResult.failed.length;
+
+    // The default file is optional; one passed explicitly must exist
+    if (fileArg || fs.existsSync(filePath)) {
+      const entries = JSON.parse(
+        fs.readFileSync(filePath, "utf-8")
+      ) as LegacyAccountEntry[];
+      const fileResult = await keyCustodyService.importAccounts(entries, {
+        overwrite,
+      });
+      logResult(filePath, fileResult);
+      failed += fileResult.failed.length;
+    } else {
+      logger.info("No accounts file to import", { filePath });
+    }
+
+    await AppDataSource.destroy();
+    logger.info("Database connection closed");
+
+    process.exit(failed ? 1 : 0);
+  } catch (error) {
+    logger.error("Custody key import failed", { error });
+    process.exit(1);
+  }
+}
+
+// Run the import
+importCustodyKeys();
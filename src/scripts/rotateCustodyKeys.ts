@@ -0,0 +1,43 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Custody Master Key Rotation Script
+ *
+ * Re-wraps every custodied data key with the active master key. To rotate,
+ * add the new key to CUSTODY_MASTER_KEYS, set CUSTODY_ACTIVE_KEY_VERSION to
+ * its version and run:
+ *
+ * npm run custody:rotate
+ *
+ * Old master keys can be removed once this has completed.
+ */
+
+import "reflect-metadata";
+import AppDataSource from "../config/Datasource";
+import logger from "../config/logger";
+import { keyCustodyService } from "../Custody/custody.service";
+
+async function rotateCustodyKeys() {
+  try {
+    logger.info("Starting custody master key rotation...");
+
+    if (!AppDataSource.isInitialized) {
+      await AppDataSource.initialize();
+      logger.info("Database connection established");
+    }
+
+    const rotated = await keyCustodyService.rotateMasterKey();
+    logger.info(`Custody key rotation completed. Re-wrapped ${rotated} keys`);
+
+    await AppDataSource.destroy();
+    logger.info("Database connection closed");
+
+    process.exit(0);
+  } catch (error) {
+    logger.error("Custody key rotation failed", { error });
+    process.exit(1);
+  }
+}
+
+// Run the rotation
+rotateCustodyKeys();
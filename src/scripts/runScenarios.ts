@@ -0,0 +1,49 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Scenario Runner Script
+ *
+ * Runs the agent regression scenarios against the local chain, with the LLM
+ * replies each scenario scripts, and prints a pass/fail report. Takes a
+ * scenario file or a directory of them, scenarios/ by default:
+ *
+ * npm run scenarios -- [path/to/scenarios]
+ *
+ * Exits with 1 when any scenario fails, so it can gate CI.
+ */
+
+import "reflect-metadata";
+import path from "path";
+import AppDataSource from "../config/Datasource";
+import logger from "../config/logger";
+import { loadScenarios } from "../simulation/Scenario";
+import { formatReport, scenarioRunner } from "../simulation/ScenarioRunner";
+
+async function runScenarios() {
+  const target = path.resolve(process.argv[2] ?? "scenarios");
+
+  try {
+    const scenarios = loadScenarios(target);
+    logger.info(`Running ${scenarios.length} scenarios...`, { target });
+
+    // Prompts are selected from the stored prompt versions
+    if (!AppDataSource.isInitialized) {
+      await AppDataSource.initialize();
+      logger.info("Database connection established");
+    }
+
+    const report = await scenarioRunner.runAll(scenarios);
+    console.log(formatReport(report));
+
+    await AppDataSource.destroy();
+    logger.info("Database connection closed");
+
+    process.exit(report.failed ? 1 : 0);
+  } catch (error) {
+    logger.error("Scenario run failed", { error });
+    process.exit(1);
+  }
+}
+
+// Run the scenarios
+runScenarios();
@@ -1,3 +1,4 @@
+import { Readable } from "stream";
 import { Repository } from "typeorm";
 import { User } from "../Auth/user.entity";
 import { Contact } from "../Contacts/contact.entity";
@@ -5,6 +6,11 @@ import { RefreshToken } from "../Auth/refreshToken.entity";
 import AppDataSource from "../config/Datasource";
 import { memoryStore } from "../Agents/memory/memory";
 import logger from "../config/logger";
+import {
+  CostBasisMethod,
+  portfolioService,
+  RealizedTrade,
+} from "./portfolio.service";
 
 export interface UserProfileExport {
   exportMetadata: {
@@ -52,6 +58,64 @@ export interface UserProfileExport {
   };
 }
 
+export type TradeExportFormat = "csv" | "json";
+
+export const TRADE_EXPORT_FORMATS: TradeExportFormat[] = ["csv", "json"];
+
+export interface TradeExportOptions {
+  format: TradeExportFormat;
+  startDate?: string;
+  endDate?: string;
+  method?: CostBasisMethod;
+}
+
+/**
+ * One trade in the trade history export. USD values are USDC prices on the
+ * Stellar DEX at execution time.
+ */
+export interface TradeExportRow {
+  timestamp: string;
+  transactionHash: string;
+  soldAsset: string;
+  soldAmount: number;
+  boughtAsset: string;
+  boughtAmount: number;
+  feeAsset: string;
+  feeAmount: number;
+  feeUsd: number | null;
+  valueUsd: number | null;
+  costBasisUsd: number;
+  gainLossUsd: number | null;
+}
+
+const TRADE_EXPORT_COLUMNS: (keyof TradeExportRow)[] = [
+  "timestamp",
+  "transactionHash",
+  "soldAsset",
+  "soldAmount",
+  "boughtAsset",
+  "boughtAmount",
+  "feeAsset",
+  "feeAmount",
+  "feeUsd",
+  "valueUsd",
+  "costBasisUsd",
+  "gainLossUsd",
+];
+
+const roundAmount = (value: number): number => Math.round(value * 1e7) / 1e7;
+
+const roundNullable = (value: number | null): number | null =>
+  value === null ? null : roundAmount(value);
+
+function csvField(value: string | number | null): string {
+  if (value === null) {
+    return "";
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
 export class DataExportService {
   private userRepository: Repository<User>;
   private contactRepository: Repository<Contact>;
@@ -188,4 +252,91 @@ export class DataExportService {
     const jsonString = await this.exportUserDataAsJSON(userId);
     return Buffer.from(jsonString, "utf-8");
   }
+
+  /**
+   * Export the user's trades with USD values and cost basis gain/loss as a
+   * CSV or JSON stream. History is read page by page while the stream is
+   * consumed, so large histories are never held in memory. The user and
+   * options are checked before the stream is returned.
+   */
+  async exportTradeHistory(
+    userId: string,
+    options: TradeExportOptions
+  ): Promise<Readable> {
+    if (!TRADE_EXPORT_FORMATS.includes(options.format)) {
+      throw new Error(
+        `Invalid format. Must be one of: ${TRADE_EXPORT_FORMATS.join(", ")}`
+      );
+    }
+    portfolioService.validate({ method: options.method });
+
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    logger.info("Starting trade history export", { userId, ...options });
+    return Readable.from(this.tradeHistoryChunks(user, options));
+  }
+
+  private async *tradeHistoryChunks(
+    user: User,
+    options: TradeExportOptions
+  ): AsyncGenerator<string> {
+    const trades = portfolioService.realizedTrades(user.address, {
+      method: options.method,
+      quoteAsset: "USDC",
+      startDate: options.startDate,
+      endDate: options.endDate,
+    });
+    let count = 0;
+
+    if (options.format === "csv") {
+      yield `${TRADE_EXPORT_COLUMNS.join(",")}\n`;
+      for await (const trade of trades) {
+        const row = this.toTradeExportRow(trade);
+        yield `${TRADE_EXPORT_COLUMNS.map((column) => csvField(row[column])).join(",")}\n`;
+        count++;
+      }
+    } else {
+      const exportMetadata = {
+        exportDate: new Date().toISOString(),
+        exportVersion: "1.0.0",
+        userId: user.id,
+        account: user.address,
+        costBasisMethod: options.method ?? "fifo",
+        startDate: options.startDate,
+        endDate: options.endDate,
+      };
+      yield `{"exportMetadata":${JSON.stringify(exportMetadata)},"trades":[`;
+      for await (const trade of trades) {
+        yield `${count > 0 ? "," : ""}${JSON.stringify(this.toTradeExportRow(trade))}`;
+        count++;
+      }
+      yield "]}";
+    }
+
+    logger.info("Trade history export completed", {
+      userId: user.id,
+      format: options.format,
+      tradesCount: count,
+    });
+  }
+
+  private toTradeExportRow(trade: RealizedTrade): TradeExportRow {
+    return {
+      timestamp: trade.executedAt,
+      transactionHash: trade.transactionHash,
+      soldAsset: trade.soldAsset,
+      soldAmount: roundAmount(trade.soldAmount),
+      boughtAsset: trade.boughtAsset,
+      boughtAmount: roundAmount(trade.boughtAmount),
+      feeAsset: "XLM",
+      feeAmount: roundAmount(trade.fee),
+      feeUsd: roundNullable(trade.feeValue),
+      valueUsd: roundNullable(trade.value),
+      costBasisUsd: roundAmount(trade.costBasis),
+      gainLossUsd: roundNullable(trade.realizedPnl),
+    };
+  }
 }
@@ -0,0 +1,571 @@
+import * as StellarSdk from "@stellar/stellar-sdk";
+import { Repository } from "typeorm";
+import { QueryDeepPartialEntity } from "typeorm/query-builder/QueryPartialEntity";
+import config from "../config/config";
+import AppDataSource from "../config/Datasource";
+import logger from "../config/logger";
+import { User } from "../Auth/user.entity";
+import {
+  AccountEffect,
+  AccountHistoryCheckpoint,
+  AccountOperation,
+  AccountTransaction,
+} from "../Gateway/accountHistory.entity";
+import {
+  determineTransactionType,
+  formatAsset,
+  HorizonEffect,
+  HorizonOperation,
+  HorizonTransaction,
+} from "../Gateway/transaction.service";
+
+interface HorizonCollectionBuilder<T> {
+  cursor(cursor: string): HorizonCollectionBuilder<T>;
+  order(order: "asc" | "desc"): HorizonCollectionBuilder<T>;
+  limit(limit: number): HorizonCollectionBuilder<T>;
+  call(): Promise<{ records: T[] }>;
+  stream(options: {
+    onmessage: (record: T) => void;
+    onerror: (error: unknown) => void;
+  }): () => void;
+}
+
+interface HorizonServerLike {
+  transactions(): {
+    forAccount(account: string): HorizonCollectionBuilder<HorizonTransaction>;
+  };
+  operations(): {
+    forTransaction(hash: string): HorizonCollectionBuilder<HorizonOperation>;
+  };
+  effects(): {
+    forTransaction(hash: string): HorizonCollectionBuilder<HorizonEffect>;
+  };
+}
+
+interface AccountHistorySyncOptions {
+  server?: HorizonServerLike;
+  enabled?: boolean;
+  pageLimit?: number;
+  reconnectDelayMs?: number;
+  /** How often users created since the last run are picked up */
+  refreshIntervalMs?: number;
+}
+
+export interface AccountSyncResult {
+  account: string;
+  synced: number;
+  cursor?: string | null;
+  /** False while the account has not been created on the network */
+  exists: boolean;
+}
+
+/** Horizon's maximum page size for operations and effects */
+const DETAIL_PAGE_LIMIT = 200;
+
+/**
+ * Fields shared by every operation record, left out of `details`
+ */
+const OPERATION_COLUMNS = new Set([
+  "_links",
+  "id",
+  "paging_token",
+  "transaction_hash",
+  "type",
+  "type_i",
+  "source_account",
+  "created_at",
+  "transaction_successful",
+]);
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof StellarSdk.NotFoundError;
+}
+
+/**
+ * Ingests the Horizon history of every user account into the
+ * account_transaction, account_operation and account_effect tables. Each
+ * account is backfilled from its checkpoint with paged requests, then kept
+ * current with a transaction stream that resumes from the same cursor after
+ * reconnects. Work for one account is serialized so the backfill and the
+ * stream never write the same checkpoint concurrently.
+ */
+export class AccountHistorySyncService {
+  private readonly server: HorizonServerLike;
+  private readonly enabled: boolean;
+  private readonly pageLimit: number;
+  private readonly reconnectDelayMs: number;
+  private readonly refreshIntervalMs: number;
+  private userRepository: Repository<User>;
+  private transactionRepository: Repository<AccountTransaction>;
+  private operationRepository: Repository<AccountOperation>;
+  private effectRepository: Repository<AccountEffect>;
+  private checkpointRepository: Repository<AccountHistoryCheckpoint>;
+  /** Accounts being synced, with the owning user */
+  private readonly tracked = new Map<string, string | undefined>();
+  private readonly streams = new Map<string, () => void>();
+  private readonly reconnectTimers = new Map<
+    string,
+    ReturnType<typeof setTimeout>
+  >();
+  private readonly queues = new Map<string, Promise<unknown>>();
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+
+  constructor(options: AccountHistorySyncOptions = {}) {
+    this.server =
+      options.server ??
+      (new StellarSdk.Horizon.Server(
+        config.stellar.horizonUrl
+      ) as unknown as HorizonServerLike);
+    this.enabled =
+      options.enabled ?? process.env.ACCOUNT_HISTORY_SYNC_ENABLED !== "false";
+    this.pageLimit = options.pageLimit ?? 100;
+    this.reconnectDelayMs =
+      options.reconnectDelayMs ??
+      Number.parseInt(
+        process.env.ACCOUNT_HISTORY_SYNC_RECONNECT_MS || "5000",
+        10
+      );
+    this.refreshIntervalMs =
+      options.refreshIntervalMs ??
+      Number.parseInt(
+        process.env.ACCOUNT_HISTORY_SYNC_REFRESH_MS || "60000",
+        10
+      );
+    this.userRepository = AppDataSource.getRepository(User);
+    this.transactionRepository =
+      AppDataSource.getRepository(AccountTransaction);
+    this.operationRepository = AppDataSource.getRepository(AccountOperation);
+    this.effectRepository = AppDataSource.getRepository(AccountEffect);
+    this.checkpointRepository = AppDataSource.getRepository(
+      AccountHistoryCheckpoint
+    );
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    if (!this.enabled) {
+      logger.info("Account history sync disabled by configuration");
+      return;
+    }
+
+    this.running = true;
+    logger.info("Account history sync started", {
+      refreshIntervalMs: this.refreshIntervalMs,
+    });
+    void this.refresh();
+  }
+
+  stop(): void {
+    this.running = false;
+
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    for (const timer of this.reconnectTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.reconnectTimers.clear();
+
+    for (const close of this.streams.values()) {
+      close();
+    }
+    this.streams.clear();
+    this.tracked.clear();
+  }
+
+  /**
+   * Start syncing every user account that is not tracked yet
+   */
+  async refresh(): Promise<void> {
+    try {
+      const users = await this.userRepository.find({
+        select: { id: true, address: true },
+      });
+
+      for (const user of users) {
+        if (!this.running) break;
+        if (
+          this.tracked.has(user.address) ||
+          !StellarSdk.StrKey.isValidEd25519PublicKey(user.address)
+        ) {
+          continue;
+        }
+        this.tracked.set(user.address, user.id);
+        await this.connect(user.address);
+      }
+    } catch (error) {
+      logger.error("Failed to load accounts for history sync", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (this.running) {
+      this.refreshTimer = setTimeout(() => {
+        this.refreshTimer = null;
+        void this.refresh();
+      }, this.refreshIntervalMs);
+    }
+  }
+
+  /**
+   * Page through transactions newer than the account checkpoint and store
+   * them with their operations and effects, advancing the checkpoint after
+   * every page
+   */
+  async syncAccount(
+    account: string,
+    userId?: string
+  ): Promise<AccountSyncResult> {
+    return this.enqueue(account, async () => {
+      const checkpoint = await this.loadCheckpoint(account, userId);
+      const result: AccountSyncResult = { account, synced: 0, exists: true };
+
+      try {
+        for (;;) {
+          const builder = this.server
+            .transactions()
+            .forAccount(account)
+            .order("asc")
+            .limit(this.pageLimit);
+          if (checkpoint.cursor) {
+            builder.cursor(checkpoint.cursor);
+          }
+
+          let records: HorizonTransaction[];
+          try {
+            ({ records } = await builder.call());
+          } catch (error) {
+            // Unfunded accounts have no history yet
+            if (!isNotFound(error)) throw error;
+            records = [];
+            result.exists = false;
+          }
+
+          for (const record of records) {
+            await this.ingestTransaction(account, record);
+            this.advance(checkpoint, record);
+          }
+          result.synced += records.length;
+
+          checkpoint.lastSyncedAt = new Date();
+          checkpoint.lastError = null;
+          await this.checkpointRepository.save(checkpoint);
+
+          if (records.length < this.pageLimit) break;
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error("Failed to sync account history", {
+          account,
+          error: message,
+        });
+        checkpoint.lastError = message;
+        await this.checkpointRepository.save(checkpoint);
+        throw error;
+      }
+
+      result.cursor = checkpoint.cursor;
+      if (result.synced > 0) {
+        logger.info("Synced account history", {
+          account,
+          synced: result.synced,
+          lastLedger: checkpoint.lastLedger,
+        });
+      }
+      return result;
+    });
+  }
+
+  async getCheckpoint(
+    account: string
+  ): Promise<AccountHistoryCheckpoint | null> {
+    return this.checkpointRepository.findOne({ where: { account } });
+  }
+
+  /**
+   * Catch up on missed transactions, then stream new ones. Failures are
+   * retried after the reconnect delay.
+   */
+  private async connect(account: string): Promise<void> {
+    try {
+      const result = await this.syncAccount(account, this.tracked.get(account));
+      if (!result.exists) {
+        // Picked up again by the next refresh once the account is funded
+        this.tracked.delete(account);
+        return;
+      }
+      if (this.running) {
+        this.openStream(account, result.cursor ?? "now");
+      }
+    } catch {
+      this.scheduleReconnect(account);
+    }
+  }
+
+  private openStream(account: string, cursor: string): void {
+    try {
+      const close = this.server
+        .transactions()
+        .forAccount(account)
+        .cursor(cursor)
+        .stream({
+          onmessage: (record) => {
+            this.enqueue(account, () =>
+              this.handleStreamedTransaction(account, record)
+            ).catch((error) => {
+              logger.error("Failed to store streamed transaction", {
+                account,
+                hash: record.hash,
+                error: error instanceof Error ? error.message : String(error),
+              });
+              this.scheduleReconnect(account);
+            });
+          },
+          onerror: (error) => {
+            logger.error("Account history stream error", {
+              account,
+              error: error instanceof Error ? error.message : String(error),
+            });
+            this.scheduleReconnect(account);
+          },
+        });
+      this.streams.set(account, close);
+    } catch (error) {
+      logger.error("Failed to start account history stream", {
+        account,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.scheduleReconnect(account);
+    }
+  }
+
+  private scheduleReconnect(account: string): void {
+    if (!this.running || this.reconnectTimers.has(account)) {
+      return;
+    }
+
+    const close = this.streams.get(account);
+    if (close) {
+      close();
+      this.streams.delete(account);
+    }
+
+    this.reconnectTimers.set(
+      account,
+      setTimeout(() => {
+        this.reconnectTimers.delete(account);
+        if (!this.running) {
+          return;
+        }
+        void this.connect(account);
+      }, this.reconnectDelayMs)
+    );
+  }
+
+  private async handleStreamedTransaction(
+    account: string,
+    record: HorizonTransaction
+  ): Promise<void> {
+    const checkpoint = await this.loadCheckpoint(account);
+
+    // Streams replay from the cursor, so skip what the backfill stored
+    if (
+      checkpoint.cursor &&
+      BigInt(record.paging_token) <= BigInt(checkpoint.cursor)
+    ) {
+      return;
+    }
+
+    await this.ingestTransaction(account, record);
+    this.advance(checkpoint, record);
+    checkpoint.lastSyncedAt = new Date();
+    checkpoint.lastError = null;
+    await this.checkpointRepository.save(checkpoint);
+  }
+
+  /**
+   * Run tasks for the same account one after another
+   */
+  private enqueue<T>(account: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(account) ?? Promise.resolve();
+    const next = previous.then(task, task);
+    const settled = next.catch(() => undefined);
+    this.queues.set(account, settled);
+    void settled.then(() => {
+      if (this.queues.get(account) === settled) {
+        this.queues.delete(account);
+      }
+    });
+    return next;
+  }
+
+  private async loadCheckpoint(
+    account: string,
+    userId?: string
+  ): Promise<AccountHistoryCheckpoint> {
+    const existing = await this.checkpointRepository.findOne({
+      where: { account },
+    });
+    if (existing) return existing;
+
+    return this.checkpointRepository.create({
+      account,
+      userId: userId ?? null,
+      cursor: null,
+      lastLedger: 0,
+    });
+  }
+
+  private advance(
+    checkpoint: AccountHistoryCheckpoint,
+    record: HorizonTransaction
+  ): void {
+    checkpoint.cursor = record.paging_token;
+    checkpoint.lastLedger = Math.max(
+      checkpoint.lastLedger,
+      record.ledger_attr ?? record.ledger ?? 0
+    );
+  }
+
+  /**
+   * Store a transaction with its operations and effects. The transaction row
+   * is written last so history never shows it without its details.
+   */
+  private async ingestTransaction(
+    account: string,
+    record: HorizonTransaction
+  ): Promise<void> {
+    const [operations, effects] = await Promise.all([
+      this.fetchAll(this.server.operations().forTransaction(record.hash)),
+      this.fetchAll(this.server.effects().forTransaction(record.hash)),
+    ]);
+
+    if (operations.length > 0) {
+      await this.operationRepository.upsert(
+        operations.map((operation) =>
+          this.toOperationRow(operation)
+        ) as QueryDeepPartialEntity<AccountOperation>[],
+        ["id"]
+      );
+    }
+
+    if (effects.length > 0) {
+      await this.effectRepository.upsert(
+        effects.map((effect) =>
+          this.toEffectRow(effect, record.hash)
+        ) as QueryDeepPartialEntity<AccountEffect>[],
+        ["id"]
+      );
+    }
+
+    const row: Partial<AccountTransaction> = {
+      account,
+      id: record.id,
+      pagingToken: record.paging_token,
+      hash: record.hash,
+      ledger: record.ledger_attr ?? record.ledger ?? 0,
+      type: determineTransactionType(operations),
+      sourceAccount: record.source_account,
+      feePaid: String(record.fee_charged ?? record.fee_paid ?? 0),
+      operationCount: record.operation_count,
+      successful: record.successful,
+      memoType: record.memo_type ?? null,
+      memo: record.memo ?? null,
+      createdAt: new Date(record.created_at),
+    };
+    await this.transactionRepository.upsert(
+      row as QueryDeepPartialEntity<AccountTransaction>,
+      ["account", "id"]
+    );
+  }
+
+  private async fetchAll<T extends { paging_token?: string; id: string }>(
+    builder: HorizonCollectionBuilder<T>
+  ): Promise<T[]> {
+    const records: T[] = [];
+    builder.order("asc").limit(DETAIL_PAGE_LIMIT);
+
+    for (;;) {
+      const page = await builder.call();
+      records.push(...page.records);
+      if (page.records.length < DETAIL_PAGE_LIMIT) break;
+
+      const last = page.records[page.records.length - 1];
+      builder.cursor(last.paging_token ?? last.id);
+    }
+    return records;
+  }
+
+  private toOperationRow(
+    operation: HorizonOperation
+  ): Partial<AccountOperation> {
+    const isPathPayment = operation.type.startsWith("path_payment");
+    const details = Object.fromEntries(
+      Object.entries(operation).filter(
+        ([key, value]) =>
+          !OPERATION_COLUMNS.has(key) && typeof value !== "function"
+      )
+    );
+
+    return {
+      id: operation.id,
+      pagingToken: operation.paging_token ?? operation.id,
+      transactionHash: operation.transaction_hash,
+      type: operation.type,
+      sourceAccount: operation.source_account,
+      from: operation.from ?? operation.funder ?? null,
+      to: operation.to ?? operation.account ?? operation.into ?? null,
+      amount: operation.amount ?? operation.starting_balance ?? null,
+      asset:
+        operation.type === "create_account"
+          ? "XLM"
+          : (formatAsset(
+              operation.asset_type,
+              operation.asset_code,
+              operation.asset_issuer
+            ) ?? null),
+      sourceAmount: isPathPayment ? (operation.source_amount ?? null) : null,
+      sourceAsset: isPathPayment
+        ? (formatAsset(
+            operation.source_asset_type,
+            operation.source_asset_code,
+            operation.source_asset_issuer
+          ) ?? null)
+        : null,
+      details,
+      createdAt: new Date(operation.created_at),
+    };
+  }
+
+  private toEffectRow(
+    effect: HorizonEffect,
+    transactionHash: string
+  ): Partial<AccountEffect> {
+    return {
+      id: effect.id,
+      transactionHash,
+      // Effect ids are `<operation id>-<index>`, both zero padded
+      operationId: BigInt(effect.id.split("-")[0]).toString(),
+      account: effect.account,
+      type: effect.type,
+      amount: effect.amount ?? effect.starting_balance ?? null,
+      asset:
+        effect.type === "account_created"
+          ? "XLM"
+          : (formatAsset(
+              effect.asset_type,
+              effect.asset_code,
+              effect.asset_issuer
+            ) ?? null),
+      createdAt: new Date(effect.created_at),
+    };
+  }
+}
+
+export const accountHistorySyncService = new AccountHistorySyncService();
@@ -1,4 +1,5 @@
 import * as StellarSdk from "@stellar/stellar-sdk";
+import config from "../config/config";
 
 export interface VerificationResult {
   isSafe: boolean;
@@ -65,4 +66,8 @@ export class AssetVerificationService {
       };
     }
   }
-}
\ No newline at end of file
+}
+
+export const assetVerificationService = new AssetVerificationService(
+  config.stellar.horizonUrl
+);
@@ -1,6 +1,18 @@
 import { Router, Request, Response } from "express";
+import { pipeline } from "stream/promises";
 import { authenticateToken } from "../Auth/auth.middleware";
-import { DataExportService } from "./DataExportService";
+import {
+  DataExportService,
+  TradeExportFormat,
+  TRADE_EXPORT_FORMATS,
+} from "./DataExportService";
+import {
+  CostBasisMethod,
+  COST_BASIS_METHODS,
+  PortfolioError,
+} from "./portfolio.service";
+import { auditLogService } from "../AuditLog/auditLog.service";
+import { AuditAction, AuditSeverity } from "../AuditLog/auditLog.entity";
 import logger from "../config/logger";
 
 const router = Router();
@@ -160,4 +172,115 @@ router.get(
   }
 );
 
+/**
+ * GET /export/trades - Download trade history for tax reporting
+ * Requires authentication
+ * Query: format (csv | json, default csv), startDate, endDate,
+ * method (cost basis: fifo | lifo | average)
+ * Streams one row per trade with fees, USD values and gain/loss
+ */
+router.get(
+  "/trades",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const {
+      format = "csv",
+      startDate,
+      endDate,
+      method,
+    } = req.query as Record<string, string | undefined>;
+
+    if (!TRADE_EXPORT_FORMATS.includes(format as TradeExportFormat)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid format. Must be one of: ${TRADE_EXPORT_FORMATS.join(", ")}`,
+      });
+    }
+
+    if (method && !COST_BASIS_METHODS.includes(method as CostBasisMethod)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid method. Must be one of: ${COST_BASIS_METHODS.join(", ")}`,
+      });
+    }
+
+    for (const [name, value] of Object.entries({ startDate, endDate })) {
+      if (value && isNaN(Date.parse(value))) {
+        return res.status(400).json({
+          success: false,
+          message: `Invalid ${name} format. Use ISO 8601 format (e.g., 2024-01-01T00:00:00Z)`,
+        });
+      }
+    }
+
+    const options = {
+      format: format as TradeExportFormat,
+      startDate,
+      endDate,
+      method: method as CostBasisMethod | undefined,
+    };
+
+    try {
+      const userId = req.user!.userId;
+      const userName = req.user!.name || "user";
+
+      logger.info("Trade history export requested", { userId, ...options });
+
+      const stream = await dataExportService.exportTradeHistory(
+        userId,
+        options
+      );
+
+      const filename = `${userName}_trades_export_${new Date().toISOString().split("T")[0]}.${options.format}`;
+      res.setHeader(
+        "Content-Type",
+        options.format === "csv"
+          ? "text/csv; charset=utf-8"
+          : "application/json; charset=utf-8"
+      );
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${filename}"`
+      );
+
+      await pipeline(stream, res);
+
+      await auditLogService.logFromRequest(req, AuditAction.DATA_EXPORT, {
+        resource: "trades",
+        metadata: { ...options },
+      });
+    } catch (error) {
+      logger.error("Trade history export error", {
+        error,
+        userId: req.user?.userId,
+      });
+
+      await auditLogService
+        .logFromRequest(req, AuditAction.DATA_EXPORT, {
+          severity: AuditSeverity.ERROR,
+          resource: "trades",
+          metadata: { ...options },
+          success: false,
+          errorMessage: error instanceof Error ? error.message : String(error),
+        })
+        .catch(() => undefined);
+
+      // The pipeline has already ended a response that started streaming
+      if (res.headersSent) {
+        return;
+      }
+      if (error instanceof PortfolioError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      if (error instanceof Error && error.message === "User not found") {
+        return res.status(404).json({ success: false, message: error.message });
+      }
+      return res.status(500).json({
+        success: false,
+        message: "Failed to export trade history",
+      });
+    }
+  }
+);
+
 export default router;
@@ -1,70 +1,416 @@
 import * as StellarSdk from "@stellar/stellar-sdk";
+import {
+  FindOptionsWhere,
+  LessThanOrEqual,
+  MoreThan,
+  MoreThanOrEqual,
+  Repository,
+  And,
+} from "typeorm";
+import { QueryDeepPartialEntity } from "typeorm/query-builder/QueryPartialEntity";
+import AppDataSource from "../config/Datasource";
+import logger from "../config/logger";
+import { networkConfig } from "./networkConfig";
+import {
+  IndexGap,
+  SorobanEvent,
+  SorobanEventCheckpoint,
+} from "./sorobanEvent.entity";
 
 export interface DecodedEvent {
   id: string;
   contractId: string;
-  topic: string[];
-  value: any;
+  type: string;
+  topic: unknown[];
+  value: unknown;
   ledger: number;
   ledgerClosedAt: string;
+  txHash: string;
+  inSuccessfulContractCall: boolean;
 }
 
+export interface EventQuery {
+  contractId?: string;
+  /** Matches the first topic, usually the event name */
+  topic?: string;
+  fromLedger?: number;
+  toLedger?: number;
+  /** Id of the last event of the previous page */
+  cursor?: string;
+  limit?: number;
+}
+
+export interface EventPage {
+  events: DecodedEvent[];
+  nextCursor?: string;
+}
+
+export interface IndexRunResult {
+  contractId: string;
+  indexed: number;
+  lastLedger: number;
+  gap?: IndexGap;
+}
+
+type SorobanRpcLike = Pick<StellarSdk.rpc.Server, "getEvents" | "getHealth">;
+
+interface EventIndexingOptions {
+  server?: SorobanRpcLike;
+  enabled?: boolean;
+  contractIds?: string[];
+  pollIntervalMs?: number;
+  pageLimit?: number;
+  /** First ledger to index for contracts without a checkpoint */
+  startLedger?: number;
+}
+
+const MAX_QUERY_LIMIT = 200;
+const TOPIC_COLUMNS = ["topic0", "topic1", "topic2", "topic3"] as const;
+
+/**
+ * Convert decoded ScVals to JSON: i128 and friends become strings and bytes
+ * become hex
+ */
+function toJsonValue(value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  if (Buffer.isBuffer(value) || value instanceof Uint8Array) {
+    return Buffer.from(value).toString("hex");
+  }
+  if (Array.isArray(value)) return value.map(toJsonValue);
+  if (value instanceof Map) {
+    return Object.fromEntries(
+      [...value.entries()].map(([key, entry]) => [
+        String(toJsonValue(key)),
+        toJsonValue(entry),
+      ])
+    );
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, toJsonValue(entry)])
+    );
+  }
+  return value;
+}
+
+function toTopicKey(value: unknown): string {
+  const json = toJsonValue(value);
+  return typeof json === "string" ? json : JSON.stringify(json);
+}
+
+/**
+ * Indexes Soroban contract events into Postgres. Each contract keeps a
+ * checkpoint with the RPC paging cursor, so the indexer resumes where it
+ * stopped. When the checkpoint has fallen out of the RPC retention window
+ * the missed range is recorded as a gap and indexing restarts at the oldest
+ * ledger the node still has.
+ */
 export class EventIndexingService {
-  private server: StellarSdk.SorobanRpc.Server;
+  private server?: SorobanRpcLike;
+  private readonly enabled: boolean;
+  private readonly contractIds: string[];
+  private readonly pollIntervalMs: number;
+  private readonly pageLimit: number;
+  private readonly startLedger?: number;
+  private eventRepository: Repository<SorobanEvent>;
+  private checkpointRepository: Repository<SorobanEventCheckpoint>;
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
 
-  constructor(rpcUrl: string) {
-    this.server = new StellarSdk.SorobanRpc.Server(rpcUrl);
+  constructor(options: EventIndexingOptions = {}) {
+    this.server = options.server;
+    this.enabled =
+      options.enabled ?? process.env.SOROBAN_EVENT_INDEXER_ENABLED === "true";
+    this.contractIds =
+      options.contractIds ??
+      (process.env.SOROBAN_EVENT_CONTRACTS || "")
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean);
+    this.pollIntervalMs =
+      options.pollIntervalMs ??
+      Number.parseInt(process.env.SOROBAN_EVENT_POLL_MS || "10000", 10);
+    this.pageLimit = options.pageLimit ?? 100;
+    this.startLedger =
+      options.startLedger ??
+      (process.env.SOROBAN_EVENT_START_LEDGER
+        ? Number.parseInt(process.env.SOROBAN_EVENT_START_LEDGER, 10)
+        : undefined);
+    this.eventRepository = AppDataSource.getRepository(SorobanEvent);
+    this.checkpointRepository = AppDataSource.getRepository(
+      SorobanEventCheckpoint
+    );
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    if (!this.enabled || this.contractIds.length === 0) {
+      logger.info("Soroban event indexer disabled by configuration");
+      return;
+    }
+
+    this.running = true;
+    logger.info("Soroban event indexer started", {
+      contracts: this.contractIds.length,
+      pollIntervalMs: this.pollIntervalMs,
+    });
+    void this.poll();
+  }
+
+  stop(): void {
+    this.running = false;
+
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Index every configured contract once
+   */
+  async indexAll(): Promise<IndexRunResult[]> {
+    const results: IndexRunResult[] = [];
+    for (const contractId of this.contractIds) {
+      try {
+        results.push(await this.indexContract(contractId));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error("Failed to index Soroban events", {
+          contractId,
+          error: message,
+        });
+        await this.checkpointRepository.update(
+          { contractId },
+          { lastError: message }
+        );
+      }
+    }
+    return results;
   }
 
   /**
-   * Requirement 93: Index and store Soroban contract events.
-   * Priority: High
+   * Page through new events of a contract and store them, advancing its
+   * checkpoint after every page
    */
-  async fetchContractEvents(
-    contractId: string, 
-    startLedger: number
-  ): Promise<DecodedEvent[]> {
-    try {
-      // 1. Fetch events from RPC
-      const response = await this.server.getEvents({
-        startLedger: startLedger,
-        filters: [
-          {
-            type: "contract",
-            contractIds: [contractId],
-          },
-        ],
+  async indexContract(contractId: string): Promise<IndexRunResult> {
+    const server = this.getServer();
+    const health = await server.getHealth();
+    const checkpoint = await this.loadCheckpoint(contractId, health);
+    const result: IndexRunResult = {
+      contractId,
+      indexed: 0,
+      lastLedger: checkpoint.lastLedger,
+    };
+
+    // Events between the checkpoint and the retention window are lost
+    const nextLedger = checkpoint.lastLedger + 1;
+    if (nextLedger < health.oldestLedger) {
+      const gap: IndexGap = {
+        fromLedger: nextLedger,
+        toLedger: health.oldestLedger - 1,
+        detectedAt: new Date().toISOString(),
+      };
+      logger.warn("Soroban events pruned before they were indexed", {
+        contractId,
+        ...gap,
+      });
+      checkpoint.gaps = [...checkpoint.gaps, gap];
+      checkpoint.lastLedger = health.oldestLedger - 1;
+      checkpoint.cursor = null;
+      result.gap = gap;
+    }
+
+    const filters = [{ type: "contract" as const, contractIds: [contractId] }];
+    for (;;) {
+      const response = await server.getEvents(
+        checkpoint.cursor
+          ? { filters, cursor: checkpoint.cursor, limit: this.pageLimit }
+          : {
+              filters,
+              startLedger: checkpoint.lastLedger + 1,
+              limit: this.pageLimit,
+            }
+      );
+
+      const events = response.events.map((event) =>
+        this.decodeEvent(event, contractId)
+      );
+      await this.saveEvents(events);
+      result.indexed += events.length;
+
+      const isLastPage = response.events.length < this.pageLimit;
+      checkpoint.cursor = response.cursor;
+      checkpoint.lastLedger = isLastPage
+        ? Math.max(checkpoint.lastLedger, response.latestLedger)
+        : Math.max(checkpoint.lastLedger, events[events.length - 1].ledger - 1);
+      checkpoint.lastError = null;
+      await this.checkpointRepository.save(checkpoint);
+
+      if (isLastPage) break;
+    }
+
+    result.lastLedger = checkpoint.lastLedger;
+    if (result.indexed > 0) {
+      logger.info("Indexed Soroban events", {
+        contractId,
+        indexed: result.indexed,
+        lastLedger: result.lastLedger,
       });
+    }
+    return result;
+  }
 
-      // 2. Decode XDR events into native JS types
-      const decodedEvents: DecodedEvent[] = response.events.map((event) => {
-        // Topic is an array of ScVals, usually [EventName, ...Data]
-        const topics = event.topic.map((t) => StellarSdk.scValToNative(t));
-        const value = StellarSdk.scValToNative(event.value);
-
-        return {
-          id: event.id,
-          contractId: event.contractId,
-          topic: topics,
-          value: value,
-          ledger: event.ledger,
-          ledgerClosedAt: event.ledgerClosedAt,
-        };
+  /**
+   * Query indexed events, oldest first
+   */
+  async queryEvents(query: EventQuery): Promise<EventPage> {
+    const limit = Math.min(Math.max(query.limit ?? 50, 1), MAX_QUERY_LIMIT);
+    const where: FindOptionsWhere<SorobanEvent> = {};
+
+    if (query.contractId) where.contractId = query.contractId;
+    if (query.topic) where.topic0 = query.topic;
+    if (query.fromLedger !== undefined && query.toLedger !== undefined) {
+      where.ledger = And(
+        MoreThanOrEqual(query.fromLedger),
+        LessThanOrEqual(query.toLedger)
+      );
+    } else if (query.fromLedger !== undefined) {
+      where.ledger = MoreThanOrEqual(query.fromLedger);
+    } else if (query.toLedger !== undefined) {
+      where.ledger = LessThanOrEqual(query.toLedger);
+    }
+    if (query.cursor) where.id = MoreThan(query.cursor);
+
+    const records = await this.eventRepository.find({
+      where,
+      order: { id: "ASC" },
+      take: limit + 1,
+    });
+
+    const page = records.slice(0, limit).map((record) => this.toEvent(record));
+    return {
+      events: page,
+      ...(records.length > limit
+        ? { nextCursor: page[page.length - 1].id }
+        : {}),
+    };
+  }
+
+  async getCheckpoint(
+    contractId: string
+  ): Promise<SorobanEventCheckpoint | null> {
+    return this.checkpointRepository.findOne({ where: { contractId } });
+  }
+
+  /**
+   * The RPC client is created on first use so a disabled indexer never
+   * connects
+   */
+  private getServer(): SorobanRpcLike {
+    if (!this.server) {
+      this.server = new StellarSdk.rpc.Server(networkConfig.rpcUrl, {
+        allowHttp: networkConfig.rpcUrl.startsWith("http://"),
       });
+    }
+    return this.server;
+  }
 
-      // 3. (Integration Point) Save to DB
-      await this.saveEventsToDatabase(decodedEvents);
+  private async poll(): Promise<void> {
+    await this.indexAll();
 
-      return decodedEvents;
-    } catch (error) {
-      console.error("Failed to index Soroban events:", error);
-      throw error;
+    if (this.running) {
+      this.pollTimer = setTimeout(() => {
+        this.pollTimer = null;
+        void this.poll();
+      }, this.pollIntervalMs);
     }
   }
 
-  private async saveEventsToDatabase(events: DecodedEvent[]) {
-    // Logic to persist events to PostgreSQL/MongoDB/Redis
-    // This allows the /history endpoint to serve data instantly
-    console.log(`Indexed ${events.length} events for ChenPilot contracts.`);
+  private async loadCheckpoint(
+    contractId: string,
+    health: StellarSdk.rpc.Api.GetHealthResponse
+  ): Promise<SorobanEventCheckpoint> {
+    const existing = await this.checkpointRepository.findOne({
+      where: { contractId },
+    });
+    if (existing) return existing;
+
+    // New contracts start at the configured ledger or backfill the whole
+    // retention window
+    return this.checkpointRepository.create({
+      contractId,
+      lastLedger: (this.startLedger ?? health.oldestLedger) - 1,
+      cursor: null,
+      gaps: [],
+    });
+  }
+
+  private decodeEvent(
+    event: StellarSdk.rpc.Api.EventResponse,
+    contractId: string
+  ): DecodedEvent {
+    return {
+      id: event.id,
+      contractId: event.contractId?.contractId() ?? contractId,
+      type: event.type,
+      // Topic is an array of ScVals, usually [EventName, ...Data]
+      topic: event.topic.map((topic) =>
+        toJsonValue(StellarSdk.scValToNative(topic))
+      ),
+      value: toJsonValue(StellarSdk.scValToNative(event.value)),
+      ledger: event.ledger,
+      ledgerClosedAt: event.ledgerClosedAt,
+      txHash: event.txHash,
+      inSuccessfulContractCall: event.inSuccessfulContractCall,
+    };
   }
-}
\ No newline at end of file
+
+  private async saveEvents(events: DecodedEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    const records = events.map((event) => {
+      const record: Partial<SorobanEvent> = {
+        id: event.id,
+        contractId: event.contractId,
+        type: event.type,
+        ledger: event.ledger,
+        ledgerClosedAt: new Date(event.ledgerClosedAt),
+        txHash: event.txHash,
+        topic: event.topic,
+        value: event.value,
+        inSuccessfulContractCall: event.inSuccessfulContractCall,
+      };
+      TOPIC_COLUMNS.forEach((column, index) => {
+        record[column] =
+          index < event.topic.length ? toTopicKey(event.topic[index]) : null;
+      });
+      return record;
+    });
+
+    // Re-indexing a page after a restart must not duplicate events
+    await this.eventRepository.upsert(
+      records as QueryDeepPartialEntity<SorobanEvent>[],
+      ["id"]
+    );
+  }
+
+  private toEvent(record: SorobanEvent): DecodedEvent {
+    return {
+      id: record.id,
+      contractId: record.contractId,
+      type: record.type,
+      topic: record.topic,
+      value: record.value,
+      ledger: record.ledger,
+      ledgerClosedAt: new Date(record.ledgerClosedAt).toISOString(),
+      txHash: record.txHash,
+      inSuccessfulContractCall: record.inSuccessfulContractCall,
+    };
+  }
+}
+
+export const eventIndexingService = new EventIndexingService();
@@ -0,0 +1,205 @@
+import { Router, Request, Response } from "express";
+import { StrKey } from "@stellar/stellar-sdk";
+import { authenticateToken } from "../Auth/auth.middleware";
+import logger from "../config/logger";
+import {
+  MultisigError,
+  MultisigNotFoundError,
+  MultisigStateError,
+  multisigService,
+} from "./multisigCoordinationService";
+import { MultisigTransaction } from "./multisigTransaction.entity";
+
+const router = Router();
+
+function serializeTransaction(session: MultisigTransaction) {
+  return {
+    hash: session.hash,
+    sourceAccount: session.sourceAccount,
+    networkPassphrase: session.networkPassphrase,
+    xdr: session.xdr,
+    status: session.status,
+    thresholdLevel: session.thresholdLevel,
+    requiredWeight: session.requiredWeight,
+    currentWeight: session.currentWeight,
+    signers: session.signers,
+    signedBy: session.signatures.map((signature) => signature.publicKey),
+    expiresAt: session.expiresAt,
+    createdAt: session.createdAt,
+    ...(session.txHash ? { txHash: session.txHash } : {}),
+    ...(session.error ? { error: session.error } : {}),
+  };
+}
+
+/**
+ * Map multisig failures to HTTP responses
+ */
+function handleMultisigError(res: Response, error: unknown, message: string) {
+  if (error instanceof MultisigNotFoundError) {
+    return res.status(404).json({ success: false, message: error.message });
+  }
+  if (error instanceof MultisigStateError) {
+    return res.status(409).json({ success: false, message: error.message });
+  }
+  if (error instanceof MultisigError) {
+    return res.status(422).json({ success: false, message: error.message });
+  }
+
+  logger.error(message, { error });
+  return res.status(500).json({ success: false, message });
+}
+
+/**
+ * POST /multisig/transactions - Start collecting signatures
+ * Body: { xdr, ttlMinutes? }
+ * Signers and thresholds are loaded from the source account on Horizon
+ */
+router.post(
+  "/transactions",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const { xdr, ttlMinutes } = req.body ?? {};
+    if (typeof xdr !== "string" || !xdr) {
+      return res
+        .status(400)
+        .json({ success: false, message: "xdr is required" });
+    }
+    if (
+      ttlMinutes !== undefined &&
+      (typeof ttlMinutes !== "number" || ttlMinutes <= 0)
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: "ttlMinutes must be a positive number",
+      });
+    }
+
+    try {
+      const session = await multisigService.createPendingTransaction({
+        xdr,
+        createdBy: req.user!.userId,
+        ...(ttlMinutes ? { ttlMs: ttlMinutes * 60 * 1000 } : {}),
+      });
+      return res
+        .status(201)
+        .json({ success: true, transaction: serializeTransaction(session) });
+    } catch (error) {
+      return handleMultisigError(
+        res,
+        error,
+        "Failed to create multisig transaction"
+      );
+    }
+  }
+);
+
+/**
+ * GET /multisig/signers/:publicKey/pending - Transactions awaiting this signer
+ */
+router.get(
+  "/signers/:publicKey/pending",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const publicKey = req.params.publicKey as string;
+    if (!StrKey.isValidEd25519PublicKey(publicKey)) {
+      return res
+        .status(400)
+        .json({ success: false, message: "Invalid signer public key" });
+    }
+
+    try {
+      const sessions = await multisigService.listPendingForSigner(publicKey);
+      return res.status(200).json({
+        success: true,
+        transactions: sessions.map(serializeTransaction),
+      });
+    } catch (error) {
+      return handleMultisigError(
+        res,
+        error,
+        "Failed to list pending multisig transactions"
+      );
+    }
+  }
+);
+
+/**
+ * GET /multisig/transactions/:hash - Signing progress of a transaction
+ */
+router.get(
+  "/transactions/:hash",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const session = await multisigService.getTransaction(
+        req.params.hash as string
+      );
+      return res
+        .status(200)
+        .json({ success: true, transaction: serializeTransaction(session) });
+    } catch (error) {
+      return handleMultisigError(
+        res,
+        error,
+        "Failed to get multisig transaction"
+      );
+    }
+  }
+);
+
+/**
+ * POST /multisig/transactions/:hash/signatures - Add signatures
+ * Body: { signature } with a base64 DecoratedSignature, or { signedXdr }
+ */
+router.post(
+  "/transactions/:hash/signatures",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const { signature, signedXdr } = req.body ?? {};
+    if (typeof signature !== "string" && typeof signedXdr !== "string") {
+      return res.status(400).json({
+        success: false,
+        message: "signature or signedXdr is required",
+      });
+    }
+
+    try {
+      const session = await multisigService.addSignature(
+        req.params.hash as string,
+        {
+          ...(typeof signature === "string" ? { signature } : {}),
+          ...(typeof signedXdr === "string" ? { signedXdr } : {}),
+        }
+      );
+      return res
+        .status(200)
+        .json({ success: true, transaction: serializeTransaction(session) });
+    } catch (error) {
+      return handleMultisigError(res, error, "Failed to add signature");
+    }
+  }
+);
+
+/**
+ * POST /multisig/transactions/:hash/submit - Submit once the threshold is met
+ */
+router.post(
+  "/transactions/:hash/submit",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const session = await multisigService.submit(req.params.hash as string);
+      return res
+        .status(200)
+        .json({ success: true, transaction: serializeTransaction(session) });
+    } catch (error) {
+      return handleMultisigError(
+        res,
+        error,
+        "Failed to submit multisig transaction"
+      );
+    }
+  }
+);
+
+export default router;
@@ -1,76 +1,451 @@
 import * as StellarSdk from "@stellar/stellar-sdk";
+import { ArrayContains, MoreThan, Repository } from "typeorm";
+import AppDataSource from "../config/Datasource";
+import config from "../config/config";
+import logger from "../config/logger";
+import {
+  CollectedSignature,
+  MultisigSigner,
+  MultisigTransaction,
+  ThresholdLevel,
+} from "./multisigTransaction.entity";
 
-export interface PendingTransaction {
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Operations authorised by the low threshold; account merges and signer or
+// threshold changes need the high threshold, everything else the medium one
+const LOW_THRESHOLD_OPERATIONS = new Set([
+  "allowTrust",
+  "setTrustLineFlags",
+  "bumpSequence",
+  "claimClaimableBalance",
+  "extendFootprintTtl",
+  "restoreFootprint",
+]);
+
+const THRESHOLD_RANK: Record<ThresholdLevel, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+};
+
+export interface CreateMultisigParams {
   xdr: string;
-  hash: string;
-  signatures: Set<string>; // Set of XDR-encoded decorated signatures
-  requiredThreshold: number;
-  currentWeight: number;
-  status: "PENDING" | "READY" | "SUBMITTED";
+  createdBy: string;
+  networkPassphrase?: string;
+  /** Session lifetime; capped by the transaction's own time bounds */
+  ttlMs?: number;
+}
+
+export interface AddSignatureParams {
+  /** Base64 DecoratedSignature XDR */
+  signature?: string;
+  /** Envelope signed by one or more signers; all its signatures are collected */
+  signedXdr?: string;
+}
+
+export class MultisigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MultisigError";
+  }
+}
+
+export class MultisigNotFoundError extends Error {
+  constructor(public readonly hash: string) {
+    super(`Multisig transaction not found: ${hash}`);
+    this.name = "MultisigNotFoundError";
+  }
+}
+
+export class MultisigStateError extends Error {
+  constructor(
+    public readonly hash: string,
+    public readonly status: MultisigTransaction["status"]
+  ) {
+    super(`Multisig transaction ${hash} is ${status}`);
+    this.name = "MultisigStateError";
+  }
+}
+
+/**
+ * Threshold level a transaction needs from its source account: the highest
+ * level required by any of its operations
+ */
+export function getRequiredThresholdLevel(
+  transaction: StellarSdk.Transaction
+): ThresholdLevel {
+  let level: ThresholdLevel = "low";
+  for (const operation of transaction.operations) {
+    const required = getOperationThresholdLevel(operation);
+    if (THRESHOLD_RANK[required] > THRESHOLD_RANK[level]) {
+      level = required;
+    }
+  }
+  return level;
+}
+
+function getOperationThresholdLevel(
+  operation: StellarSdk.Operation
+): ThresholdLevel {
+  if (operation.type === "accountMerge") return "high";
+  if (operation.type === "setOptions") {
+    const changesAuth =
+      operation.signer !== undefined ||
+      operation.masterWeight !== undefined ||
+      operation.lowThreshold !== undefined ||
+      operation.medThreshold !== undefined ||
+      operation.highThreshold !== undefined;
+    return changesAuth ? "high" : "medium";
+  }
+  return LOW_THRESHOLD_OPERATIONS.has(operation.type) ? "low" : "medium";
 }
 
+/**
+ * Coordinates off-chain signature collection for transactions whose source
+ * account needs several signers. Signers and thresholds come from the
+ * account on Horizon; every signature is verified against the transaction
+ * hash and weighted by the signer's weight on the account.
+ */
 export class MultisigCoordinationService {
-  // In a production app, this would be backed by a database (e.g., PostgreSQL/Redis)
-  private pendingTransactions: Map<string, PendingTransaction> = new Map();
+  private repository: Repository<MultisigTransaction>;
+  private server: StellarSdk.Horizon.Server;
+
+  constructor() {
+    this.repository = AppDataSource.getRepository(MultisigTransaction);
+    this.server = new StellarSdk.Horizon.Server(config.stellar.horizonUrl);
+  }
+
+  /**
+   * Start collecting signatures for a transaction. Signatures already on the
+   * envelope are verified and counted.
+   */
+  async createPendingTransaction(
+    params: CreateMultisigParams
+  ): Promise<MultisigTransaction> {
+    const networkPassphrase =
+      params.networkPassphrase ?? config.stellar.networkPassphrase;
+    const transaction = this.parseTransaction(params.xdr, networkPassphrase);
+    const hash = transaction.hash().toString("hex");
+
+    if (await this.repository.findOne({ where: { hash } })) {
+      throw new MultisigError(`Transaction ${hash} is already being signed`);
+    }
+    for (const operation of transaction.operations) {
+      if (operation.source && operation.source !== transaction.source) {
+        throw new MultisigError(
+          "Operations with their own source account are not supported"
+        );
+      }
+    }
+
+    const account = await this.server.loadAccount(transaction.source);
+    const signers: MultisigSigner[] = account.signers
+      .filter(
+        (signer) => signer.type === "ed25519_public_key" && signer.weight > 0
+      )
+      .map((signer) => ({ key: signer.key, weight: signer.weight }));
+    const thresholdLevel = getRequiredThresholdLevel(transaction);
+    const threshold = {
+      low: account.thresholds.low_threshold,
+      medium: account.thresholds.med_threshold,
+      high: account.thresholds.high_threshold,
+    }[thresholdLevel];
+
+    const signatures = transaction.signatures.map((signature) =>
+      this.verifySignature(transaction, signers, signature)
+    );
+
+    // Keep the envelope unsigned; signatures are attached on assembly
+    const unsigned = this.parseTransaction(params.xdr, networkPassphrase);
+    unsigned.signatures.splice(0);
+
+    const session = this.repository.create({
+      hash,
+      createdBy: params.createdBy,
+      sourceAccount: transaction.source,
+      networkPassphrase,
+      xdr: unsigned.toXDR(),
+      thresholdLevel,
+      // A zero threshold still needs one valid signature
+      requiredWeight: Math.max(threshold, 1),
+      signers,
+      signerKeys: signers.map((signer) => signer.key),
+      signatures: [],
+      status: "pending",
+      expiresAt: this.getExpiry(transaction, params.ttlMs),
+    });
+    this.collect(session, signatures);
+
+    const saved = await this.repository.save(session);
+    logger.info("Multisig transaction created", {
+      hash,
+      sourceAccount: saved.sourceAccount,
+      thresholdLevel,
+      requiredWeight: saved.requiredWeight,
+      currentWeight: saved.currentWeight,
+    });
+    return saved;
+  }
 
   /**
-   * Requirement: Initialize a multi-sig coordination session
+   * Verify and collect signatures, either a single decorated signature or
+   * every signature on a signed envelope. Weights always come from the
+   * account's signer list.
    */
-  async createPendingTransaction(xdr: string, threshold: number): Promise<string> {
-    const tx = new StellarSdk.Transaction(xdr, StellarSdk.Networks.TESTNET);
-    const hash = tx.hash().toString("hex");
+  async addSignature(
+    hash: string,
+    params: AddSignatureParams
+  ): Promise<MultisigTransaction> {
+    // Marks the session expired once it lapses
+    await this.getTransaction(hash);
+
+    const saved = await this.repository.manager.transaction(async (manager) => {
+      const repository = manager.getRepository(MultisigTransaction);
+      // Signers submitting at the same time wait for each other's write
+      // instead of overwriting each other's signatures
+      const session = await repository.findOne({
+        where: { hash },
+        lock: { mode: "pessimistic_write" },
+      });
+      if (!session) {
+        throw new MultisigNotFoundError(hash);
+      }
+      if (session.status !== "pending" && session.status !== "ready") {
+        throw new MultisigStateError(hash, session.status);
+      }
+
+      const transaction = this.parseTransaction(
+        session.xdr,
+        session.networkPassphrase
+      );
+      const signatures = this.decodeSignatures(session, params).map(
+        (signature) =>
+          this.verifySignature(transaction, session.signers, signature)
+      );
+      if (signatures.length === 0) {
+        throw new MultisigError("No signatures provided");
+      }
 
-    this.pendingTransactions.set(hash, {
-      xdr,
+      this.collect(session, signatures);
+      return repository.save(session);
+    });
+
+    logger.info("Multisig signature added", {
       hash,
-      signatures: new Set(),
-      requiredThreshold: threshold,
-      currentWeight: 0,
-      status: "PENDING"
+      currentWeight: saved.currentWeight,
+      requiredWeight: saved.requiredWeight,
+      status: saved.status,
     });
+    return saved;
+  }
 
-    return hash;
+  /**
+   * Compile the transaction with every collected signature attached
+   */
+  async assembleFinalTransaction(hash: string): Promise<string> {
+    const session = await this.getTransaction(hash);
+    if (session.status !== "ready") {
+      throw new MultisigStateError(hash, session.status);
+    }
+    return this.assemble(session).toXDR();
   }
 
   /**
-   * Requirement: Collect and validate signatures off-chain
+   * Submit a transaction that has collected enough signature weight
    */
-  async addSignature(hash: string, signatureXdr: string, signerWeight: number = 1): Promise<PendingTransaction> {
-    const pending = this.pendingTransactions.get(hash);
-    if (!pending) throw new Error("Transaction not found");
-
-    // Add signature to the set
-    pending.signatures.add(signatureXdr);
-    
-    // Update accumulated weight
-    pending.currentWeight += signerWeight;
-
-    // Check if we met the required threshold
-    if (pending.currentWeight >= pending.requiredThreshold) {
-      pending.status = "READY";
+  async submit(hash: string): Promise<MultisigTransaction> {
+    const session = await this.getTransaction(hash);
+    if (session.status !== "ready") {
+      throw new MultisigStateError(hash, session.status);
     }
 
-    return pending;
+    try {
+      const result = await this.server.submitTransaction(
+        this.assemble(session)
+      );
+      session.status = "submitted";
+      session.txHash = result.hash;
+      session.submittedAt = new Date();
+      session.error = null;
+    } catch (error) {
+      session.status = "failed";
+      session.error = error instanceof Error ? error.message : String(error);
+      await this.repository.save(session);
+      logger.error("Multisig transaction submission failed", {
+        hash,
+        error: session.error,
+      });
+      throw new MultisigError(`Submission failed: ${session.error}`);
+    }
+
+    const saved = await this.repository.save(session);
+    logger.info("Multisig transaction submitted", {
+      hash,
+      txHash: saved.txHash,
+    });
+    return saved;
+  }
+
+  async getTransaction(hash: string): Promise<MultisigTransaction> {
+    const session = await this.repository.findOne({ where: { hash } });
+    if (!session) {
+      throw new MultisigNotFoundError(hash);
+    }
+
+    if (
+      (session.status === "pending" || session.status === "ready") &&
+      session.expiresAt.getTime() <= Date.now()
+    ) {
+      session.status = "expired";
+      await this.repository.save(session);
+    }
+    return session;
   }
 
   /**
-   * Compiles the final transaction with all collected signatures
+   * Transactions that still need a signature from `publicKey`
    */
-  assembleFinalTransaction(hash: string): string {
-    const pending = this.pendingTransactions.get(hash);
-    if (!pending || pending.status !== "READY") {
-      throw new Error("Transaction is not ready for submission");
+  async listPendingForSigner(
+    publicKey: string
+  ): Promise<MultisigTransaction[]> {
+    const sessions = await this.repository.find({
+      where: {
+        status: "pending",
+        signerKeys: ArrayContains([publicKey]),
+        expiresAt: MoreThan(new Date()),
+      },
+      order: { createdAt: "DESC" },
+    });
+
+    return sessions.filter(
+      (session) =>
+        !session.signatures.some(
+          (signature) => signature.publicKey === publicKey
+        )
+    );
+  }
+
+  private decodeSignatures(
+    session: MultisigTransaction,
+    params: AddSignatureParams
+  ): StellarSdk.xdr.DecoratedSignature[] {
+    const signatures: StellarSdk.xdr.DecoratedSignature[] = [];
+
+    if (params.signature) {
+      try {
+        signatures.push(
+          StellarSdk.xdr.DecoratedSignature.fromXDR(params.signature, "base64")
+        );
+      } catch {
+        throw new MultisigError("Signature is not a valid DecoratedSignature");
+      }
     }
 
-    const tx = new StellarSdk.Transaction(pending.xdr, StellarSdk.Networks.TESTNET);
-    
-    // Add all collected signatures to the transaction object
-    pending.signatures.forEach(sigXdr => {
-      // Logic to decode and append decorated signatures would go here
+    if (params.signedXdr) {
+      const signed = this.parseTransaction(
+        params.signedXdr,
+        session.networkPassphrase
+      );
+      if (signed.hash().toString("hex") !== session.hash) {
+        throw new MultisigError(
+          "Signed envelope does not match the transaction"
+        );
+      }
+      signatures.push(...signed.signatures);
+    }
+
+    return signatures;
+  }
+
+  private verifySignature(
+    transaction: StellarSdk.Transaction,
+    signers: MultisigSigner[],
+    signature: StellarSdk.xdr.DecoratedSignature
+  ): CollectedSignature {
+    const hash = transaction.hash();
+    const signer = signers.find((candidate) => {
+      const keypair = StellarSdk.Keypair.fromPublicKey(candidate.key);
+      return (
+        keypair.signatureHint().equals(signature.hint()) &&
+        keypair.verify(hash, signature.signature())
+      );
     });
 
-    return tx.toXDR();
+    if (!signer) {
+      throw new MultisigError(
+        "Signature is not valid for any signer of the source account"
+      );
+    }
+
+    return {
+      publicKey: signer.key,
+      weight: signer.weight,
+      signature: signature.toXDR("base64"),
+      addedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Add verified signatures, counting each signer once
+   */
+  private collect(
+    session: MultisigTransaction,
+    signatures: CollectedSignature[]
+  ): void {
+    for (const signature of signatures) {
+      if (
+        !session.signatures.some(
+          (existing) => existing.publicKey === signature.publicKey
+        )
+      ) {
+        session.signatures.push(signature);
+      }
+    }
+
+    session.currentWeight = session.signatures.reduce(
+      (total, signature) => total + signature.weight,
+      0
+    );
+    session.status =
+      session.currentWeight >= session.requiredWeight ? "ready" : "pending";
+  }
+
+  private assemble(session: MultisigTransaction): StellarSdk.Transaction {
+    const transaction = this.parseTransaction(
+      session.xdr,
+      session.networkPassphrase
+    );
+    for (const signature of session.signatures) {
+      transaction.signatures.push(
+        StellarSdk.xdr.DecoratedSignature.fromXDR(signature.signature, "base64")
+      );
+    }
+    return transaction;
+  }
+
+  private parseTransaction(
+    xdr: string,
+    networkPassphrase: string
+  ): StellarSdk.Transaction {
+    try {
+      return new StellarSdk.Transaction(xdr, networkPassphrase);
+    } catch {
+      throw new MultisigError("Invalid transaction XDR");
+    }
+  }
+
+  private getExpiry(
+    transaction: StellarSdk.Transaction,
+    ttlMs = DEFAULT_TTL_MS
+  ): Date {
+    let expiresAt = Date.now() + ttlMs;
+    const maxTime = Number(transaction.timeBounds?.maxTime ?? 0);
+    if (maxTime > 0) {
+      expiresAt = Math.min(expiresAt, maxTime * 1000);
+    }
+    return new Date(expiresAt);
   }
 }
 
-export const multisigService = new MultisigCoordinationService();
\ No newline at end of file
+export const multisigService = new MultisigCoordinationService();
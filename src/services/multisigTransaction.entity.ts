@@ -0,0 +1,98 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from "typeorm";
+
+export type MultisigStatus =
+  | "pending"
+  | "ready"
+  | "submitted"
+  | "failed"
+  | "expired";
+
+export type ThresholdLevel = "low" | "medium" | "high";
+
+export interface MultisigSigner {
+  key: string;
+  weight: number;
+}
+
+export interface CollectedSignature {
+  publicKey: string;
+  weight: number;
+  /** Base64 DecoratedSignature XDR */
+  signature: string;
+  addedAt: string;
+}
+
+/**
+ * Transaction collecting signatures from the signers of its source account.
+ * The unsigned envelope is kept as submitted; verified signatures are stored
+ * separately and attached when the transaction is assembled.
+ */
+@Entity("multisig_transaction")
+@Index(["hash"], { unique: true })
+@Index(["status", "expiresAt"])
+export class MultisigTransaction {
+  @PrimaryGeneratedColumn("uuid")
+  id!: string;
+
+  @Column({ type: "varchar", length: 64 })
+  hash!: string;
+
+  @Column({ type: "varchar" })
+  createdBy!: string;
+
+  @Column({ type: "varchar" })
+  sourceAccount!: string;
+
+  @Column({ type: "varchar" })
+  networkPassphrase!: string;
+
+  @Column({ type: "text" })
+  xdr!: string;
+
+  @Column({ type: "varchar", length: 10 })
+  thresholdLevel!: ThresholdLevel;
+
+  @Column({ type: "int" })
+  requiredWeight!: number;
+
+  @Column({ type: "int", default: 0 })
+  currentWeight!: number;
+
+  @Column({ type: "jsonb" })
+  signers!: MultisigSigner[];
+
+  /** Signer public keys, for looking up transactions awaiting a signer */
+  @Column({ type: "text", array: true })
+  signerKeys!: string[];
+
+  @Column({ type: "jsonb", default: () => "'[]'" })
+  signatures!: CollectedSignature[];
+
+  @Column({ type: "varchar", length: 20, default: "pending" })
+  status!: MultisigStatus;
+
+  @Column({ type: "varchar", nullable: true })
+  txHash?: string | null;
+
+  @Column({ type: "text", nullable: true })
+  error?: string | null;
+
+  @Column({ type: "timestamp" })
+  expiresAt!: Date;
+
+  @Column({ type: "timestamp", nullable: true })
+  submittedAt?: Date | null;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
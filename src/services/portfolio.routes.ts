@@ -0,0 +1,64 @@
+import { Router, Request, Response } from "express";
+import { authenticateToken } from "../Auth/auth.middleware";
+import logger from "../config/logger";
+import {
+  CostBasisMethod,
+  COST_BASIS_METHODS,
+  PortfolioError,
+  portfolioService,
+} from "./portfolio.service";
+
+const router = Router();
+
+/**
+ * GET /portfolio - Cost basis and P&L of the authenticated user's holdings
+ * Query: method (fifo | lifo | average), quoteAsset (default USDC),
+ * startDate, endDate (window for realized P&L), asset
+ */
+router.get("/", authenticateToken, async (req: Request, res: Response) => {
+  const { method, quoteAsset, startDate, endDate, asset } = req.query as Record<
+    string,
+    string | undefined
+  >;
+
+  if (method && !COST_BASIS_METHODS.includes(method as CostBasisMethod)) {
+    return res.status(400).json({
+      success: false,
+      message: `Invalid method. Must be one of: ${COST_BASIS_METHODS.join(", ")}`,
+    });
+  }
+
+  for (const [name, value] of Object.entries({ startDate, endDate })) {
+    if (value && isNaN(Date.parse(value))) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid ${name} format. Use ISO 8601 format (e.g., 2024-01-01T00:00:00Z)`,
+      });
+    }
+  }
+
+  try {
+    const portfolio = await portfolioService.getPortfolio(req.user!.userId, {
+      method: method as CostBasisMethod | undefined,
+      quoteAsset,
+      startDate,
+      endDate,
+      asset,
+    });
+
+    return res.status(200).json({ success: true, portfolio });
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return res.status(error.message === "User not found" ? 404 : 400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    logger.error("Failed to compute portfolio", { error });
+    return res
+      .status(500)
+      .json({ success: false, message: "Failed to compute portfolio" });
+  }
+});
+
+export default router;
@@ -0,0 +1,602 @@
+import { Repository } from "typeorm";
+import AppDataSource from "../config/Datasource";
+import logger from "../config/logger";
+import { User } from "../Auth/user.entity";
+import {
+  transactionHistoryService,
+  TransactionHistoryItem,
+} from "../Gateway/transaction.service";
+import stellarPriceService from "./stellarPrice.service";
+
+export type CostBasisMethod = "fifo" | "lifo" | "average";
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = [
+  "fifo",
+  "lifo",
+  "average",
+];
+
+export interface PortfolioQuery {
+  method?: CostBasisMethod;
+  /** Asset symbol P&L is expressed in; defaults to USDC */
+  quoteAsset?: string;
+  /** Only disposals inside the window count towards realized P&L */
+  startDate?: string;
+  endDate?: string;
+  /** Limit the report to one asset (`XLM`, a code or `CODE:ISSUER`) */
+  asset?: string;
+}
+
+export interface Lot {
+  quantity: number;
+  /** Cost per unit in the quote asset */
+  unitCost: number;
+  acquiredAt: string;
+  transactionHash: string;
+}
+
+export interface AssetPosition {
+  asset: string;
+  quantity: number;
+  costBasis: number;
+  averageCost: number | null;
+  marketPrice: number | null;
+  marketValue: number | null;
+  unrealizedPnl: number | null;
+  realizedPnl: number;
+  lots: Lot[];
+}
+
+export interface PortfolioReport {
+  userId: string;
+  account: string;
+  method: CostBasisMethod;
+  quoteAsset: string;
+  startDate?: string;
+  endDate?: string;
+  positions: AssetPosition[];
+  totals: {
+    costBasis: number;
+    marketValue: number;
+    realizedPnl: number;
+    unrealizedPnl: number;
+    feesPaid: number;
+  };
+  warnings: string[];
+  generatedAt: string;
+}
+
+/**
+ * A swap with the P&L it realized, valued in the quote asset
+ */
+export interface RealizedTrade {
+  transactionHash: string;
+  executedAt: string;
+  soldAsset: string;
+  soldAmount: number;
+  boughtAsset: string;
+  boughtAmount: number;
+  /** Value of the trade at execution time, null when it could not be priced */
+  value: number | null;
+  costBasis: number;
+  realizedPnl: number | null;
+  /** Transaction fee in XLM, attributed to the first trade of a transaction */
+  fee: number;
+  feeValue: number | null;
+}
+
+export class PortfolioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PortfolioError";
+  }
+}
+
+interface Position {
+  asset: string;
+  lots: Lot[];
+  realizedPnl: number;
+}
+
+/** Stellar amounts have seven decimals; anything smaller is rounding noise */
+const DUST = 1e-7;
+const HISTORY_PAGE_SIZE = 100;
+const STROOPS_PER_XLM = 1e7;
+
+const round = (value: number): number => Math.round(value * 1e7) / 1e7;
+
+/**
+ * Portfolio accounting over a user's synced transaction history. Lots are
+ * rebuilt from funding, incoming and outgoing payments and path payments,
+ * where a path payment from the account to itself is a swap. Swaps realize
+ * P&L; transfers out and fees only consume lots. Acquisitions that are not
+ * swaps are costed at the historical DEX price.
+ */
+export class PortfolioService {
+  private userRepository: Repository<User>;
+
+  constructor() {
+    this.userRepository = AppDataSource.getRepository(User);
+  }
+
+  async getPortfolio(
+    userId: string,
+    query: PortfolioQuery = {}
+  ): Promise<PortfolioReport> {
+    this.validate(query);
+
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new PortfolioError("User not found");
+    }
+
+    const run = this.createRun(user.address, query);
+    for await (const transaction of this.history(user.address)) {
+      await run.apply(transaction);
+    }
+
+    return {
+      userId,
+      account: user.address,
+      ...(await run.report(query.asset)),
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Replay the history of an account and yield its swaps with the P&L each
+   * one realized, oldest first. The whole history is replayed so lots opened
+   * before the window are costed; only trades inside it are yielded.
+   */
+  async *realizedTrades(
+    account: string,
+    query: PortfolioQuery = {}
+  ): AsyncGenerator<RealizedTrade> {
+    this.validate(query);
+
+    const run = this.createRun(account, query);
+    for await (const transaction of this.history(account)) {
+      for (const trade of await run.apply(transaction)) {
+        if (run.inWindow(new Date(trade.executedAt))) {
+          yield trade;
+        }
+      }
+    }
+  }
+
+  /**
+   * Throw a PortfolioError for an invalid method or quote asset
+   */
+  validate(query: PortfolioQuery): void {
+    const method = query.method ?? "fifo";
+    if (!COST_BASIS_METHODS.includes(method)) {
+      throw new PortfolioError(
+        `Invalid cost basis method. Must be one of: ${COST_BASIS_METHODS.join(", ")}`
+      );
+    }
+
+    const quoteAsset = (query.quoteAsset ?? "USDC").toUpperCase();
+    try {
+      stellarPriceService.getAsset(quoteAsset);
+    } catch {
+      throw new PortfolioError(`Unsupported quote asset: ${quoteAsset}`);
+    }
+  }
+
+  private createRun(account: string, query: PortfolioQuery): PortfolioRun {
+    return new PortfolioRun(
+      account,
+      query.method ?? "fifo",
+      (query.quoteAsset ?? "USDC").toUpperCase(),
+      query
+    );
+  }
+
+  /**
+   * Page through the synced history of an account, oldest first
+   */
+  private async *history(
+    account: string
+  ): AsyncGenerator<TransactionHistoryItem> {
+    let cursor: string | undefined;
+
+    do {
+      const page = await transactionHistoryService.searchTransactions({
+        account,
+        limit: HISTORY_PAGE_SIZE,
+        cursor,
+        order: "asc",
+      });
+      yield* page.transactions;
+      cursor = page.pagination.nextCursor;
+    } while (cursor);
+  }
+}
+
+/**
+ * State of one portfolio computation
+ */
+class PortfolioRun {
+  private readonly positions = new Map<string, Position>();
+  private readonly prices = new Map<string, number | null>();
+  private readonly warnings = new Set<string>();
+  private readonly start?: Date;
+  private readonly end?: Date;
+  private feesPaid = 0;
+
+  constructor(
+    private readonly account: string,
+    private readonly method: CostBasisMethod,
+    private readonly quoteAsset: string,
+    query: PortfolioQuery
+  ) {
+    this.start = query.startDate ? new Date(query.startDate) : undefined;
+    this.end = query.endDate ? new Date(query.endDate) : undefined;
+  }
+
+  /**
+   * Apply a transaction to the lots and return the swaps it contained
+   */
+  async apply(transaction: TransactionHistoryItem): Promise<RealizedTrade[]> {
+    const trades: RealizedTrade[] = [];
+    if (!transaction.successful) {
+      return trades;
+    }
+
+    const at = new Date(transaction.createdAt);
+    const hash = transaction.hash;
+    const fee =
+      transaction.sourceAccount === this.account
+        ? transaction.feePaid / STROOPS_PER_XLM
+        : 0;
+
+    if (fee > 0) {
+      const cost = this.consume("XLM", fee, hash);
+      if (this.inWindow(at)) this.feesPaid += cost;
+    }
+
+    for (const op of transaction.operations) {
+      const amount = Number(op.amount ?? 0);
+      const fromSelf = op.from === this.account;
+      const toSelf = op.to === this.account;
+
+      switch (op.type) {
+        case "create_account":
+        case "payment": {
+          const asset =
+            op.asset ?? (op.type === "create_account" ? "XLM" : null);
+          if (!asset || (fromSelf && toSelf)) break;
+          if (toSelf) {
+            await this.acquireAtMarket(asset, amount, at, hash);
+          } else if (fromSelf) {
+            this.consume(asset, amount, hash);
+          }
+          break;
+        }
+        case "path_payment_strict_send":
+        case "path_payment_strict_receive": {
+          if (!op.asset || !op.sourceAsset) break;
+          const sourceAmount = Number(op.sourceAmount ?? 0);
+          if (fromSelf && toSelf) {
+            trades.push(
+              await this.swap(
+                op.sourceAsset,
+                sourceAmount,
+                op.asset,
+                amount,
+                at,
+                hash
+              )
+            );
+          } else if (toSelf) {
+            await this.acquireAtMarket(op.asset, amount, at, hash);
+          } else if (fromSelf) {
+            this.consume(op.sourceAsset, sourceAmount, hash);
+          }
+          break;
+        }
+      }
+    }
+
+    if (trades.length > 0 && fee > 0) {
+      const price = await this.historicalPrice("XLM", at, hash);
+      trades[0].fee = fee;
+      trades[0].feeValue = price !== null ? fee * price : null;
+    }
+    return trades;
+  }
+
+  async report(
+    assetFilter?: string
+  ): Promise<
+    Pick<
+      PortfolioReport,
+      | "method"
+      | "quoteAsset"
+      | "startDate"
+      | "endDate"
+      | "positions"
+      | "totals"
+      | "warnings"
+    >
+  > {
+    const positions: AssetPosition[] = [];
+
+    for (const position of this.positions.values()) {
+      if (assetFilter && !this.matchesAsset(position.asset, assetFilter)) {
+        continue;
+      }
+
+      const quantity = position.lots.reduce(
+        (sum, lot) => sum + lot.quantity,
+        0
+      );
+      const costBasis = position.lots.reduce(
+        (sum, lot) => sum + lot.quantity * lot.unitCost,
+        0
+      );
+      const marketPrice =
+        quantity > DUST ? await this.currentPrice(position.asset) : null;
+      const marketValue =
+        marketPrice !== null ? round(quantity * marketPrice) : null;
+
+      positions.push({
+        asset: position.asset,
+        quantity: round(quantity),
+        costBasis: round(costBasis),
+        averageCost: quantity > DUST ? round(costBasis / quantity) : null,
+        marketPrice,
+        marketValue,
+        unrealizedPnl:
+          marketValue !== null ? round(marketValue - costBasis) : null,
+        realizedPnl: round(position.realizedPnl),
+        lots: position.lots.map((lot) => ({
+          ...lot,
+          quantity: round(lot.quantity),
+          unitCost: round(lot.unitCost),
+        })),
+      });
+    }
+
+    const sum = (values: (number | null)[]) =>
+      round(values.reduce<number>((total, value) => total + (value ?? 0), 0));
+
+    return {
+      method: this.method,
+      quoteAsset: this.quoteAsset,
+      startDate: this.start?.toISOString(),
+      endDate: this.end?.toISOString(),
+      positions,
+      totals: {
+        costBasis: sum(positions.map((position) => position.costBasis)),
+        marketValue: sum(positions.map((position) => position.marketValue)),
+        realizedPnl: sum(positions.map((position) => position.realizedPnl)),
+        unrealizedPnl: sum(positions.map((position) => position.unrealizedPnl)),
+        feesPaid: round(this.feesPaid),
+      },
+      warnings: [...this.warnings],
+    };
+  }
+
+  inWindow(at: Date): boolean {
+    return (!this.start || at >= this.start) && (!this.end || at <= this.end);
+  }
+
+  private position(asset: string): Position {
+    let position = this.positions.get(asset);
+    if (!position) {
+      position = { asset, lots: [], realizedPnl: 0 };
+      this.positions.set(asset, position);
+    }
+    return position;
+  }
+
+  private acquire(
+    asset: string,
+    quantity: number,
+    cost: number,
+    at: Date,
+    hash: string
+  ): void {
+    if (quantity <= DUST) return;
+
+    const position = this.position(asset);
+    const lot: Lot = {
+      quantity,
+      unitCost: cost / quantity,
+      acquiredAt: at.toISOString(),
+      transactionHash: hash,
+    };
+
+    if (this.method === "average" && position.lots.length > 0) {
+      // Average cost keeps a single pooled lot
+      const [pooled] = position.lots;
+      const total = pooled.quantity + quantity;
+      pooled.unitCost = (pooled.quantity * pooled.unitCost + cost) / total;
+      pooled.quantity = total;
+      return;
+    }
+    position.lots.push(lot);
+  }
+
+  /**
+   * Remove quantity from the lots in method order and return its cost
+   */
+  private consume(asset: string, quantity: number, hash: string): number {
+    const position = this.position(asset);
+    let remaining = quantity;
+    let cost = 0;
+
+    while (remaining > DUST && position.lots.length > 0) {
+      const lot =
+        this.method === "lifo"
+          ? position.lots[position.lots.length - 1]
+          : position.lots[0];
+      const taken = Math.min(lot.quantity, remaining);
+      cost += taken * lot.unitCost;
+      lot.quantity -= taken;
+      remaining -= taken;
+
+      if (lot.quantity <= DUST) {
+        if (this.method === "lifo") position.lots.pop();
+        else position.lots.shift();
+      }
+    }
+
+    if (remaining > DUST) {
+      this.warnings.add(
+        `${asset} disposed in ${hash} exceeds the acquired quantity by ${round(remaining)}; history may be incomplete`
+      );
+    }
+    return cost;
+  }
+
+  private async acquireAtMarket(
+    asset: string,
+    quantity: number,
+    at: Date,
+    hash: string
+  ): Promise<void> {
+    const price = await this.historicalPrice(asset, at, hash);
+    this.acquire(asset, quantity, quantity * (price ?? 0), at, hash);
+  }
+
+  /**
+   * A swap realizes P&L on the sold asset and opens a lot of the bought
+   * asset at the same value
+   */
+  private async swap(
+    soldAsset: string,
+    soldQuantity: number,
+    boughtAsset: string,
+    boughtQuantity: number,
+    at: Date,
+    hash: string
+  ): Promise<RealizedTrade> {
+    let value: number | null = null;
+    if (this.isQuote(boughtAsset)) {
+      value = boughtQuantity;
+    } else if (this.isQuote(soldAsset)) {
+      value = soldQuantity;
+    } else {
+      const soldPrice = await this.historicalPrice(soldAsset, at, hash);
+      if (soldPrice !== null) {
+        value = soldQuantity * soldPrice;
+      } else {
+        const boughtPrice = await this.historicalPrice(boughtAsset, at, hash);
+        value = boughtPrice !== null ? boughtQuantity * boughtPrice : null;
+      }
+    }
+
+    const cost = this.consume(soldAsset, soldQuantity, hash);
+    if (value !== null && this.inWindow(at)) {
+      this.position(soldAsset).realizedPnl += value - cost;
+    }
+    this.acquire(boughtAsset, boughtQuantity, value ?? 0, at, hash);
+
+    return {
+      transactionHash: hash,
+      executedAt: at.toISOString(),
+      soldAsset,
+      soldAmount: soldQuantity,
+      boughtAsset,
+      boughtAmount: boughtQuantity,
+      value,
+      costBasis: cost,
+      realizedPnl: value !== null ? value - cost : null,
+      fee: 0,
+      feeValue: null,
+    };
+  }
+
+  /**
+   * Price symbol of a stored asset, or null when the price service does not
+   * know it. Assets with a lookalike code but another issuer are not priced.
+   */
+  private priceSymbol(asset: string): string | null {
+    const [code, issuer] = asset.split(":");
+    try {
+      const known = stellarPriceService.getAsset(code);
+      return !issuer || known.getIssuer() === issuer
+        ? code.toUpperCase()
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private isQuote(asset: string): boolean {
+    return this.priceSymbol(asset) === this.quoteAsset;
+  }
+
+  private matchesAsset(asset: string, filter: string): boolean {
+    return filter.includes(":")
+      ? asset === filter
+      : asset.split(":")[0].toUpperCase() === filter.toUpperCase();
+  }
+
+  private async historicalPrice(
+    asset: string,
+    at: Date,
+    hash: string
+  ): Promise<number | null> {
+    if (this.isQuote(asset)) return 1;
+
+    const symbol = this.priceSymbol(asset);
+    // Hourly buckets match the trade aggregation resolution
+    const key = `${symbol}@${Math.floor(at.getTime() / 3600000)}`;
+    if (symbol && this.prices.has(key)) return this.prices.get(key) ?? null;
+
+    let price: number | null = null;
+    if (symbol) {
+      try {
+        price = await stellarPriceService.getHistoricalPrice(
+          symbol,
+          this.quoteAsset,
+          at
+        );
+      } catch (error) {
+        logger.warn("Historical price unavailable", {
+          asset,
+          at: at.toISOString(),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      this.prices.set(key, price);
+    }
+
+    if (price === null) {
+      this.warnings.add(
+        `No ${this.quoteAsset} price for ${asset} at ${at.toISOString()} (${hash}); it is valued at zero`
+      );
+    }
+    return price;
+  }
+
+  private async currentPrice(asset: string): Promise<number | null> {
+    if (this.isQuote(asset)) return 1;
+
+    const symbol = this.priceSymbol(asset);
+    if (symbol) {
+      try {
+        const quote = await stellarPriceService.getPrice(
+          symbol,
+          this.quoteAsset
+        );
+        return quote.price;
+      } catch (error) {
+        logger.warn("Current price unavailable", {
+          asset,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    this.warnings.add(
+      `No current ${this.quoteAsset} price for ${asset}; unrealized P&L is not available`
+    );
+    return null;
+  }
+}
+
+export const portfolioService = new PortfolioService();
@@ -0,0 +1,97 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from "typeorm";
+
+/**
+ * Ledger range whose events were pruned by the RPC node before they could
+ * be indexed
+ */
+export interface IndexGap {
+  fromLedger: number;
+  toLedger: number;
+  detectedAt: string;
+}
+
+/**
+ * Decoded Soroban contract event. The first four topics are also stored as
+ * strings so events can be filtered by topic without scanning the JSON.
+ */
+@Entity("soroban_event")
+@Index(["contractId", "ledger"])
+@Index(["contractId", "topic0"])
+@Index(["topic0", "topic1"])
+export class SorobanEvent {
+  /** RPC event id; ordered by ledger, transaction and event index */
+  @PrimaryColumn({ type: "varchar", length: 64 })
+  id!: string;
+
+  @Column({ type: "varchar", length: 64 })
+  contractId!: string;
+
+  @Column({ type: "varchar", length: 20 })
+  type!: string;
+
+  @Column({ type: "int" })
+  ledger!: number;
+
+  @Column({ type: "timestamp" })
+  ledgerClosedAt!: Date;
+
+  @Column({ type: "varchar", length: 64 })
+  txHash!: string;
+
+  @Column({ type: "jsonb" })
+  topic!: unknown[];
+
+  @Column({ type: "varchar", nullable: true })
+  topic0?: string | null;
+
+  @Column({ type: "varchar", nullable: true })
+  topic1?: string | null;
+
+  @Column({ type: "varchar", nullable: true })
+  topic2?: string | null;
+
+  @Column({ type: "varchar", nullable: true })
+  topic3?: string | null;
+
+  @Column({ type: "jsonb", nullable: true })
+  value?: unknown;
+
+  @Column({ type: "boolean", default: true })
+  inSuccessfulContractCall!: boolean;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
+
+/**
+ * Indexing progress for one contract
+ */
+@Entity("soroban_event_checkpoint")
+export class SorobanEventCheckpoint {
+  @PrimaryColumn({ type: "varchar", length: 64 })
+  contractId!: string;
+
+  /** Last ledger whose events have all been stored */
+  @Column({ type: "int" })
+  lastLedger!: number;
+
+  /** RPC paging cursor to continue from */
+  @Column({ type: "varchar", nullable: true })
+  cursor?: string | null;
+
+  @Column({ type: "jsonb", default: () => "'[]'" })
+  gaps!: IndexGap[];
+
+  @Column({ type: "text", nullable: true })
+  lastError?: string | null;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
@@ -0,0 +1,72 @@
+import { Router, Request, Response } from "express";
+import { authenticateToken } from "../Auth/auth.middleware";
+import logger from "../config/logger";
+import { eventIndexingService } from "./eventIndexingService";
+
+const router = Router();
+
+function parseLedger(value: unknown): number | undefined | null {
+  if (value === undefined) return undefined;
+  const ledger = Number(value);
+  return Number.isInteger(ledger) && ledger >= 0 ? ledger : null;
+}
+
+/**
+ * GET /events - Query indexed Soroban contract events
+ * Query: contractId, topic (first topic, e.g. the event name), fromLedger,
+ * toLedger, cursor, limit
+ * Served from the local index; `indexedThroughLedger` tells how far the
+ * contract has been indexed and `gaps` lists ledger ranges that were missed.
+ */
+router.get("/", authenticateToken, async (req: Request, res: Response) => {
+  const { contractId, topic, cursor } = req.query;
+  const fromLedger = parseLedger(req.query.fromLedger);
+  const toLedger = parseLedger(req.query.toLedger);
+  const limit = req.query.limit ? Number(req.query.limit) : undefined;
+
+  if (fromLedger === null || toLedger === null) {
+    return res.status(400).json({
+      success: false,
+      message: "fromLedger and toLedger must be non-negative integers",
+    });
+  }
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    return res
+      .status(400)
+      .json({ success: false, message: "limit must be a positive integer" });
+  }
+
+  try {
+    const page = await eventIndexingService.queryEvents({
+      contractId: typeof contractId === "string" ? contractId : undefined,
+      topic: typeof topic === "string" ? topic : undefined,
+      cursor: typeof cursor === "string" ? cursor : undefined,
+      fromLedger,
+      toLedger,
+      limit,
+    });
+    const checkpoint =
+      typeof contractId === "string"
+        ? await eventIndexingService.getCheckpoint(contractId)
+        : null;
+
+    return res.status(200).json({
+      success: true,
+      events: page.events,
+      ...(page.nextCursor ? { nextCursor: page.nextCursor } : {}),
+      ...(checkpoint
+        ? {
+            indexedThroughLedger: checkpoint.lastLedger,
+            gaps: checkpoint.gaps,
+          }
+        : {}),
+    });
+  } catch (error) {
+    logger.error("Failed to query Soroban events", { error });
+    return res
+      .status(500)
+      .json({ success: false, message: "Failed to query events" });
+  }
+});
+
+export default router;
@@ -14,6 +14,9 @@ export interface PriceQuote {
   timestamp: number;
 }
 
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
 export class StellarPriceService {
   private server: StellarSdk.Horizon.Server;
   private readonly CACHE_TTL = 60; // Cache prices for 60 seconds
@@ -25,7 +28,7 @@ export class StellarPriceService {
   /**
    * Get asset definition from symbol
    */
-  private getAsset(symbol: string): StellarSdk.Asset {
+  getAsset(symbol: string): StellarSdk.Asset {
     const assets: Record<string, StellarSdk.Asset> = {
       XLM: StellarSdk.Asset.native(),
       USDC: new StellarSdk.Asset(
@@ -145,6 +148,52 @@ export class StellarPriceService {
     return quotes;
   }
 
+  /**
+   * Get the DEX price of an asset pair at a past time: the close of the
+   * hourly trade aggregation bucket containing it, falling back to daily
+   * buckets of the surrounding week when the pair did not trade that hour
+   */
+  async getHistoricalPrice(
+    fromAsset: string,
+    toAsset: string,
+    at: Date
+  ): Promise<number> {
+    if (fromAsset.toUpperCase() === toAsset.toUpperCase()) {
+      return 1;
+    }
+
+    const base = this.getAsset(fromAsset);
+    const counter = this.getAsset(toAsset);
+    const time = at.getTime();
+
+    for (const [resolution, window] of [
+      [HOUR_MS, HOUR_MS],
+      [DAY_MS, 7 * DAY_MS],
+    ]) {
+      // Horizon requires bucket aligned bounds
+      const start = Math.floor((time - window) / resolution) * resolution;
+      const end = Math.ceil((time + window) / resolution) * resolution;
+      const { records } = await this.server
+        .tradeAggregation(base, counter, start, end, resolution, 0)
+        .limit(200)
+        .call();
+
+      if (records.length > 0) {
+        const closest = records.reduce((best, record) =>
+          Math.abs(Number(record.timestamp) - time) <
+          Math.abs(Number(best.timestamp) - time)
+            ? record
+            : best
+        );
+        return parseFloat(closest.close);
+      }
+    }
+
+    throw new Error(
+      `No trade history for ${fromAsset}/${toAsset} around ${at.toISOString()}`
+    );
+  }
+
   /**
    * Get orderbook depth for asset pair
    */
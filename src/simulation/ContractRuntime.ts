@@ -0,0 +1,158 @@
+import { scValToNative, xdr } from "@stellar/stellar-sdk";
+import { StateManager } from "./StateManager";
+import {
+  builtInContracts,
+  ContractContext,
+  ContractError,
+  ContractEvent,
+  ContractMock,
+  toNative,
+} from "./contracts";
+
+/** What a contract invocation returned and the events it published */
+export interface ContractInvocation {
+  result: xdr.ScVal;
+  events: ContractEvent[];
+}
+
+// Soroban caps how deep contracts can call each other
+const MAX_CALL_DEPTH = 10;
+
+const own = <T>(record: Record<string, T>, key: string): T | undefined =>
+  Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined;
+
+const clone = (storage: Record<string, unknown>): Record<string, unknown> =>
+  JSON.parse(JSON.stringify(storage));
+
+interface Invocation {
+  source: string;
+  storages: Map<string, Record<string, unknown>>;
+  events: ContractEvent[];
+}
+
+/**
+ * Runs Soroban invocations against contract mocks on the local chain. A
+ * contract runs the mock registered for its ID, or the built-in mock its
+ * stored code names. Each invocation works on copies of the storage of the
+ * contracts it touches and writes them back only when it succeeds, so a
+ * failed call leaves no partial state, as on chain.
+ */
+export class ContractRuntime {
+  private readonly mocks = new Map<string, ContractMock>();
+
+  constructor(private readonly stateManager: StateManager) {}
+
+  /**
+   * Deploy a mock at a contract ID, starting from `storage` when given and
+   * otherwise keeping any storage the contract already has
+   */
+  register(
+    contractId: string,
+    mock: ContractMock,
+    storage?: Record<string, unknown>
+  ): void {
+    this.mocks.set(contractId, mock);
+    this.stateManager.updateContractState(contractId, {
+      code: mock.name,
+      storage: clone(
+        storage ?? this.stateManager.getContractState(contractId)?.storage ?? {}
+      ),
+    });
+  }
+
+  /** Whether invocations of a contract run a mock */
+  has(contractId: string): boolean {
+    return this.mockFor(contractId) !== undefined;
+  }
+
+  invoke(
+    contractId: string,
+    method: string,
+    args: unknown[],
+    source: string
+  ): ContractInvocation {
+    const invocation: Invocation = { source, storages: new Map(), events: [] };
+    const result = this.call(invocation, contractId, method, args, source, 0);
+
+    for (const [id, storage] of invocation.storages) {
+      this.stateManager.updateContractState(id, { storage });
+    }
+    return { result, events: invocation.events };
+  }
+
+  private call(
+    invocation: Invocation,
+    contractId: string,
+    method: string,
+    args: unknown[],
+    caller: string,
+    depth: number
+  ): xdr.ScVal {
+    if (depth >= MAX_CALL_DEPTH) {
+      throw new ContractError(
+        "Error(Context, ExceededLimit)",
+        "contract call depth exceeded"
+      );
+    }
+    const mock = this.mockFor(contractId);
+    if (!mock) {
+      throw new ContractError(
+        "Error(Storage, MissingValue)",
+        `contract ${contractId} is not deployed on the local chain`
+      );
+    }
+    const run = own(mock.methods, method);
+    if (!run) {
+      throw new ContractError(
+        "Error(WasmVm, MissingValue)",
+        `${mock.name} contract has no method ${method}`
+      );
+    }
+
+    if (!invocation.storages.has(contractId)) {
+      invocation.storages.set(
+        contractId,
+        clone(this.stateManager.getContractState(contractId)?.storage ?? {})
+      );
+    }
+    const context: ContractContext = {
+      contractId,
+      source: invocation.source,
+      caller,
+      storage: invocation.storages.get(contractId)!,
+      // The source account authorizes the whole call tree, and a contract
+      // authorizes the calls it makes
+      requireAuth: (address) => {
+        if (address !== invocation.source && address !== caller) {
+          throw new ContractError(
+            "Error(Auth, InvalidAction)",
+            `${address} did not authorize ${method}`
+          );
+        }
+      },
+      emit: (topics, value) =>
+        invocation.events.push({ contractId, topics, value }),
+      call: (target, targetMethod, targetArgs) =>
+        scValToNative(
+          this.call(
+            invocation,
+            target,
+            targetMethod,
+            targetArgs,
+            contractId,
+            depth + 1
+          )
+        ),
+    };
+
+    return run(context, args.map(toNative)) ?? xdr.ScVal.scvVoid();
+  }
+
+  private mockFor(contractId: string): ContractMock | undefined {
+    const code = this.stateManager.getContractState(contractId)?.code;
+    return (
+      this.mocks.get(contractId) ??
+      (code ? own(builtInContracts, code) : undefined)
+    );
+  }
+}
@@ -1,4 +1,5 @@
 import { SimulationConfig, GasEstimate, GasMetrics } from './types';
+import { createRandom, RandomSource } from './random';
 import logger from '../config/logger';
 
 interface BlockchainOperation {
@@ -10,9 +11,11 @@ interface BlockchainOperation {
 export class GasSimulator {
   private config!: SimulationConfig;
   private userGasTracking: Map<string, GasMetrics> = new Map();
+  private random: RandomSource = Math.random;
 
   async initialize(config: SimulationConfig): Promise<void> {
     this.config = config;
+    this.random = createRandom(config.simulation.seed, 'gas');
     logger.info('Gas simulator initialized');
   }
 
@@ -119,7 +122,7 @@ export class GasSimulator {
 
     // Add some randomness to make it more realistic
     const variance = 0.1; // 10% variance
-    const randomFactor = 1 + (Math.random() - 0.5) * 2 * variance;
+    const randomFactor = 1 + (this.random() - 0.5) * 2 * variance;
     
     return Math.floor(baseGas * randomFactor);
   }
@@ -137,7 +140,7 @@ export class GasSimulator {
     
     // Add some market volatility simulation
     const volatility = 0.2; // 20% volatility
-    const marketFactor = 1 + (Math.random() - 0.5) * 2 * volatility;
+    const marketFactor = 1 + (this.random() - 0.5) * 2 * volatility;
     
     return Math.floor(basePrice * marketFactor);
   }
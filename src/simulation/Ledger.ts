@@ -0,0 +1,422 @@
+import { createHash } from "crypto";
+import { Keypair } from "@stellar/stellar-sdk";
+import { StateManager } from "./StateManager";
+import {
+  AccountState,
+  LiquidityPool,
+  ResultCodes,
+  SimulationConfig,
+  StellarTrustline,
+} from "./types";
+
+export type LedgerChain = "stellar" | "starknet";
+
+export interface Payment {
+  to: string;
+  asset: string;
+  amount: string | number;
+}
+
+export interface SwapOrder {
+  sendAsset: string;
+  destAsset: string;
+  mode: "strict_send" | "strict_receive";
+  /** Amount to send, or to receive in strict_receive mode */
+  amount: string | number;
+  /**
+   * Largest move against the pool's quote, fee included, the swap accepts,
+   * like the destMin and sendMax of a live path payment. Unlimited when not
+   * given.
+   */
+  maxSlippageBps?: number;
+}
+
+export interface SwapFill {
+  sent: string;
+  received: string;
+  /** How much worse than the pool's spot price the swap filled, fee included */
+  priceImpact: number;
+}
+
+/** Fees are paid in each chain's native asset */
+const NATIVE_ASSET: Record<LedgerChain, string> = {
+  stellar: "XLM",
+  starknet: "STRK",
+};
+
+// Amounts are kept in stroops, Stellar's seven decimal places
+const DECIMALS = 7;
+const MAX_TRUSTLINE_LIMIT = "922337203685.4775807";
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const BPS = BigInt(10000);
+
+const toUnits = (amount: string | number): bigint => {
+  const [whole, fraction = ""] = (
+    typeof amount === "number" ? amount.toFixed(DECIMALS) : amount.trim()
+  ).split(".");
+  return BigInt(whole + fraction.padEnd(DECIMALS, "0").slice(0, DECIMALS));
+};
+
+const fromUnits = (units: bigint): string => {
+  const digits = (units < ZERO ? -units : units)
+    .toString()
+    .padStart(DECIMALS + 1, "0");
+  return `${units < ZERO ? "-" : ""}${digits.slice(0, -DECIMALS)}.${digits.slice(
+    -DECIMALS
+  )}`;
+};
+
+/** Contract ID of the AMM pool between two assets, in either order */
+export const liquidityPoolId = (assetA: string, assetB: string) =>
+  `pool:${[assetA, assetB].sort().join("/")}`;
+
+/** Trustlines implied by a Stellar account's non-native balances */
+export function trustlinesFor(
+  balances: Record<string, string>
+): StellarTrustline[] {
+  return Object.entries(balances)
+    .filter(([asset]) => asset !== NATIVE_ASSET.stellar)
+    .map(([asset, balance]) => {
+      const [code, issuer] = asset.split(":");
+      return {
+        asset_type: code.length <= 4 ? "credit_alphanum4" : "credit_alphanum12",
+        asset_code: code,
+        asset_issuer: issuer,
+        balance,
+        limit: MAX_TRUSTLINE_LIMIT,
+        buying_liabilities: "0.0000000",
+        selling_liabilities: "0.0000000",
+      };
+    });
+}
+
+const assetOf = (line: StellarTrustline) =>
+  `${line.asset_code}:${line.asset_issuer}`;
+
+/**
+ * A transaction the local chain rejected. Carries the result codes in the
+ * shape of a Horizon transaction failure, so callers that handle live
+ * failures handle simulated ones too.
+ */
+export class LedgerError extends Error {
+  public readonly response: {
+    status: number;
+    data: { extras: { result_codes: ResultCodes } };
+  };
+
+  constructor(
+    public readonly resultCodes: ResultCodes,
+    message: string
+  ) {
+    super(message);
+    this.name = "LedgerError";
+    this.response = {
+      status: 400,
+      data: { extras: { result_codes: resultCodes } },
+    };
+  }
+}
+
+const operationFailed = (code: string, reason: string) =>
+  new LedgerError(
+    { transaction: "tx_failed", operations: [code] },
+    `Transaction failed: ${code} (${reason})`
+  );
+
+/**
+ * Balances, trustlines and AMM pools of the local chain, kept in the state
+ * manager. Each user gets one account per chain, opened with the configured
+ * initial balances on first use. Transactions pay their fee and use a
+ * sequence number even when their operation fails, as on Stellar.
+ */
+export class Ledger {
+  private config!: SimulationConfig;
+
+  constructor(private readonly stateManager: StateManager) {}
+
+  async initialize(config: SimulationConfig): Promise<void> {
+    this.config = config;
+  }
+
+  /** The account a user holds on a chain, opened on first use */
+  account(userId: string, chain: LedgerChain): AccountState {
+    const address = this.addressOf(userId, chain);
+    const existing = this.stateManager.getAccountState(address);
+    if (existing) {
+      return existing;
+    }
+
+    const balances = { ...this.config[chain].initialBalances };
+    this.stateManager.updateAccountState(address, {
+      balances,
+      sequence: 0,
+      ...(chain === "stellar" && { trustlines: trustlinesFor(balances) }),
+    });
+    return this.stateManager.getAccountState(address)!;
+  }
+
+  /**
+   * A user's address: the configured default account, otherwise one derived
+   * from the user ID so it stays the same across restarts
+   */
+  addressOf(userId: string, chain: LedgerChain): string {
+    const configured = this.config[chain].defaultAccounts.find(
+      (account) => account.userId === userId
+    );
+    if (configured) {
+      return configured.address;
+    }
+
+    const seed = createHash("sha256").update(`${chain}:${userId}`).digest();
+    return chain === "stellar"
+      ? Keypair.fromRawEd25519Seed(seed).publicKey()
+      : `0x${seed.toString("hex")}`;
+  }
+
+  /**
+   * Replace a user's balances, e.g. to set up a scenario. On Stellar the
+   * account trusts each non-native asset it is given.
+   */
+  setBalances(
+    userId: string,
+    chain: LedgerChain,
+    balances: Record<string, string>
+  ): AccountState {
+    const { address } = this.account(userId, chain);
+    this.stateManager.updateAccountState(address, {
+      balances: { ...balances },
+      ...(chain === "stellar" && { trustlines: trustlinesFor(balances) }),
+    });
+    return this.stateManager.getAccountState(address)!;
+  }
+
+  balanceOf(account: AccountState, asset: string): string {
+    return fromUnits(toUnits(account.balances[asset] ?? "0"));
+  }
+
+  /** Pay another account, which is opened on Starknet if it is new */
+  transfer(
+    userId: string,
+    chain: LedgerChain,
+    payment: Payment,
+    fee: string
+  ): AccountState {
+    return this.submit(userId, chain, fee, (source) => {
+      const amount = toUnits(payment.amount);
+      if (amount <= ZERO || !payment.to) {
+        throw operationFailed(
+          "op_malformed",
+          "a payment needs a destination and a positive amount"
+        );
+      }
+
+      const destination = this.stateManager.getAccountState(payment.to);
+      if (!destination && chain === "stellar") {
+        throw operationFailed(
+          "op_no_destination",
+          `${payment.to} does not exist`
+        );
+      }
+      this.requireTrust(source, payment.asset, "op_src_no_trust");
+      if (destination) {
+        this.requireTrust(destination, payment.asset, "op_no_trust");
+        this.requireRoom(destination, payment.asset, amount);
+      }
+      this.requireFunds(source, payment.asset, amount);
+
+      this.adjust(source.address, payment.asset, -amount);
+      this.adjust(payment.to, payment.asset, amount);
+      return this.stateManager.getAccountState(source.address)!;
+    });
+  }
+
+  /** Swap through the constant-product pool between the two assets */
+  swap(userId: string, order: SwapOrder, fee: string): SwapFill {
+    return this.submit(userId, "stellar", fee, (source) => {
+      const poolId = liquidityPoolId(order.sendAsset, order.destAsset);
+      const pool = this.stateManager.getContractState(poolId)?.storage as
+        | LiquidityPool
+        | undefined;
+      if (!pool) {
+        throw operationFailed(
+          "op_too_few_offers",
+          `no liquidity between ${order.sendAsset} and ${order.destAsset}`
+        );
+      }
+      this.requireTrust(source, order.sendAsset, "op_src_no_trust");
+      this.requireTrust(source, order.destAsset, "op_no_trust");
+
+      const forward = pool.assetA === order.sendAsset;
+      const reserveIn = toUnits(forward ? pool.reserveA : pool.reserveB);
+      const reserveOut = toUnits(forward ? pool.reserveB : pool.reserveA);
+      const feeFactor = BPS - BigInt(pool.feeBps);
+      const amount = toUnits(order.amount);
+      if (amount <= ZERO) {
+        throw operationFailed("op_malformed", "amount must be positive");
+      }
+
+      const tolerance =
+        order.maxSlippageBps === undefined
+          ? undefined
+          : BigInt(Math.round(order.maxSlippageBps));
+
+      let sent: bigint;
+      let received: bigint;
+      if (order.mode === "strict_send") {
+        sent = amount;
+        received =
+          (sent * feeFactor * reserveOut) /
+          (reserveIn * BPS + sent * feeFactor);
+        // As on Stellar, the source is debited before destMin is checked
+        this.requireFunds(source, order.sendAsset, sent);
+        if (tolerance !== undefined) {
+          // Quoted at the pool's marginal price after its fee
+          const destMin =
+            (sent * reserveOut * feeFactor * (BPS - tolerance)) /
+            (reserveIn * BPS * BPS);
+          if (received < destMin) {
+            throw operationFailed(
+              "op_under_dest_min",
+              `${fromUnits(received)} ${order.destAsset} is less than the minimum of ${fromUnits(destMin)}`
+            );
+          }
+        }
+      } else {
+        if (amount >= reserveOut) {
+          throw operationFailed(
+            "op_too_few_offers",
+            `the pool holds less than ${fromUnits(amount)} ${order.destAsset}`
+          );
+        }
+        received = amount;
+        const numerator = reserveIn * received * BPS;
+        const denominator = (reserveOut - received) * feeFactor;
+        sent = (numerator + denominator - ONE) / denominator;
+        if (tolerance !== undefined) {
+          const sendMax =
+            (received * reserveIn * (BPS + tolerance)) /
+            (reserveOut * feeFactor);
+          if (sent > sendMax) {
+            throw operationFailed(
+              "op_over_source_max",
+              `${fromUnits(sent)} ${order.sendAsset} is more than the maximum of ${fromUnits(sendMax)}`
+            );
+          }
+        }
+      }
+      if (received <= ZERO) {
+        throw operationFailed(
+          "op_too_few_offers",
+          `${fromUnits(sent)} ${order.sendAsset} buys nothing`
+        );
+      }
+      if (order.mode === "strict_receive") {
+        this.requireFunds(source, order.sendAsset, sent);
+      }
+      this.requireRoom(source, order.destAsset, received);
+
+      this.adjust(source.address, order.sendAsset, -sent);
+      this.adjust(source.address, order.destAsset, received);
+      this.stateManager.updateContractState(poolId, {
+        storage: {
+          ...pool,
+          reserveA: fromUnits(
+            forward ? reserveIn + sent : reserveOut - received
+          ),
+          reserveB: fromUnits(
+            forward ? reserveOut - received : reserveIn + sent
+          ),
+        },
+      });
+
+      const spotPrice = Number(reserveOut) / Number(reserveIn);
+      return {
+        sent: fromUnits(sent),
+        received: fromUnits(received),
+        priceImpact: 1 - Number(received) / Number(sent) / spotPrice,
+      };
+    });
+  }
+
+  /**
+   * Charge the fee and consume a sequence number, then apply the operation.
+   * Only a fee the account cannot pay rejects the transaction outright.
+   */
+  private submit<T>(
+    userId: string,
+    chain: LedgerChain,
+    fee: string,
+    operation: (source: AccountState) => T
+  ): T {
+    const source = this.account(userId, chain);
+    const native = NATIVE_ASSET[chain];
+    if (toUnits(source.balances[native] ?? "0") < toUnits(fee)) {
+      throw new LedgerError(
+        { transaction: "tx_insufficient_balance" },
+        `Transaction rejected: tx_insufficient_balance (a fee of ${fee} ${native} is more than the balance)`
+      );
+    }
+
+    this.adjust(source.address, native, -toUnits(fee));
+    this.stateManager.updateAccountState(source.address, {
+      sequence: source.sequence + 1,
+    });
+    return operation(this.stateManager.getAccountState(source.address)!);
+  }
+
+  private requireTrust(
+    account: AccountState,
+    asset: string,
+    code: string
+  ): void {
+    if (
+      account.trustlines &&
+      asset !== NATIVE_ASSET.stellar &&
+      !account.trustlines.some((line) => assetOf(line) === asset)
+    ) {
+      throw operationFailed(code, `${account.address} does not trust ${asset}`);
+    }
+  }
+
+  private requireFunds(
+    account: AccountState,
+    asset: string,
+    amount: bigint
+  ): void {
+    const balance = toUnits(account.balances[asset] ?? "0");
+    if (balance < amount) {
+      throw operationFailed(
+        "op_underfunded",
+        `${fromUnits(balance)} ${asset} available, ${fromUnits(amount)} needed`
+      );
+    }
+  }
+
+  private requireRoom(
+    account: AccountState,
+    asset: string,
+    amount: bigint
+  ): void {
+    const line = account.trustlines?.find((line) => assetOf(line) === asset);
+    if (line && toUnits(line.balance) + amount > toUnits(line.limit)) {
+      throw operationFailed(
+        "op_line_full",
+        `${account.address} would exceed its ${asset} limit`
+      );
+    }
+  }
+
+  private adjust(address: string, asset: string, delta: bigint): void {
+    const account = this.stateManager.getAccountState(address);
+    const balance = fromUnits(toUnits(account?.balances[asset] ?? "0") + delta);
+    this.stateManager.updateAccountState(address, {
+      balances: { ...account?.balances, [asset]: balance },
+      ...(account?.trustlines && {
+        trustlines: account.trustlines.map((line) =>
+          assetOf(line) === asset ? { ...line, balance } : line
+        ),
+      }),
+    });
+  }
+}
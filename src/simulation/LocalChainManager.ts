@@ -0,0 +1,206 @@
+import path from "path";
+import config from "../config/config";
+import logger from "../config/logger";
+import stellarPriceService from "../services/stellarPrice.service";
+import { SimulationEngine } from "./SimulationEngine";
+import {
+  initializeInterceptor,
+  ServiceInterceptor,
+} from "./ServiceInterceptor";
+import { FixtureRecorder, FixtureReplayer } from "./ServiceFixtures";
+import { ContractMock } from "./contracts";
+import { LiquidityPool, SimulationConfig, SimulationMode } from "./types";
+
+interface LocalChainOptions {
+  /** Simulate every request, not only those that ask for simulate mode */
+  enabled?: boolean;
+  mode?: SimulationMode;
+  services?: string[];
+  latencyMs?: number;
+  errorRate?: number;
+  /** Balances each user's simulated Stellar account opens with */
+  stellarBalances?: Record<string, string>;
+  /** Balances each user's simulated Starknet wallet opens with */
+  starknetBalances?: Record<string, string>;
+  liquidityPools?: LiquidityPool[];
+  /** Soroban contracts whose invocations run a mock instead of a canned result */
+  contracts?: ContractDeployment[];
+  seed?: number;
+  /** Record the calls that go live, or replay them from `fixturesPath` */
+  fixtureMode?: "off" | "record" | "replay";
+  fixturesPath?: string;
+}
+
+interface ContractDeployment {
+  contractId: string;
+  mock: ContractMock;
+  storage?: Record<string, unknown>;
+}
+
+const USDC = "USDC";
+const USDT = "USDT";
+
+const assetId = (symbol: string) => {
+  const asset = stellarPriceService.getAsset(symbol);
+  return asset.isNative() ? "XLM" : `${asset.getCode()}:${asset.getIssuer()}`;
+};
+
+/**
+ * A funded testnet-like account trusting the built-in stablecoins, so it can
+ * receive them from a swap
+ */
+const defaultStellarBalances = (): Record<string, string> => ({
+  XLM: "10000.0000000",
+  [assetId(USDC)]: "0.0000000",
+  [assetId(USDT)]: "0.0000000",
+});
+
+const DEFAULT_STARKNET_BALANCES: Record<string, string> = {
+  STRK: "1000.0000000",
+  ETH: "1.0000000",
+  DAI: "0.0000000",
+};
+
+// Pools with the Stellar AMM's 0.3% fee, XLM priced at about 0.12 USD
+const defaultLiquidityPools = (): LiquidityPool[] => [
+  {
+    assetA: "XLM",
+    assetB: assetId(USDC),
+    reserveA: "5000000.0000000",
+    reserveB: "600000.0000000",
+    feeBps: 30,
+  },
+  {
+    assetA: "XLM",
+    assetB: assetId(USDT),
+    reserveA: "5000000.0000000",
+    reserveB: "600000.0000000",
+    feeBps: 30,
+  },
+  {
+    assetA: assetId(USDC),
+    assetB: assetId(USDT),
+    reserveA: "1000000.0000000",
+    reserveB: "1000000.0000000",
+    feeBps: 30,
+  },
+];
+
+/**
+ * Owns the simulation engine behind the local chain and installs the global
+ * service interceptor. The interceptor is always installed so individual
+ * requests can opt into simulate mode; it only simulates requests that did
+ * not opt in when the local chain is enabled.
+ */
+export class LocalChainManager {
+  private readonly enabled: boolean;
+  private readonly mode: SimulationMode;
+  private readonly services: string[];
+  private readonly latencyMs: number;
+  private readonly errorRate: number;
+  private readonly stellarBalances: Record<string, string>;
+  private readonly starknetBalances: Record<string, string>;
+  private readonly liquidityPools: LiquidityPool[];
+  private readonly contracts: ContractDeployment[];
+  private readonly seed?: number;
+  private readonly fixtureMode: "off" | "record" | "replay";
+  private readonly fixturesPath: string;
+  private readonly engine = new SimulationEngine();
+  private interceptor: ServiceInterceptor | null = null;
+
+  constructor(options: LocalChainOptions = {}) {
+    this.enabled = options.enabled ?? config.simulation.enabled;
+    this.mode = options.mode ?? config.simulation.mode;
+    this.services = options.services ?? config.simulation.services;
+    this.latencyMs = options.latencyMs ?? config.simulation.latencyMs;
+    this.errorRate = options.errorRate ?? config.simulation.errorRate;
+    this.stellarBalances = options.stellarBalances ?? defaultStellarBalances();
+    this.starknetBalances =
+      options.starknetBalances ?? DEFAULT_STARKNET_BALANCES;
+    this.liquidityPools = options.liquidityPools ?? defaultLiquidityPools();
+    this.contracts = options.contracts ?? [];
+    this.seed = options.seed ?? config.simulation.seed;
+    this.fixtureMode = options.fixtureMode ?? config.simulation.fixtureMode;
+    this.fixturesPath = path.resolve(
+      process.cwd(),
+      options.fixturesPath ?? config.simulation.fixturesPath
+    );
+  }
+
+  async initialize(): Promise<void> {
+    if (this.interceptor) {
+      return;
+    }
+
+    await this.engine.initialize(this.buildConfig());
+    for (const { contractId, mock, storage } of this.contracts) {
+      this.engine.getContractRuntime().register(contractId, mock, storage);
+    }
+    this.interceptor = initializeInterceptor(this.engine);
+    if (this.enabled) {
+      this.interceptor.enable();
+    }
+    if (this.fixtureMode === "record") {
+      this.interceptor.useFixtures(new FixtureRecorder(this.fixturesPath));
+    } else if (this.fixtureMode === "replay") {
+      this.interceptor.useFixtures(FixtureReplayer.fromFile(this.fixturesPath));
+    }
+
+    logger.info("Local chain initialized", {
+      enabled: this.enabled,
+      mode: this.mode,
+      services: this.services,
+      seed: this.seed,
+      fixtureMode: this.fixtureMode,
+      contracts: this.contracts.map(({ contractId }) => contractId),
+    });
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  getSimulationEngine(): SimulationEngine {
+    return this.engine;
+  }
+
+  getMetrics() {
+    return {
+      ...this.engine.getMetrics(),
+      enabled: this.enabled,
+      services: this.services,
+    };
+  }
+
+  private buildConfig(): SimulationConfig {
+    return {
+      mode: this.mode,
+      enabledServices: this.services,
+      stellar: {
+        networkPassphrase: config.stellar.networkPassphrase,
+        defaultAccounts: [],
+        initialBalances: this.stellarBalances,
+        liquidityPools: this.liquidityPools,
+      },
+      starknet: {
+        chainId: "SN_SEPOLIA",
+        defaultAccounts: [],
+        initialBalances: this.starknetBalances,
+      },
+      simulation: {
+        latency: {
+          baseDelay: this.latencyMs,
+          variability: 20,
+          networkCondition: "normal",
+        },
+        errorRate: this.errorRate,
+        gasMultiplier: 1,
+        persistState: false,
+        snapshotInterval: 0,
+        seed: this.seed,
+      },
+    };
+  }
+}
+
+export const localChainManager = new LocalChainManager();
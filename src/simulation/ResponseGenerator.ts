@@ -1,5 +1,10 @@
-import { SimulationConfig, SimulationRequest, LatencyConfig } from './types';
+import { SimulationConfig, SimulationRequest, LatencyConfig, GasEstimate } from './types';
+import { scValToNative } from '@stellar/stellar-sdk';
 import { InvokeContractResult, SorobanNetwork } from '../services/sorobanService';
+import { Ledger } from './Ledger';
+import { ContractRuntime } from './ContractRuntime';
+import { ContractEvent } from './contracts';
+import { createRandom, RandomSource } from './random';
 import logger from '../config/logger';
 
 // Define proper types for responses
@@ -17,13 +22,14 @@ interface WalletTransferResponse {
   status: string;
   blockNumber: number;
   gasUsed: number;
+  fee: string;
 }
 
 interface WalletAddressResponse {
   address: string;
 }
 
-interface SwapResponse {
+export interface SwapResponse {
   inputToken: string;
   outputToken: string;
   inputAmount: string;
@@ -47,83 +53,119 @@ interface MethodParameters {
   inputToken?: string;
   outputToken?: string;
   inputAmount?: string;
+  outputAmount?: string;
+  mode?: 'strict_send' | 'strict_receive';
+  maxSlippageBps?: number;
   args?: unknown[];
   [key: string]: unknown;
 }
 
 export class ResponseGenerator {
   private config!: SimulationConfig;
+  private random: RandomSource = Math.random;
+
+  constructor(
+    private readonly ledger: Ledger,
+    private readonly contracts: ContractRuntime
+  ) {}
 
   async initialize(config: SimulationConfig): Promise<void> {
     this.config = config;
+    this.random = createRandom(config.simulation.seed, 'responses');
     logger.info('Response generator initialized');
   }
 
   async generateSorobanResponse(request: SimulationRequest): Promise<InvokeContractResult> {
-    const { parameters } = request;
-    
-    // Simulate realistic Soroban contract response
-    const mockResult = this.generateMockContractResult(parameters);
-    
+    const parameters: MethodParameters = request.parameters;
+    const contractId = parameters.contractId as string;
+    const method = parameters.method as string;
+
+    // Add realistic error injection, before a mock can change any state
+    if (this.random() < this.config.simulation.errorRate) {
+      throw new Error(`Simulated contract error: ${this.generateRandomError()}`);
+    }
+
+    // Contracts with a mock run it against their storage; others get a canned result
+    let retval: unknown;
+    let result: unknown;
+    let events: ContractEvent[] = [];
+    if (this.contracts.has(contractId)) {
+      const source = (parameters.source as { publicKey?: string } | undefined)?.publicKey
+        ?? this.ledger.addressOf(request.userId, 'stellar');
+      const invocation = this.contracts.invoke(contractId, method, parameters.args ?? [], source);
+      retval = invocation.result;
+      result = scValToNative(invocation.result);
+      events = invocation.events;
+    } else {
+      retval = result = this.generateMockContractResult(parameters);
+    }
+
     const response: InvokeContractResult = {
       network: (parameters.network as SorobanNetwork) || 'testnet',
-      contractId: parameters.contractId as string,
-      method: parameters.method as string,
-      result: mockResult,
+      contractId,
+      method,
+      result,
       raw: {
         // Simulate raw Stellar SDK response structure
         result: {
-          retval: mockResult,
+          retval,
           auth: [],
-          events: []
+          events
         },
         cost: {
-          cpuInsns: Math.floor(Math.random() * 1000000),
-          memBytes: Math.floor(Math.random() * 100000)
+          cpuInsns: Math.floor(this.random() * 1000000),
+          memBytes: Math.floor(this.random() * 100000)
         }
       }
     };
 
-    // Add realistic error injection
-    if (Math.random() < this.config.simulation.errorRate) {
-      throw new Error(`Simulated contract error: ${this.generateRandomError()}`);
-    }
-
-    logger.debug('Soroban response generated', { contractId: parameters.contractId, method: parameters.method });
+    logger.debug('Soroban response generated', { contractId, method, events: events.length });
     return response;
   }
 
-  async generateWalletResponse(request: SimulationRequest): Promise<WalletBalanceResponse | WalletTransferResponse | WalletAddressResponse> {
-    const { operation, parameters } = request;
+  async generateWalletResponse(request: SimulationRequest, gas: GasEstimate): Promise<WalletBalanceResponse | WalletTransferResponse | WalletAddressResponse> {
+    const { operation, parameters, userId } = request;
 
     switch (operation) {
       case 'get_balance':
-        return this.generateBalanceResponse(parameters);
+        return this.generateBalanceResponse(parameters, userId);
       case 'transfer':
-        return this.generateTransferResponse(parameters);
+        return this.generateTransferResponse(parameters, userId, gas);
       case 'get_address':
-        return this.generateAddressResponse(parameters);
+        return this.generateAddressResponse(userId);
       default:
         throw new Error(`Unknown wallet operation: ${operation}`);
     }
   }
 
-  async generateSwapResponse(request: SimulationRequest): Promise<SwapResponse> {
-    const { parameters } = request;
-    
-    // Simulate DEX swap response
-    const mockSwapResult: SwapResponse = {
-      inputToken: (parameters.inputToken as string) || 'STRK',
-      outputToken: (parameters.outputToken as string) || 'ETH',
-      inputAmount: (parameters.inputAmount as string) || '100',
-      outputAmount: this.calculateMockSwapOutput(parameters),
-      slippage: Math.random() * 0.05, // 0-5% slippage
-      fee: this.calculateMockSwapFee(parameters),
+  async generateSwapResponse(request: SimulationRequest, gas: GasEstimate): Promise<SwapResponse> {
+    const parameters: MethodParameters = request.parameters;
+    if (!parameters.inputToken || !parameters.outputToken) {
+      throw new Error('Swap requires an inputToken and an outputToken');
+    }
+
+    // Fill against the pool, moving the user's balances and its reserves
+    const mode = parameters.mode || 'strict_send';
+    const fill = this.ledger.swap(request.userId, {
+      sendAsset: parameters.inputToken,
+      destAsset: parameters.outputToken,
+      mode,
+      amount: (mode === 'strict_send' ? parameters.inputAmount : parameters.outputAmount) || '0',
+      maxSlippageBps: parameters.maxSlippageBps
+    }, this.feeOf(gas));
+
+    const swapResult: SwapResponse = {
+      inputToken: parameters.inputToken,
+      outputToken: parameters.outputToken,
+      inputAmount: fill.sent,
+      outputAmount: fill.received,
+      slippage: fill.priceImpact,
+      fee: this.feeOf(gas),
       txHash: this.generateMockTxHash()
     };
 
-    logger.debug('Swap response generated', mockSwapResult);
-    return mockSwapResult;
+    logger.debug('Swap response generated', swapResult);
+    return swapResult;
   }
 
   private generateMockContractResult(parameters: MethodParameters): ContractResult {
@@ -131,75 +173,75 @@ export class ResponseGenerator {
     
     // Generate different mock results based on method name
     if (method.includes('balance') || method.includes('get')) {
-      return Math.floor(Math.random() * 1000000).toString();
+      return Math.floor(this.random() * 1000000).toString();
     } else if (method.includes('transfer') || method.includes('send')) {
       return { success: true, txHash: this.generateMockTxHash() };
     } else if (method.includes('swap')) {
       return {
-        amountOut: Math.floor(Math.random() * 1000).toString(),
-        fee: Math.floor(Math.random() * 100).toString()
+        amountOut: Math.floor(this.random() * 1000).toString(),
+        fee: Math.floor(this.random() * 100).toString()
       };
     } else {
       // Generic response
       return {
         status: 'success',
-        value: Math.floor(Math.random() * 1000),
+        value: Math.floor(this.random() * 1000),
         timestamp: Date.now()
       };
     }
   }
 
-  private generateBalanceResponse(parameters: MethodParameters): WalletBalanceResponse {
+  private generateBalanceResponse(parameters: MethodParameters, userId: string): WalletBalanceResponse {
     const token = parameters.token || 'STRK';
-    const mockBalance = (Math.random() * 10000).toFixed(2);
+    const account = this.ledger.account(userId, 'starknet');
+    const balance = parseFloat(this.ledger.balanceOf(account, token)).toFixed(2);
     
     return {
-      balance: `${mockBalance} ${token}`,
+      balance: `${balance} ${token}`,
       token: this.getMockTokenAddress(token),
-      address: parameters.address || this.generateMockAddress()
+      address: account.address
     };
   }
 
-  private generateTransferResponse(parameters: MethodParameters): WalletTransferResponse {
+  private generateTransferResponse(parameters: MethodParameters, userId: string, gas: GasEstimate): WalletTransferResponse {
+    const account = this.ledger.transfer(userId, 'starknet', {
+      to: parameters.to as string,
+      asset: parameters.token || 'STRK',
+      amount: parameters.amount as number
+    }, this.feeOf(gas));
+
     return {
-      from: parameters.from as string || this.generateMockAddress(),
+      from: account.address,
       to: parameters.to as string,
       amount: parameters.amount as number,
       txHash: this.generateMockTxHash(),
       status: 'success',
-      blockNumber: Math.floor(Math.random() * 1000000),
-      gasUsed: Math.floor(Math.random() * 100000)
+      blockNumber: Math.floor(this.random() * 1000000),
+      gasUsed: gas.estimatedGas,
+      fee: this.feeOf(gas)
     };
   }
 
-  private generateAddressResponse(parameters: MethodParameters): WalletAddressResponse {
+  private generateAddressResponse(userId: string): WalletAddressResponse {
     return {
-      address: parameters.address || this.generateMockAddress()
+      address: this.ledger.account(userId, 'starknet').address
     };
   }
 
-  private calculateMockSwapOutput(parameters: MethodParameters): string {
-    const inputAmount = parseFloat((parameters.inputAmount as string) || '100');
-    // Simulate exchange rate with some randomness
-    const exchangeRate = 0.95 + (Math.random() * 0.1); // 0.95 to 1.05
-    return (inputAmount * exchangeRate).toFixed(6);
-  }
-
-  private calculateMockSwapFee(parameters: MethodParameters): string {
-    const inputAmount = parseFloat((parameters.inputAmount as string) || '100');
-    const feeRate = 0.003; // 0.3% fee
-    return (inputAmount * feeRate).toFixed(6);
+  // The ledger charges fees to the stroop
+  private feeOf(gas: GasEstimate): string {
+    return parseFloat(gas.totalCost).toFixed(7);
   }
 
   private generateMockTxHash(): string {
     return '0x' + Array.from({ length: 64 }, () => 
-      Math.floor(Math.random() * 16).toString(16)
+      Math.floor(this.random() * 16).toString(16)
     ).join('');
   }
 
   private generateMockAddress(): string {
     return '0x' + Array.from({ length: 40 }, () => 
-      Math.floor(Math.random() * 16).toString(16)
+      Math.floor(this.random() * 16).toString(16)
     ).join('');
   }
 
@@ -221,12 +263,12 @@ export class ResponseGenerator {
       'Unauthorized access',
       'Network timeout'
     ];
-    return errors[Math.floor(Math.random() * errors.length)];
+    return errors[Math.floor(this.random() * errors.length)];
   }
 
   async addLatencySimulation(baseResponse: unknown, config: LatencyConfig): Promise<unknown> {
     const { baseDelay, variability } = config;
-    const variance = (Math.random() - 0.5) * 2 * variability / 100;
+    const variance = (this.random() - 0.5) * 2 * variability / 100;
     const delay = baseDelay * (1 + variance);
     
     if (delay > 0) {
@@ -237,7 +279,7 @@ export class ResponseGenerator {
   }
 
   injectRealisticErrors(response: unknown, errorRate: number): unknown {
-    if (Math.random() < errorRate) {
+    if (this.random() < errorRate) {
       throw new Error(this.generateRandomError());
     }
     return response;
@@ -0,0 +1,175 @@
+import fs from "fs";
+import path from "path";
+import { LLMFixture } from "../Agents/llm";
+import { WorkflowStep } from "../Agents/types";
+import { ExecutionResult, StepResult } from "../Agents/planner/PlanExecutor";
+import { ToolResult } from "../Agents/registry/ToolMetadata";
+import { LedgerChain } from "./Ledger";
+import { LiquidityPool } from "./types";
+
+/** An exact amount, or bounds for amounts that depend on fees */
+export type AmountExpectation =
+  | string
+  | number
+  | { min?: string | number; max?: string | number };
+
+export interface ScenarioAccount {
+  userId: string;
+  /** Defaults to stellar */
+  chain?: LedgerChain;
+  /** XLM or CODE:ISSUER on Stellar, token symbols on Starknet */
+  balances: Record<string, string>;
+}
+
+export interface ScenarioContract {
+  contractId: string;
+  /** A built-in contract mock to run: "token", "liquidity_pool" or "lending" */
+  code?: string;
+  storage: Record<string, unknown>;
+}
+
+export interface ScenarioQueryStep {
+  /** What the user asks, handled by the intent agent */
+  query: string;
+  userId?: string;
+  expect?: {
+    success?: boolean;
+    /** Text the formatted response contains */
+    response?: string;
+    /** Text the error contains */
+    error?: string;
+  };
+}
+
+export interface ScenarioPlanStep {
+  /** Steps run by the plan executor, numbered in order when not given */
+  plan: {
+    summary?: string;
+    stopOnError?: boolean;
+    steps: Array<
+      WorkflowStep & {
+        stepNumber?: number;
+        description?: string;
+        dependencies?: number[];
+      }
+    >;
+  };
+  userId?: string;
+  expect?: {
+    status?: ExecutionResult["status"];
+    /** Checked against the step results in order */
+    steps?: Array<{
+      status?: StepResult["status"];
+      /** Status the tool reported; an error result fails the step */
+      result?: ToolResult["status"];
+      error?: string;
+      /** Fields the tool result's data must have */
+      data?: Record<string, unknown>;
+    }>;
+  };
+}
+
+export type ScenarioStep = ScenarioQueryStep | ScenarioPlanStep;
+
+/**
+ * A regression case for the agents, run against the local chain: the chain
+ * it starts from, what the user does, the LLM replies it gets and what the
+ * chain and responses must look like afterwards
+ */
+export interface Scenario {
+  name: string;
+  description?: string;
+  /** User the steps run as unless a step names another */
+  userId?: string;
+  /** Seeds the local chain so fees and mock results repeat run to run */
+  seed?: number;
+  chain?: {
+    accounts?: ScenarioAccount[];
+    contracts?: ScenarioContract[];
+    liquidityPools?: LiquidityPool[];
+  };
+  /** Scripted LLM replies, used in order */
+  llm?: LLMFixture[];
+  steps: ScenarioStep[];
+  expect?: {
+    accounts?: Array<{
+      userId?: string;
+      chain?: LedgerChain;
+      balances?: Record<string, AmountExpectation>;
+      sequence?: number;
+    }>;
+    contracts?: Array<{
+      contractId: string;
+      storage: Record<string, unknown>;
+    }>;
+  };
+}
+
+export interface LoadedScenario {
+  file: string;
+  scenario: Scenario;
+}
+
+export class ScenarioError extends Error {
+  constructor(
+    public readonly file: string,
+    message: string
+  ) {
+    super(`${file}: ${message}`);
+    this.name = "ScenarioError";
+  }
+}
+
+function validate(file: string, value: unknown): Scenario {
+  const scenario = value as Scenario;
+  if (typeof scenario !== "object" || scenario === null) {
+    throw new ScenarioError(file, "a scenario must be an object");
+  }
+  if (typeof scenario.name !== "string" || !scenario.name.trim()) {
+    throw new ScenarioError(file, "name is required");
+  }
+  if (!Array.isArray(scenario.steps) || scenario.steps.length === 0) {
+    throw new ScenarioError(file, "steps must list at least one step");
+  }
+
+  scenario.steps.forEach((step, index) => {
+    const isQuery = typeof (step as ScenarioQueryStep).query === "string";
+    const isPlan = Array.isArray((step as ScenarioPlanStep).plan?.steps);
+    if (isQuery === isPlan) {
+      throw new ScenarioError(
+        file,
+        `step ${index + 1} must have either a query or a plan with steps`
+      );
+    }
+  });
+  return scenario;
+}
+
+/**
+ * Load the scenarios in a JSON file, which may hold one scenario or an array,
+ * or in every JSON file of a directory
+ */
+export function loadScenarios(target: string): LoadedScenario[] {
+  if (fs.statSync(target).isDirectory()) {
+    return fs
+      .readdirSync(target)
+      .filter((name) => name.endsWith(".json"))
+      .sort()
+      .flatMap((name) => loadScenarios(path.join(target, name)));
+  }
+
+  let content: unknown;
+  try {
+    content = JSON.parse(fs.readFileSync(target, "utf-8"));
+  } catch (error) {
+    throw new ScenarioError(
+      target,
+      `invalid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  return (Array.isArray(content) ? content : [content]).map((scenario) => ({
+    file: target,
+    scenario: validate(target, scenario),
+  }));
+}
@@ -0,0 +1,379 @@
+import { intentAgent } from "../Agents/agents/intentagent";
+import { ScriptedProvider, setLLMProvider } from "../Agents/llm";
+import { memoryStore } from "../Agents/memory/memory";
+import { ExecutionPlan } from "../Agents/planner/AgentPlanner";
+import { PlanExecutor } from "../Agents/planner/PlanExecutor";
+import { toolAutoDiscovery } from "../Agents/registry/ToolAutoDiscovery";
+import logger from "../config/logger";
+import { LocalChainManager } from "./LocalChainManager";
+import {
+  AmountExpectation,
+  LoadedScenario,
+  Scenario,
+  ScenarioPlanStep,
+  ScenarioQueryStep,
+} from "./Scenario";
+import { createSimulationSession, runInSimulation } from "./simulationContext";
+
+export interface ScenarioResult {
+  name: string;
+  file?: string;
+  passed: boolean;
+  /** Why the scenario failed, one entry per broken expectation */
+  failures: string[];
+  duration: number;
+}
+
+export interface ScenarioReport {
+  passed: number;
+  failed: number;
+  results: ScenarioResult[];
+}
+
+const DEFAULT_USER = "scenario-user";
+const DEFAULT_SEED = 1;
+
+const isNumeric = (value: unknown): boolean =>
+  typeof value === "number" ||
+  (typeof value === "string" && value.trim() !== "" && !isNaN(Number(value)));
+
+const show = (value: unknown): string =>
+  value === undefined ? "nothing" : JSON.stringify(value);
+
+/**
+ * Compare `actual` against the fields `expected` names. Numbers and numeric
+ * strings are compared by value, so "10" matches "10.0000000".
+ */
+function mismatches(expected: unknown, actual: unknown, at: string): string[] {
+  if (isNumeric(expected) && isNumeric(actual)) {
+    return Number(expected) === Number(actual)
+      ? []
+      : [`${at}: expected ${show(expected)}, got ${show(actual)}`];
+  }
+  if (typeof expected === "object" && expected !== null) {
+    if (typeof actual !== "object" || actual === null) {
+      return [`${at}: expected ${show(expected)}, got ${show(actual)}`];
+    }
+    return Object.entries(expected).flatMap(([key, value]) =>
+      mismatches(
+        value,
+        (actual as Record<string, unknown>)[key],
+        Array.isArray(expected) ? `${at}[${key}]` : `${at}.${key}`
+      )
+    );
+  }
+  return expected === actual
+    ? []
+    : [`${at}: expected ${show(expected)}, got ${show(actual)}`];
+}
+
+function amountMismatch(
+  expected: AmountExpectation,
+  actual: string,
+  at: string
+): string | undefined {
+  if (typeof expected !== "object") {
+    return mismatches(expected, actual, at)[0];
+  }
+  const value = Number(actual);
+  if (expected.min !== undefined && value < Number(expected.min)) {
+    return `${at}: expected at least ${expected.min}, got ${actual}`;
+  }
+  if (expected.max !== undefined && value > Number(expected.max)) {
+    return `${at}: expected at most ${expected.max}, got ${actual}`;
+  }
+  return undefined;
+}
+
+/**
+ * Runs scenarios against a fresh local chain each, with the LLM scripted by
+ * the scenario so a run needs neither a model nor the network. Queries go
+ * through the intent agent and plans through the plan executor, both in
+ * simulate mode. A step without expectations must succeed.
+ */
+export class ScenarioRunner {
+  async run(scenario: Scenario, file?: string): Promise<ScenarioResult> {
+    const startTime = Date.now();
+    const failures: string[] = [];
+    const provider = new ScriptedProvider(scenario.llm);
+
+    try {
+      const chain = await this.startChain(scenario);
+      setLLMProvider(provider);
+      await toolAutoDiscovery.initialize();
+
+      for (const [index, step] of scenario.steps.entries()) {
+        const userId = step.userId ?? scenario.userId ?? DEFAULT_USER;
+        const at = `step ${index + 1}`;
+        try {
+          failures.push(
+            ...("query" in step
+              ? await this.runQuery(step, userId, at)
+              : await this.runPlan(step, userId, at))
+          );
+        } catch (error) {
+          failures.push(
+            `${at}: threw ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+
+      failures.push(...this.checkChain(scenario, chain));
+      failures.push(
+        ...provider
+          .pending()
+          .map(
+            (fixture) =>
+              `unused LLM response${fixture.agent ? ` for ${fixture.agent}` : ""}: ${show(fixture.response)}`
+          )
+      );
+    } catch (error) {
+      failures.push(
+        `setup failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      setLLMProvider();
+    }
+
+    const result: ScenarioResult = {
+      name: scenario.name,
+      file,
+      passed: failures.length === 0,
+      failures,
+      duration: Date.now() - startTime,
+    };
+    logger.info("Scenario finished", {
+      name: result.name,
+      passed: result.passed,
+      failures: result.failures.length,
+    });
+    return result;
+  }
+
+  async runAll(scenarios: LoadedScenario[]): Promise<ScenarioReport> {
+    const results: ScenarioResult[] = [];
+    for (const { scenario, file } of scenarios) {
+      results.push(await this.run(scenario, file));
+    }
+
+    const passed = results.filter((result) => result.passed).length;
+    return { passed, failed: results.length - passed, results };
+  }
+
+  private async startChain(scenario: Scenario): Promise<LocalChainManager> {
+    const chain = new LocalChainManager({
+      enabled: false,
+      mode: "local",
+      latencyMs: 0,
+      errorRate: 0,
+      seed: scenario.seed ?? DEFAULT_SEED,
+      liquidityPools: scenario.chain?.liquidityPools,
+      fixtureMode: "off",
+    });
+    await chain.initialize();
+
+    const engine = chain.getSimulationEngine();
+    for (const account of scenario.chain?.accounts ?? []) {
+      engine
+        .getLedger()
+        .setBalances(
+          account.userId,
+          account.chain ?? "stellar",
+          account.balances
+        );
+    }
+    for (const contract of scenario.chain?.contracts ?? []) {
+      engine.getStateManager().updateContractState(contract.contractId, {
+        code: contract.code ?? "",
+        storage: { ...contract.storage },
+      });
+    }
+
+    const users = new Set([
+      scenario.userId ?? DEFAULT_USER,
+      ...scenario.steps.flatMap((step) => (step.userId ? [step.userId] : [])),
+    ]);
+    users.forEach((userId) => memoryStore.clear(userId));
+    return chain;
+  }
+
+  private async runQuery(
+    step: ScenarioQueryStep,
+    userId: string,
+    at: string
+  ): Promise<string[]> {
+    const result: { success: boolean; data?: string; error?: string } =
+      await runInSimulation(createSimulationSession(userId), () =>
+        intentAgent.handle(step.query, userId)
+      );
+    const expected = step.expect ?? { success: true };
+    const failures: string[] = [];
+
+    if (expected.success !== undefined && result.success !== expected.success) {
+      failures.push(
+        `${at}: expected success ${expected.success}, got ${result.success}${result.error ? ` (${result.error})` : ""}`
+      );
+    }
+    if (
+      expected.response !== undefined &&
+      !(result.data ?? "").includes(expected.response)
+    ) {
+      failures.push(
+        `${at}: expected the response to contain ${show(expected.response)}, got ${show(result.data)}`
+      );
+    }
+    if (
+      expected.error !== undefined &&
+      !(result.error ?? "").includes(expected.error)
+    ) {
+      failures.push(
+        `${at}: expected the error to contain ${show(expected.error)}, got ${show(result.error)}`
+      );
+    }
+    return failures;
+  }
+
+  private async runPlan(
+    step: ScenarioPlanStep,
+    userId: string,
+    at: string
+  ): Promise<string[]> {
+    const steps = step.plan.steps.map((planStep, index) => ({
+      ...planStep,
+      stepNumber: planStep.stepNumber ?? index + 1,
+      description: planStep.description ?? planStep.action,
+    }));
+    const plan: ExecutionPlan = {
+      planId: `scenario-${Date.now()}`,
+      steps,
+      totalSteps: steps.length,
+      estimatedDuration: 0,
+      riskLevel: "low",
+      requiresApproval: false,
+      summary: step.plan.summary ?? "Scenario plan",
+    };
+
+    const result = await new PlanExecutor().executePlan(plan, userId, {
+      simulate: true,
+      verifyHash: false,
+      stopOnError: step.plan.stopOnError,
+    });
+    const expected = step.expect ?? { status: "success" };
+    const failures: string[] = [];
+
+    if (expected.status !== undefined && result.status !== expected.status) {
+      failures.push(
+        `${at}: expected plan status ${show(expected.status)}, got ${show(result.status)}${result.error ? ` (${result.error})` : ""}`
+      );
+    }
+    (expected.steps ?? []).forEach((stepExpectation, index) => {
+      const stepAt = `${at}.${index + 1}`;
+      const stepResult = result.stepResults.find(
+        (candidate) => candidate.stepNumber === steps[index]?.stepNumber
+      );
+      if (!stepResult) {
+        failures.push(`${stepAt}: did not run`);
+        return;
+      }
+      const error = stepResult.error ?? stepResult.result?.error;
+      if (
+        stepExpectation.status !== undefined &&
+        stepResult.status !== stepExpectation.status
+      ) {
+        failures.push(
+          `${stepAt}: expected status ${show(stepExpectation.status)}, got ${show(stepResult.status)}${error ? ` (${error})` : ""}`
+        );
+      }
+      if (
+        stepExpectation.result !== undefined &&
+        stepResult.result?.status !== stepExpectation.result
+      ) {
+        failures.push(
+          `${stepAt}: expected result ${show(stepExpectation.result)}, got ${show(stepResult.result?.status)}${error ? ` (${error})` : ""}`
+        );
+      }
+      if (
+        stepExpectation.error !== undefined &&
+        !(error ?? "").includes(stepExpectation.error)
+      ) {
+        failures.push(
+          `${stepAt}: expected the error to contain ${show(stepExpectation.error)}, got ${show(error)}`
+        );
+      }
+      if (stepExpectation.data !== undefined) {
+        failures.push(
+          ...mismatches(
+            stepExpectation.data,
+            stepResult.result?.data,
+            `${stepAt} data`
+          )
+        );
+      }
+    });
+    return failures;
+  }
+
+  private checkChain(scenario: Scenario, chain: LocalChainManager): string[] {
+    const engine = chain.getSimulationEngine();
+    const ledger = engine.getLedger();
+    const failures: string[] = [];
+
+    for (const expected of scenario.expect?.accounts ?? []) {
+      const userId = expected.userId ?? scenario.userId ?? DEFAULT_USER;
+      const chainName = expected.chain ?? "stellar";
+      const account = ledger.account(userId, chainName);
+      const at = `${userId} on ${chainName}`;
+
+      for (const [asset, amount] of Object.entries(expected.balances ?? {})) {
+        const failure = amountMismatch(
+          amount,
+          ledger.balanceOf(account, asset),
+          `${at} ${asset} balance`
+        );
+        if (failure) failures.push(failure);
+      }
+      if (
+        expected.sequence !== undefined &&
+        account.sequence !== expected.sequence
+      ) {
+        failures.push(
+          `${at} sequence: expected ${expected.sequence}, got ${account.sequence}`
+        );
+      }
+    }
+
+    for (const expected of scenario.expect?.contracts ?? []) {
+      const contract = engine
+        .getStateManager()
+        .getContractState(expected.contractId);
+      failures.push(
+        ...(contract
+          ? mismatches(
+              expected.storage,
+              contract.storage,
+              `contract ${expected.contractId} storage`
+            )
+          : [`contract ${expected.contractId}: does not exist`])
+      );
+    }
+    return failures;
+  }
+}
+
+/**
+ * Plain-text summary of a run, listing each scenario and why failed ones
+ * failed
+ */
+export function formatReport(report: ScenarioReport): string {
+  const lines = report.results.flatMap((result) => [
+    `${result.passed ? "PASS" : "FAIL"} ${result.name}${result.file ? ` (${result.file})` : ""} ${result.duration}ms`,
+    ...result.failures.map((failure) => `  - ${failure}`),
+  ]);
+  lines.push(
+    "",
+    `${report.passed} passed, ${report.failed} failed, ${report.results.length} total`
+  );
+  return lines.join("\n");
+}
+
+export const scenarioRunner = new ScenarioRunner();
@@ -0,0 +1,236 @@
+import fs from "fs";
+import path from "path";
+import { SorobanDataBuilder, xdr } from "@stellar/stellar-sdk";
+import logger from "../config/logger";
+
+export interface RecordedError {
+  name: string;
+  message: string;
+  /** Status and body of a Horizon or RPC error, e.g. its result codes */
+  response?: { status?: number; data?: unknown };
+}
+
+/** One live swap, wallet or Soroban call and what it returned or threw */
+export interface ServiceFixture {
+  service: string;
+  method: string;
+  parameters: unknown;
+  result?: unknown;
+  error?: RecordedError;
+}
+
+export class FixtureNotFoundError extends Error {
+  constructor(
+    public readonly service: string,
+    public readonly method: string
+  ) {
+    super(`No recorded response for ${service}.${method}`);
+    this.name = "FixtureNotFoundError";
+  }
+}
+
+type XdrValue = { toXDR(format: "base64"): string };
+
+// Name of the generated XDR type of a value, e.g. ScVal or DiagnosticEvent
+const xdrTypeOf = (value: XdrValue): string | undefined => {
+  const type = value.constructor as {
+    structName?: string;
+    unionName?: string;
+    enumName?: string;
+  };
+  const name = type.structName ?? type.unionName ?? type.enumName;
+  return name && name in xdr ? name : undefined;
+};
+
+// JSON has no bigints (Soroban i128 values) and XDR objects only survive as
+// base64, tagged with their type so replay can rebuild them
+const replacer = (_key: string, value: unknown) => {
+  if (typeof value === "bigint") {
+    return { $bigint: value.toString() };
+  }
+  if (value instanceof SorobanDataBuilder) {
+    return {
+      $xdr: value.build().toXDR("base64"),
+      $type: "SorobanDataBuilder",
+    };
+  }
+  if (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { toXDR?: unknown }).toXDR === "function"
+  ) {
+    const type = xdrTypeOf(value as XdrValue);
+    return {
+      $xdr: (value as XdrValue).toXDR("base64"),
+      ...(type ? { $type: type } : {}),
+    };
+  }
+  return value;
+};
+
+const reviver = (_key: string, value: unknown) => {
+  if (typeof value === "object" && value !== null) {
+    const encoded = value as {
+      $bigint?: string;
+      $xdr?: string;
+      $type?: string;
+      type?: string;
+      data?: number[];
+    };
+    if (typeof encoded.$bigint === "string") {
+      return BigInt(encoded.$bigint);
+    }
+    if (typeof encoded.$xdr === "string" && encoded.$type) {
+      if (encoded.$type === "SorobanDataBuilder") {
+        return new SorobanDataBuilder(encoded.$xdr);
+      }
+      const type = (
+        xdr as unknown as Record<
+          string,
+          { fromXDR?: (input: string, format: "base64") => unknown }
+        >
+      )[encoded.$type];
+      if (type?.fromXDR) {
+        return type.fromXDR(encoded.$xdr, "base64");
+      }
+    }
+    if (encoded.type === "Buffer" && Array.isArray(encoded.data)) {
+      return Buffer.from(encoded.data);
+    }
+  }
+  return value;
+};
+
+const encode = (value: unknown): unknown =>
+  value === undefined ? undefined : JSON.parse(JSON.stringify(value, replacer));
+
+const decode = (value: unknown): unknown =>
+  value === undefined ? undefined : JSON.parse(JSON.stringify(value), reviver);
+
+// Keep only the body of HTTP error responses; their requests are circular
+const responseOf = (error: unknown) => {
+  const response = (error as { response?: { status?: number; data?: unknown } })
+    ?.response;
+  return response && { status: response.status, data: response.data };
+};
+
+/**
+ * Passes calls through to the live network and records each response or
+ * failure as a fixture the replayer can serve back. Fixtures are written to
+ * `filePath` after every call when one is given.
+ */
+export class FixtureRecorder {
+  readonly fixtures: ServiceFixture[] = [];
+
+  constructor(private readonly filePath?: string) {}
+
+  async record<T>(
+    service: string,
+    method: string,
+    parameters: unknown,
+    live: () => Promise<T>
+  ): Promise<T> {
+    const fixture: ServiceFixture = {
+      service,
+      method,
+      parameters: encode(parameters),
+    };
+
+    try {
+      const result = await live();
+      this.add({ ...fixture, result: encode(result) });
+      return result;
+    } catch (error) {
+      this.add({
+        ...fixture,
+        error: {
+          name: error instanceof Error ? error.name : "Error",
+          message: error instanceof Error ? error.message : String(error),
+          response: encode(responseOf(error)) as RecordedError["response"],
+        },
+      });
+      throw error;
+    }
+  }
+
+  save(filePath: string): void {
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(this.fixtures, null, 2));
+    } catch (error) {
+      logger.error("Failed to save service fixtures", { filePath, error });
+    }
+  }
+
+  private add(fixture: ServiceFixture): void {
+    this.fixtures.push(fixture);
+    if (this.filePath) {
+      this.save(this.filePath);
+    }
+  }
+}
+
+/**
+ * Serves recorded responses instead of calling the network. Each call is
+ * answered by the first unused fixture for the same service, method and
+ * parameters, so repeated calls play back in the order they were recorded.
+ * Results come back exactly as recorded, and recorded failures are thrown
+ * again with their response bodies.
+ */
+export class FixtureReplayer {
+  private fixtures: Array<{ fixture: ServiceFixture; used: boolean }> = [];
+
+  constructor(fixtures: ServiceFixture[] = []) {
+    this.fixtures = fixtures.map((fixture) => ({ fixture, used: false }));
+  }
+
+  /**
+   * Load fixtures saved as JSON by the recorder
+   */
+  static fromFile(filePath: string): FixtureReplayer {
+    const fixtures = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    if (!Array.isArray(fixtures)) {
+      throw new Error(`Service fixture file ${filePath} must contain an array`);
+    }
+    return new FixtureReplayer(fixtures);
+  }
+
+  /**
+   * Fixtures that have not answered a call yet
+   */
+  pending(): ServiceFixture[] {
+    return this.fixtures
+      .filter((entry) => !entry.used)
+      .map((entry) => entry.fixture);
+  }
+
+  async replay<T>(
+    service: string,
+    method: string,
+    parameters: unknown
+  ): Promise<T> {
+    const key = JSON.stringify(encode(parameters));
+    const entry = this.fixtures.find(
+      ({ fixture, used }) =>
+        !used &&
+        fixture.service === service &&
+        fixture.method === method &&
+        JSON.stringify(fixture.parameters) === key
+    );
+    if (!entry) {
+      throw new FixtureNotFoundError(service, method);
+    }
+
+    entry.used = true;
+    const { error, result } = entry.fixture;
+    if (error) {
+      throw Object.assign(new Error(error.message), {
+        name: error.name,
+        ...(error.response !== undefined && {
+          response: decode(error.response),
+        }),
+      });
+    }
+    return decode(result) as T;
+  }
+}
@@ -1,10 +1,14 @@
 import { SimulationEngine } from './SimulationEngine';
-import { SimulationMode, SimulationRequest } from './types';
+import { SimulationMode, SimulationRequest, SimulationResponse } from './types';
+import { getSimulationSession } from './simulationContext';
+import { LedgerError } from './Ledger';
+import { FixtureRecorder, FixtureReplayer } from './ServiceFixtures';
 import logger from '../config/logger';
 
 export class ServiceInterceptor {
   private simulationEngine: SimulationEngine;
   private enabled = false;
+  private fixtures: FixtureRecorder | FixtureReplayer | null = null;
 
   constructor(simulationEngine: SimulationEngine) {
     this.simulationEngine = simulationEngine;
@@ -20,6 +24,21 @@ export class ServiceInterceptor {
     logger.info('Service interceptor disabled');
   }
 
+  /**
+   * Record the calls that go live to fixtures, or answer them from recorded
+   * fixtures without touching the network. Pass null to call live again.
+   */
+  useFixtures(fixtures: FixtureRecorder | FixtureReplayer | null): void {
+    this.fixtures = fixtures;
+    logger.info('Service fixtures configured', {
+      mode: fixtures instanceof FixtureReplayer ? 'replay' : fixtures ? 'record' : 'off'
+    });
+  }
+
+  usesFixtures(): boolean {
+    return this.fixtures !== null;
+  }
+
   async intercept<T>(
     serviceName: string,
     methodName: string,
@@ -28,37 +47,26 @@ export class ServiceInterceptor {
     userId: string = 'default'
   ): Promise<T> {
     
-    if (!this.enabled || !this.isSimulationEnabled(serviceName)) {
+    if (!this.shouldIntercept(serviceName)) {
       // Pass through to original method
-      return originalMethod(...params);
+      return this.passThrough(serviceName, methodName, params, originalMethod);
     }
 
     try {
-      // Create simulation request
-      const request: SimulationRequest = {
-        service: serviceName as 'soroban' | 'wallet' | 'swap',
-        operation: methodName,
-        parameters: this.extractParameters(params),
-        userId,
-        timestamp: Date.now()
-      };
-
-      // Process through simulation engine
-      const response = await this.simulationEngine.processRequest(request);
-      
-      if (!response.success) {
-        throw new Error('Simulation failed');
-      }
-
-      logger.debug('Request intercepted and simulated', { 
-        service: serviceName, 
-        method: methodName,
-        userId 
-      });
-
+      const response = await this.simulate(
+        serviceName,
+        methodName,
+        this.extractParameters(params),
+        userId
+      );
       return response.data as T;
 
     } catch (error) {
+      // A simulated request must never reach the live network
+      if (getSimulationSession()) {
+        throw error;
+      }
+
       logger.error('Interception failed, falling back to live service', { 
         error, 
         service: serviceName, 
@@ -66,8 +74,81 @@ export class ServiceInterceptor {
       });
       
       // Fallback to original method on simulation failure
-      return originalMethod(...params);
+      return this.passThrough(serviceName, methodName, params, originalMethod);
+    }
+  }
+
+  /**
+   * Run a call that is not simulated: against the network, recording it in
+   * record mode, or from its recording in replay mode
+   */
+  async passThrough<T>(
+    serviceName: string,
+    methodName: string,
+    params: unknown[],
+    originalMethod: (...args: unknown[]) => Promise<T>
+  ): Promise<T> {
+    const parameters = this.extractParameters(params);
+    if (this.fixtures instanceof FixtureReplayer) {
+      return this.fixtures.replay<T>(serviceName, methodName, parameters);
     }
+    if (this.fixtures instanceof FixtureRecorder) {
+      return this.fixtures.record(serviceName, methodName, parameters, () => originalMethod(...params));
+    }
+    return originalMethod(...params);
+  }
+
+  /**
+   * Answer a call from the simulation engine, recording its state changes and
+   * gas on the current simulation session. Throws when the simulated call fails.
+   */
+  async simulate(
+    serviceName: string,
+    methodName: string,
+    parameters: Record<string, unknown>,
+    userId: string = 'default'
+  ): Promise<SimulationResponse> {
+    const session = getSimulationSession();
+    const request: SimulationRequest = {
+      service: serviceName as 'soroban' | 'wallet' | 'swap',
+      operation: methodName,
+      parameters,
+      userId: session?.userId ?? userId,
+      timestamp: Date.now()
+    };
+
+    const response = await this.simulationEngine.processRequest(request);
+    // Failed transactions are recorded too, since they still paid their fee
+    if (session) {
+      session.stateChanges.push(...response.metadata.stateChanges);
+      session.simulatedGas += response.metadata.simulatedGas;
+    }
+
+    if (!response.success) {
+      const message = response.error ?? 'Simulation failed';
+      throw response.resultCodes
+        ? new LedgerError(response.resultCodes, message)
+        : new Error(message);
+    }
+
+    logger.debug('Request intercepted and simulated', { 
+      service: serviceName, 
+      method: methodName,
+      userId: request.userId 
+    });
+
+    return response;
+  }
+
+  /**
+   * Whether calls to a service are simulated: always inside a simulation
+   * session, otherwise when the interceptor is enabled for the service
+   */
+  shouldIntercept(serviceName: string): boolean {
+    return (
+      getSimulationSession() !== undefined ||
+      (this.enabled && this.isSimulationEnabled(serviceName))
+    );
   }
 
   isSimulationEnabled(serviceName: string): boolean {
@@ -108,6 +189,22 @@ export function getInterceptor(): ServiceInterceptor | null {
   return globalInterceptor;
 }
 
+/**
+ * The interceptor a call to `serviceName` should go through, to be simulated
+ * or recorded or replayed, or null when the call goes straight to the live
+ * network. Throws in simulate mode when no local chain has been initialized
+ * rather than letting the call go live.
+ */
+export function interceptorFor(serviceName: string): ServiceInterceptor | null {
+  if (globalInterceptor?.shouldIntercept(serviceName) || globalInterceptor?.usesFixtures()) {
+    return globalInterceptor;
+  }
+  if (getSimulationSession()) {
+    throw new Error('Simulate mode is unavailable: the local chain is not initialized');
+  }
+  return null;
+}
+
 // Decorator function for easy method interception
 export function intercepted(serviceName: string, methodName?: string) {
   return function (target: unknown, propertyKey: string, descriptor: PropertyDescriptor) {
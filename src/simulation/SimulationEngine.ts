@@ -1,26 +1,36 @@
-import { SimulationConfig, SimulationRequest, SimulationResponse, SimulationMode } from './types';
+import { SimulationConfig, SimulationRequest, SimulationResponse, SimulationMode, GasEstimate } from './types';
 import { StateManager } from './StateManager';
+import { Ledger, LedgerError } from './Ledger';
+import { ContractRuntime } from './ContractRuntime';
 import { ResponseGenerator } from './ResponseGenerator';
 import { GasSimulator } from './GasSimulator';
+import { createRandom, RandomSource } from './random';
 import logger from '../config/logger';
 
 export class SimulationEngine {
   private config!: SimulationConfig;
   private stateManager: StateManager;
+  private ledger: Ledger;
+  private contractRuntime: ContractRuntime;
   private responseGenerator: ResponseGenerator;
   private gasSimulator: GasSimulator;
+  private random: RandomSource = Math.random;
   private initialized = false;
 
   constructor() {
     this.stateManager = new StateManager();
-    this.responseGenerator = new ResponseGenerator();
+    this.ledger = new Ledger(this.stateManager);
+    this.contractRuntime = new ContractRuntime(this.stateManager);
+    this.responseGenerator = new ResponseGenerator(this.ledger, this.contractRuntime);
     this.gasSimulator = new GasSimulator();
   }
 
   async initialize(config: SimulationConfig): Promise<void> {
     this.config = config;
+    this.random = createRandom(config.simulation.seed, 'latency');
     
     await this.stateManager.initialize(config);
+    await this.ledger.initialize(config);
     await this.responseGenerator.initialize(config);
     await this.gasSimulator.initialize(config);
     
@@ -34,8 +44,17 @@ export class SimulationEngine {
     }
 
     const startTime = Date.now();
+    const before = this.stateManager.createSnapshot();
+    let gasEstimate: GasEstimate | undefined;
     
     try {
+      // Estimate gas usage up front; transactions pay its cost as their fee
+      gasEstimate = await this.gasSimulator.estimateGas({
+        service: request.service,
+        operation: request.operation,
+        parameters: request.parameters
+      });
+
       // Generate realistic response based on service type
       let response;
       switch (request.service) {
@@ -43,22 +62,15 @@ export class SimulationEngine {
           response = await this.responseGenerator.generateSorobanResponse(request);
           break;
         case 'wallet':
-          response = await this.responseGenerator.generateWalletResponse(request);
+          response = await this.responseGenerator.generateWalletResponse(request, gasEstimate);
           break;
         case 'swap':
-          response = await this.responseGenerator.generateSwapResponse(request);
+          response = await this.responseGenerator.generateSwapResponse(request, gasEstimate);
           break;
         default:
           throw new Error(`Unsupported service: ${request.service}`);
       }
 
-      // Estimate gas usage
-      const gasEstimate = await this.gasSimulator.estimateGas({
-        service: request.service,
-        operation: request.operation,
-        parameters: request.parameters
-      });
-
       // Track gas usage
       this.gasSimulator.trackGasUsage(request.userId, {
         service: request.service,
@@ -66,6 +78,9 @@ export class SimulationEngine {
         parameters: request.parameters
       }, gasEstimate.estimatedGas);
 
+      // Diff before the latency wait so concurrent requests do not overlap
+      const stateChanges = this.stateManager.getStateChanges(before);
+
       // Apply latency simulation
       await this.simulateLatency();
 
@@ -77,19 +92,23 @@ export class SimulationEngine {
         metadata: {
           simulatedGas: gasEstimate.estimatedGas,
           processingTime,
-          stateChanges: [] // Will be populated by state manager
+          stateChanges
         }
       };
 
     } catch (error) {
       logger.error('Simulation request failed', { error, request });
+      // A transaction whose operation failed still paid its fee
+      const stateChanges = this.stateManager.getStateChanges(before);
       return {
         success: false,
         data: null,
+        error: error instanceof Error ? error.message : String(error),
+        resultCodes: error instanceof LedgerError ? error.resultCodes : undefined,
         metadata: {
-          simulatedGas: 0,
+          simulatedGas: stateChanges.length > 0 && gasEstimate ? gasEstimate.estimatedGas : 0,
           processingTime: Date.now() - startTime,
-          stateChanges: []
+          stateChanges
         }
       };
     }
@@ -97,7 +116,7 @@ export class SimulationEngine {
 
   private async simulateLatency(): Promise<void> {
     const { baseDelay, variability } = this.config.simulation.latency;
-    const variance = (Math.random() - 0.5) * 2 * variability / 100;
+    const variance = (this.random() - 0.5) * 2 * variability / 100;
     const delay = baseDelay * (1 + variance);
     
     if (delay > 0) {
@@ -108,6 +127,12 @@ export class SimulationEngine {
   async reset(resetType: 'full' | 'partial', preserveState?: string[]): Promise<void> {
     await this.stateManager.reset(resetType, preserveState);
     await this.gasSimulator.resetGasTracking();
+    if (resetType === 'full' && this.config) {
+      // Start the seeded sequences over so a reset run repeats the last one
+      this.random = createRandom(this.config.simulation.seed, 'latency');
+      await this.responseGenerator.initialize(this.config);
+      await this.gasSimulator.initialize(this.config);
+    }
     logger.info('Simulation engine reset', { resetType });
   }
 
@@ -128,6 +153,18 @@ export class SimulationEngine {
     return this.config?.mode || 'live';
   }
 
+  getStateManager(): StateManager {
+    return this.stateManager;
+  }
+
+  getLedger(): Ledger {
+    return this.ledger;
+  }
+
+  getContractRuntime(): ContractRuntime {
+    return this.contractRuntime;
+  }
+
   // Public method to access gas simulator for testing
   getGasSimulator(): GasSimulator {
     return this.gasSimulator;
@@ -1,4 +1,5 @@
 import { SimulationConfig, AccountState, ContractState, StateChange } from './types';
+import { liquidityPoolId, trustlinesFor } from './Ledger';
 import logger from '../config/logger';
 
 export class StateManager {
@@ -16,7 +17,7 @@ export class StateManager {
         address: account.address,
         balances: { ...account.initialBalances },
         sequence: 0,
-        trustlines: [],
+        trustlines: trustlinesFor(account.initialBalances),
         lastModified: Date.now()
       };
       this.accountStates.set(account.address, accountState);
@@ -33,10 +34,22 @@ export class StateManager {
       this.accountStates.set(account.address, accountState);
     }
 
+    // Seed the AMM pools that price swaps
+    for (const pool of config.stellar.liquidityPools) {
+      const contractId = liquidityPoolId(pool.assetA, pool.assetB);
+      this.contractStates.set(contractId, {
+        contractId,
+        code: 'constant_product',
+        storage: { ...pool },
+        lastInvoked: Date.now()
+      });
+    }
+
     this.initialized = true;
     logger.info('State manager initialized', { 
       stellarAccounts: config.stellar.defaultAccounts.length,
-      starknetAccounts: config.starknet.defaultAccounts.length
+      starknetAccounts: config.starknet.defaultAccounts.length,
+      liquidityPools: config.stellar.liquidityPools.length
     });
   }
 
@@ -54,6 +67,17 @@ export class StateManager {
       };
       this.accountStates.set(address, updated);
       logger.debug('Account state updated', { address, updates });
+    } else {
+      // Create new account state
+      const newState: AccountState = {
+        address,
+        balances: {},
+        sequence: 0,
+        lastModified: Date.now(),
+        ...updates
+      };
+      this.accountStates.set(address, newState);
+      logger.debug('Account state created', { address });
     }
   }
 
@@ -0,0 +1,143 @@
+import {
+  Address,
+  nativeToScVal,
+  scValToNative,
+  StrKey,
+  xdr,
+} from "@stellar/stellar-sdk";
+
+/** An event a contract published, as Soroban RPC reports contract events */
+export interface ContractEvent {
+  contractId: string;
+  topics: xdr.ScVal[];
+  value: xdr.ScVal;
+}
+
+/**
+ * What a contract method sees of the chain while it runs. Storage is the
+ * contract's `ContractState.storage`; changes to it are kept only when the
+ * whole invocation succeeds.
+ */
+export interface ContractContext {
+  readonly contractId: string;
+  /** Account that submitted the invocation */
+  readonly source: string;
+  /** The source account, or the contract calling this one */
+  readonly caller: string;
+  readonly storage: Record<string, unknown>;
+  /** Throws unless `address` authorized this call, like `require_auth` */
+  requireAuth(address: string): void;
+  emit(topics: xdr.ScVal[], value: xdr.ScVal): void;
+  /** Invoke another contract on the local chain and decode its result */
+  call(contractId: string, method: string, args: unknown[]): unknown;
+}
+
+/** Receives the invocation's arguments decoded to native values */
+export type ContractMethod = (
+  context: ContractContext,
+  args: unknown[]
+) => xdr.ScVal | void;
+
+/**
+ * TypeScript stand-in for a deployed Soroban contract. Register one against
+ * a contract ID, or store its name as the contract's code, and invocations
+ * of that contract run its methods instead of returning canned results.
+ */
+export interface ContractMock {
+  /** Kept as the contract's code, e.g. "token" */
+  readonly name: string;
+  readonly methods: Record<string, ContractMethod>;
+}
+
+/** A failed invocation, worded like the host errors Soroban RPC returns */
+export class ContractError extends Error {
+  constructor(
+    public readonly error: string,
+    reason: string
+  ) {
+    super(`HostError: ${error}: ${reason}`);
+    this.name = "ContractError";
+  }
+}
+
+/** Error a contract raised itself, `Error(Contract, #code)` */
+export const contractError = (code: number, reason: string) =>
+  new ContractError(`Error(Contract, #${code})`, reason);
+
+export const invalidInput = (reason: string) =>
+  new ContractError("Error(Value, InvalidInput)", reason);
+
+export const isScVal = (value: unknown): value is xdr.ScVal =>
+  typeof value === "object" && value !== null && "switch" in value;
+
+/** Arguments arrive as ScVals or as the JSON values agents pass */
+export const toNative = (value: unknown): unknown =>
+  isScVal(value) ? scValToNative(value) : value;
+
+export const scVal = {
+  symbol: (value: string) => nativeToScVal(value, { type: "symbol" }),
+  string: (value: string) => nativeToScVal(value, { type: "string" }),
+  address: (value: string) => Address.fromString(value).toScVal(),
+  i128: (value: bigint) => nativeToScVal(value, { type: "i128" }),
+  u32: (value: number) => nativeToScVal(value, { type: "u32" }),
+  vec: (values: xdr.ScVal[]) => xdr.ScVal.scvVec(values),
+  /** Map with symbol keys, sorted as the host requires */
+  map: (entries: Record<string, xdr.ScVal>) =>
+    xdr.ScVal.scvMap(
+      Object.keys(entries)
+        .sort()
+        .map(
+          (key) =>
+            new xdr.ScMapEntry({ key: scVal.symbol(key), val: entries[key] })
+        )
+    ),
+};
+
+export function addressArg(
+  args: unknown[],
+  index: number,
+  name: string
+): string {
+  const value = args[index];
+  if (
+    typeof value !== "string" ||
+    !(StrKey.isValidEd25519PublicKey(value) || StrKey.isValidContract(value))
+  ) {
+    throw invalidInput(`${name} must be an account or contract address`);
+  }
+  return value;
+}
+
+/** A non-negative i128 amount, given as a bigint, number or integer string */
+export function amountArg(
+  args: unknown[],
+  index: number,
+  name: string
+): bigint {
+  const value = args[index];
+  let amount: bigint;
+  try {
+    amount = BigInt(value as string | number | bigint);
+  } catch {
+    throw invalidInput(`${name} must be an integer amount`);
+  }
+  if (amount < BigInt(0)) {
+    throw invalidInput(`${name} must not be negative`);
+  }
+  return amount;
+}
+
+// Amounts are kept in storage as integer strings so state stays JSON
+export const amountOf = (value: unknown): bigint =>
+  BigInt((value as string | undefined) ?? "0");
+
+/** An address-keyed table of amounts in a contract's storage */
+export function tableOf(
+  storage: Record<string, unknown>,
+  key: string
+): Record<string, string> {
+  if (typeof storage[key] !== "object" || storage[key] === null) {
+    storage[key] = {};
+  }
+  return storage[key] as Record<string, string>;
+}
@@ -0,0 +1,213 @@
+import {
+  addressArg,
+  amountArg,
+  amountOf,
+  ContractContext,
+  contractError,
+  ContractMock,
+  scVal,
+  tableOf,
+} from "./ContractMock";
+
+const INSUFFICIENT_LIQUIDITY = 1;
+const INSUFFICIENT_COLLATERAL = 2;
+const EXCEEDS_POSITION = 3;
+
+const ZERO = BigInt(0);
+const BPS = BigInt(10000);
+
+/**
+ * Storage of a single-asset lending market. Rates and the collateral factor
+ * are in basis points; amounts are integer strings in the asset's smallest
+ * unit.
+ */
+export interface LendingStorage {
+  /** Token contract lent and borrowed */
+  asset: string;
+  collateralFactorBps: number;
+  /** Borrow rate at zero utilization */
+  baseRateBps: number;
+  /** Added to the base rate at full utilization */
+  slopeBps: number;
+  totalSupply: string;
+  totalBorrow: string;
+  supplied: Record<string, string>;
+  borrowed: Record<string, string>;
+}
+
+const utilizationOf = (storage: Record<string, unknown>): bigint => {
+  const supplied = amountOf(storage.totalSupply);
+  return supplied === ZERO
+    ? ZERO
+    : (amountOf(storage.totalBorrow) * BPS) / supplied;
+};
+
+function adjust(
+  context: ContractContext,
+  table: "supplied" | "borrowed",
+  owner: string,
+  change: bigint
+): void {
+  const positions = tableOf(context.storage, table);
+  positions[owner] = (amountOf(positions[owner]) + change).toString();
+  const total = table === "supplied" ? "totalSupply" : "totalBorrow";
+  context.storage[total] = (
+    amountOf(context.storage[total]) + change
+  ).toString();
+}
+
+function requireCollateral(
+  context: ContractContext,
+  owner: string,
+  supplied: bigint,
+  borrowed: bigint
+): void {
+  const limit =
+    (supplied * BigInt(Number(context.storage.collateralFactorBps ?? 7500))) /
+    BPS;
+  if (borrowed > limit) {
+    throw contractError(
+      INSUFFICIENT_COLLATERAL,
+      `${owner} may borrow at most ${limit}, would owe ${borrowed}`
+    );
+  }
+}
+
+function requireLiquidity(context: ContractContext, amount: bigint): void {
+  const available =
+    amountOf(context.storage.totalSupply) -
+    amountOf(context.storage.totalBorrow);
+  if (amount > available) {
+    throw contractError(
+      INSUFFICIENT_LIQUIDITY,
+      `only ${available} is available to lend`
+    );
+  }
+}
+
+/**
+ * A lending market for one token: suppliers deposit it, and borrow up to
+ * the collateral factor of what they supplied. Interest is quoted from
+ * utilization but not accrued, since the local chain has no clock.
+ */
+export class LendingContract implements ContractMock {
+  readonly name = "lending";
+
+  readonly methods: ContractMock["methods"] = {
+    total_supply: ({ storage }) => scVal.i128(amountOf(storage.totalSupply)),
+    total_borrow: ({ storage }) => scVal.i128(amountOf(storage.totalBorrow)),
+    utilization_rate: ({ storage }) =>
+      scVal.u32(Number(utilizationOf(storage))),
+    collateral_factor: ({ storage }) =>
+      scVal.u32(Number(storage.collateralFactorBps ?? 7500)),
+
+    interest_rate: ({ storage }) => {
+      const slope = BigInt(Number(storage.slopeBps ?? 0));
+      return scVal.u32(
+        Number(storage.baseRateBps ?? 0) +
+          Number((utilizationOf(storage) * slope) / BPS)
+      );
+    },
+
+    get_position: ({ storage }, args) => {
+      const id = addressArg(args, 0, "id");
+      return scVal.map({
+        supplied: scVal.i128(amountOf(tableOf(storage, "supplied")[id])),
+        borrowed: scVal.i128(amountOf(tableOf(storage, "borrowed")[id])),
+      });
+    },
+
+    supply: (context, args) => {
+      const from = addressArg(args, 0, "from");
+      const amount = amountArg(args, 1, "amount");
+      context.requireAuth(from);
+
+      context.call(String(context.storage.asset), "transfer", [
+        from,
+        context.contractId,
+        amount,
+      ]);
+      adjust(context, "supplied", from, amount);
+      context.emit(
+        [scVal.symbol("supply"), scVal.address(from)],
+        scVal.i128(amount)
+      );
+    },
+
+    withdraw: (context, args) => {
+      const to = addressArg(args, 0, "to");
+      const amount = amountArg(args, 1, "amount");
+      context.requireAuth(to);
+
+      const supplied = amountOf(tableOf(context.storage, "supplied")[to]);
+      if (amount > supplied) {
+        throw contractError(EXCEEDS_POSITION, `only ${supplied} is supplied`);
+      }
+      requireCollateral(
+        context,
+        to,
+        supplied - amount,
+        amountOf(tableOf(context.storage, "borrowed")[to])
+      );
+      requireLiquidity(context, amount);
+
+      adjust(context, "supplied", to, -amount);
+      context.call(String(context.storage.asset), "transfer", [
+        context.contractId,
+        to,
+        amount,
+      ]);
+      context.emit(
+        [scVal.symbol("withdraw"), scVal.address(to)],
+        scVal.i128(amount)
+      );
+    },
+
+    borrow: (context, args) => {
+      const to = addressArg(args, 0, "to");
+      const amount = amountArg(args, 1, "amount");
+      context.requireAuth(to);
+
+      requireCollateral(
+        context,
+        to,
+        amountOf(tableOf(context.storage, "supplied")[to]),
+        amountOf(tableOf(context.storage, "borrowed")[to]) + amount
+      );
+      requireLiquidity(context, amount);
+
+      adjust(context, "borrowed", to, amount);
+      context.call(String(context.storage.asset), "transfer", [
+        context.contractId,
+        to,
+        amount,
+      ]);
+      context.emit(
+        [scVal.symbol("borrow"), scVal.address(to)],
+        scVal.i128(amount)
+      );
+    },
+
+    repay: (context, args) => {
+      const from = addressArg(args, 0, "from");
+      const amount = amountArg(args, 1, "amount");
+      context.requireAuth(from);
+
+      const borrowed = amountOf(tableOf(context.storage, "borrowed")[from]);
+      if (amount > borrowed) {
+        throw contractError(EXCEEDS_POSITION, `only ${borrowed} is owed`);
+      }
+
+      context.call(String(context.storage.asset), "transfer", [
+        from,
+        context.contractId,
+        amount,
+      ]);
+      adjust(context, "borrowed", from, -amount);
+      context.emit(
+        [scVal.symbol("repay"), scVal.address(from)],
+        scVal.i128(amount)
+      );
+    },
+  };
+}
@@ -0,0 +1,235 @@
+import {
+  addressArg,
+  amountArg,
+  amountOf,
+  ContractContext,
+  contractError,
+  ContractMock,
+  scVal,
+  tableOf,
+} from "./ContractMock";
+
+const INSUFFICIENT_LIQUIDITY = 1;
+const SLIPPAGE_EXCEEDED = 2;
+const UNKNOWN_TOKEN = 3;
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const BPS = BigInt(10000);
+// get_price is scaled to seven decimal places, like Stellar amounts
+const PRICE_SCALE = BigInt(10000000);
+
+/**
+ * Storage of a constant-product pool between two token contracts. Reserves
+ * and shares are integer strings in the tokens' smallest units.
+ */
+export interface LiquidityPoolStorage {
+  tokenA: string;
+  tokenB: string;
+  reserveA: string;
+  reserveB: string;
+  feeBps: number;
+  totalShares: string;
+  shares: Record<string, string>;
+}
+
+const sqrt = (value: bigint): bigint => {
+  if (value < TWO) return value;
+  let x = value;
+  let y = (x + ONE) / TWO;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / TWO;
+  }
+  return x;
+};
+
+const reservesOf = (storage: Record<string, unknown>) => ({
+  a: amountOf(storage.reserveA),
+  b: amountOf(storage.reserveB),
+});
+
+function setReserves(
+  storage: Record<string, unknown>,
+  a: bigint,
+  b: bigint
+): void {
+  storage.reserveA = a.toString();
+  storage.reserveB = b.toString();
+}
+
+function setShares(
+  context: ContractContext,
+  owner: string,
+  change: bigint
+): void {
+  const shares = tableOf(context.storage, "shares");
+  shares[owner] = (amountOf(shares[owner]) + change).toString();
+  context.storage.totalShares = (
+    amountOf(context.storage.totalShares) + change
+  ).toString();
+}
+
+const moveToken = (
+  context: ContractContext,
+  token: string,
+  from: string,
+  to: string,
+  amount: bigint
+) => context.call(token, "transfer", [from, to, amount]);
+
+/**
+ * A constant-product AMM over two token contracts. Deposits, withdrawals and
+ * swaps move the tokens through their contracts, so balances stay
+ * consistent across the pool and the tokens.
+ */
+export class LiquidityPoolContract implements ContractMock {
+  readonly name = "liquidity_pool";
+
+  readonly methods: ContractMock["methods"] = {
+    get_reserves: ({ storage }) => {
+      const { a, b } = reservesOf(storage);
+      return scVal.vec([scVal.i128(a), scVal.i128(b)]);
+    },
+
+    get_fee: ({ storage }) => scVal.u32(Number(storage.feeBps ?? 30)),
+
+    /** Units of token B per unit of token A */
+    get_price: ({ storage }) => {
+      const { a, b } = reservesOf(storage);
+      if (a === ZERO) {
+        throw contractError(INSUFFICIENT_LIQUIDITY, "pool is empty");
+      }
+      return scVal.i128((b * PRICE_SCALE) / a);
+    },
+
+    total_supply: ({ storage }) => scVal.i128(amountOf(storage.totalShares)),
+
+    balance: ({ storage }, args) => {
+      const id = addressArg(args, 0, "id");
+      return scVal.i128(amountOf(tableOf(storage, "shares")[id]));
+    },
+
+    deposit: (context, args) => {
+      const to = addressArg(args, 0, "to");
+      const desiredA = amountArg(args, 1, "amount_a");
+      const desiredB = amountArg(args, 2, "amount_b");
+      context.requireAuth(to);
+
+      // Deposit in the pool's ratio, using as much of each amount as fits
+      const { a, b } = reservesOf(context.storage);
+      const totalShares = amountOf(context.storage.totalShares);
+      let amountA = desiredA;
+      let amountB = desiredB;
+      if (totalShares > ZERO) {
+        const optimalB = (desiredA * b) / a;
+        if (optimalB <= desiredB) {
+          amountB = optimalB;
+        } else {
+          amountA = (desiredB * a) / b;
+        }
+      }
+      const minted =
+        totalShares === ZERO
+          ? sqrt(amountA * amountB)
+          : [(amountA * totalShares) / a, (amountB * totalShares) / b].reduce(
+              (min, value) => (value < min ? value : min)
+            );
+      if (minted === ZERO) {
+        throw contractError(INSUFFICIENT_LIQUIDITY, "deposit is too small");
+      }
+
+      const storage = context.storage as unknown as LiquidityPoolStorage;
+      moveToken(context, storage.tokenA, to, context.contractId, amountA);
+      moveToken(context, storage.tokenB, to, context.contractId, amountB);
+      setReserves(context.storage, a + amountA, b + amountB);
+      setShares(context, to, minted);
+      context.emit(
+        [scVal.symbol("deposit"), scVal.address(to)],
+        scVal.vec([scVal.i128(amountA), scVal.i128(amountB)])
+      );
+      return scVal.i128(minted);
+    },
+
+    withdraw: (context, args) => {
+      const to = addressArg(args, 0, "to");
+      const shareAmount = amountArg(args, 1, "share_amount");
+      const minA = amountArg(args, 2, "min_a");
+      const minB = amountArg(args, 3, "min_b");
+      context.requireAuth(to);
+
+      const owned = amountOf(tableOf(context.storage, "shares")[to]);
+      if (shareAmount > owned) {
+        throw contractError(
+          INSUFFICIENT_LIQUIDITY,
+          `only ${owned} shares are owned`
+        );
+      }
+      const { a, b } = reservesOf(context.storage);
+      const totalShares = amountOf(context.storage.totalShares);
+      const amountA = (a * shareAmount) / totalShares;
+      const amountB = (b * shareAmount) / totalShares;
+      if (amountA < minA || amountB < minB) {
+        throw contractError(
+          SLIPPAGE_EXCEEDED,
+          `withdrawal of ${amountA}/${amountB} is below the minimum`
+        );
+      }
+
+      const storage = context.storage as unknown as LiquidityPoolStorage;
+      setShares(context, to, -shareAmount);
+      setReserves(context.storage, a - amountA, b - amountB);
+      moveToken(context, storage.tokenA, context.contractId, to, amountA);
+      moveToken(context, storage.tokenB, context.contractId, to, amountB);
+      context.emit(
+        [scVal.symbol("withdraw"), scVal.address(to)],
+        scVal.vec([scVal.i128(amountA), scVal.i128(amountB)])
+      );
+      return scVal.vec([scVal.i128(amountA), scVal.i128(amountB)]);
+    },
+
+    swap: (context, args) => {
+      const to = addressArg(args, 0, "to");
+      const tokenIn = addressArg(args, 1, "token_in");
+      const amountIn = amountArg(args, 2, "amount_in");
+      const minOut = amountArg(args, 3, "min_out");
+      context.requireAuth(to);
+
+      const storage = context.storage as unknown as LiquidityPoolStorage;
+      if (tokenIn !== storage.tokenA && tokenIn !== storage.tokenB) {
+        throw contractError(UNKNOWN_TOKEN, `pool does not hold ${tokenIn}`);
+      }
+      const sellsA = tokenIn === storage.tokenA;
+      const { a, b } = reservesOf(context.storage);
+      const [reserveIn, reserveOut] = sellsA ? [a, b] : [b, a];
+      const inWithFee = amountIn * (BPS - BigInt(storage.feeBps ?? 30));
+      const amountOut =
+        (reserveOut * inWithFee) / (reserveIn * BPS + inWithFee);
+      if (amountOut === ZERO || amountOut < minOut) {
+        throw contractError(
+          SLIPPAGE_EXCEEDED,
+          `swap returns ${amountOut}, below the minimum of ${minOut}`
+        );
+      }
+
+      const tokenOut = sellsA ? storage.tokenB : storage.tokenA;
+      moveToken(context, tokenIn, to, context.contractId, amountIn);
+      moveToken(context, tokenOut, context.contractId, to, amountOut);
+      setReserves(
+        context.storage,
+        sellsA ? a + amountIn : a - amountOut,
+        sellsA ? b - amountOut : b + amountIn
+      );
+      context.emit(
+        [scVal.symbol("swap"), scVal.address(to)],
+        scVal.vec([
+          scVal.address(tokenIn),
+          scVal.i128(amountIn),
+          scVal.i128(amountOut),
+        ])
+      );
+      return scVal.i128(amountOut);
+    },
+  };
+}
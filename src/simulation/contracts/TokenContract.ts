@@ -0,0 +1,165 @@
+import {
+  addressArg,
+  amountArg,
+  amountOf,
+  ContractContext,
+  contractError,
+  ContractMock,
+  scVal,
+  tableOf,
+} from "./ContractMock";
+
+// Error codes of the Stellar Asset Contract, so failures read the same
+const UNAUTHORIZED = 4;
+const ALLOWANCE_ERROR = 9;
+const BALANCE_ERROR = 10;
+
+/**
+ * Storage of a token contract. Amounts are integer strings in the token's
+ * smallest unit; allowances are keyed `from:spender`.
+ */
+export interface TokenStorage {
+  name: string;
+  symbol: string;
+  decimals: number;
+  admin?: string;
+  totalSupply: string;
+  balances: Record<string, string>;
+  allowances: Record<string, string>;
+}
+
+function debit(context: ContractContext, from: string, amount: bigint): void {
+  const balances = tableOf(context.storage, "balances");
+  const balance = amountOf(balances[from]);
+  if (balance < amount) {
+    throw contractError(
+      BALANCE_ERROR,
+      `balance is not sufficient to spend: ${balance} < ${amount}`
+    );
+  }
+  balances[from] = (balance - amount).toString();
+}
+
+function credit(context: ContractContext, to: string, amount: bigint): void {
+  const balances = tableOf(context.storage, "balances");
+  balances[to] = (amountOf(balances[to]) + amount).toString();
+}
+
+function transfer(
+  context: ContractContext,
+  from: string,
+  to: string,
+  amount: bigint
+): void {
+  debit(context, from, amount);
+  credit(context, to, amount);
+  context.emit(
+    [scVal.symbol("transfer"), scVal.address(from), scVal.address(to)],
+    scVal.i128(amount)
+  );
+}
+
+/**
+ * A SEP-41 token: balances, allowances, transfers and admin minting, with
+ * the events the token interface specifies
+ */
+export class TokenContract implements ContractMock {
+  readonly name = "token";
+
+  readonly methods: ContractMock["methods"] = {
+    name: ({ storage }) => scVal.string(String(storage.name ?? "")),
+    symbol: ({ storage }) => scVal.string(String(storage.symbol ?? "")),
+    decimals: ({ storage }) => scVal.u32(Number(storage.decimals ?? 7)),
+    admin: ({ storage }) => scVal.address(String(storage.admin)),
+    total_supply: ({ storage }) => scVal.i128(amountOf(storage.totalSupply)),
+
+    balance: ({ storage }, args) => {
+      const id = addressArg(args, 0, "id");
+      return scVal.i128(amountOf(tableOf(storage, "balances")[id]));
+    },
+
+    allowance: ({ storage }, args) => {
+      const from = addressArg(args, 0, "from");
+      const spender = addressArg(args, 1, "spender");
+      return scVal.i128(
+        amountOf(tableOf(storage, "allowances")[`${from}:${spender}`])
+      );
+    },
+
+    approve: (context, args) => {
+      const from = addressArg(args, 0, "from");
+      const spender = addressArg(args, 1, "spender");
+      const amount = amountArg(args, 2, "amount");
+      context.requireAuth(from);
+
+      tableOf(context.storage, "allowances")[`${from}:${spender}`] =
+        amount.toString();
+      context.emit(
+        [scVal.symbol("approve"), scVal.address(from), scVal.address(spender)],
+        scVal.vec([scVal.i128(amount), scVal.u32(Number(args[3] ?? 0))])
+      );
+    },
+
+    transfer: (context, args) => {
+      const from = addressArg(args, 0, "from");
+      const to = addressArg(args, 1, "to");
+      const amount = amountArg(args, 2, "amount");
+      context.requireAuth(from);
+
+      transfer(context, from, to, amount);
+    },
+
+    transfer_from: (context, args) => {
+      const spender = addressArg(args, 0, "spender");
+      const from = addressArg(args, 1, "from");
+      const to = addressArg(args, 2, "to");
+      const amount = amountArg(args, 3, "amount");
+      context.requireAuth(spender);
+
+      const allowances = tableOf(context.storage, "allowances");
+      const allowance = amountOf(allowances[`${from}:${spender}`]);
+      if (allowance < amount) {
+        throw contractError(
+          ALLOWANCE_ERROR,
+          `allowance is not sufficient: ${allowance} < ${amount}`
+        );
+      }
+      allowances[`${from}:${spender}`] = (allowance - amount).toString();
+      transfer(context, from, to, amount);
+    },
+
+    mint: (context, args) => {
+      const to = addressArg(args, 0, "to");
+      const amount = amountArg(args, 1, "amount");
+      const admin = context.storage.admin as string | undefined;
+      if (!admin) {
+        throw contractError(UNAUTHORIZED, "token has no admin");
+      }
+      context.requireAuth(admin);
+
+      credit(context, to, amount);
+      context.storage.totalSupply = (
+        amountOf(context.storage.totalSupply) + amount
+      ).toString();
+      context.emit(
+        [scVal.symbol("mint"), scVal.address(admin), scVal.address(to)],
+        scVal.i128(amount)
+      );
+    },
+
+    burn: (context, args) => {
+      const from = addressArg(args, 0, "from");
+      const amount = amountArg(args, 1, "amount");
+      context.requireAuth(from);
+
+      debit(context, from, amount);
+      context.storage.totalSupply = (
+        amountOf(context.storage.totalSupply) - amount
+      ).toString();
+      context.emit(
+        [scVal.symbol("burn"), scVal.address(from)],
+        scVal.i128(amount)
+      );
+    },
+  };
+}
@@ -0,0 +1,20 @@
+import { ContractMock } from "./ContractMock";
+import { LendingContract } from "./LendingContract";
+import { LiquidityPoolContract } from "./LiquidityPoolContract";
+import { TokenContract } from "./TokenContract";
+
+export * from "./ContractMock";
+export { TokenContract, LiquidityPoolContract, LendingContract };
+export type { TokenStorage } from "./TokenContract";
+export type { LiquidityPoolStorage } from "./LiquidityPoolContract";
+export type { LendingStorage } from "./LendingContract";
+
+/** Mocks a contract can name as its code, e.g. in a scenario's chain */
+export const builtInContracts: Record<string, ContractMock> =
+  Object.fromEntries(
+    [
+      new TokenContract(),
+      new LiquidityPoolContract(),
+      new LendingContract(),
+    ].map((mock) => [mock.name, mock])
+  );
@@ -0,0 +1,36 @@
+/** Returns a number in [0, 1), like Math.random */
+export type RandomSource = () => number;
+
+// FNV-1a, to turn a stream name into a 32-bit seed offset
+const hashStream = (stream: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < stream.length; i++) {
+    hash ^= stream.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Random numbers for one part of the local chain. With a seed the sequence
+ * is the same on every run (mulberry32), so a failure can be reproduced.
+ * Each named stream gets its own sequence, so one component drawing more
+ * numbers does not shift another's. Without a seed this is Math.random.
+ */
+export function createRandom(
+  seed: number | undefined,
+  stream: string
+): RandomSource {
+  if (seed === undefined) {
+    return Math.random;
+  }
+
+  let state = (seed ^ hashStream(stream)) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,66 @@
+import { AsyncLocalStorage } from "async_hooks";
+import config from "../config/config";
+import { StateChange } from "./types";
+
+/** Header a client sends to run its request against the local chain */
+export const SIMULATION_HEADER = "x-simulation-mode";
+
+/** What the simulated calls made within a session did to the local chain */
+export interface SimulationSummary {
+  stateChanges: StateChange[];
+  simulatedGas: number;
+}
+
+export interface SimulationSession extends SimulationSummary {
+  userId: string;
+}
+
+const sessions = new AsyncLocalStorage<SimulationSession>();
+
+export function createSimulationSession(userId: string): SimulationSession {
+  return { userId, stateChanges: [], simulatedGas: 0 };
+}
+
+/**
+ * Run `fn` in simulate mode. Every swap, wallet and Soroban call it makes,
+ * however deeply nested, is answered by the local chain and recorded on the
+ * session; nothing reaches the live network.
+ */
+export function runInSimulation<T>(
+  session: SimulationSession,
+  fn: () => Promise<T>
+): Promise<T> {
+  return sessions.run(session, fn);
+}
+
+/** The session of the simulated request or step running now, if any */
+export function getSimulationSession(): SimulationSession | undefined {
+  return sessions.getStore();
+}
+
+export function summarizeSimulation(
+  session: SimulationSession
+): SimulationSummary {
+  return {
+    stateChanges: session.stateChanges,
+    simulatedGas: session.simulatedGas,
+  };
+}
+
+/**
+ * Whether a request asked to be simulated, through the simulation header or
+ * because its user is configured to always run against the local chain
+ */
+export function isSimulationRequested(
+  userId: string,
+  header?: string | string[]
+): boolean {
+  const value = (Array.isArray(header) ? header[0] : header)
+    ?.trim()
+    .toLowerCase();
+  return (
+    value === "local" ||
+    value === "true" ||
+    config.simulation.users.includes(userId)
+  );
+}
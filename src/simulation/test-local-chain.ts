@@ -14,14 +14,13 @@ async function testLocalChain() {
 
   try {
     // Initialize Local Chain
-    const manager = new LocalChainManager();
+    const manager = new LocalChainManager({
+      enabled: true,
+      mode: 'local',
+      services: ['soroban', 'wallet', 'swap']
+    });
     await manager.initialize();
 
-    if (!manager.isEnabled()) {
-      console.log('❌ Local Chain is not enabled. Set LOCAL_CHAIN_ENABLED=true in your .env file');
-      return;
-    }
-
     console.log('✅ Local Chain Manager initialized');
     console.log('📊 Metrics:', JSON.stringify(manager.getMetrics(), null, 2));
 
@@ -70,11 +69,6 @@ async function testLocalChain() {
 
 // Run the test if this file is executed directly
 if (require.main === module) {
-  // Set environment variables for testing
-  process.env.LOCAL_CHAIN_ENABLED = 'true';
-  process.env.LOCAL_CHAIN_MODE = 'local';
-  process.env.LOCAL_CHAIN_SERVICES = 'soroban,wallet,swap';
-  
   testLocalChain().catch(console.error);
 }
 
@@ -8,6 +8,7 @@ export interface SimulationConfig {
     networkPassphrase: string;
     defaultAccounts: SimulatedAccount[];
     initialBalances: Record<string, string>;
+    liquidityPools: LiquidityPool[];
   };
   
   starknet: {
@@ -22,6 +23,7 @@ export interface SimulationConfig {
     gasMultiplier: number;
     persistState: boolean;
     snapshotInterval: number;
+    seed?: number; // makes latency, errors, gas and fills reproducible
   };
 }
 
@@ -43,6 +45,15 @@ export interface SimulatedAccount {
   initialBalances: Record<string, string>;
 }
 
+/** Constant-product pool pricing swaps between two assets on the local chain */
+export interface LiquidityPool {
+  assetA: string; // XLM or CODE:ISSUER
+  assetB: string;
+  reserveA: string;
+  reserveB: string;
+  feeBps: number;
+}
+
 export interface LatencyConfig {
   baseDelay: number; // milliseconds
   variability: number; // percentage
@@ -75,6 +86,8 @@ export interface SimulationRequest {
 export interface SimulationResponse {
   success: boolean;
   data: unknown;
+  error?: string;
+  resultCodes?: ResultCodes;
   metadata: {
     simulatedGas: number;
     processingTime: number;
@@ -82,6 +95,12 @@ export interface SimulationResponse {
   };
 }
 
+/** Horizon-style result codes of a failed transaction */
+export interface ResultCodes {
+  transaction: string;
+  operations?: string[];
+}
+
 export interface StateChange {
   type: 'account' | 'contract';
   id: string;
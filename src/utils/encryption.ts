@@ -14,7 +14,21 @@ function getKey(): Buffer {
 }
 
 export function encrypt(plaintext: string): string {
-  const key = getKey();
+  return encryptWithKey(plaintext, getKey());
+}
+
+export function decrypt(ciphertext: string): string {
+  return decryptWithKey(ciphertext, getKey());
+}
+
+/**
+ * Random 256-bit key for envelope encryption
+ */
+export function generateDataKey(): Buffer {
+  return crypto.randomBytes(32);
+}
+
+export function encryptWithKey(plaintext: string, key: Buffer): string {
   const iv = crypto.randomBytes(IV_LENGTH);
   const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
 
@@ -28,8 +42,7 @@ export function encrypt(plaintext: string): string {
   return combined.toString("base64");
 }
 
-export function decrypt(ciphertext: string): string {
-  const key = getKey();
+export function decryptWithKey(ciphertext: string, key: Buffer): string {
   const combined = Buffer.from(ciphertext, "base64");
 
   const iv = combined.subarray(0, IV_LENGTH);
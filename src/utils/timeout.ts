@@ -7,6 +7,28 @@ export class TimeoutError extends Error {
   }
 }
 
+export class CancellationError extends Error {
+  constructor(message: string, public readonly operation: string) {
+    super(message);
+    this.name = "CancellationError";
+  }
+}
+
+/**
+ * Throw a CancellationError if the signal has been aborted
+ */
+export function throwIfCancelled(
+  signal: AbortSignal | undefined,
+  operation: string
+): void {
+  if (signal?.aborted) {
+    throw new CancellationError(
+      `Operation "${operation}" was cancelled`,
+      operation
+    );
+  }
+}
+
 export interface TimeoutOptions {
   timeoutMs: number;
   operation: string;
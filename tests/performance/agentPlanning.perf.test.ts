@@ -7,6 +7,18 @@ import { PERFORMANCE_BASELINES, PERFORMANCE_TEST_CONFIG } from "./config/perform
 jest.mock("../../src/Agents/agent");
 jest.mock("../../src/config/logger");
 
+const toToolUseResponse = (response: {
+  workflow: Array<{ action: string; payload: Record<string, unknown> }>;
+}) => ({
+  calls: response.workflow.map((step, index) => ({
+    id: `call_${index + 1}`,
+    name: step.action,
+    input: step.payload,
+  })),
+  text: "",
+  turns: 1,
+});
+
 describe("Agent Planning Performance Tests", () => {
   let agentPlanner: AgentPlanner;
 
@@ -32,7 +44,9 @@ describe("Agent Planning Performance Tests", () => {
       };
 
       const { agentLLM } = require("../../src/Agents/agent");
-      agentLLM.callLLM = jest.fn().mockResolvedValue(mockLLMResponse);
+      agentLLM.callLLMWithTools = jest
+        .fn()
+        .mockResolvedValue(toToolUseResponse(mockLLMResponse));
 
       const result = await performanceTestRunner.runTest(
         "Simple Plan Creation",
@@ -86,7 +100,9 @@ describe("Agent Planning Performance Tests", () => {
       };
 
       const { agentLLM } = require("../../src/Agents/agent");
-      agentLLM.callLLM = jest.fn().mockResolvedValue(mockLLMResponse);
+      agentLLM.callLLMWithTools = jest
+        .fn()
+        .mockResolvedValue(toToolUseResponse(mockLLMResponse));
 
       const result = await performanceTestRunner.runTest(
         "Complex Multi-Step Plan Creation",
@@ -154,10 +170,10 @@ describe("Agent Planning Performance Tests", () => {
       };
 
       const { agentLLM } = require("../../src/Agents/agent");
-      agentLLM.callLLM = jest.fn().mockImplementation(
+      agentLLM.callLLMWithTools = jest.fn().mockImplementation(
         () =>
           new Promise((resolve) =>
-            setTimeout(() => resolve(mockLLMResponse), 100)
+            setTimeout(() => resolve(toToolUseResponse(mockLLMResponse)), 100)
           )
       );
 
@@ -227,7 +243,9 @@ describe("Agent Planning Performance Tests", () => {
       };
 
       const { agentLLM } = require("../../src/Agents/agent");
-      agentLLM.callLLM = jest.fn().mockResolvedValue(mockLLMResponse);
+      agentLLM.callLLMWithTools = jest
+        .fn()
+        .mockResolvedValue(toToolUseResponse(mockLLMResponse));
 
       const result = await performanceTestRunner.runTest(
         "Concurrent Plan Creation",
@@ -271,7 +289,9 @@ describe("Agent Planning Performance Tests", () => {
       };
 
       const { agentLLM } = require("../../src/Agents/agent");
-      agentLLM.callLLM = jest.fn().mockResolvedValue(mockLLMResponse);
+      agentLLM.callLLMWithTools = jest
+        .fn()
+        .mockResolvedValue(toToolUseResponse(mockLLMResponse));
 
       const initialMemory = process.memoryUsage().heapUsed;
 
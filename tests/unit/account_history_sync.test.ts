@@ -0,0 +1,324 @@
+import * as StellarSdk from "@stellar/stellar-sdk";
+import AppDataSource from "../../src/config/Datasource";
+import { User } from "../../src/Auth/user.entity";
+import {
+  AccountEffect,
+  AccountHistoryCheckpoint,
+  AccountOperation,
+  AccountTransaction,
+} from "../../src/Gateway/accountHistory.entity";
+import { AccountHistorySyncService } from "../../src/services/accountHistorySync.service";
+
+// Account ids are validated with the real StrKey
+jest.unmock("@stellar/stellar-sdk");
+jest.mock("../../src/config/Datasource", () => ({
+  __esModule: true,
+  default: { getRepository: jest.fn() },
+}));
+jest.mock("../../src/config/logger");
+
+const ACCOUNT = StellarSdk.Keypair.random().publicKey();
+const DESTINATION = StellarSdk.Keypair.random().publicKey();
+const ISSUER = StellarSdk.Keypair.random().publicKey();
+
+const horizonTransaction = (pagingToken: string, memo?: string) => ({
+  id: `hash${pagingToken}`,
+  paging_token: pagingToken,
+  hash: `hash${pagingToken}`,
+  ledger_attr: Number(pagingToken) / 10,
+  created_at: "2026-01-01T00:00:00Z",
+  source_account: ACCOUNT,
+  fee_charged: "100",
+  operation_count: 1,
+  successful: true,
+  memo_type: memo ? "text" : "none",
+  memo,
+});
+
+/**
+ * Chainable stand-in for Horizon call builders. `pages` is consumed by
+ * successive `call()`s; `stream` captures the handlers.
+ */
+interface MockCallBuilder {
+  cursor: jest.Mock;
+  order: jest.Mock;
+  limit: jest.Mock;
+  call: jest.Mock;
+  stream: jest.Mock;
+}
+
+const createBuilder = (pages: unknown[][] = [[]]): MockCallBuilder => {
+  const builder: MockCallBuilder = {
+    cursor: jest.fn(() => builder),
+    order: jest.fn(() => builder),
+    limit: jest.fn(() => builder),
+    call: jest.fn(async () => ({ records: pages.shift() ?? [] })),
+    stream: jest.fn(),
+  };
+  return builder;
+};
+
+const createRepositories = () => {
+  const transactions = new Map<string, AccountTransaction>();
+  const operations = new Map<string, AccountOperation>();
+  const effects = new Map<string, AccountEffect>();
+  const checkpoints = new Map<string, AccountHistoryCheckpoint>();
+  const upsertInto =
+    <T>(store: Map<string, T>, key: (record: T) => string) =>
+    async (records: T | T[]) => {
+      [records]
+        .flat()
+        .forEach((record) => store.set(key(record as T), record as T));
+    };
+
+  return {
+    transactions,
+    operations,
+    effects,
+    checkpoints,
+    userRepository: { find: jest.fn().mockResolvedValue([]) },
+    transactionRepository: {
+      upsert: jest.fn(
+        upsertInto(transactions, (record) => `${record.account}/${record.id}`)
+      ),
+    },
+    operationRepository: {
+      upsert: jest.fn(upsertInto(operations, (record) => record.id)),
+    },
+    effectRepository: {
+      upsert: jest.fn(upsertInto(effects, (record) => record.id)),
+    },
+    checkpointRepository: {
+      create: jest.fn(
+        (data: Partial<AccountHistoryCheckpoint>) =>
+          ({ ...data }) as AccountHistoryCheckpoint
+      ),
+      findOne: jest.fn(
+        async ({ where }: { where: { account: string } }) =>
+          checkpoints.get(where.account) ?? null
+      ),
+      save: jest.fn(async (checkpoint: AccountHistoryCheckpoint) => {
+        checkpoints.set(checkpoint.account, { ...checkpoint });
+        return checkpoint;
+      }),
+    },
+  };
+};
+
+describe("AccountHistorySyncService", () => {
+  let repositories: ReturnType<typeof createRepositories>;
+  let transactionBuilders: ReturnType<typeof createBuilder>[];
+  let operationPages: Record<string, unknown[]>;
+  let server: {
+    transactions: jest.Mock;
+    operations: jest.Mock;
+    effects: jest.Mock;
+  };
+  let service: AccountHistorySyncService;
+
+  beforeEach(() => {
+    repositories = createRepositories();
+    (AppDataSource.getRepository as jest.Mock).mockImplementation((entity) => {
+      switch (entity) {
+        case User:
+          return repositories.userRepository;
+        case AccountTransaction:
+          return repositories.transactionRepository;
+        case AccountOperation:
+          return repositories.operationRepository;
+        case AccountEffect:
+          return repositories.effectRepository;
+        default:
+          return repositories.checkpointRepository;
+      }
+    });
+
+    transactionBuilders = [];
+    operationPages = {};
+    server = {
+      transactions: jest.fn(() => ({
+        forAccount: () => transactionBuilders.shift() ?? createBuilder(),
+      })),
+      operations: jest.fn(() => ({
+        forTransaction: (hash: string) =>
+          createBuilder([operationPages[hash] ?? []]),
+      })),
+      effects: jest.fn(() => ({
+        forTransaction: (hash: string) =>
+          createBuilder([
+            [
+              {
+                id: `${hash === "hash10" ? "0000000000000010" : "0000000000000020"}-0000000001`,
+                account: ACCOUNT,
+                type: "account_debited",
+                created_at: "2026-01-01T00:00:00Z",
+                asset_type: "native",
+                amount: "25.0000000",
+              },
+            ],
+          ]),
+      })),
+    };
+    service = new AccountHistorySyncService({
+      server,
+      enabled: true,
+      pageLimit: 2,
+      reconnectDelayMs: 10,
+      refreshIntervalMs: 60000,
+    });
+  });
+
+  afterEach(() => {
+    service.stop();
+  });
+
+  it("backfills transactions with their operations and effects", async () => {
+    const firstPage = createBuilder([
+      [horizonTransaction("10", "rent"), horizonTransaction("20")],
+    ]);
+    const secondPage = createBuilder([[]]);
+    transactionBuilders.push(firstPage, secondPage);
+    operationPages.hash10 = [
+      {
+        id: "10",
+        paging_token: "10",
+        transaction_hash: "hash10",
+        type: "path_payment_strict_send",
+        source_account: ACCOUNT,
+        created_at: "2026-01-01T00:00:00Z",
+        from: ACCOUNT,
+        to: DESTINATION,
+        amount: "9.5000000",
+        asset_type: "credit_alphanum4",
+        asset_code: "USDC",
+        asset_issuer: ISSUER,
+        source_amount: "100.0000000",
+        source_asset_type: "native",
+        path: [],
+        self: () => undefined,
+      },
+    ];
+
+    const result = await service.syncAccount(ACCOUNT, "user1");
+
+    expect(result).toEqual({
+      account: ACCOUNT,
+      synced: 2,
+      cursor: "20",
+      exists: true,
+    });
+    expect(firstPage.order).toHaveBeenCalledWith("asc");
+    expect(firstPage.cursor).not.toHaveBeenCalled();
+    expect(secondPage.cursor).toHaveBeenCalledWith("20");
+
+    expect(repositories.transactions.get(`${ACCOUNT}/hash10`)).toEqual(
+      expect.objectContaining({
+        pagingToken: "10",
+        type: "swap",
+        memo: "rent",
+        feePaid: "100",
+        ledger: 1,
+      })
+    );
+    expect(repositories.operations.get("10")).toEqual(
+      expect.objectContaining({
+        amount: "9.5000000",
+        asset: `USDC:${ISSUER}`,
+        sourceAmount: "100.0000000",
+        sourceAsset: "XLM",
+        details: expect.objectContaining({ to: DESTINATION, path: [] }),
+      })
+    );
+    expect(repositories.operations.get("10")?.details).not.toHaveProperty(
+      "self"
+    );
+    expect(repositories.effects.get("0000000000000010-0000000001")).toEqual(
+      expect.objectContaining({
+        transactionHash: "hash10",
+        operationId: "10",
+        asset: "XLM",
+      })
+    );
+    expect(repositories.checkpoints.get(ACCOUNT)).toEqual(
+      expect.objectContaining({
+        userId: "user1",
+        cursor: "20",
+        lastLedger: 2,
+        lastError: null,
+      })
+    );
+  });
+
+  it("resumes from the checkpoint cursor", async () => {
+    repositories.checkpoints.set(ACCOUNT, {
+      account: ACCOUNT,
+      cursor: "20",
+      lastLedger: 2,
+    } as AccountHistoryCheckpoint);
+    const backfill = createBuilder([[]]);
+    transactionBuilders.push(backfill);
+
+    await service.syncAccount(ACCOUNT);
+
+    expect(backfill.cursor).toHaveBeenCalledWith("20");
+    expect(repositories.transactionRepository.upsert).not.toHaveBeenCalled();
+  });
+
+  it("treats unfunded accounts as empty and records other failures", async () => {
+    const missing = createBuilder();
+    missing.call.mockRejectedValueOnce(
+      new StellarSdk.NotFoundError("Resource Missing", {})
+    );
+    transactionBuilders.push(missing);
+
+    await expect(service.syncAccount(ACCOUNT)).resolves.toEqual(
+      expect.objectContaining({ synced: 0, exists: false })
+    );
+
+    const failing = createBuilder();
+    failing.call.mockRejectedValueOnce(new Error("horizon unavailable"));
+    transactionBuilders.push(failing);
+
+    await expect(service.syncAccount(ACCOUNT)).rejects.toThrow(
+      "horizon unavailable"
+    );
+    expect(repositories.checkpoints.get(ACCOUNT)?.lastError).toBe(
+      "horizon unavailable"
+    );
+  });
+
+  it("streams new transactions from the backfill cursor", async () => {
+    repositories.userRepository.find.mockResolvedValue([
+      { id: "user1", address: ACCOUNT },
+      // Starknet accounts are not synced
+      { id: "user2", address: "0x0123" },
+    ]);
+    transactionBuilders.push(createBuilder([[horizonTransaction("10")]]));
+    const stream = createBuilder();
+    const close = jest.fn();
+    stream.stream.mockReturnValue(close);
+    transactionBuilders.push(stream);
+
+    service.start();
+    await new Promise((resolve) => setImmediate(resolve));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(stream.cursor).toHaveBeenCalledWith("10");
+    const { onmessage } = stream.stream.mock.calls[0][0];
+
+    // Replayed records are skipped, new ones stored
+    onmessage(horizonTransaction("10"));
+    onmessage(horizonTransaction("20", "invoice 7"));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(repositories.transactionRepository.upsert).toHaveBeenCalledTimes(2);
+    expect(repositories.transactions.get(`${ACCOUNT}/hash20`)?.memo).toBe(
+      "invoice 7"
+    );
+    expect(repositories.checkpoints.get(ACCOUNT)?.cursor).toBe("20");
+
+    service.stop();
+    expect(close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  AgentClient,
+  ExecutionStreamError,
+} from "../../packages/sdk/src/agentClient";
+import { ExecutionStreamEvent } from "../../packages/sdk/src/types";
+
+const streamResponse = (chunks: string[]) => {
+  const encoder = new TextEncoder();
+  let index = 0;
+  return {
+    ok: true,
+    status: 200,
+    body: {
+      getReader: () => ({
+        read: async () =>
+          index < chunks.length
+            ? { done: false, value: encoder.encode(chunks[index++]) }
+            : { done: true },
+        cancel: async () => undefined,
+      }),
+    },
+    json: async () => ({}),
+    text: async () => "",
+  };
+};
+
+describe("AgentClient.streamExecution", () => {
+  it("yields parsed events until the summary", async () => {
+    const urls: string[] = [];
+    const client = new AgentClient({
+      baseUrl: "http://localhost:3000/",
+      fetchFn: async (url) => {
+        urls.push(url);
+        return streamResponse([
+          ": keep-alive\n\n",
+          'id: 1\nevent: step_start\ndata: {"stepNumber":1}\n\n',
+          "id: 2\nevent: step_comp",
+          'lete\ndata: {"stepNumber":1,"status":"success"}\n\n',
+          'id: 3\nevent: summary\ndata: {"status":"success"}\n\n',
+        ]);
+      },
+    });
+
+    const events: ExecutionStreamEvent[] = [];
+    for await (const event of client.streamExecution("plan_1")) {
+      events.push(event);
+    }
+
+    expect(urls).toEqual([
+      "http://localhost:3000/api/agent/executions/plan_1/events",
+    ]);
+    expect(events).toEqual([
+      { id: 1, type: "step_start", data: { stepNumber: 1 } },
+      {
+        id: 2,
+        type: "step_complete",
+        data: { stepNumber: 1, status: "success" },
+      },
+      { id: 3, type: "summary", data: { status: "success" } },
+    ]);
+  });
+
+  it("reconnects from the last event id after a dropped stream", async () => {
+    const headers: Array<Record<string, string> | undefined> = [];
+    let calls = 0;
+    const client = new AgentClient({
+      baseUrl: "http://localhost:3000",
+      defaultRetryDelayMs: 0,
+      fetchFn: async (_url, init) => {
+        headers.push(init?.headers);
+        calls += 1;
+        return calls === 1
+          ? streamResponse([
+              'id: 7\nevent: step_start\ndata: {"stepNumber":1}\n\n',
+            ])
+          : streamResponse([
+              'id: 8\nevent: summary\ndata: {"status":"success"}\n\n',
+            ]);
+      },
+    });
+
+    const types: string[] = [];
+    for await (const event of client.streamExecution("plan_1", {
+      authToken: "token",
+    })) {
+      types.push(event.type);
+    }
+
+    expect(types).toEqual(["step_start", "summary"]);
+    expect(headers[0]).not.toHaveProperty("Last-Event-ID");
+    expect(headers[1]).toMatchObject({
+      Authorization: "Bearer token",
+      "Last-Event-ID": "7",
+    });
+  });
+
+  it("does not retry client errors", async () => {
+    const fetchFn = jest.fn().mockResolvedValue({
+      ok: false,
+      status: 404,
+      json: async () => ({}),
+      text: async () => "Plan not found",
+    });
+    const client = new AgentClient({
+      baseUrl: "http://localhost:3000",
+      fetchFn,
+    });
+
+    const iterator = client.streamExecution("missing");
+
+    await expect(iterator.next()).rejects.toBeInstanceOf(ExecutionStreamError);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,308 @@
+import express from "express";
+import request from "supertest";
+import agentPlanRoutes from "../../src/Gateway/agentPlan.routes";
+import {
+  agentPlanner,
+  PlanValidationError,
+} from "../../src/Agents/planner/AgentPlanner";
+import { planExecutor } from "../../src/Agents/planner/PlanExecutor";
+import { planStore } from "../../src/Agents/planner/planStore";
+
+jest.mock("../../src/Agents/planner/AgentPlanner");
+jest.mock("../../src/Agents/planner/PlanExecutor");
+jest.mock("../../src/Agents/planner/planStore");
+jest.mock("../../src/AuditLog/auditLog.service");
+jest.mock("../../src/config/logger");
+jest.mock("../../src/Auth/auth.middleware", () => ({
+  authenticateToken: (
+    req: express.Request,
+    _res: express.Response,
+    next: express.NextFunction
+  ) => {
+    req.user = { userId: "user123", name: "tester", role: "user" };
+    next();
+  },
+}));
+
+const plan = {
+  planId: "plan_api",
+  planHash: "hash",
+  summary: 'Plan for "Swap 100 XLM to USDC"',
+  totalSteps: 1,
+  estimatedDuration: 3000,
+  riskLevel: "low",
+  requiresApproval: true,
+  steps: [
+    {
+      stepNumber: 1,
+      action: "swap_tool",
+      payload: { from: "XLM", to: "USDC", amount: 100 },
+      description: "Execute swap_tool",
+      dependencies: [],
+    },
+  ],
+};
+
+const executionResult = {
+  planId: "plan_api",
+  status: "success",
+  completedSteps: 1,
+  totalSteps: 1,
+  duration: 12,
+  stepResults: [],
+};
+
+describe("Agent plan routes", () => {
+  const app = express();
+  app.use(express.json());
+  app.use("/api/agent", agentPlanRoutes);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (planStore.getPlan as jest.Mock).mockResolvedValue({
+      planId: plan.planId,
+      userId: "user123",
+      plan,
+      status: "pending",
+    });
+    (planStore.claimPlan as jest.Mock).mockResolvedValue(true);
+    (planExecutor.isExecuting as jest.Mock).mockReturnValue(false);
+    (planExecutor.executePlan as jest.Mock).mockResolvedValue(executionResult);
+  });
+
+  it("creates and stores a plan for the authenticated user", async () => {
+    (agentPlanner.createPlan as jest.Mock).mockResolvedValue(plan);
+
+    const response = await request(app)
+      .post("/api/agent/plan")
+      .send({ userInput: "Swap 100 XLM to USDC" })
+      .expect(201);
+
+    expect(response.body.plan.planId).toBe("plan_api");
+    expect(agentPlanner.createPlan).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "user123" })
+    );
+    expect(planStore.savePlan).toHaveBeenCalledWith(plan, "user123");
+  });
+
+  it("returns policy violations for an invalid plan", async () => {
+    const violation = {
+      policy: "balance",
+      code: "INSUFFICIENT_BALANCE",
+      message: "Plan spends 100 XLM by step 1 but only 10 is available",
+      severity: "error",
+      stepNumber: 1,
+    };
+    const validation = { valid: false, errors: [violation], warnings: [] };
+    (agentPlanner.createPlan as jest.Mock).mockRejectedValue(
+      Object.assign(new PlanValidationError(validation as never), {
+        message: `Invalid plan: ${violation.message}`,
+        validation,
+      })
+    );
+
+    const response = await request(app)
+      .post("/api/agent/plan")
+      .send({
+        userInput: "Swap 100 XLM to USDC",
+        availableBalance: { XLM: 10 },
+      })
+      .expect(422);
+
+    expect(response.body.errors).toEqual([violation]);
+    expect(planStore.savePlan).not.toHaveBeenCalled();
+  });
+
+  it("rejects plan creation without userInput", async () => {
+    await request(app).post("/api/agent/plan").send({}).expect(400);
+  });
+
+  it("requires approval before executing a gated plan", async () => {
+    const response = await request(app)
+      .post("/api/agent/execute")
+      .send({ planId: "plan_api" })
+      .expect(409);
+
+    expect(response.body.requiresApproval).toBe(true);
+    expect(planExecutor.executePlan).not.toHaveBeenCalled();
+  });
+
+  it("executes an approved plan", async () => {
+    const response = await request(app)
+      .post("/api/agent/execute")
+      .send({ planId: "plan_api", approved: true })
+      .expect(200);
+
+    expect(response.body.result.status).toBe("success");
+    expect(planExecutor.executePlan).toHaveBeenCalledWith(
+      plan,
+      "user123",
+      expect.objectContaining({
+        dryRun: false,
+        stopOnError: true,
+        persist: true,
+      })
+    );
+  });
+
+  it("executes a plan only once when approved requests race", async () => {
+    (planStore.claimPlan as jest.Mock)
+      .mockResolvedValueOnce(true)
+      .mockResolvedValueOnce(false);
+
+    const responses = await Promise.all([
+      request(app)
+        .post("/api/agent/execute")
+        .send({ planId: "plan_api", approved: true }),
+      request(app)
+        .post("/api/agent/execute")
+        .send({ planId: "plan_api", approved: true }),
+    ]);
+
+    expect(responses.map((r) => r.status).sort()).toEqual([200, 409]);
+    expect(planStore.claimPlan).toHaveBeenCalledWith("plan_api", [
+      "pending",
+      "partial",
+      "failed",
+    ]);
+    expect(planExecutor.executePlan).toHaveBeenCalledTimes(1);
+  });
+
+  it("releases a claimed plan when its execution throws", async () => {
+    (planExecutor.executePlan as jest.Mock).mockRejectedValue(
+      new Error("Plan verification failed: Plan hash mismatch")
+    );
+
+    await request(app)
+      .post("/api/agent/execute")
+      .send({ planId: "plan_api", approved: true })
+      .expect(500);
+
+    expect(planStore.releasePlan).toHaveBeenCalledWith(
+      "plan_api",
+      expect.objectContaining({
+        message: "Plan verification failed: Plan hash mismatch",
+      })
+    );
+  });
+
+  it("does not touch the stored plan when a dry run throws", async () => {
+    (planExecutor.executePlan as jest.Mock).mockRejectedValue(
+      new Error("boom")
+    );
+
+    await request(app)
+      .post("/api/agent/execute")
+      .send({ planId: "plan_api", dryRun: true })
+      .expect(500);
+
+    expect(planStore.releasePlan).not.toHaveBeenCalled();
+  });
+
+  it("refuses a simulated run of a plan that is executing", async () => {
+    (planExecutor.isExecuting as jest.Mock).mockReturnValue(true);
+
+    await request(app)
+      .post("/api/agent/execute")
+      .send({ planId: "plan_api", simulate: true })
+      .expect(409);
+
+    expect(planExecutor.executePlan).not.toHaveBeenCalled();
+  });
+
+  it("allows dry runs without approval", async () => {
+    await request(app)
+      .post("/api/agent/execute")
+      .send({ planId: "plan_api", dryRun: true })
+      .expect(200);
+
+    expect(planExecutor.executePlan).toHaveBeenCalledWith(
+      plan,
+      "user123",
+      expect.objectContaining({ dryRun: true, persist: false })
+    );
+  });
+
+  it("starts background executions and streams their events", async () => {
+    const response = await request(app)
+      .post("/api/agent/execute")
+      .send({ planId: "plan_api", approved: true, background: true })
+      .expect(202);
+
+    expect(response.body.executionId).toBe("plan_api");
+
+    const stream = await request(app)
+      .get("/api/agent/executions/plan_api/events")
+      .expect(200);
+
+    expect(stream.headers["content-type"]).toContain("text/event-stream");
+    expect(stream.text).toContain("event: summary");
+    expect(stream.text).toContain('"status":"success"');
+  });
+
+  it("reports the stored outcome of an already finished plan", async () => {
+    (planStore.getPlan as jest.Mock).mockResolvedValue({
+      planId: "plan_done",
+      userId: "user123",
+      plan: { ...plan, planId: "plan_done" },
+      status: "partial",
+      completedSteps: 0,
+    });
+
+    const stream = await request(app)
+      .get("/api/agent/executions/plan_done/events")
+      .expect(200);
+
+    expect(stream.text).toContain("event: summary");
+    expect(stream.text).toContain('"status":"partial"');
+  });
+
+  it("cancels an in-flight execution", async () => {
+    (planExecutor.cancel as jest.Mock).mockReturnValue(true);
+
+    await request(app)
+      .post("/api/agent/executions/plan_api/cancel")
+      .expect(202);
+
+    expect(planExecutor.cancel).toHaveBeenCalledWith("plan_api");
+  });
+
+  it("refuses to cancel a plan that is not executing", async () => {
+    (planExecutor.cancel as jest.Mock).mockReturnValue(false);
+
+    await request(app)
+      .post("/api/agent/executions/plan_api/cancel")
+      .expect(409);
+  });
+
+  it("hides plans owned by other users", async () => {
+    (planStore.getPlan as jest.Mock).mockResolvedValue({
+      planId: plan.planId,
+      userId: "someone-else",
+      plan,
+      status: "pending",
+    });
+
+    await request(app).get("/api/agent/plan/plan_api").expect(403);
+  });
+
+  it("cancels a pending plan", async () => {
+    await request(app).delete("/api/agent/plan/plan_api").expect(200);
+
+    expect(planStore.updatePlanStatus).toHaveBeenCalledWith(
+      "plan_api",
+      "cancelled"
+    );
+  });
+
+  it("refuses to cancel a running plan", async () => {
+    (planStore.getPlan as jest.Mock).mockResolvedValue({
+      planId: plan.planId,
+      userId: "user123",
+      plan,
+      status: "running",
+    });
+
+    await request(app).delete("/api/agent/plan/plan_api").expect(409);
+  });
+});
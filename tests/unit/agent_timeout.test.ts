@@ -1,95 +1,82 @@
-import { agentLLM } from "../../src/Agents/agent";
-import { TimeoutError } from "../../src/utils/timeout";
+import { AgentLLM } from "../../src/Agents/agent";
+import { LLMProvider } from "../../src/Agents/llm";
 import config from "../../src/config/config";
 
-jest.mock("@anthropic-ai/sdk");
 jest.mock("../../src/config/logger");
 
+const textResponse = (text: string) => ({
+  content: [{ type: "text" as const, text }],
+  stopReason: "end_turn" as const,
+});
+
 describe("Agent Timeout Integration", () => {
   describe("AgentLLM.callLLM with timeout", () => {
-    it("should complete LLM call within timeout", async () => {
-      const mockCreate = jest.fn().mockResolvedValue({
-        content: [{ type: "text", text: '{"result": "success"}' }],
-      });
+    const complete = jest.fn();
+    const provider: LLMProvider = { name: "test", complete };
+    const agentLLM = new AgentLLM(provider);
+
+    beforeEach(() => {
+      complete.mockReset();
+    });
 
-      (agentLLM as any).client = {
-        messages: { create: mockCreate },
-      };
+    it("should complete LLM call within timeout", async () => {
+      complete.mockResolvedValue(textResponse('{"result": "success"}'));
 
       const result = await agentLLM.callLLM(
         "test-agent",
         "test prompt",
         "test input",
         true,
-        5000
+        { timeoutMs: 5000 }
       );
 
       expect(result).toEqual({ result: "success" });
     });
 
     it("should timeout when LLM call exceeds timeout", async () => {
-      const mockCreate = jest.fn().mockImplementation(
+      complete.mockImplementation(
         () => new Promise((resolve) => setTimeout(resolve, 5000))
       );
 
-      (agentLLM as any).client = {
-        messages: { create: mockCreate },
-      };
-
       await expect(
-        agentLLM.callLLM("test-agent", "test prompt", "test input", true, 100)
+        agentLLM.callLLM("test-agent", "test prompt", "test input", true, {
+          timeoutMs: 100,
+        })
       ).rejects.toThrow("LLM call timed out after 100ms");
     });
 
     it("should use default timeout from config when not specified", async () => {
-      const mockCreate = jest.fn().mockResolvedValue({
-        content: [{ type: "text", text: '{"result": "success"}' }],
-      });
-
-      (agentLLM as any).client = {
-        messages: { create: mockCreate },
-      };
+      complete.mockResolvedValue(textResponse('{"result": "success"}'));
 
       await agentLLM.callLLM("test-agent", "test prompt", "test input", true);
 
-      expect(mockCreate).toHaveBeenCalled();
+      expect(complete).toHaveBeenCalled();
+      expect(config.agent.timeouts.llmCall).toBeGreaterThan(0);
     });
 
     it("should handle non-JSON response with timeout", async () => {
-      const mockCreate = jest.fn().mockResolvedValue({
-        content: [{ type: "text", text: "plain text response" }],
-      });
-
-      (agentLLM as any).client = {
-        messages: { create: mockCreate },
-      };
+      complete.mockResolvedValue(textResponse("plain text response"));
 
       const result = await agentLLM.callLLM(
         "test-agent",
         "test prompt",
         "test input",
         false,
-        5000
+        { timeoutMs: 5000 }
       );
 
       expect(result).toBe("plain text response");
     });
 
     it("should handle JSON parse error gracefully", async () => {
-      const mockCreate = jest.fn().mockResolvedValue({
-        content: [{ type: "text", text: "invalid json" }],
-      });
-
-      (agentLLM as any).client = {
-        messages: { create: mockCreate },
-      };
+      complete.mockResolvedValue(textResponse("invalid json"));
 
       const result = await agentLLM.callLLM(
         "test-agent",
         "test prompt",
         "test input",
         true,
-        5000
+        { timeoutMs: 5000 }
       );
 
       expect(result).toEqual({});
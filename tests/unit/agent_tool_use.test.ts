@@ -0,0 +1,265 @@
+import { agentLLM } from "../../src/Agents/agent";
+import { ScriptedProvider, setLLMProvider } from "../../src/Agents/llm";
+import { AgentPlanner } from "../../src/Agents/planner/AgentPlanner";
+import { planRiskAssessor } from "../../src/Agents/planner/planRisk";
+import { toolRegistry } from "../../src/Agents/registry/ToolRegistry";
+import { ToolMetadata } from "../../src/Agents/registry/ToolMetadata";
+import { toAnthropicTool } from "../../src/Agents/registry/ToolSchema";
+
+jest.mock("../../src/Agents/registry/ToolRegistry");
+jest.mock("../../src/Agents/planner/planRisk");
+jest.mock("../../src/config/logger");
+
+const swapMetadata: ToolMetadata = {
+  name: "swap_tool",
+  description: "Swap tokens",
+  category: "trading",
+  version: "1.0.0",
+  examples: ["Swap 100 XLM to USDC"],
+  parameters: {
+    from: {
+      type: "string",
+      description: "Source token",
+      required: true,
+      enum: ["XLM", "USDC"],
+    },
+    amount: {
+      type: "number",
+      description: "Amount to swap",
+      required: true,
+      min: 0,
+      max: 1000000,
+    },
+    memo: {
+      type: "string",
+      description: "Optional memo",
+      required: false,
+      pattern: "^[a-z]+$",
+    },
+  },
+};
+
+const toolUse = (id: string, name: string, input: Record<string, unknown>) => ({
+  type: "tool_use" as const,
+  id,
+  name,
+  input,
+});
+
+let provider: ScriptedProvider;
+
+beforeEach(() => {
+  provider = new ScriptedProvider();
+  setLLMProvider(provider);
+});
+
+afterAll(() => {
+  setLLMProvider();
+});
+
+describe("Anthropic tool definitions", () => {
+  it("maps parameter definitions to JSON Schema", () => {
+    expect(toAnthropicTool(swapMetadata)).toEqual({
+      name: "swap_tool",
+      description: "Swap tokens",
+      input_schema: {
+        type: "object",
+        properties: {
+          from: {
+            type: "string",
+            description: "Source token",
+            enum: ["XLM", "USDC"],
+          },
+          amount: {
+            type: "number",
+            description: "Amount to swap",
+            minimum: 0,
+            maximum: 1000000,
+          },
+          memo: {
+            type: "string",
+            description: "Optional memo",
+            pattern: "^[a-z]+$",
+          },
+        },
+        required: ["from", "amount"],
+      },
+    });
+  });
+});
+
+describe("AgentLLM.callLLMWithTools", () => {
+  const tools = [toAnthropicTool(swapMetadata)];
+
+  it("returns tool_use blocks as structured calls", async () => {
+    provider.add({
+      response: {
+        content: [
+          { type: "text", text: "Swapping now" },
+          toolUse("call_1", "swap_tool", { from: "XLM", amount: 10 }),
+        ],
+      },
+    });
+
+    const response = await agentLLM.callLLMWithTools(
+      "agent-1",
+      "plan this",
+      "Swap 10 XLM",
+      tools
+    );
+
+    expect(response).toEqual({
+      calls: [
+        { id: "call_1", name: "swap_tool", input: { from: "XLM", amount: 10 } },
+      ],
+      text: "Swapping now",
+      turns: 1,
+    });
+    expect(provider.requests[0].tools).toEqual(tools);
+  });
+
+  it("sends tool results back until the model stops calling tools", async () => {
+    provider.add(
+      {
+        response: {
+          content: [
+            toolUse("call_1", "swap_tool", { from: "XLM", amount: 10 }),
+          ],
+        },
+      },
+      {
+        response: {
+          content: [
+            toolUse("call_2", "swap_tool", { from: "USDC", amount: 1 }),
+          ],
+        },
+      },
+      { response: "Done" }
+    );
+    const onToolUse = jest.fn(async (calls: Array<{ id: string }>) =>
+      calls.map((call) => ({ toolUseId: call.id, content: "ok" }))
+    );
+
+    const response = await agentLLM.callLLMWithTools(
+      "agent-1",
+      "plan this",
+      "Swap twice",
+      tools,
+      { maxTurns: 5, onToolUse }
+    );
+
+    expect(response.calls.map((call) => call.id)).toEqual(["call_1", "call_2"]);
+    expect(response.turns).toBe(3);
+    expect(onToolUse).toHaveBeenCalledTimes(2);
+
+    const lastRequest = provider.requests[2];
+    expect(lastRequest.messages).toHaveLength(5);
+    expect(lastRequest.messages[4]).toEqual({
+      role: "user",
+      content: [{ type: "tool_result", tool_use_id: "call_2", content: "ok" }],
+    });
+  });
+
+  it("stops after maxTurns", async () => {
+    provider.add({
+      repeat: true,
+      response: {
+        content: [toolUse("call_1", "swap_tool", { from: "XLM", amount: 10 })],
+      },
+    });
+
+    const response = await agentLLM.callLLMWithTools(
+      "agent-1",
+      "plan this",
+      "Swap forever",
+      tools,
+      {
+        maxTurns: 2,
+        onToolUse: async (calls) =>
+          calls.map((call) => ({ toolUseId: call.id, content: "ok" })),
+      }
+    );
+
+    expect(provider.requests).toHaveLength(2);
+    expect(response.calls).toHaveLength(2);
+  });
+});
+
+describe("AgentPlanner tool-use planning", () => {
+  beforeEach(() => {
+    (toolRegistry.getToolMetadata as jest.Mock).mockReturnValue([swapMetadata]);
+    (toolRegistry.getTool as jest.Mock).mockReturnValue({
+      metadata: swapMetadata,
+    });
+    (planRiskAssessor.assessPlan as jest.Mock).mockResolvedValue({
+      level: "low",
+      score: 20,
+      totalNotionalUsd: 0,
+      requiresApproval: false,
+      approvalReasons: [],
+      steps: [],
+    });
+  });
+
+  it("builds plan steps and dependencies from tool calls", async () => {
+    provider.add(
+      {
+        agent: "planner",
+        response: {
+          content: [
+            toolUse("call_1", "swap_tool", {
+              from: "XLM",
+              to: "USDC",
+              amount: 10,
+            }),
+            toolUse("call_2", "swap_tool", {
+              from: "USDC",
+              to: "XLM",
+              amount: 1,
+              dependsOn: [1],
+            }),
+          ],
+        },
+      },
+      { agent: "planner", response: "Planned" }
+    );
+
+    const plan = await new AgentPlanner().createPlan({
+      userId: "user123",
+      userInput: "Swap 10 XLM then 1 USDC",
+    });
+
+    expect(plan.steps.map((step) => [step.payload, step.dependencies])).toEqual(
+      [
+        [{ from: "XLM", to: "USDC", amount: 10 }, []],
+        [{ from: "USDC", to: "XLM", amount: 1 }, [1]],
+      ]
+    );
+
+    const { tools, messages } = provider.requests[1];
+    expect(tools?.[0].input_schema.properties?.dependsOn).toBeDefined();
+    expect(messages[2].content).toEqual([
+      {
+        type: "tool_result",
+        tool_use_id: "call_1",
+        content: "Planned as step 1",
+      },
+      {
+        type: "tool_result",
+        tool_use_id: "call_2",
+        content: "Planned as step 2",
+      },
+    ]);
+  });
+
+  it("rejects responses without tool calls", async () => {
+    provider.add({ agent: "planner", response: "I cannot help with that" });
+
+    await expect(
+      new AgentPlanner().createPlan({
+        userId: "user123",
+        userInput: "Tell me a joke",
+      })
+    ).rejects.toThrow("Invalid LLM response: no tool calls");
+  });
+});
@@ -0,0 +1,235 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import * as StellarSdk from "@stellar/stellar-sdk";
+import { SwapTool } from "../../src/Agents/tools/swap";
+import { LocalChainManager } from "../../src/simulation/LocalChainManager";
+import { interceptorFor } from "../../src/simulation/ServiceInterceptor";
+import { FixtureNotFoundError } from "../../src/simulation/ServiceFixtures";
+import { SimulationRequest } from "../../src/simulation/types";
+
+jest.unmock("@stellar/stellar-sdk");
+jest.mock("../../src/config/logger");
+jest.mock("../../src/services/priceCache.service", () => ({
+  __esModule: true,
+  default: {},
+}));
+jest.mock("../../src/services/flashSwapRiskAnalyzer", () => ({
+  flashSwapRiskAnalyzer: { analyzeSwapRisk: jest.fn() },
+}));
+jest.mock("../../src/Signing/signing.service", () => ({
+  transactionSigningService: { forUser: jest.fn() },
+}));
+
+const CONTRACT_ID = "CAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD2KM";
+
+const request = (
+  service: SimulationRequest["service"],
+  operation: string,
+  parameters: Record<string, unknown>
+): SimulationRequest => ({
+  service,
+  operation,
+  parameters,
+  userId: "alice",
+  timestamp: 0,
+});
+
+describe("reproducible local chain", () => {
+  it("repeats gas, results and fills for the same seed", async () => {
+    const run = async (seed: number) => {
+      const manager = new LocalChainManager({
+        enabled: false,
+        latencyMs: 0,
+        errorRate: 0,
+        seed,
+      });
+      await manager.initialize();
+      const engine = manager.getSimulationEngine();
+
+      const balance = await engine.processRequest(
+        request("soroban", "invoke_contract", {
+          contractId: CONTRACT_ID,
+          method: "balance",
+        })
+      );
+      const swap = await engine.processRequest(
+        request("swap", "swap", {
+          inputToken: "XLM",
+          outputToken:
+            "USDC:GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN",
+          inputAmount: "10.0000000",
+        })
+      );
+      return [
+        (balance.data as { result: unknown }).result,
+        balance.metadata.simulatedGas,
+        swap.data,
+        swap.metadata.simulatedGas,
+      ];
+    };
+
+    expect(await run(42)).toEqual(await run(42));
+    expect(await run(42)).not.toEqual(await run(43));
+  });
+
+  describe("fixtures", () => {
+    let fixturesPath: string;
+
+    beforeEach(() => {
+      fixturesPath = path.join(
+        fs.mkdtempSync(path.join(os.tmpdir(), "chain-fixtures-")),
+        "fixtures.json"
+      );
+    });
+
+    afterEach(() => {
+      fs.rmSync(path.dirname(fixturesPath), { recursive: true, force: true });
+    });
+
+    const startChain = async (fixtureMode: "record" | "replay") => {
+      const manager = new LocalChainManager({
+        enabled: false,
+        mode: "hybrid",
+        services: [],
+        fixtureMode,
+        fixturesPath,
+      });
+      await manager.initialize();
+    };
+
+    const invoke = (live: () => Promise<unknown>) =>
+      interceptorFor("soroban")!.intercept(
+        "soroban",
+        "invoke_contract",
+        [{ contractId: CONTRACT_ID, method: "balance", args: [BigInt(7)] }],
+        live
+      );
+
+    it("records live calls and replays them exactly as they returned", async () => {
+      const recorded = {
+        result: BigInt("170141183460469231731687303715884105727"),
+        raw: { key: Buffer.from([1, 2, 3]), ledger: 51234 },
+      };
+      const request: Record<string, unknown> = {};
+      request.self = request;
+      const failure = Object.assign(new Error("Request failed"), {
+        response: {
+          status: 400,
+          data: { extras: { result_codes: { transaction: "tx_failed" } } },
+          request,
+        },
+      });
+
+      await startChain("record");
+      await expect(invoke(async () => recorded)).resolves.toBe(recorded);
+      await expect(
+        invoke(async () => {
+          throw failure;
+        })
+      ).rejects.toBe(failure);
+      expect(JSON.parse(fs.readFileSync(fixturesPath, "utf-8"))).toHaveLength(
+        2
+      );
+
+      await startChain("replay");
+      const live = jest.fn();
+      await expect(invoke(live)).resolves.toEqual(recorded);
+      await expect(invoke(live)).rejects.toMatchObject({
+        message: "Request failed",
+        response: {
+          status: 400,
+          data: { extras: { result_codes: { transaction: "tx_failed" } } },
+        },
+      });
+      expect(live).not.toHaveBeenCalled();
+    });
+
+    it("rebuilds recorded XDR values of a Soroban simulation", async () => {
+      const retval = StellarSdk.nativeToScVal(BigInt(42), { type: "i128" });
+      const transactionData =
+        new StellarSdk.SorobanDataBuilder().setResourceFee(1234);
+      const recorded = {
+        result: BigInt(42),
+        raw: { result: { retval, auth: [] }, transactionData },
+      };
+
+      await startChain("record");
+      await invoke(async () => recorded);
+      await startChain("replay");
+      const replayed = (await invoke(jest.fn())) as typeof recorded;
+
+      expect(replayed.raw.result.retval).toBeInstanceOf(StellarSdk.xdr.ScVal);
+      expect(replayed.raw.result.retval.toXDR("base64")).toBe(
+        retval.toXDR("base64")
+      );
+      expect(StellarSdk.scValToNative(replayed.raw.result.retval)).toBe(
+        BigInt(42)
+      );
+      expect(replayed.raw.transactionData).toBeInstanceOf(
+        StellarSdk.SorobanDataBuilder
+      );
+      expect(replayed.raw.transactionData.build().toXDR("base64")).toBe(
+        transactionData.build().toXDR("base64")
+      );
+    });
+
+    it("refuses calls that were never recorded instead of going live", async () => {
+      fs.writeFileSync(fixturesPath, "[]");
+      await startChain("replay");
+
+      await expect(invoke(jest.fn())).rejects.toBeInstanceOf(
+        FixtureNotFoundError
+      );
+    });
+
+    it("replays a recorded swap failure through the swap tool", async () => {
+      fs.writeFileSync(
+        fixturesPath,
+        JSON.stringify([
+          {
+            service: "swap",
+            method: "swap",
+            parameters: {
+              from: "XLM",
+              to: "USDC:GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN",
+              mode: "strict_send",
+              amount: 100,
+              maxSlippageBps: 100,
+            },
+            error: {
+              name: "BadResponseError",
+              message: "Transaction Failed",
+              response: {
+                status: 400,
+                data: {
+                  extras: {
+                    result_codes: {
+                      transaction: "tx_failed",
+                      operations: ["op_underfunded"],
+                    },
+                  },
+                },
+              },
+            },
+          },
+        ])
+      );
+      await startChain("replay");
+      const strictSendPaths = jest.spyOn(
+        StellarSdk.Horizon.Server.prototype,
+        "strictSendPaths"
+      );
+
+      const result = await new SwapTool({ verifyAsset: jest.fn() }).execute(
+        { from: "XLM", to: "USDC", amount: 100 },
+        "alice"
+      );
+
+      expect(result.error).toBe(
+        "Swap failed: Insufficient XLM balance for swap"
+      );
+      expect(strictSendPaths).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,400 @@
+import { MoreThan } from "typeorm";
+import AppDataSource from "../../src/config/Datasource";
+import { auditLogService } from "../../src/AuditLog/auditLog.service";
+import { AuditAction } from "../../src/AuditLog/auditLog.entity";
+import { ConditionalOrder } from "../../src/ConditionalOrders/conditionalOrder.entity";
+import { ConditionalOrderMonitorService } from "../../src/ConditionalOrders/conditionalOrderMonitor.service";
+import {
+  ConditionalOrderError,
+  ConditionalOrderService,
+} from "../../src/ConditionalOrders/conditionalOrder.service";
+import { evaluateTrigger } from "../../src/ConditionalOrders/orderTrigger";
+
+jest.mock("../../src/config/Datasource", () => ({
+  __esModule: true,
+  default: { getRepository: jest.fn() },
+}));
+jest.mock("../../src/config/logger");
+jest.mock("../../src/AuditLog/auditLog.service", () => ({
+  auditLogService: { log: jest.fn() },
+}));
+jest.mock("../../src/services/stellarPrice.service", () => ({
+  __esModule: true,
+  default: {},
+}));
+jest.mock("../../src/services/flashSwapRiskAnalyzer", () => ({
+  flashSwapRiskAnalyzer: {},
+}));
+jest.mock("../../src/Agents/tools/swap", () => ({ swapTool: {} }));
+
+const SUPPORTED = ["XLM", "USDC", "USDT"];
+
+const buildPrices = (price = 0.1) => ({
+  getAsset: jest.fn((symbol: string) => {
+    if (!SUPPORTED.includes(symbol)) {
+      throw new Error(`Unsupported asset: ${symbol}`);
+    }
+    return symbol as never;
+  }),
+  getPrice: jest.fn().mockResolvedValue({ price }),
+  getOrderbookDepth: jest.fn().mockResolvedValue({
+    bids: [
+      { price: 0.089, amount: 50 },
+      { price: 0.088, amount: 100 },
+    ],
+    asks: [],
+  }),
+});
+
+describe("evaluateTrigger", () => {
+  it("fires stop losses and take profits at their price", () => {
+    const stopLoss = {
+      type: "stop_loss" as const,
+      direction: "below" as const,
+      triggerPrice: 0.09,
+      trailingPercent: null,
+    };
+    expect(evaluateTrigger(stopLoss, 0.091).triggered).toBe(false);
+    expect(evaluateTrigger(stopLoss, 0.09).triggered).toBe(true);
+
+    const takeProfit = {
+      ...stopLoss,
+      type: "take_profit" as const,
+      direction: "above" as const,
+      triggerPrice: 0.15,
+    };
+    expect(evaluateTrigger(takeProfit, 0.149).triggered).toBe(false);
+    expect(evaluateTrigger(takeProfit, 0.16).triggered).toBe(true);
+  });
+
+  it("moves a trailing stop up with the peak price", () => {
+    const trailing = {
+      type: "trailing_stop" as const,
+      direction: "below" as const,
+      triggerPrice: null,
+      trailingPercent: 10,
+    };
+
+    const risen = evaluateTrigger(trailing, 0.2, 0.1);
+    expect(risen).toEqual({
+      triggered: false,
+      stopPrice: expect.closeTo(0.18),
+      peakPrice: 0.2,
+    });
+    // 0.17 is above the old stop of 0.09 but below the new one
+    expect(evaluateTrigger(trailing, 0.17, risen.peakPrice).triggered).toBe(
+      true
+    );
+  });
+});
+
+describe("ConditionalOrderService", () => {
+  let orderRepository: { create: jest.Mock; save: jest.Mock };
+  let prices: ReturnType<typeof buildPrices>;
+  let service: ConditionalOrderService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    orderRepository = {
+      create: jest.fn((order) => order),
+      save: jest.fn(async (order) => ({ id: "order-1", ...order })),
+    };
+    (AppDataSource.getRepository as jest.Mock).mockReturnValue(orderRepository);
+    prices = buildPrices(0.1);
+    service = new ConditionalOrderService(prices);
+  });
+
+  it("watches the non USDC side of the swap", async () => {
+    const order = await service.createOrder("user-1", {
+      type: "price_trigger",
+      fromAsset: "usdc",
+      toAsset: "XLM",
+      amount: 100,
+      direction: "below",
+      triggerPrice: 0.08,
+    });
+
+    expect(prices.getPrice).toHaveBeenCalledWith("XLM", "USDC", 1);
+    expect(order).toEqual(
+      expect.objectContaining({
+        fromAsset: "USDC",
+        toAsset: "XLM",
+        priceAsset: "XLM",
+        amount: "100.0000000",
+        triggerPrice: "0.08",
+        createdPrice: "0.1",
+        maxSlippageBps: 100,
+        status: "active",
+      })
+    );
+  });
+
+  it("starts a trailing stop's peak at the current price", async () => {
+    const order = await service.createOrder("user-1", {
+      type: "trailing_stop",
+      fromAsset: "XLM",
+      toAsset: "USDC",
+      amount: 2000,
+      trailingPercent: 10,
+    });
+
+    expect(order).toEqual(
+      expect.objectContaining({
+        direction: "below",
+        triggerPrice: null,
+        trailingPercent: "10",
+        peakPrice: "0.1",
+      })
+    );
+  });
+
+  it("rejects invalid orders", async () => {
+    const base = {
+      type: "stop_loss" as const,
+      fromAsset: "XLM",
+      toAsset: "USDC",
+      amount: 1000,
+      triggerPrice: 0.09,
+    };
+
+    await expect(
+      service.createOrder("user-1", { ...base, toAsset: "BTC" })
+    ).rejects.toThrow("Unsupported asset: BTC");
+    await expect(
+      service.createOrder("user-1", { ...base, direction: "above" })
+    ).rejects.toThrow("A stop_loss order always triggers below its price");
+    await expect(
+      service.createOrder("user-1", { ...base, triggerPrice: undefined })
+    ).rejects.toThrow(ConditionalOrderError);
+    await expect(
+      service.createOrder("user-1", {
+        ...base,
+        expiresAt: "2020-01-01T00:00:00Z",
+      })
+    ).rejects.toThrow("expiresAt must be a date in the future");
+    expect(orderRepository.save).not.toHaveBeenCalled();
+  });
+});
+
+describe("ConditionalOrderMonitorService", () => {
+  let orderRepository: {
+    find: jest.Mock;
+    update: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+  let claimResult: { affected: number };
+  let prices: ReturnType<typeof buildPrices>;
+  let swapper: { execute: jest.Mock };
+  let riskAnalyzer: { analyzeSwapRisk: jest.Mock };
+  let monitor: ConditionalOrderMonitorService;
+
+  const NOW = new Date("2026-03-02T09:00:00Z");
+
+  const buildOrder = (overrides: Partial<ConditionalOrder> = {}) =>
+    ({
+      id: "order-1",
+      userId: "user-1",
+      type: "stop_loss",
+      direction: "below",
+      fromAsset: "XLM",
+      toAsset: "USDC",
+      amount: "1000.0000000",
+      priceAsset: "XLM",
+      triggerPrice: "0.09",
+      trailingPercent: null,
+      peakPrice: null,
+      maxSlippageBps: 100,
+      status: "active",
+      createdPrice: "0.1",
+      ...overrides,
+    }) as ConditionalOrder;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    claimResult = { affected: 1 };
+    const updateBuilder = {
+      update: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      execute: jest.fn(async () => claimResult),
+    };
+    orderRepository = {
+      find: jest.fn(),
+      update: jest.fn(),
+      createQueryBuilder: jest.fn(() => updateBuilder),
+    };
+    (AppDataSource.getRepository as jest.Mock).mockReturnValue(orderRepository);
+    prices = buildPrices(0.089);
+    swapper = {
+      execute: jest.fn().mockResolvedValue({
+        action: "swap",
+        status: "success",
+        data: { txHash: "abc123", estimatedOutput: 89 },
+      }),
+    };
+    riskAnalyzer = {
+      analyzeSwapRisk: jest.fn().mockResolvedValue({
+        riskLevel: "low",
+        warnings: [],
+        metrics: { priceImpact: 0.4 },
+      }),
+    };
+    monitor = new ConditionalOrderMonitorService({
+      prices,
+      swapper,
+      riskAnalyzer,
+    });
+  });
+
+  it("expires lapsed orders before checking prices", async () => {
+    orderRepository.find.mockResolvedValue([]);
+
+    await monitor.checkOrders(NOW);
+
+    expect(orderRepository.update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "active" }),
+      { status: "expired" }
+    );
+    expect(prices.getPrice).not.toHaveBeenCalled();
+  });
+
+  it("records the price of orders that have not triggered", async () => {
+    orderRepository.find.mockResolvedValue([
+      buildOrder({ triggerPrice: "0.08" }),
+    ]);
+
+    expect(await monitor.checkOrders(NOW)).toBe(0);
+    expect(swapper.execute).not.toHaveBeenCalled();
+    expect(orderRepository.update).toHaveBeenLastCalledWith("order-1", {
+      lastPrice: "0.089",
+      lastCheckedAt: NOW,
+    });
+  });
+
+  it("pages through every active order", async () => {
+    const createdAt = new Date("2026-03-01T00:00:00Z");
+    const orders = ["order-1", "order-2", "order-3"].map((id) =>
+      buildOrder({ id, triggerPrice: "0.08", createdAt })
+    );
+    orderRepository.find
+      .mockResolvedValueOnce(orders.slice(0, 2))
+      .mockResolvedValueOnce(orders.slice(2));
+    monitor = new ConditionalOrderMonitorService({
+      prices,
+      swapper,
+      riskAnalyzer,
+      batchSize: 2,
+    });
+
+    await monitor.checkOrders(NOW);
+
+    expect(orderRepository.find).toHaveBeenCalledTimes(2);
+    expect(orderRepository.find.mock.calls[1][0].where).toEqual([
+      { status: "active", createdAt: MoreThan(createdAt) },
+      { status: "active", createdAt, id: MoreThan("order-2") },
+    ]);
+    expect(
+      orderRepository.update.mock.calls
+        .filter(([criteria]) => typeof criteria === "string")
+        .map(([id]) => id)
+    ).toEqual(["order-1", "order-2", "order-3"]);
+    // Each asset is quoted once per poll, not once per page
+    expect(prices.getPrice).toHaveBeenCalledTimes(1);
+  });
+
+  it("executes a triggered stop loss through the swap tool", async () => {
+    orderRepository.find.mockResolvedValue([buildOrder()]);
+
+    expect(await monitor.checkOrders(NOW)).toBe(1);
+
+    expect(prices.getPrice).toHaveBeenCalledWith("XLM", "USDC", 1);
+    expect(swapper.execute).toHaveBeenCalledWith(
+      { from: "XLM", to: "USDC", amount: 1000, maxSlippageBps: 100 },
+      "user-1"
+    );
+    expect(auditLogService.log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: AuditAction.TRADE_INITIATED,
+        resource: "order-1",
+      })
+    );
+    expect(orderRepository.update).toHaveBeenLastCalledWith(
+      "order-1",
+      expect.objectContaining({
+        status: "executed",
+        txHash: "abc123",
+        triggeredAt: NOW,
+        triggeredPrice: "0.089",
+        lockedUntil: null,
+      })
+    );
+  });
+
+  it("defers orders the order book cannot fill", async () => {
+    orderRepository.find.mockResolvedValue([
+      buildOrder({ amount: "5000.0000000" }),
+    ]);
+
+    expect(await monitor.checkOrders(NOW)).toBe(0);
+
+    expect(swapper.execute).not.toHaveBeenCalled();
+    expect(orderRepository.update).toHaveBeenLastCalledWith(
+      "order-1",
+      expect.objectContaining({
+        deferredReason: expect.stringContaining("can only fill"),
+        lockedUntil: null,
+      })
+    );
+  });
+
+  it("defers orders whose price impact exceeds their slippage limit", async () => {
+    orderRepository.find.mockResolvedValue([
+      buildOrder({ maxSlippageBps: 25 }),
+    ]);
+
+    await monitor.checkOrders(NOW);
+
+    expect(swapper.execute).not.toHaveBeenCalled();
+    expect(orderRepository.update).toHaveBeenLastCalledWith(
+      "order-1",
+      expect.objectContaining({
+        deferredReason:
+          "Expected price impact of 0.40% exceeds the order's 0.25% slippage limit",
+      })
+    );
+  });
+
+  it("marks an order failed when the swap fails", async () => {
+    orderRepository.find.mockResolvedValue([buildOrder()]);
+    swapper.execute.mockResolvedValue({
+      action: "swap",
+      status: "error",
+      error: "Swap failed: Insufficient XLM balance for swap",
+    });
+
+    await monitor.checkOrders(NOW);
+
+    expect(auditLogService.log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: AuditAction.TRADE_FAILED,
+        success: false,
+      })
+    );
+    expect(orderRepository.update).toHaveBeenLastCalledWith(
+      "order-1",
+      expect.objectContaining({
+        status: "failed",
+        error: "Swap failed: Insufficient XLM balance for swap",
+      })
+    );
+  });
+
+  it("leaves orders claimed by another worker alone", async () => {
+    orderRepository.find.mockResolvedValue([buildOrder()]);
+    claimResult = { affected: 0 };
+
+    expect(await monitor.checkOrders(NOW)).toBe(0);
+    expect(swapper.execute).not.toHaveBeenCalled();
+  });
+});
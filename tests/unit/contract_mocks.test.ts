@@ -0,0 +1,172 @@
+import { scValToNative, StrKey } from "@stellar/stellar-sdk";
+import { SorobanTool } from "../../src/Agents/tools/soroban";
+import { SorobanContractStateTool } from "../../src/Agents/tools/sorobanContractState";
+import {
+  LendingContract,
+  LiquidityPoolContract,
+  TokenContract,
+} from "../../src/simulation/contracts";
+import { LocalChainManager } from "../../src/simulation/LocalChainManager";
+import {
+  createSimulationSession,
+  runInSimulation,
+} from "../../src/simulation/simulationContext";
+
+jest.unmock("@stellar/stellar-sdk");
+jest.mock("../../src/config/logger");
+
+const contractId = (seed: number) =>
+  StrKey.encodeContract(Buffer.alloc(32, seed));
+const XLM = contractId(1);
+const USDC = contractId(2);
+const POOL = contractId(3);
+const MARKET = contractId(4);
+
+const token = (symbol: string, balances: Record<string, string>) => ({
+  name: symbol,
+  symbol,
+  decimals: 7,
+  totalSupply: Object.values(balances)
+    .reduce((sum, balance) => sum + BigInt(balance), BigInt(0))
+    .toString(),
+  balances,
+  allowances: {},
+});
+
+describe("contract mocks", () => {
+  const sorobanTool = new SorobanTool();
+  let manager: LocalChainManager;
+  let alice: string;
+
+  beforeEach(async () => {
+    manager = new LocalChainManager({
+      enabled: false,
+      mode: "local",
+      latencyMs: 0,
+      errorRate: 0,
+    });
+    await manager.initialize();
+    alice = manager
+      .getSimulationEngine()
+      .getLedger()
+      .addressOf("alice", "stellar");
+
+    const runtime = manager.getSimulationEngine().getContractRuntime();
+    runtime.register(
+      XLM,
+      new TokenContract(),
+      token("XLM", { [alice]: "1000000000", [POOL]: "10000000000" })
+    );
+    runtime.register(
+      USDC,
+      new TokenContract(),
+      token("USDC", { [alice]: "0", [POOL]: "1000000000" })
+    );
+    runtime.register(POOL, new LiquidityPoolContract(), {
+      tokenA: XLM,
+      tokenB: USDC,
+      reserveA: "10000000000",
+      reserveB: "1000000000",
+      feeBps: 30,
+      totalShares: "3162277660",
+      shares: {},
+    });
+  });
+
+  const storageOf = (id: string) =>
+    manager.getSimulationEngine().getStateManager().getContractState(id)!
+      .storage;
+
+  const invoke = (id: string, method: string, args: unknown[]) =>
+    runInSimulation(createSimulationSession("alice"), () =>
+      sorobanTool.execute({ contractId: id, method, args }, "alice")
+    );
+
+  it("swaps through the pool, moving both tokens and publishing events", async () => {
+    const result = await invoke(POOL, "swap", [alice, XLM, "100000000", "1"]);
+
+    // 10 XLM less the 0.3% fee against 1000 XLM / 100 USDC
+    expect(result.status).toBe("success");
+    const invocation = result.data!.result as {
+      result: bigint;
+      raw: {
+        result: { events: Array<{ contractId: string; topics: never[] }> };
+      };
+    };
+    expect(invocation.result).toBe(BigInt(9871580));
+    expect(storageOf(POOL)).toEqual(
+      expect.objectContaining({
+        reserveA: "10100000000",
+        reserveB: "990128420",
+      })
+    );
+    expect((storageOf(XLM).balances as Record<string, string>)[alice]).toBe(
+      "900000000"
+    );
+    expect((storageOf(USDC).balances as Record<string, string>)[alice]).toBe(
+      "9871580"
+    );
+    expect(
+      invocation.raw.result.events.map((event) => [
+        event.contractId,
+        ...event.topics.map((topic) => scValToNative(topic)),
+      ])
+    ).toEqual([
+      [XLM, "transfer", alice, POOL],
+      [USDC, "transfer", POOL, alice],
+      [POOL, "swap", alice],
+    ]);
+  });
+
+  it("serves contract state queries from storage", async () => {
+    const result = await runInSimulation(createSimulationSession("alice"), () =>
+      new SorobanContractStateTool().execute(
+        { contractId: POOL, stateKeys: ["reserves", "fee", "price"] },
+        "alice"
+      )
+    );
+
+    expect(result.data!.state).toEqual({
+      reserves: [BigInt("10000000000"), BigInt("1000000000")],
+      fee: 30,
+      price: BigInt(1000000),
+    });
+  });
+
+  it("rolls back every contract an invocation touched when it fails", async () => {
+    manager
+      .getSimulationEngine()
+      .getContractRuntime()
+      .register(MARKET, new LendingContract(), {
+        asset: XLM,
+        collateralFactorBps: 7500,
+        baseRateBps: 200,
+        slopeBps: 2000,
+        totalSupply: "0",
+        totalBorrow: "0",
+        supplied: {},
+        borrowed: {},
+      });
+
+    expect((await invoke(MARKET, "supply", [alice, "400000000"])).status).toBe(
+      "success"
+    );
+    const borrow = await invoke(MARKET, "borrow", [alice, "350000000"]);
+    const unauthorized = await invoke(XLM, "transfer", [POOL, alice, "1"]);
+
+    expect(borrow.error).toMatch(
+      /^Soroban invocation failed: HostError: Error\(Contract, #2\)/
+    );
+    expect(unauthorized.error).toContain("Error(Auth, InvalidAction)");
+    expect(storageOf(MARKET)).toEqual(
+      expect.objectContaining({ totalSupply: "400000000", totalBorrow: "0" })
+    );
+    expect((storageOf(XLM).balances as Record<string, string>)[alice]).toBe(
+      "600000000"
+    );
+
+    await invoke(MARKET, "borrow", [alice, "300000000"]);
+    const rate = await invoke(MARKET, "interest_rate", []);
+    expect((rate.data!.result as { result: unknown }).result).toBe(1700);
+  });
+});
@@ -4,10 +4,17 @@ import { Contact } from "../../src/Contacts/contact.entity";
 import { RefreshToken } from "../../src/Auth/refreshToken.entity";
 import { memoryStore } from "../../src/Agents/memory/memory";
 import AppDataSource from "../../src/config/Datasource";
+import {
+  portfolioService,
+  RealizedTrade,
+} from "../../src/services/portfolio.service";
 
 jest.mock("../../src/config/Datasource");
 jest.mock("../../src/Agents/memory/memory");
 jest.mock("../../src/config/logger");
+jest.mock("../../src/services/portfolio.service", () => ({
+  portfolioService: { validate: jest.fn(), realizedTrades: jest.fn() },
+}));
 
 describe("DataExportService", () => {
   let dataExportService: DataExportService;
@@ -385,4 +392,110 @@ describe("DataExportService", () => {
       expect(result.conversationHistory.entries).toHaveLength(1000);
     });
   });
+
+  describe("exportTradeHistory", () => {
+    const trades: RealizedTrade[] = [
+      {
+        transactionHash: "hash-1",
+        executedAt: "2024-03-10T12:00:00.000Z",
+        soldAsset: "XLM",
+        soldAmount: 150,
+        boughtAsset: "USDC:GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN",
+        boughtAmount: 45,
+        value: 45,
+        costBasis: 20.0100000001,
+        realizedPnl: 24.9899999999,
+        fee: 0.00001,
+        feeValue: 0.000003,
+      },
+      {
+        transactionHash: "hash-2",
+        executedAt: "2024-03-11T12:00:00.000Z",
+        soldAsset: "USDC:GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN",
+        soldAmount: 10,
+        boughtAsset: "FOO:GFOOISSUER",
+        boughtAmount: 1000,
+        value: null,
+        costBasis: 10,
+        realizedPnl: null,
+        fee: 0,
+        feeValue: null,
+      },
+    ];
+
+    const readAll = async (stream: NodeJS.ReadableStream): Promise<string> => {
+      let body = "";
+      for await (const chunk of stream) {
+        body += chunk;
+      }
+      return body;
+    };
+
+    beforeEach(() => {
+      mockUserRepository.findOne.mockResolvedValue({
+        id: "user-123",
+        address: "GTEST123",
+      });
+      (portfolioService.realizedTrades as jest.Mock).mockImplementation(
+        async function* () {
+          yield* trades;
+        },
+      );
+    });
+
+    it("should stream trades as CSV", async () => {
+      const stream = await dataExportService.exportTradeHistory("user-123", {
+        format: "csv",
+        startDate: "2024-03-01T00:00:00Z",
+        method: "lifo",
+      });
+      const lines = (await readAll(stream)).trim().split("\n");
+
+      expect(portfolioService.realizedTrades).toHaveBeenCalledWith("GTEST123", {
+        method: "lifo",
+        quoteAsset: "USDC",
+        startDate: "2024-03-01T00:00:00Z",
+        endDate: undefined,
+      });
+      expect(lines).toEqual([
+        "timestamp,transactionHash,soldAsset,soldAmount,boughtAsset,boughtAmount,feeAsset,feeAmount,feeUsd,valueUsd,costBasisUsd,gainLossUsd",
+        "2024-03-10T12:00:00.000Z,hash-1,XLM,150,USDC:GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN,45,XLM,0.00001,0.000003,45,20.01,24.99",
+        "2024-03-11T12:00:00.000Z,hash-2,USDC:GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN,10,FOO:GFOOISSUER,1000,XLM,0,,,10,",
+      ]);
+    });
+
+    it("should stream trades as a JSON document", async () => {
+      const stream = await dataExportService.exportTradeHistory("user-123", {
+        format: "json",
+      });
+      const parsed = JSON.parse(await readAll(stream));
+
+      expect(parsed.exportMetadata).toEqual(
+        expect.objectContaining({
+          userId: "user-123",
+          account: "GTEST123",
+          costBasisMethod: "fifo",
+        }),
+      );
+      expect(parsed.trades).toHaveLength(2);
+      expect(parsed.trades[1]).toEqual(
+        expect.objectContaining({
+          transactionHash: "hash-2",
+          valueUsd: null,
+          gainLossUsd: null,
+        }),
+      );
+    });
+
+    it("should check the user before streaming", async () => {
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        dataExportService.exportTradeHistory("nonexistent-user", {
+          format: "csv",
+        }),
+      ).rejects.toThrow("User not found");
+      expect(portfolioService.realizedTrades).not.toHaveBeenCalled();
+    });
+  });
 });
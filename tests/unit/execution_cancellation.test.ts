@@ -0,0 +1,96 @@
+import { ToolRegistry } from "../../src/Agents/registry/ToolRegistry";
+import { ToolDefinition } from "../../src/Agents/registry/ToolMetadata";
+
+jest.mock("../../src/config/logger");
+
+const buildTool = (
+  name: string,
+  execute: ToolDefinition["execute"]
+): ToolDefinition => ({
+  metadata: {
+    name,
+    description: `${name} test tool`,
+    parameters: {},
+    examples: [],
+    category: "test",
+    version: "1.0.0",
+  },
+  execute,
+});
+
+const waitForAbort = (signal?: AbortSignal) =>
+  new Promise<void>((resolve) =>
+    signal?.addEventListener("abort", () => resolve())
+  );
+
+describe("ToolRegistry cancellation", () => {
+  describe("executeTool", () => {
+    let registry: ToolRegistry;
+
+    beforeEach(() => {
+      registry = new ToolRegistry();
+    });
+
+    it("aborts the tool signal when the caller cancels", async () => {
+      let toolSignal: AbortSignal | undefined;
+      registry.registerCustomTool(
+        buildTool("slow_tool", async (_payload, _userId, signal) => {
+          toolSignal = signal;
+          await waitForAbort(signal);
+          return { action: "slow_tool", status: "success" };
+        })
+      );
+
+      const controller = new AbortController();
+      const execution = registry.executeTool(
+        "slow_tool",
+        {},
+        "user123",
+        5000,
+        controller.signal
+      );
+      controller.abort();
+
+      await expect(execution).rejects.toMatchObject({
+        cancelled: true,
+        message: "Tool 'slow_tool' execution was cancelled",
+      });
+      expect(toolSignal?.aborted).toBe(true);
+    });
+
+    it("aborts the tool signal when the tool times out", async () => {
+      let toolSignal: AbortSignal | undefined;
+      registry.registerCustomTool(
+        buildTool("hanging_tool", async (_payload, _userId, signal) => {
+          toolSignal = signal;
+          await waitForAbort(signal);
+          return { action: "hanging_tool", status: "success" };
+        })
+      );
+
+      await expect(
+        registry.executeTool("hanging_tool", {}, "user123", 20)
+      ).rejects.toMatchObject({ timedOut: true });
+      expect(toolSignal?.aborted).toBe(true);
+    });
+
+    it("does not start a tool for an already cancelled execution", async () => {
+      const execute = jest.fn();
+      registry.registerCustomTool(buildTool("never_tool", execute));
+
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        registry.executeTool(
+          "never_tool",
+          {},
+          "user123",
+          1000,
+          controller.signal
+        )
+      ).rejects.toMatchObject({ cancelled: true });
+      expect(execute).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { PlanExecutor } from "../../src/Agents/planner/PlanExecutor";
+import { ExecutionPlan, PlanStep } from "../../src/Agents/planner/AgentPlanner";
+import {
+  ExecutionEvent,
+  ExecutionEventBus,
+} from "../../src/Agents/planner/executionEvents";
+import { toolRegistry } from "../../src/Agents/registry/ToolRegistry";
+
+jest.mock("../../src/Agents/registry/ToolRegistry");
+jest.mock("../../src/config/logger");
+
+const step = (stepNumber: number, dependencies?: number[]): PlanStep => ({
+  stepNumber,
+  action: `action_${stepNumber}`,
+  payload: {},
+  description: `Step ${stepNumber}`,
+  dependencies,
+});
+
+const buildPlan = (steps: PlanStep[]): ExecutionPlan => ({
+  planId: "plan_events",
+  steps,
+  totalSteps: steps.length,
+  estimatedDuration: steps.length * 3000,
+  riskLevel: "low",
+  requiresApproval: false,
+  summary: "test plan",
+});
+
+describe("Execution progress events", () => {
+  let executor: PlanExecutor;
+  let bus: ExecutionEventBus;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    executor = new PlanExecutor();
+    bus = new ExecutionEventBus(50, 1000);
+  });
+
+  it("publishes step events and a final summary", async () => {
+    (toolRegistry.executeTool as jest.Mock) = jest
+      .fn()
+      .mockImplementation(async (action: string) => ({
+        action,
+        status: "success",
+        data: {},
+      }));
+
+    const events: ExecutionEvent[] = [];
+    bus.subscribe("plan_events", (event) => events.push(event));
+
+    const plan = buildPlan([step(1, []), step(2, [1])]);
+    await bus.track("plan_events", (hooks) =>
+      executor.executePlan(plan, "user123", { ...hooks, verifyHash: false })
+    );
+
+    expect(events.map((e) => e.type)).toEqual([
+      "step_start",
+      "step_complete",
+      "step_start",
+      "step_complete",
+      "summary",
+    ]);
+    expect(events[4].data).toMatchObject({
+      status: "success",
+      completedSteps: 2,
+      totalSteps: 2,
+    });
+  });
+
+  it("publishes retry and timeout events for retried steps", async () => {
+    (toolRegistry.executeTool as jest.Mock) = jest
+      .fn()
+      .mockRejectedValueOnce(
+        Object.assign(new Error("Tool 'action_1' execution timed out"), {
+          timedOut: true,
+        })
+      )
+      .mockResolvedValueOnce({ action: "action_1", status: "success" });
+
+    const plan = buildPlan([step(1, [])]);
+    await bus.track("plan_events", (hooks) =>
+      executor.executePlan(plan, "user123", {
+        ...hooks,
+        verifyHash: false,
+        retries: 2,
+        retryDelayMs: 0,
+      })
+    );
+
+    const { replay } = bus.subscribe("plan_events", () => undefined);
+    const types = replay.map((e) => e.type);
+
+    expect(types).toEqual([
+      "step_start",
+      "timeout",
+      "step_retry",
+      "step_complete",
+      "summary",
+    ]);
+    expect(replay[2].data).toMatchObject({ stepNumber: 1, attempt: 1 });
+    expect(toolRegistry.executeTool).toHaveBeenCalledTimes(2);
+  });
+
+  it("replays only events after the last seen id", async () => {
+    (toolRegistry.executeTool as jest.Mock) = jest
+      .fn()
+      .mockResolvedValue({ action: "action_1", status: "success" });
+
+    const plan = buildPlan([step(1, [])]);
+    await bus.track("plan_events", (hooks) =>
+      executor.executePlan(plan, "user123", { ...hooks, verifyHash: false })
+    );
+
+    const all = bus.subscribe("plan_events", () => undefined);
+    const resumed = bus.subscribe(
+      "plan_events",
+      () => undefined,
+      all.replay[1].id
+    );
+
+    expect(all.finished).toBe(true);
+    expect(resumed.replay.map((e) => e.type)).toEqual(["summary"]);
+  });
+
+  it("ends the stream with a failed summary when execution throws", async () => {
+    await expect(
+      bus.track("plan_events", async () => {
+        throw new Error("Plan verification failed");
+      })
+    ).rejects.toThrow("Plan verification failed");
+
+    const { replay } = bus.subscribe("plan_events", () => undefined);
+    expect(replay).toHaveLength(1);
+    expect(replay[0]).toMatchObject({
+      type: "summary",
+      data: { status: "failed", error: "Plan verification failed" },
+    });
+  });
+});
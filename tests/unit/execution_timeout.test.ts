@@ -88,7 +88,8 @@ describe("Execution Agent Timeout", () => {
         expect.any(String),
         expect.any(Object),
         "user123",
-        expect.any(Number)
+        expect.any(Number),
+        expect.any(AbortSignal)
       );
     });
 
@@ -0,0 +1,245 @@
+import { Keypair, Transaction } from "@stellar/stellar-sdk";
+import AppDataSource from "../../src/config/Datasource";
+import config from "../../src/config/config";
+import { encrypt } from "../../src/utils/encryption";
+import { auditLogService } from "../../src/AuditLog/auditLog.service";
+import { AuditAction } from "../../src/AuditLog/auditLog.entity";
+import {
+  KeyCustodyService,
+  KeyNotFoundError,
+  parseMasterKeys,
+} from "../../src/Custody/custody.service";
+import { CustodyKey } from "../../src/Custody/custodyKey.entity";
+
+jest.mock("@stellar/stellar-sdk", () => ({
+  Keypair: {
+    fromSecret: jest.fn((secret: string) => ({
+      secret: () => secret,
+      publicKey: () => `PUB_${secret}`,
+    })),
+  },
+}));
+jest.mock("../../src/config/Datasource", () => ({
+  __esModule: true,
+  default: { getRepository: jest.fn() },
+}));
+jest.mock("../../src/AuditLog/auditLog.service");
+jest.mock("../../src/config/logger");
+
+const KEY_V1 = "11".repeat(32);
+const KEY_V2 = "22".repeat(32);
+const SECRET = "SSECRETSTELLARKEY";
+const PUBLIC_KEY = "GPUBLICSTELLARKEY";
+
+/**
+ * In-memory stand-in for the custody_key repository
+ */
+const createRepository = () => {
+  const rows: CustodyKey[] = [];
+  const matches = (row: CustodyKey, where: Partial<CustodyKey>) =>
+    Object.entries(where).every(
+      ([key, value]) => row[key as keyof CustodyKey] === value
+    );
+
+  return {
+    rows,
+    create: jest.fn((data: Partial<CustodyKey>) => ({ ...data }) as CustodyKey),
+    save: jest.fn(async (record: CustodyKey) => {
+      if (!record.id) {
+        record.id = `key_${rows.length + 1}`;
+        rows.push(record);
+      }
+      return record;
+    }),
+    findOne: jest.fn(
+      async ({ where }: { where: Partial<CustodyKey> }) =>
+        rows.find((row) => matches(row, where)) ?? null
+    ),
+    find: jest.fn(async () => rows.filter((row) => row.keyVersion !== 2)),
+    update: jest.fn(async () => ({ affected: 1 })),
+    delete: jest.fn(async (where: Partial<CustodyKey>) => {
+      const index = rows.findIndex((row) => matches(row, where));
+      if (index >= 0) rows.splice(index, 1);
+      return { affected: index >= 0 ? 1 : 0 };
+    }),
+  };
+};
+
+describe("KeyCustodyService", () => {
+  let repository: ReturnType<typeof createRepository>;
+  let custody: KeyCustodyService;
+
+  const buildTransaction = () =>
+    ({ sign: jest.fn() }) as unknown as Transaction & { sign: jest.Mock };
+
+  const storeStellarKey = (userId = "user123") =>
+    custody.storeKey({
+      userId,
+      chain: "stellar",
+      secret: SECRET,
+      publicKey: PUBLIC_KEY,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    repository = createRepository();
+    (AppDataSource.getRepository as jest.Mock).mockReturnValue(repository);
+    (auditLogService.log as jest.Mock).mockResolvedValue({});
+    custody = new KeyCustodyService(parseMasterKeys(`1:${KEY_V1}`), 1);
+  });
+
+  it("stores secrets encrypted with a per-key data key", async () => {
+    const info = await storeStellarKey();
+
+    const [row] = repository.rows;
+    expect(info).toEqual({
+      userId: "user123",
+      chain: "stellar",
+      publicKey: PUBLIC_KEY,
+      keyVersion: 1,
+    });
+    expect(row.encryptedSecret).not.toContain(SECRET);
+    expect(row.encryptedDataKey).toBeDefined();
+    expect(auditLogService.log).toHaveBeenCalledWith(
+      expect.objectContaining({ action: AuditAction.KEY_STORED })
+    );
+  });
+
+  it("signs Stellar transactions and audits every decryption", async () => {
+    await storeStellarKey();
+    const signer = await custody.getStellarSigner("user123");
+    const transaction = buildTransaction();
+
+    await signer.sign(transaction);
+
+    expect(signer.publicKey).toBe(PUBLIC_KEY);
+    expect(Keypair.fromSecret).toHaveBeenCalledWith(SECRET);
+    expect(transaction.sign).toHaveBeenCalledTimes(1);
+    expect(auditLogService.log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "user123",
+        action: AuditAction.KEY_DECRYPTED,
+        metadata: { purpose: "stellar_transaction", keyVersion: 1 },
+      })
+    );
+  });
+
+  it("refuses to decrypt when the audit log cannot be written", async () => {
+    await storeStellarKey();
+    const signer = await custody.getStellarSigner("user123");
+    (auditLogService.log as jest.Mock).mockRejectedValue(
+      new Error("database unavailable")
+    );
+    const transaction = buildTransaction();
+
+    await expect(signer.sign(transaction)).rejects.toThrow(
+      "database unavailable"
+    );
+    expect(transaction.sign).not.toHaveBeenCalled();
+  });
+
+  it("throws KeyNotFoundError for users without a key", async () => {
+    await expect(custody.getStellarSigner("nobody")).rejects.toBeInstanceOf(
+      KeyNotFoundError
+    );
+  });
+
+  it("re-wraps data keys when the master key is rotated", async () => {
+    await storeStellarKey();
+    const encryptedSecret = repository.rows[0].encryptedSecret;
+
+    const rotated = new KeyCustodyService(
+      parseMasterKeys(`1:${KEY_V1},2:${KEY_V2}`),
+      2
+    );
+    await expect(rotated.rotateMasterKey()).resolves.toBe(1);
+
+    expect(repository.rows[0]).toEqual(
+      expect.objectContaining({ keyVersion: 2, encryptedSecret })
+    );
+
+    // Version 1 is no longer needed once every key is re-wrapped
+    const afterRotation = new KeyCustodyService(
+      parseMasterKeys(`2:${KEY_V2}`),
+      2
+    );
+    const transaction = buildTransaction();
+    await (await afterRotation.getStellarSigner("user123")).sign(transaction);
+    expect(Keypair.fromSecret).toHaveBeenCalledWith(SECRET);
+  });
+
+  it("imports legacy accounts.json entries", async () => {
+    await storeStellarKey("existing");
+
+    const result = await custody.importAccounts([
+      { userId: "existing", secretKey: SECRET },
+      { userId: "stellarUser", secretKey: SECRET },
+      {
+        userId: "starkUser",
+        privateKey: "0x1234",
+        publicKey: "0xabcd",
+        precalculatedAddress: "0x5678",
+        deployed: true,
+      },
+      { userId: "broken" },
+    ]);
+
+    expect(result).toEqual({
+      imported: 2,
+      skipped: 1,
+      failed: [
+        {
+          userId: "broken",
+          error: "Account entry has no secretKey or privateKey/publicKey",
+        },
+      ],
+    });
+    await expect(custody.getKeyInfo("stellarUser", "stellar")).resolves.toEqual(
+      expect.objectContaining({ publicKey: `PUB_${SECRET}` })
+    );
+    await expect(custody.getKeyInfo("starkUser", "starknet")).resolves.toEqual(
+      expect.objectContaining({
+        publicKey: "0xabcd",
+        address: "0x5678",
+        metadata: { deployed: true },
+      })
+    );
+  });
+
+  it("imports the keys users were given at signup", async () => {
+    const encryptionKey = jest.replaceProperty(config, "encryptionKey", KEY_V2);
+
+    const result = await custody.importUserKeys([
+      {
+        id: "signedUp",
+        address: PUBLIC_KEY,
+        encryptedPrivateKey: encrypt(SECRET),
+      },
+      { id: "starkUser", address: "0xabcd", encryptedPrivateKey: "STRK" },
+      { id: "corrupt", address: PUBLIC_KEY, encryptedPrivateKey: "bm9wZQ==" },
+    ]);
+
+    expect(result.imported).toBe(1);
+    expect(result.skipped).toBe(1);
+    expect(result.failed).toEqual([
+      expect.objectContaining({ userId: "corrupt" }),
+    ]);
+    await expect(custody.getKeyInfo("signedUp", "stellar")).resolves.toEqual(
+      expect.objectContaining({ publicKey: PUBLIC_KEY })
+    );
+
+    const transaction = buildTransaction();
+    await (await custody.getStellarSigner("signedUp")).sign(transaction);
+    expect(Keypair.fromSecret).toHaveBeenCalledWith(SECRET);
+    encryptionKey.restore();
+  });
+
+  it("rejects malformed master keys", () => {
+    expect(() => parseMasterKeys("1:abc")).toThrow(
+      "Invalid custody master key for version 1"
+    );
+    expect(parseMasterKeys("", KEY_V1).get(1)).toEqual(
+      Buffer.from(KEY_V1, "hex")
+    );
+  });
+});
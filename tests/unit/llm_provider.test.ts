@@ -0,0 +1,263 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AgentLLM } from "../../src/Agents/agent";
+import {
+  LLMProvider,
+  LLMRequest,
+  RecordingProvider,
+  ScriptedProvider,
+  ScriptedProviderError,
+  setLLMProvider,
+} from "../../src/Agents/llm";
+import { intentAgent } from "../../src/Agents/agents/intentagent";
+import { executionAgent } from "../../src/Agents/agents/exectutionagent";
+import { responseAgent } from "../../src/Agents/agents/responseagent";
+import { validateQuery } from "../../src/Agents/validationService";
+import { toolRegistry } from "../../src/Agents/registry/ToolRegistry";
+import { ToolMetadata } from "../../src/Agents/registry/ToolMetadata";
+import config from "../../src/config/config";
+
+jest.mock("../../src/Agents/registry/ToolRegistry");
+jest.mock("../../src/Agents/registry/ToolAutoDiscovery", () => ({
+  toolAutoDiscovery: { initialize: jest.fn() },
+}));
+jest.mock("../../src/Agents/registry/PromptVersionService", () => ({
+  promptVersionService: {
+    selectPrompt: jest.fn().mockResolvedValue(null),
+    trackMetric: jest.fn(),
+  },
+}));
+jest.mock("../../src/Agents/memory/memory", () => ({
+  memoryStore: { get: jest.fn(() => []), add: jest.fn() },
+}));
+jest.mock("../../src/Agents/agents/exectutionagent", () => ({
+  executionAgent: { run: jest.fn() },
+}));
+jest.mock("../../src/config/logger");
+
+const walletMetadata: ToolMetadata = {
+  name: "wallet_tool",
+  description: "Wallet operations",
+  category: "wallet",
+  version: "1.0.0",
+  examples: [],
+  parameters: {
+    operation: {
+      type: "string",
+      description: "Wallet operation",
+      required: true,
+      enum: ["get_balance"],
+    },
+  },
+};
+
+const request = (agent: string, prompt: string): LLMRequest => ({
+  agent,
+  model: "test-model",
+  temperature: 0,
+  maxTokens: 100,
+  messages: [{ role: "user", content: prompt }],
+});
+
+describe("ScriptedProvider", () => {
+  let tempDir: string | undefined;
+
+  afterEach(() => {
+    if (tempDir) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      tempDir = undefined;
+    }
+  });
+
+  it("answers with the first unused fixture matching agent and prompt", async () => {
+    const provider = new ScriptedProvider([
+      { agent: "validation", response: "0", match: "weather" },
+      { agent: "validation", response: "1" },
+      { agent: "response", response: "formatted" },
+    ]);
+
+    const first = await provider.complete(request("validation", "swap XLM"));
+    const second = await provider.complete(
+      request("validation", "the weather")
+    );
+
+    expect(first.content).toEqual([{ type: "text", text: "1" }]);
+    expect(second.content).toEqual([{ type: "text", text: "0" }]);
+    expect(provider.pending()).toEqual([
+      { agent: "response", response: "formatted" },
+    ]);
+    await expect(
+      provider.complete(request("validation", "swap again"))
+    ).rejects.toBeInstanceOf(ScriptedProviderError);
+  });
+
+  it("fills in tool_use ids and stop reasons", async () => {
+    const provider = new ScriptedProvider([
+      {
+        response: {
+          content: [
+            {
+              type: "tool_use",
+              name: "wallet_tool",
+              input: { operation: "x" },
+            },
+          ],
+        },
+      },
+    ]);
+
+    const response = await provider.complete(request("intent", "balance"));
+
+    expect(response).toEqual({
+      content: [
+        {
+          type: "tool_use",
+          id: "toolu_scripted_1",
+          name: "wallet_tool",
+          input: { operation: "x" },
+        },
+      ],
+      stopReason: "tool_use",
+    });
+  });
+
+  it("replays fixtures saved by the recording provider", async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "llm-fixtures-"));
+    const filePath = path.join(tempDir, "fixtures.json");
+    const upstream: LLMProvider = {
+      name: "upstream",
+      complete: jest.fn().mockResolvedValue({
+        content: [{ type: "text", text: "recorded" }],
+        stopReason: "end_turn",
+      }),
+    };
+
+    await new RecordingProvider(upstream, filePath).complete(
+      request("qa", "question")
+    );
+    const replayed = await ScriptedProvider.fromFile(filePath).complete(
+      request("qa", "question")
+    );
+
+    expect(replayed.content).toEqual([{ type: "text", text: "recorded" }]);
+  });
+});
+
+describe("AgentLLM model configuration", () => {
+  it("sends the model settings configured for the calling agent", async () => {
+    const provider = new ScriptedProvider([{ response: "1" }]);
+    const llm = new AgentLLM(provider);
+
+    await llm.callLLM("user123", "prompt", "input", false, {
+      agent: "validation",
+    });
+
+    expect(provider.requests[0]).toEqual(
+      expect.objectContaining({
+        agent: "validation",
+        model: config.agent.llm.defaults.model,
+        ...config.agent.llm.agents.validation,
+      })
+    );
+    expect(llm.getModelConfig("unknown")).toEqual(config.agent.llm.defaults);
+  });
+});
+
+describe("agents with a scripted provider", () => {
+  let provider: ScriptedProvider;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    provider = new ScriptedProvider();
+    setLLMProvider(provider);
+    (toolRegistry.getToolMetadata as jest.Mock).mockReturnValue([
+      walletMetadata,
+    ]);
+    (toolRegistry.getTool as jest.Mock).mockReturnValue({
+      metadata: walletMetadata,
+    });
+  });
+
+  afterAll(() => {
+    setLLMProvider();
+  });
+
+  it("validates queries", async () => {
+    provider.add(
+      { agent: "validation", match: "check my balance", response: "1" },
+      { agent: "validation", match: "tell me a joke", response: "0" }
+    );
+
+    await expect(validateQuery("check my balance", "user123")).resolves.toBe(
+      true
+    );
+    await expect(validateQuery("tell me a joke", "user123")).resolves.toBe(
+      false
+    );
+  });
+
+  it("formats workflow results", async () => {
+    provider.add({
+      agent: "response",
+      response: '{"response": "Your balance is 10 XLM"}',
+    });
+
+    const result = await responseAgent.format(
+      [{ action: "wallet_tool", status: "success", data: { balance: 10 } }],
+      "user123",
+      "check my balance"
+    );
+
+    expect(result).toEqual({ response: "Your balance is 10 XLM" });
+    expect(provider.requests[0].messages[0].content).toContain('"balance": 10');
+  });
+
+  it("plans and executes intents end to end", async () => {
+    (executionAgent.run as jest.Mock).mockResolvedValue({
+      success: true,
+      data: "Your balance is 10 XLM",
+    });
+    provider.add(
+      { agent: "validation", response: "1" },
+      {
+        agent: "intent",
+        response: {
+          content: [
+            {
+              type: "tool_use",
+              name: "wallet_tool",
+              input: { operation: "get_balance" },
+            },
+          ],
+        },
+      },
+      { agent: "intent", response: "Done" }
+    );
+
+    const controller = new AbortController();
+    const result = await intentAgent.handle(
+      "check my balance",
+      "user123",
+      controller.signal
+    );
+
+    expect(result).toEqual({ success: true, data: "Your balance is 10 XLM" });
+    expect(executionAgent.run).toHaveBeenCalledWith(
+      {
+        workflow: [
+          { action: "wallet_tool", payload: { operation: "get_balance" } },
+        ],
+      },
+      "user123",
+      "check my balance",
+      undefined,
+      controller.signal,
+      expect.any(String)
+    );
+    expect(provider.requests[1].tools?.map((tool) => tool.name)).toEqual([
+      "wallet_tool",
+    ]);
+    expect(provider.pending()).toEqual([]);
+  });
+});
@@ -0,0 +1,304 @@
+import * as StellarSdk from "@stellar/stellar-sdk";
+import AppDataSource from "../../src/config/Datasource";
+import {
+  getRequiredThresholdLevel,
+  MultisigCoordinationService,
+  MultisigError,
+  MultisigStateError,
+} from "../../src/services/multisigCoordinationService";
+import { MultisigTransaction } from "../../src/services/multisigTransaction.entity";
+
+// Signatures are verified for real, so use the actual SDK
+jest.unmock("@stellar/stellar-sdk");
+jest.mock("../../src/config/Datasource", () => ({
+  __esModule: true,
+  default: { getRepository: jest.fn() },
+}));
+jest.mock("../../src/config/logger");
+
+const master = StellarSdk.Keypair.random();
+const cosigner = StellarSdk.Keypair.random();
+const treasurer = StellarSdk.Keypair.random();
+const outsider = StellarSdk.Keypair.random();
+const NETWORK = StellarSdk.Networks.TESTNET;
+
+const horizonAccount = {
+  signers: [
+    { key: master.publicKey(), weight: 1, type: "ed25519_public_key" },
+    { key: cosigner.publicKey(), weight: 1, type: "ed25519_public_key" },
+    { key: treasurer.publicKey(), weight: 2, type: "ed25519_public_key" },
+  ],
+  thresholds: { low_threshold: 1, med_threshold: 2, high_threshold: 3 },
+};
+
+const buildTransaction = (
+  operation: StellarSdk.xdr.Operation = StellarSdk.Operation.payment({
+    destination: outsider.publicKey(),
+    asset: StellarSdk.Asset.native(),
+    amount: "10",
+  })
+) =>
+  new StellarSdk.TransactionBuilder(
+    new StellarSdk.Account(master.publicKey(), "1"),
+    { fee: StellarSdk.BASE_FEE, networkPassphrase: NETWORK }
+  )
+    .addOperation(operation)
+    .setTimeout(3600)
+    .build();
+
+const decoratedSignature = (xdr: string, keypair: StellarSdk.Keypair) => {
+  const transaction = new StellarSdk.Transaction(xdr, NETWORK);
+  return keypair.signDecorated(transaction.hash()).toXDR("base64");
+};
+
+const signedEnvelope = (xdr: string, keypair: StellarSdk.Keypair) => {
+  const transaction = new StellarSdk.Transaction(xdr, NETWORK);
+  transaction.sign(keypair);
+  return transaction.toXDR();
+};
+
+/**
+ * In-memory stand-in for the multisig_transaction repository. Reads return
+ * copies like a database would, and transactions run one at a time as if
+ * holding the row lock.
+ */
+const createRepository = () => {
+  const rows: MultisigTransaction[] = [];
+  let locked: Promise<unknown> = Promise.resolve();
+
+  const repository = {
+    rows,
+    create: jest.fn(
+      (data: Partial<MultisigTransaction>) =>
+        ({ ...data }) as MultisigTransaction
+    ),
+    save: jest.fn(async (record: MultisigTransaction) => {
+      if (!record.id) {
+        record.id = `multisig_${rows.length + 1}`;
+        record.createdAt = new Date();
+        rows.push(record);
+      } else {
+        rows[rows.findIndex((row) => row.id === record.id)] = record;
+      }
+      return record;
+    }),
+    findOne: jest.fn(async ({ where }: { where: { hash: string } }) => {
+      const row = rows.find((candidate) => candidate.hash === where.hash);
+      return row ? { ...row, signatures: [...row.signatures] } : null;
+    }),
+    find: jest.fn(async () => rows.filter((row) => row.status === "pending")),
+    manager: {
+      transaction: jest.fn(
+        <T>(work: (manager: unknown) => Promise<T>): Promise<T> => {
+          const run = locked.then(() =>
+            work({ getRepository: () => repository })
+          );
+          locked = run.catch(() => undefined);
+          return run;
+        }
+      ),
+    },
+  };
+  return repository;
+};
+
+describe("MultisigCoordinationService", () => {
+  let repository: ReturnType<typeof createRepository>;
+  let service: MultisigCoordinationService;
+  let loadAccount: jest.SpyInstance;
+  let submitTransaction: jest.SpyInstance;
+
+  beforeEach(() => {
+    repository = createRepository();
+    (AppDataSource.getRepository as jest.Mock).mockReturnValue(repository);
+    loadAccount = jest
+      .spyOn(StellarSdk.Horizon.Server.prototype, "loadAccount")
+      .mockResolvedValue(
+        horizonAccount as unknown as StellarSdk.Horizon.AccountResponse
+      );
+    submitTransaction = jest
+      .spyOn(StellarSdk.Horizon.Server.prototype, "submitTransaction")
+      .mockResolvedValue({
+        hash: "submitted_hash",
+      } as unknown as StellarSdk.Horizon.HorizonApi.SubmitTransactionResponse);
+    service = new MultisigCoordinationService();
+  });
+
+  afterEach(() => {
+    loadAccount.mockRestore();
+    submitTransaction.mockRestore();
+  });
+
+  it("loads signers and the required threshold from the source account", async () => {
+    const transaction = buildTransaction();
+
+    const session = await service.createPendingTransaction({
+      xdr: transaction.toXDR(),
+      createdBy: "user123",
+    });
+
+    expect(loadAccount).toHaveBeenCalledWith(master.publicKey());
+    expect(session).toEqual(
+      expect.objectContaining({
+        hash: transaction.hash().toString("hex"),
+        thresholdLevel: "medium",
+        requiredWeight: 2,
+        currentWeight: 0,
+        status: "pending",
+        networkPassphrase: NETWORK,
+      })
+    );
+    expect(session.signerKeys).toEqual([
+      master.publicKey(),
+      cosigner.publicKey(),
+      treasurer.publicKey(),
+    ]);
+  });
+
+  it("collects verified signatures until the threshold is met and submits", async () => {
+    const session = await service.createPendingTransaction({
+      xdr: buildTransaction().toXDR(),
+      createdBy: "user123",
+    });
+
+    const partial = await service.addSignature(session.hash, {
+      signature: decoratedSignature(session.xdr, cosigner),
+    });
+    expect(partial).toEqual(
+      expect.objectContaining({ currentWeight: 1, status: "pending" })
+    );
+
+    // The same signer only counts once
+    await service.addSignature(session.hash, {
+      signedXdr: signedEnvelope(session.xdr, cosigner),
+    });
+    expect(repository.rows[0].currentWeight).toBe(1);
+
+    const ready = await service.addSignature(session.hash, {
+      signedXdr: signedEnvelope(session.xdr, master),
+    });
+    expect(ready).toEqual(
+      expect.objectContaining({ currentWeight: 2, status: "ready" })
+    );
+
+    const assembled = new StellarSdk.Transaction(
+      await service.assembleFinalTransaction(session.hash),
+      NETWORK
+    );
+    expect(assembled.signatures).toHaveLength(2);
+
+    const submitted = await service.submit(session.hash);
+    expect(submitted).toEqual(
+      expect.objectContaining({ status: "submitted", txHash: "submitted_hash" })
+    );
+    expect(submitTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({ signatures: expect.any(Array) })
+    );
+  });
+
+  it("counts signatures already on the envelope", async () => {
+    const transaction = buildTransaction();
+    transaction.sign(treasurer);
+
+    const session = await service.createPendingTransaction({
+      xdr: transaction.toXDR(),
+      createdBy: "user123",
+    });
+
+    expect(session).toEqual(
+      expect.objectContaining({ currentWeight: 2, status: "ready" })
+    );
+    expect(new StellarSdk.Transaction(session.xdr, NETWORK).signatures).toEqual(
+      []
+    );
+  });
+
+  it("rejects signatures from keys that are not account signers", async () => {
+    const session = await service.createPendingTransaction({
+      xdr: buildTransaction().toXDR(),
+      createdBy: "user123",
+    });
+
+    await expect(
+      service.addSignature(session.hash, {
+        signature: decoratedSignature(session.xdr, outsider),
+      })
+    ).rejects.toEqual(
+      new MultisigError(
+        "Signature is not valid for any signer of the source account"
+      )
+    );
+    expect(repository.rows[0].currentWeight).toBe(0);
+  });
+
+  it("requires the high threshold for signer changes", () => {
+    const transaction = buildTransaction(
+      StellarSdk.Operation.setOptions({
+        signer: { ed25519PublicKey: outsider.publicKey(), weight: 1 },
+      })
+    );
+
+    expect(getRequiredThresholdLevel(transaction)).toBe("high");
+    expect(
+      getRequiredThresholdLevel(
+        buildTransaction(StellarSdk.Operation.bumpSequence({ bumpTo: "5" }))
+      )
+    ).toBe("low");
+  });
+
+  it("lists pending transactions for signers who have not signed yet", async () => {
+    const session = await service.createPendingTransaction({
+      xdr: buildTransaction().toXDR(),
+      createdBy: "user123",
+    });
+    await service.addSignature(session.hash, {
+      signature: decoratedSignature(session.xdr, cosigner),
+    });
+
+    await expect(
+      service.listPendingForSigner(treasurer.publicKey())
+    ).resolves.toHaveLength(1);
+    await expect(
+      service.listPendingForSigner(cosigner.publicKey())
+    ).resolves.toHaveLength(0);
+  });
+
+  it("keeps every signature when signers submit at the same time", async () => {
+    const session = await service.createPendingTransaction({
+      xdr: buildTransaction().toXDR(),
+      createdBy: "user123",
+    });
+
+    await Promise.all(
+      [master, cosigner].map((keypair) =>
+        service.addSignature(session.hash, {
+          signature: decoratedSignature(session.xdr, keypair),
+        })
+      )
+    );
+
+    expect(repository.findOne).toHaveBeenCalledWith(
+      expect.objectContaining({ lock: { mode: "pessimistic_write" } })
+    );
+    expect(repository.rows[0].signatures).toHaveLength(2);
+    expect(repository.rows[0]).toEqual(
+      expect.objectContaining({ currentWeight: 2, status: "ready" })
+    );
+  });
+
+  it("stops accepting signatures once a session expires", async () => {
+    const session = await service.createPendingTransaction({
+      xdr: buildTransaction().toXDR(),
+      createdBy: "user123",
+      ttlMs: 1000,
+    });
+    repository.rows[0].expiresAt = new Date(Date.now() - 1);
+
+    await expect(
+      service.addSignature(session.hash, {
+        signature: decoratedSignature(session.xdr, treasurer),
+      })
+    ).rejects.toBeInstanceOf(MultisigStateError);
+    expect(repository.rows[0].status).toBe("expired");
+  });
+});
@@ -0,0 +1,110 @@
+import { PlanExecutor } from "../../src/Agents/planner/PlanExecutor";
+import { ExecutionPlan, PlanStep } from "../../src/Agents/planner/AgentPlanner";
+import { toolRegistry } from "../../src/Agents/registry/ToolRegistry";
+
+jest.mock("../../src/Agents/registry/ToolRegistry");
+jest.mock("../../src/config/logger");
+
+const step = (stepNumber: number, dependencies?: number[]): PlanStep => ({
+  stepNumber,
+  action: `action_${stepNumber}`,
+  payload: {},
+  description: `Step ${stepNumber}`,
+  dependencies,
+});
+
+const buildPlan = (steps: PlanStep[]): ExecutionPlan => ({
+  planId: "plan_cancel",
+  steps,
+  totalSteps: steps.length,
+  estimatedDuration: steps.length * 3000,
+  riskLevel: "low",
+  requiresApproval: false,
+  summary: "test plan",
+});
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("PlanExecutor cancellation", () => {
+  let executor: PlanExecutor;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    executor = new PlanExecutor();
+    (toolRegistry.executeTool as jest.Mock) = jest
+      .fn()
+      .mockImplementation(
+        (
+          action: string,
+          _payload: unknown,
+          _userId: string,
+          _timeoutMs: number | undefined,
+          signal: AbortSignal
+        ) =>
+          new Promise((_resolve, reject) =>
+            signal.addEventListener("abort", () =>
+              reject(
+                Object.assign(
+                  new Error(`Tool '${action}' execution was cancelled`),
+                  { cancelled: true }
+                )
+              )
+            )
+          )
+      );
+  });
+
+  it("cancels running steps and skips the rest of the plan", async () => {
+    const plan = buildPlan([step(1, []), step(2, [1])]);
+    const execution = executor.executePlan(plan, "user123", {
+      verifyHash: false,
+    });
+
+    await delay(10);
+    expect(executor.isExecuting("plan_cancel")).toBe(true);
+    expect(executor.cancel("plan_cancel")).toBe(true);
+
+    const result = await execution;
+
+    expect(result.status).toBe("cancelled");
+    expect(result.error).toBe("Execution cancelled");
+    expect(result.stepResults.map((r) => r.status)).toEqual([
+      "failed",
+      "skipped",
+    ]);
+    expect(executor.isExecuting("plan_cancel")).toBe(false);
+  });
+
+  it("does not retry cancelled steps", async () => {
+    const plan = buildPlan([step(1, [])]);
+    const execution = executor.executePlan(plan, "user123", {
+      verifyHash: false,
+      retries: 3,
+      retryDelayMs: 0,
+    });
+
+    await delay(10);
+    executor.cancel("plan_cancel");
+    await execution;
+
+    expect(toolRegistry.executeTool).toHaveBeenCalledTimes(1);
+  });
+
+  it("honours a caller-provided signal", async () => {
+    const controller = new AbortController();
+    const plan = buildPlan([step(1, [])]);
+    const execution = executor.executePlan(plan, "user123", {
+      verifyHash: false,
+      signal: controller.signal,
+    });
+
+    await delay(10);
+    controller.abort();
+
+    expect((await execution).status).toBe("cancelled");
+  });
+
+  it("reports that an idle plan cannot be cancelled", () => {
+    expect(executor.cancel("plan_cancel")).toBe(false);
+  });
+});
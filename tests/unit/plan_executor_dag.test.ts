@@ -0,0 +1,177 @@
+import { PlanExecutor } from "../../src/Agents/planner/PlanExecutor";
+import { ExecutionPlan, PlanStep } from "../../src/Agents/planner/AgentPlanner";
+import { validatePlanGraph } from "../../src/Agents/planner/planGraph";
+import { toolRegistry } from "../../src/Agents/registry/ToolRegistry";
+
+jest.mock("../../src/Agents/registry/ToolRegistry");
+jest.mock("../../src/config/logger");
+
+const step = (stepNumber: number, dependencies?: number[]): PlanStep => ({
+  stepNumber,
+  action: `action_${stepNumber}`,
+  payload: {},
+  description: `Step ${stepNumber}`,
+  dependencies,
+});
+
+const buildPlan = (steps: PlanStep[]): ExecutionPlan => ({
+  planId: "plan_test",
+  steps,
+  totalSteps: steps.length,
+  estimatedDuration: steps.length * 3000,
+  riskLevel: "low",
+  requiresApproval: false,
+  summary: "test plan",
+});
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("PlanExecutor dependency scheduling", () => {
+  let executor: PlanExecutor;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    executor = new PlanExecutor();
+  });
+
+  it("runs independent steps concurrently", async () => {
+    let active = 0;
+    let peak = 0;
+    (toolRegistry.executeTool as jest.Mock) = jest
+      .fn()
+      .mockImplementation(async (action: string) => {
+        active++;
+        peak = Math.max(peak, active);
+        await delay(20);
+        active--;
+        return { action, status: "success", data: {} };
+      });
+
+    const plan = buildPlan([step(1, []), step(2, []), step(3, [])]);
+    const result = await executor.executePlan(plan, "user123", {
+      verifyHash: false,
+    });
+
+    expect(result.status).toBe("success");
+    expect(result.completedSteps).toBe(3);
+    expect(peak).toBe(3);
+  });
+
+  it("respects the concurrency limit", async () => {
+    let active = 0;
+    let peak = 0;
+    (toolRegistry.executeTool as jest.Mock) = jest
+      .fn()
+      .mockImplementation(async (action: string) => {
+        active++;
+        peak = Math.max(peak, active);
+        await delay(10);
+        active--;
+        return { action, status: "success", data: {} };
+      });
+
+    const plan = buildPlan([
+      step(1, []),
+      step(2, []),
+      step(3, []),
+      step(4, []),
+    ]);
+    await executor.executePlan(plan, "user123", {
+      verifyHash: false,
+      maxConcurrency: 2,
+    });
+
+    expect(peak).toBe(2);
+  });
+
+  it("waits for dependencies before starting a step", async () => {
+    const order: string[] = [];
+    (toolRegistry.executeTool as jest.Mock) = jest
+      .fn()
+      .mockImplementation(async (action: string) => {
+        order.push(`start:${action}`);
+        await delay(action === "action_1" ? 20 : 1);
+        order.push(`end:${action}`);
+        return { action, status: "success", data: {} };
+      });
+
+    const plan = buildPlan([step(1, []), step(2, []), step(3, [1])]);
+    await executor.executePlan(plan, "user123", { verifyHash: false });
+
+    expect(order.indexOf("start:action_3")).toBeGreaterThan(
+      order.indexOf("end:action_1")
+    );
+  });
+
+  it("skips dependents of failed steps and keeps running independent ones", async () => {
+    (toolRegistry.executeTool as jest.Mock) = jest
+      .fn()
+      .mockImplementation(async (action: string) => {
+        if (action === "action_1") {
+          throw new Error("price feed unavailable");
+        }
+        return { action, status: "success", data: {} };
+      });
+
+    const plan = buildPlan([
+      step(1, []),
+      step(2, [1]),
+      step(3, [2]),
+      step(4, []),
+    ]);
+    const result = await executor.executePlan(plan, "user123", {
+      verifyHash: false,
+      stopOnError: false,
+    });
+
+    const statuses = result.stepResults.map((r) => r.status);
+    expect(statuses).toEqual(["failed", "skipped", "skipped", "success"]);
+    expect(result.status).toBe("partial");
+    expect(result.completedSteps).toBe(1);
+  });
+
+  it("treats steps without dependencies as sequential", async () => {
+    const started: number[] = [];
+    (toolRegistry.executeTool as jest.Mock) = jest
+      .fn()
+      .mockImplementation(async (action: string) => {
+        started.push(Number(action.split("_")[1]));
+        await delay(5);
+        return { action, status: "success", data: {} };
+      });
+
+    const onStepComplete = jest.fn();
+    const plan = buildPlan([step(1), step(2), step(3)]);
+    await executor.executePlan(plan, "user123", {
+      verifyHash: false,
+      onStepComplete,
+    });
+
+    expect(started).toEqual([1, 2, 3]);
+    expect(onStepComplete).toHaveBeenCalledTimes(3);
+  });
+
+  it("rejects plans with dependency cycles", async () => {
+    const plan = buildPlan([step(1, [3]), step(2, [1]), step(3, [2])]);
+
+    await expect(
+      executor.executePlan(plan, "user123", { verifyHash: false })
+    ).rejects.toThrow("Dependency cycle detected");
+    expect(toolRegistry.executeTool).not.toHaveBeenCalled();
+  });
+});
+
+describe("validatePlanGraph", () => {
+  it("accepts an acyclic graph", () => {
+    expect(
+      validatePlanGraph([step(1, []), step(2, [1]), step(3, [1])])
+    ).toEqual([]);
+  });
+
+  it("reports unknown and self dependencies", () => {
+    const errors = validatePlanGraph([step(1, [1]), step(2, [7])]);
+
+    expect(errors).toContain("Step 1 depends on itself");
+    expect(errors).toContain("Step 2 depends on unknown step 7");
+  });
+});
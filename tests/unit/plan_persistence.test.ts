@@ -0,0 +1,255 @@
+import {
+  PlanExecutor,
+  planExecutor,
+} from "../../src/Agents/planner/PlanExecutor";
+import { ExecutionPlan } from "../../src/Agents/planner/AgentPlanner";
+import { planHashService } from "../../src/Agents/planner/planHash";
+import { planStore } from "../../src/Agents/planner/planStore";
+import { settleSignedStep } from "../../src/Agents/planner/signedSteps";
+import { toolRegistry } from "../../src/Agents/registry/ToolRegistry";
+import { SigningRequestInfo } from "../../src/Signing/transactionSigner";
+
+jest.mock("../../src/Agents/registry/ToolRegistry");
+jest.mock("../../src/Agents/planner/planStore");
+jest.mock("../../src/config/logger");
+
+const buildHashedPlan = () => {
+  const plan: ExecutionPlan = {
+    planId: "plan_persisted",
+    steps: [1, 2, 3].map((stepNumber) => ({
+      stepNumber,
+      action: `action_${stepNumber}`,
+      payload: {},
+      description: `Step ${stepNumber}`,
+      dependencies: stepNumber > 1 ? [stepNumber - 1] : [],
+    })),
+    totalSteps: 3,
+    estimatedDuration: 9000,
+    riskLevel: "medium",
+    requiresApproval: false,
+    summary: "persisted plan",
+  };
+  return { ...plan, planHash: planHashService.generatePlanHash(plan) };
+};
+
+describe("PlanExecutor persistence", () => {
+  let executor: PlanExecutor;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    executor = new PlanExecutor();
+    (toolRegistry.executeTool as jest.Mock) = jest
+      .fn()
+      .mockImplementation(async (action: string) => ({
+        action,
+        status: "success",
+        data: {},
+      }));
+  });
+
+  it("persists the plan and every step transition", async () => {
+    const plan = buildHashedPlan();
+
+    await executor.executePlan(plan, "user123", { persist: true });
+
+    expect(planStore.savePlan).toHaveBeenCalledWith(plan, "user123");
+    expect(planStore.recordStepStart).toHaveBeenCalledTimes(3);
+    expect(planStore.recordStepResult).toHaveBeenCalledTimes(3);
+    expect(planStore.updatePlanStatus).toHaveBeenLastCalledWith(
+      plan.planId,
+      "success",
+      { completedSteps: 3, error: null }
+    );
+  });
+
+  it("resumes from the first step that did not succeed", async () => {
+    const plan = buildHashedPlan();
+    (planStore.getPlan as jest.Mock).mockResolvedValue({
+      planId: plan.planId,
+      userId: "user123",
+      planHash: plan.planHash,
+      plan,
+      status: "running",
+    });
+    (planStore.getStepResults as jest.Mock).mockResolvedValue([
+      {
+        stepNumber: 1,
+        action: "action_1",
+        status: "success",
+        duration: 10,
+        timestamp: "2026-01-01T00:00:00.000Z",
+      },
+      {
+        stepNumber: 2,
+        action: "action_2",
+        status: "failed",
+        error: "server restarted",
+        duration: 10,
+        timestamp: "2026-01-01T00:00:01.000Z",
+      },
+    ]);
+
+    const result = await executor.resume(plan.planId);
+
+    expect(toolRegistry.executeTool).toHaveBeenCalledTimes(2);
+    expect(
+      (toolRegistry.executeTool as jest.Mock).mock.calls.map((c) => c[0])
+    ).toEqual(["action_2", "action_3"]);
+    expect(result.status).toBe("success");
+    expect(result.completedSteps).toBe(3);
+  });
+
+  it("refuses to resume a tampered plan", async () => {
+    const plan = buildHashedPlan();
+    (planStore.getPlan as jest.Mock).mockResolvedValue({
+      planId: plan.planId,
+      userId: "user123",
+      planHash: plan.planHash,
+      plan: { ...plan, summary: "drain wallet" },
+      status: "partial",
+    });
+
+    await expect(executor.resume(plan.planId)).rejects.toThrow(
+      "Plan verification failed"
+    );
+    expect(toolRegistry.executeTool).not.toHaveBeenCalled();
+  });
+
+  it("fails when the plan is unknown", async () => {
+    (planStore.getPlan as jest.Mock).mockResolvedValue(null);
+
+    await expect(executor.resume("plan_missing")).rejects.toThrow(
+      "Plan not found: plan_missing"
+    );
+  });
+});
+
+describe("settleSignedStep", () => {
+  const plan = buildHashedPlan();
+  const awaitingSignature = {
+    stepNumber: 2,
+    action: "action_2",
+    status: "pending",
+    result: {
+      action: "action_2",
+      status: "pending",
+      message: "Swap is waiting to be signed in the user's wallet",
+      data: { awaitingSignature: true, signingRequestId: "request_1" },
+    },
+    duration: 10,
+    timestamp: "2026-01-01T00:00:01.000Z",
+  };
+  const signingRequest = (
+    status: SigningRequestInfo["status"],
+    txHash?: string
+  ): SigningRequestInfo => ({
+    id: "request_1",
+    userId: "user123",
+    publicKey: "GUSER",
+    purpose: "swap",
+    xdr: "AAAA",
+    hash: "abc",
+    networkPassphrase: "Test SDF Network ; September 2015",
+    status,
+    ...(txHash ? { txHash } : {}),
+    createdAt: "2026-01-01T00:00:01.000Z",
+    expiresAt: "2026-01-01T00:05:01.000Z",
+  });
+  let resume: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (toolRegistry.executeTool as jest.Mock) = jest
+      .fn()
+      .mockImplementation(async (action: string) => ({
+        action,
+        status: "success",
+        data: {},
+      }));
+    (planStore.findStepAwaitingSignature as jest.Mock).mockResolvedValue({
+      planId: plan.planId,
+      result: awaitingSignature,
+    });
+    (planStore.claimPlan as jest.Mock).mockResolvedValue(true);
+    (planStore.getPlan as jest.Mock).mockResolvedValue({
+      planId: plan.planId,
+      userId: "user123",
+      planHash: plan.planHash,
+      plan,
+      status: "running",
+    });
+    resume = jest.spyOn(planExecutor, "resume");
+  });
+
+  afterEach(() => {
+    resume.mockRestore();
+  });
+
+  it("completes the step and runs its dependents once submitted", async () => {
+    (planStore.getStepResults as jest.Mock).mockResolvedValue([
+      {
+        stepNumber: 1,
+        action: "action_1",
+        status: "success",
+        duration: 10,
+        timestamp: "2026-01-01T00:00:00.000Z",
+      },
+      { ...awaitingSignature, status: "success" },
+    ]);
+
+    await settleSignedStep(signingRequest("submitted", "tx_hash"));
+    const result = await resume.mock.results[0].value;
+
+    expect(planStore.recordStepResult).toHaveBeenCalledWith(
+      plan.planId,
+      expect.objectContaining({
+        stepNumber: 2,
+        status: "success",
+        result: expect.objectContaining({
+          status: "success",
+          data: expect.objectContaining({
+            awaitingSignature: false,
+            txHash: "tx_hash",
+          }),
+        }),
+      })
+    );
+    expect(planStore.claimPlan).toHaveBeenCalledWith(plan.planId, ["partial"]);
+    expect(
+      (toolRegistry.executeTool as jest.Mock).mock.calls.map((c) => c[0])
+    ).toEqual(["action_3"]);
+    expect(result.status).toBe("success");
+  });
+
+  it("fails the step without resuming when the request is rejected", async () => {
+    await settleSignedStep(signingRequest("rejected"));
+
+    expect(planStore.recordStepResult).toHaveBeenCalledWith(
+      plan.planId,
+      expect.objectContaining({
+        stepNumber: 2,
+        status: "failed",
+        error: "Signing request was rejected",
+      })
+    );
+    expect(planStore.claimPlan).not.toHaveBeenCalled();
+    expect(resume).not.toHaveBeenCalled();
+  });
+
+  it("leaves plans it cannot claim to their next run", async () => {
+    (planStore.claimPlan as jest.Mock).mockResolvedValue(false);
+
+    await settleSignedStep(signingRequest("submitted", "tx_hash"));
+
+    expect(planStore.recordStepResult).toHaveBeenCalled();
+    expect(resume).not.toHaveBeenCalled();
+  });
+
+  it("ignores signing requests that no plan step is waiting on", async () => {
+    (planStore.findStepAwaitingSignature as jest.Mock).mockResolvedValue(null);
+
+    await settleSignedStep(signingRequest("submitted", "tx_hash"));
+
+    expect(planStore.recordStepResult).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,337 @@
+import {
+  AgentPlanner,
+  ExecutionPlan,
+  PlanStep,
+  PlanValidationError,
+} from "../../src/Agents/planner/AgentPlanner";
+import {
+  PlanPolicyEngine,
+  planPolicyEngine,
+  slippagePolicy,
+} from "../../src/Agents/planner/planPolicy";
+import { planRiskAssessor } from "../../src/Agents/planner/planRisk";
+import { agentLLM } from "../../src/Agents/agent";
+import { toolRegistry } from "../../src/Agents/registry/ToolRegistry";
+import { ToolMetadata } from "../../src/Agents/registry/ToolMetadata";
+
+jest.mock("../../src/Agents/agent");
+jest.mock("../../src/Agents/registry/ToolRegistry");
+jest.mock("../../src/Agents/planner/planRisk");
+jest.mock("../../src/config/logger");
+
+const metadata: Record<string, ToolMetadata> = {
+  swap_tool: {
+    name: "swap_tool",
+    description: "Swap tokens",
+    category: "trading",
+    version: "1.0.0",
+    examples: [],
+    parameters: {
+      from: {
+        type: "string",
+        description: "Asset",
+        required: true,
+        enum: ["XLM", "USDC"],
+      },
+      to: {
+        type: "string",
+        description: "Asset",
+        required: true,
+        enum: ["XLM", "USDC"],
+      },
+      amount: {
+        type: "number",
+        description: "Amount",
+        required: true,
+        min: 0,
+      },
+    },
+  },
+  wallet_tool: {
+    name: "wallet_tool",
+    description: "Wallet operations",
+    category: "wallet",
+    version: "1.0.0",
+    examples: [],
+    parameters: {
+      operation: {
+        type: "string",
+        description: "Operation",
+        required: true,
+        enum: ["get_balance", "transfer"],
+      },
+      to: {
+        type: "string",
+        description: "Recipient",
+        required: false,
+        pattern: "^0x[0-9a-fA-F]+$",
+      },
+      amount: {
+        type: "number",
+        description: "Amount",
+        required: false,
+        min: 0,
+      },
+    },
+  },
+};
+
+const step = (
+  stepNumber: number,
+  action: string,
+  payload: Record<string, unknown>
+): PlanStep => ({
+  stepNumber,
+  action,
+  payload,
+  description: `Execute ${action}`,
+  dependencies: stepNumber > 1 ? [stepNumber - 1] : [],
+});
+
+const buildPlan = (steps: PlanStep[]): ExecutionPlan => ({
+  planId: "plan_policy",
+  steps,
+  totalSteps: steps.length,
+  estimatedDuration: steps.length * 3000,
+  riskLevel: "low",
+  requiresApproval: false,
+  summary: "test plan",
+});
+
+describe("PlanPolicyEngine", () => {
+  const engine = new PlanPolicyEngine();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (toolRegistry.getTool as jest.Mock).mockImplementation((name: string) =>
+      metadata[name] ? { metadata: metadata[name] } : undefined
+    );
+  });
+
+  it("accepts a plan that satisfies every policy", () => {
+    const plan = buildPlan([
+      step(1, "wallet_tool", { operation: "get_balance" }),
+      step(2, "swap_tool", { from: "XLM", to: "USDC", amount: 100 }),
+    ]);
+
+    expect(engine.evaluate({ plan, availableBalance: { xlm: 500 } })).toEqual(
+      []
+    );
+  });
+
+  it("validates payloads against tool parameter metadata", () => {
+    const plan = buildPlan([
+      step(1, "wallet_tool", {
+        operation: "withdraw",
+        to: "not-an-address",
+        amount: -5,
+      }),
+    ]);
+
+    const codes = engine.evaluate({ plan }).map((v) => [v.code, v.field]);
+
+    expect(codes).toEqual([
+      ["INVALID_PARAMETER_VALUE", "operation"],
+      ["PARAMETER_PATTERN_MISMATCH", "to"],
+      ["PARAMETER_OUT_OF_RANGE", "amount"],
+    ]);
+  });
+
+  it("enforces planner constraints", () => {
+    const plan = buildPlan([
+      step(1, "wallet_tool", { operation: "get_balance" }),
+      step(2, "swap_tool", {
+        from: "XLM",
+        to: "USDC",
+        amount: 10,
+        maxSlippageBps: 300,
+      }),
+    ]);
+
+    const violations = engine.evaluate({
+      plan,
+      constraints: { maxSteps: 1, allowedTools: ["swap_tool"], maxSlippage: 1 },
+    });
+
+    expect(violations.map((v) => v.code)).toEqual([
+      "MAX_STEPS_EXCEEDED",
+      "TOOL_NOT_ALLOWED",
+      "SLIPPAGE_ABOVE_MAXIMUM",
+    ]);
+    expect(violations.every((v) => v.severity === "error")).toBe(true);
+  });
+
+  it("checks swap slippage given in basis points or by default", () => {
+    const plan = buildPlan([
+      step(1, "swap_tool", {
+        from: "XLM",
+        to: "USDC",
+        amount: 10,
+        maxSlippageBps: 50,
+      }),
+      step(2, "swap_tool", { from: "XLM", to: "USDC", amount: 10 }),
+      step(3, "swap_tool", {
+        from: "XLM",
+        to: "USDC",
+        amount: 10,
+        maxSlippageBps: 250,
+      }),
+    ]);
+
+    const violations = slippagePolicy.evaluate({
+      plan,
+      constraints: { minSlippage: 0.75, maxSlippage: 2 },
+    });
+
+    expect(violations).toEqual([
+      expect.objectContaining({
+        code: "SLIPPAGE_BELOW_MINIMUM",
+        message: "Slippage 0.5% is below the minimum of 0.75%",
+        stepNumber: 1,
+        field: "maxSlippageBps",
+      }),
+      expect.objectContaining({
+        code: "SLIPPAGE_ABOVE_MAXIMUM",
+        message: "Slippage 2.5% exceeds the maximum of 2%",
+        stepNumber: 3,
+      }),
+    ]);
+  });
+
+  it("reuses DeFi intent validation for DeFi actions", () => {
+    const plan = buildPlan([
+      step(1, "swap_tool", { from: "XLM", to: "XLM", amount: 20000 }),
+    ]);
+
+    const violations = engine.evaluate({ plan });
+
+    expect(violations).toEqual([
+      expect.objectContaining({
+        policy: "defi_intent",
+        code: "SAME_ASSETS",
+        severity: "error",
+        stepNumber: 1,
+      }),
+      expect.objectContaining({
+        policy: "defi_intent",
+        code: "DEFI_WARNING",
+        severity: "warning",
+      }),
+    ]);
+  });
+
+  it("checks cumulative spending against available balances", () => {
+    const plan = buildPlan([
+      step(1, "swap_tool", { from: "XLM", to: "USDC", amount: 60 }),
+      step(2, "swap_tool", { from: "XLM", to: "USDC", amount: 60 }),
+      step(3, "swap_tool", { from: "USDC", to: "XLM", amount: 50 }),
+    ]);
+
+    const violations = engine.evaluate({
+      plan,
+      availableBalance: { XLM: 100, USDC: 10 },
+    });
+
+    expect(violations).toEqual([
+      expect.objectContaining({
+        code: "INSUFFICIENT_BALANCE",
+        severity: "error",
+        stepNumber: 2,
+      }),
+      expect.objectContaining({
+        code: "INSUFFICIENT_BALANCE",
+        severity: "warning",
+        stepNumber: 3,
+      }),
+    ]);
+  });
+
+  it("reports a failing custom policy as a violation", () => {
+    const custom = new PlanPolicyEngine([]);
+    custom.register({
+      name: "broken",
+      evaluate: () => {
+        throw new Error("boom");
+      },
+    });
+
+    expect(custom.evaluate({ plan: buildPlan([]) })).toEqual([
+      expect.objectContaining({ policy: "broken", code: "POLICY_FAILED" }),
+    ]);
+    expect(custom.unregister("broken")).toBe(true);
+    expect(custom.getPolicies()).toEqual([]);
+  });
+});
+
+describe("AgentPlanner.createPlan validation", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (toolRegistry.getTool as jest.Mock).mockImplementation((name: string) =>
+      metadata[name] ? { metadata: metadata[name] } : undefined
+    );
+    (toolRegistry.getToolMetadata as jest.Mock).mockReturnValue(
+      Object.values(metadata)
+    );
+    (planRiskAssessor.assessPlan as jest.Mock).mockResolvedValue({
+      level: "low",
+      score: 20,
+      totalNotionalUsd: 0,
+      requiresApproval: false,
+      approvalReasons: [],
+      steps: [],
+    });
+  });
+
+  it("throws structured errors for plans that violate a policy", async () => {
+    (agentLLM.callLLMWithTools as jest.Mock).mockResolvedValue({
+      calls: [
+        {
+          id: "call_1",
+          name: "swap_tool",
+          input: { from: "XLM", to: "USDC", amount: 500 },
+        },
+      ],
+      text: "",
+      turns: 1,
+    });
+    const planner = new AgentPlanner(planPolicyEngine, planRiskAssessor);
+
+    const error = await planner
+      .createPlan({
+        userId: "user123",
+        userInput: "Swap 500 XLM to USDC",
+        availableBalance: { XLM: 100 },
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(PlanValidationError);
+    expect(error.validation.errors).toEqual([
+      expect.objectContaining({ policy: "balance", stepNumber: 1 }),
+    ]);
+  });
+
+  it("attaches warnings to plans that pass validation", async () => {
+    (agentLLM.callLLMWithTools as jest.Mock).mockResolvedValue({
+      calls: [
+        {
+          id: "call_1",
+          name: "swap_tool",
+          input: { from: "XLM", to: "USDC", amount: 50 },
+        },
+      ],
+      text: "",
+      turns: 1,
+    });
+    const planner = new AgentPlanner(planPolicyEngine, planRiskAssessor);
+
+    const plan = await planner.createPlan({
+      userId: "user123",
+      userInput: "Swap 50 XLM to USDC",
+      availableBalance: { USDC: 10 },
+    });
+
+    expect(plan.warnings).toEqual([
+      expect.objectContaining({ code: "UNKNOWN_BALANCE" }),
+    ]);
+  });
+});
@@ -0,0 +1,187 @@
+import { container } from "tsyringe";
+import { PlanRiskAssessor } from "../../src/Agents/planner/planRisk";
+import { ExecutionPlan, PlanStep } from "../../src/Agents/planner/AgentPlanner";
+import stellarPriceService from "../../src/services/stellarPrice.service";
+import { flashSwapRiskAnalyzer } from "../../src/services/flashSwapRiskAnalyzer";
+
+jest.mock("../../src/services/stellarPrice.service");
+jest.mock("../../src/services/flashSwapRiskAnalyzer");
+jest.mock("../../src/Contacts/contact.service");
+jest.mock("../../src/config/logger");
+
+const thresholds = {
+  user: { maxRiskLevel: "low" as const, maxNotionalUsd: 1000, maxSteps: 3 },
+  admin: {
+    maxRiskLevel: "medium" as const,
+    maxNotionalUsd: 100000,
+    maxSteps: 10,
+  },
+};
+
+const step = (
+  stepNumber: number,
+  action: string,
+  payload: Record<string, unknown>
+): PlanStep => ({
+  stepNumber,
+  action,
+  payload,
+  description: `Execute ${action}`,
+  dependencies: [],
+});
+
+const buildPlan = (steps: PlanStep[]): ExecutionPlan => ({
+  planId: "plan_risk",
+  steps,
+  totalSteps: steps.length,
+  estimatedDuration: steps.length * 3000,
+  riskLevel: "high",
+  requiresApproval: true,
+  summary: "test plan",
+});
+
+const swapRisk = (riskLevel: string, warnings: string[] = []) => ({
+  riskLevel,
+  sandwichAttackRisk: 0.1,
+  warnings,
+  recommendations: [],
+  metrics: {},
+});
+
+describe("PlanRiskAssessor", () => {
+  const assessor = new PlanRiskAssessor(thresholds);
+  const getAllContacts = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest
+      .spyOn(container, "resolve")
+      .mockReturnValue({ getAllContacts } as never);
+    getAllContacts.mockResolvedValue([{ name: "alice", address: "0xA11CE" }]);
+    (stellarPriceService.getPrice as jest.Mock).mockImplementation(
+      async (from: string, _to: string, amount: number) => ({
+        estimatedOutput: from === "XLM" ? amount * 0.1 : amount * 2,
+      })
+    );
+    (stellarPriceService.getAsset as jest.Mock).mockImplementation(
+      (symbol: string) => symbol
+    );
+    (flashSwapRiskAnalyzer.analyzeSwapRisk as jest.Mock).mockResolvedValue(
+      swapRisk("low")
+    );
+  });
+
+  it("rates read-only plans as low risk without approval", async () => {
+    const risk = await assessor.assessPlan(
+      buildPlan([step(1, "wallet_tool", { operation: "get_balance" })])
+    );
+
+    expect(risk).toEqual(
+      expect.objectContaining({
+        level: "low",
+        score: 0,
+        totalNotionalUsd: 0,
+        requiresApproval: false,
+      })
+    );
+    expect(stellarPriceService.getPrice).not.toHaveBeenCalled();
+  });
+
+  it("scores swaps by USD notional and market risk", async () => {
+    (flashSwapRiskAnalyzer.analyzeSwapRisk as jest.Mock).mockResolvedValue(
+      swapRisk("high", ["High price impact: 6.00%"])
+    );
+
+    const risk = await assessor.assessPlan(
+      buildPlan([
+        step(1, "swap_tool", { from: "XLM", to: "USDC", amount: 20000 }),
+      ])
+    );
+
+    expect(stellarPriceService.getPrice).toHaveBeenCalledWith(
+      "XLM",
+      "USDC",
+      20000
+    );
+    expect(risk.steps[0]).toEqual(
+      expect.objectContaining({
+        notionalUsd: 2000,
+        score: 70,
+        level: "high",
+        irreversible: false,
+      })
+    );
+    expect(risk.steps[0].factors).toEqual([
+      "Moves $2000.00 of XLM",
+      "Swap risk high: High price impact: 6.00%",
+    ]);
+    expect(risk.requiresApproval).toBe(true);
+    expect(risk.approvalReasons).toHaveLength(2);
+  });
+
+  it("treats transfers to non-contacts as irreversible", async () => {
+    const risk = await assessor.assessPlan(
+      buildPlan([
+        step(1, "wallet_tool", {
+          operation: "transfer",
+          to: "alice",
+          token: "USDC",
+          amount: 50,
+        }),
+        step(2, "wallet_tool", {
+          operation: "transfer",
+          to: "0xBEEF",
+          token: "USDC",
+          amount: 50,
+        }),
+      ])
+    );
+
+    expect(risk.steps.map((s) => s.irreversible)).toEqual([false, true]);
+    expect(risk.steps[1].level).toBe("medium");
+    expect(risk.totalNotionalUsd).toBe(100);
+    expect(stellarPriceService.getPrice).not.toHaveBeenCalled();
+  });
+
+  it("adds risk for mainnet steps and unpriced assets", async () => {
+    (stellarPriceService.getPrice as jest.Mock).mockRejectedValue(
+      new Error("Unsupported asset: STRK")
+    );
+
+    const risk = await assessor.assessPlan(
+      buildPlan([
+        step(1, "soroban_invoke", {
+          network: "mainnet",
+          contractId: "CABC",
+          method: "stake",
+        }),
+        step(2, "wallet_tool", {
+          operation: "transfer",
+          to: "alice",
+          amount: 5,
+        }),
+      ])
+    );
+
+    expect(risk.steps[0]).toEqual(
+      expect.objectContaining({ network: "mainnet", score: 45 })
+    );
+    expect(risk.steps[1].factors).toEqual(["Unable to price 5 STRK"]);
+    expect(risk.steps[1].notionalUsd).toBeUndefined();
+  });
+
+  it("applies the approval threshold of the user's role", async () => {
+    const plan = buildPlan([
+      step(1, "swap_tool", { from: "USDC", to: "XLM", amount: 1500 }),
+    ]);
+
+    const user = await assessor.assessPlan(plan, { userRole: "user" });
+    const admin = await assessor.assessPlan(plan, { userRole: "admin" });
+    const unknown = await assessor.assessPlan(plan, { userRole: "guest" });
+
+    expect(user.level).toBe("medium");
+    expect(user.requiresApproval).toBe(true);
+    expect(admin.requiresApproval).toBe(false);
+    expect(unknown.approvalReasons).toEqual(user.approvalReasons);
+  });
+});
@@ -0,0 +1,262 @@
+import { PlanExecutor } from "../../src/Agents/planner/PlanExecutor";
+import { ExecutionPlan, PlanStep } from "../../src/Agents/planner/AgentPlanner";
+import { toolRegistry } from "../../src/Agents/registry/ToolRegistry";
+
+jest.mock("../../src/Agents/registry/ToolRegistry");
+jest.mock("../../src/config/logger");
+
+const swapStep = (
+  stepNumber: number,
+  from: string,
+  to: string,
+  dependencies: number[]
+): PlanStep => ({
+  stepNumber,
+  action: "swap_tool",
+  payload: { from, to, amount: 10 },
+  description: `Swap ${from} to ${to}`,
+  dependencies,
+  rollbackAction: {
+    action: "swap_tool",
+    payload: { from: to, to: from, amount: 10 },
+  },
+});
+
+const buildPlan = (steps: PlanStep[]): ExecutionPlan => ({
+  planId: "plan_rollback",
+  steps,
+  totalSteps: steps.length,
+  estimatedDuration: steps.length * 3000,
+  riskLevel: "medium",
+  requiresApproval: false,
+  summary: "rollback plan",
+});
+
+describe("PlanExecutor rollback", () => {
+  let executor: PlanExecutor;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    executor = new PlanExecutor();
+    (toolRegistry.getTool as jest.Mock) = jest.fn().mockReturnValue(undefined);
+  });
+
+  it("compensates completed steps in reverse order", async () => {
+    const calls: Array<Record<string, unknown>> = [];
+    (toolRegistry.executeTool as jest.Mock) = jest
+      .fn()
+      .mockImplementation(async (action: string, payload) => {
+        calls.push(payload);
+        return { action, status: "success", data: {} };
+      });
+
+    const plan = buildPlan([
+      swapStep(1, "XLM", "USDC", []),
+      swapStep(2, "USDC", "USDT", [1]),
+    ]);
+    const executionResult = {
+      planId: plan.planId,
+      status: "success" as const,
+      completedSteps: 2,
+      totalSteps: 2,
+      duration: 10,
+      stepResults: [
+        {
+          stepNumber: 1,
+          action: "swap_tool",
+          status: "success" as const,
+          duration: 5,
+          timestamp: "2026-01-01T00:00:00.000Z",
+        },
+        {
+          stepNumber: 2,
+          action: "swap_tool",
+          status: "success" as const,
+          duration: 5,
+          timestamp: "2026-01-01T00:00:01.000Z",
+        },
+      ],
+    };
+
+    const rollback = await executor.rollback(plan, executionResult, "user123");
+
+    expect(rollback.status).toBe("success");
+    expect(rollback.rolledBackSteps).toBe(2);
+    expect(rollback.stepResults.map((r) => r.stepNumber)).toEqual([2, 1]);
+    expect(calls).toEqual([
+      { from: "USDT", to: "USDC", amount: 10 },
+      { from: "USDC", to: "XLM", amount: 10 },
+    ]);
+  });
+
+  it("prefers the action derived by the tool from the step result", async () => {
+    (toolRegistry.getTool as jest.Mock) = jest.fn().mockReturnValue({
+      getRollbackAction: (
+        payload: Record<string, unknown>,
+        result?: { data?: Record<string, unknown> }
+      ) => ({
+        action: "swap_tool",
+        payload: {
+          from: payload.to,
+          to: payload.from,
+          amount: result?.data?.estimatedOutput,
+        },
+      }),
+    });
+    (toolRegistry.executeTool as jest.Mock) = jest
+      .fn()
+      .mockImplementation(async (action: string) => {
+        if (action === "failing_tool") {
+          throw new Error("no liquidity");
+        }
+        return { action, status: "success", data: { estimatedOutput: 4.2 } };
+      });
+
+    const plan = buildPlan([
+      swapStep(1, "XLM", "USDC", []),
+      { ...swapStep(2, "USDC", "USDT", [1]), action: "failing_tool" },
+    ]);
+
+    const result = await executor.executePlan(plan, "user123", {
+      verifyHash: false,
+      rollbackOnPartial: true,
+    });
+
+    expect(result.status).toBe("partial");
+    expect(result.rollback?.status).toBe("success");
+    expect(toolRegistry.executeTool).toHaveBeenLastCalledWith(
+      "swap_tool",
+      { from: "USDC", to: "XLM", amount: 4.2 },
+      "user123"
+    );
+  });
+
+  it("fails steps whose tool reports an error and rolls back the rest", async () => {
+    (toolRegistry.executeTool as jest.Mock) = jest
+      .fn()
+      .mockImplementation(async (action: string, payload) =>
+        payload.from === "USDC" && payload.to === "USDT"
+          ? {
+              action,
+              status: "error",
+              error: "Swap failed: Insufficient USDC balance for swap",
+            }
+          : { action, status: "success", data: {} }
+      );
+
+    const plan = buildPlan([
+      swapStep(1, "XLM", "USDC", []),
+      swapStep(2, "USDC", "USDT", [1]),
+      swapStep(3, "USDT", "EURC", [2]),
+    ]);
+
+    const result = await executor.executePlan(plan, "user123", {
+      verifyHash: false,
+      rollbackOnPartial: true,
+    });
+
+    expect(result.status).toBe("partial");
+    expect(result.stepResults).toEqual([
+      expect.objectContaining({ stepNumber: 1, status: "success" }),
+      expect.objectContaining({
+        stepNumber: 2,
+        status: "failed",
+        error: "Swap failed: Insufficient USDC balance for swap",
+      }),
+      expect.objectContaining({ stepNumber: 3, status: "skipped" }),
+    ]);
+    expect(result.rollback?.stepResults).toEqual([
+      expect.objectContaining({ stepNumber: 1, status: "success" }),
+    ]);
+    expect(toolRegistry.executeTool).toHaveBeenLastCalledWith(
+      "swap_tool",
+      { from: "USDC", to: "XLM", amount: 10 },
+      "user123"
+    );
+  });
+
+  it("holds back a swap awaiting signature without reversing it", async () => {
+    (toolRegistry.executeTool as jest.Mock) = jest
+      .fn()
+      .mockImplementation(async (action: string, payload) =>
+        payload.to === "USDC" && payload.from === "XLM"
+          ? {
+              action,
+              status: "pending",
+              message: "Swap is waiting to be signed in the user's wallet",
+              data: { awaitingSignature: true, estimatedOutput: 1.2 },
+            }
+          : { action, status: "success", data: {} }
+      );
+
+    const plan = buildPlan([
+      swapStep(1, "XLM", "USDC", []),
+      swapStep(2, "USDC", "USDT", [1]),
+      swapStep(3, "XLM", "EURC", []),
+    ]);
+
+    const result = await executor.executePlan(plan, "user123", {
+      verifyHash: false,
+      rollbackOnPartial: true,
+    });
+
+    expect(result.status).toBe("partial");
+    expect(result.completedSteps).toBe(1);
+    expect(result.stepResults.map((r) => r.status)).toEqual([
+      "pending",
+      "skipped",
+      "success",
+    ]);
+    expect(result.rollback?.stepResults.map((r) => r.stepNumber)).toEqual([3]);
+    expect(toolRegistry.executeTool).not.toHaveBeenCalledWith(
+      "swap_tool",
+      expect.objectContaining({ from: "USDC", to: "XLM" }),
+      "user123"
+    );
+  });
+
+  it("records failed compensations and skips steps without one", async () => {
+    (toolRegistry.executeTool as jest.Mock) = jest.fn().mockResolvedValue({
+      action: "swap_tool",
+      status: "error",
+      error: "op_underfunded",
+    });
+
+    const plan = buildPlan([
+      {
+        stepNumber: 1,
+        action: "wallet_tool",
+        payload: { operation: "get_balance", token: "XLM" },
+        description: "Check balance",
+        dependencies: [],
+      },
+      swapStep(2, "XLM", "USDC", [1]),
+    ]);
+    const executionResult = {
+      planId: plan.planId,
+      status: "partial" as const,
+      completedSteps: 2,
+      totalSteps: 3,
+      duration: 10,
+      stepResults: plan.steps.map((s, i) => ({
+        stepNumber: s.stepNumber,
+        action: s.action,
+        status: "success" as const,
+        duration: 1,
+        timestamp: `2026-01-01T00:00:0${i}.000Z`,
+      })),
+    };
+
+    const rollback = await executor.rollback(plan, executionResult, "user123");
+
+    expect(rollback.status).toBe("failed");
+    expect(rollback.stepResults).toEqual([
+      expect.objectContaining({
+        stepNumber: 2,
+        status: "failed",
+        error: "op_underfunded",
+      }),
+      expect.objectContaining({ stepNumber: 1, status: "skipped" }),
+    ]);
+  });
+});
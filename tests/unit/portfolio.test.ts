@@ -0,0 +1,340 @@
+import AppDataSource from "../../src/config/Datasource";
+import {
+  transactionHistoryService,
+  TransactionHistoryItem,
+} from "../../src/Gateway/transaction.service";
+import stellarPriceService from "../../src/services/stellarPrice.service";
+import {
+  PortfolioError,
+  PortfolioReport,
+  PortfolioService,
+  portfolioService,
+} from "../../src/services/portfolio.service";
+import { PortfolioTool } from "../../src/Agents/tools/portfolio";
+
+jest.mock("../../src/config/Datasource", () => ({
+  __esModule: true,
+  default: { getRepository: jest.fn() },
+}));
+jest.mock("../../src/config/logger");
+jest.mock("../../src/Gateway/transaction.service", () => ({
+  transactionHistoryService: { searchTransactions: jest.fn() },
+}));
+jest.mock("../../src/services/stellarPrice.service", () => ({
+  __esModule: true,
+  default: {
+    getAsset: jest.fn(),
+    getHistoricalPrice: jest.fn(),
+    getPrice: jest.fn(),
+  },
+}));
+
+const ACCOUNT = "GACCOUNT";
+const USDC_ISSUER = "GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN";
+const USDC = `USDC:${USDC_ISSUER}`;
+
+const KNOWN_ASSETS: Record<string, string | undefined> = {
+  XLM: undefined,
+  USDC: USDC_ISSUER,
+  USDT: "GUSDTISSUER",
+};
+
+const HISTORICAL_XLM_PRICES: Record<string, number> = {
+  "2026-01-01T00:00:00.000Z": 0.1,
+  "2026-02-01T00:00:00.000Z": 0.2,
+  "2026-03-10T00:00:00.000Z": 0.3,
+};
+
+const transaction = (
+  hash: string,
+  createdAt: string,
+  operations: TransactionHistoryItem["operations"],
+  overrides: Partial<TransactionHistoryItem> = {}
+): TransactionHistoryItem => ({
+  id: hash,
+  hash,
+  account: ACCOUNT,
+  type: "transfer",
+  ledger: 1,
+  createdAt,
+  sourceAccount: "GOTHER",
+  feePaid: 100,
+  successful: true,
+  operations,
+  effects: [],
+  ...overrides,
+});
+
+// Fixture history, newest first
+const HISTORY = [
+  transaction(
+    "swap",
+    "2026-03-10T00:00:00.000Z",
+    [
+      {
+        type: "path_payment_strict_send",
+        from: ACCOUNT,
+        to: ACCOUNT,
+        amount: "45.0000000",
+        asset: USDC,
+        sourceAmount: "150.0000000",
+        sourceAsset: "XLM",
+      },
+    ],
+    // 0.1 XLM fee
+    { sourceAccount: ACCOUNT, feePaid: 1_000_000 }
+  ),
+  transaction(
+    "failed",
+    "2026-02-15T00:00:00.000Z",
+    [
+      {
+        type: "payment",
+        from: "GOTHER",
+        to: ACCOUNT,
+        amount: "999",
+        asset: "XLM",
+      },
+    ],
+    { successful: false }
+  ),
+  transaction("deposit", "2026-02-01T00:00:00.000Z", [
+    {
+      type: "payment",
+      from: "GOTHER",
+      to: ACCOUNT,
+      amount: "100",
+      asset: "XLM",
+    },
+  ]),
+  transaction("funding", "2026-01-01T00:00:00.000Z", [
+    {
+      type: "create_account",
+      from: "GFUNDER",
+      to: ACCOUNT,
+      amount: "100",
+      asset: "XLM",
+    },
+  ]),
+];
+
+describe("PortfolioService", () => {
+  let service: PortfolioService;
+  const searchTransactions =
+    transactionHistoryService.searchTransactions as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (AppDataSource.getRepository as jest.Mock).mockReturnValue({
+      findOne: jest.fn().mockResolvedValue({ id: "user1", address: ACCOUNT }),
+    });
+    // Two oldest first pages to exercise cursor paging
+    const ascending = [...HISTORY].reverse();
+    searchTransactions
+      .mockResolvedValueOnce({
+        transactions: ascending.slice(0, 2),
+        pagination: { nextCursor: "page-2", limit: 100, total: 2 },
+      })
+      .mockResolvedValueOnce({
+        transactions: ascending.slice(2),
+        pagination: { limit: 100, total: 2 },
+      });
+    (stellarPriceService.getAsset as jest.Mock).mockImplementation(
+      (code: string) => {
+        if (!(code.toUpperCase() in KNOWN_ASSETS)) {
+          throw new Error(`Unsupported asset: ${code}`);
+        }
+        return { getIssuer: () => KNOWN_ASSETS[code.toUpperCase()] };
+      }
+    );
+    (stellarPriceService.getHistoricalPrice as jest.Mock).mockImplementation(
+      async (from: string, _to: string, at: Date) => {
+        const price = from === "XLM" && HISTORICAL_XLM_PRICES[at.toISOString()];
+        if (!price) throw new Error("No trade history");
+        return price;
+      }
+    );
+    (stellarPriceService.getPrice as jest.Mock).mockResolvedValue({
+      price: 0.3,
+    });
+    service = new PortfolioService();
+  });
+
+  it("realizes swap gains against FIFO lots and values the rest", async () => {
+    const portfolio = await service.getPortfolio("user1");
+
+    expect(searchTransactions).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        account: ACCOUNT,
+        cursor: "page-2",
+        order: "asc",
+      })
+    );
+    const xlm = portfolio.positions.find(
+      (position) => position.asset === "XLM"
+    );
+    const usdc = portfolio.positions.find(
+      (position) => position.asset === USDC
+    );
+
+    // Fee takes 0.1 XLM @0.10, the swap 99.9 @0.10 and 50.1 @0.20
+    expect(xlm).toEqual(
+      expect.objectContaining({
+        quantity: 49.9,
+        costBasis: 9.98,
+        averageCost: 0.2,
+        marketPrice: 0.3,
+        marketValue: 14.97,
+        unrealizedPnl: 4.99,
+        realizedPnl: 24.99,
+      })
+    );
+    expect(xlm?.lots).toEqual([
+      expect.objectContaining({ quantity: 49.9, transactionHash: "deposit" }),
+    ]);
+    expect(usdc).toEqual(
+      expect.objectContaining({
+        quantity: 45,
+        costBasis: 45,
+        marketPrice: 1,
+        unrealizedPnl: 0,
+      })
+    );
+    expect(portfolio.totals).toEqual({
+      costBasis: 54.98,
+      marketValue: 59.97,
+      realizedPnl: 24.99,
+      unrealizedPnl: 4.99,
+      feesPaid: 0.01,
+    });
+    expect(portfolio.warnings).toEqual([]);
+  });
+
+  it.each([
+    ["lifo", 20.01, 4.99, 0.02],
+    ["average", 22.5, 7.485, 0.015],
+  ] as const)(
+    "supports %s cost basis",
+    async (method, realizedPnl, remainingCost, feesPaid) => {
+      const portfolio = await service.getPortfolio("user1", {
+        method,
+        asset: "XLM",
+      });
+
+      expect(portfolio.positions).toHaveLength(1);
+      expect(portfolio.positions[0]).toEqual(
+        expect.objectContaining({ realizedPnl, costBasis: remainingCost })
+      );
+      expect(portfolio.totals.feesPaid).toBe(feesPaid);
+    }
+  );
+
+  it("only counts disposals inside the window as realized", async () => {
+    const portfolio = await service.getPortfolio("user1", {
+      startDate: "2026-04-01T00:00:00Z",
+    });
+
+    expect(portfolio.totals.realizedPnl).toBe(0);
+    expect(portfolio.totals.feesPaid).toBe(0);
+    expect(portfolio.totals.costBasis).toBe(54.98);
+  });
+
+  it("warns about assets it cannot price", async () => {
+    searchTransactions.mockReset().mockResolvedValueOnce({
+      transactions: [
+        transaction("airdrop", "2026-01-05T00:00:00.000Z", [
+          {
+            type: "payment",
+            from: "GOTHER",
+            to: ACCOUNT,
+            amount: "10",
+            asset: "USDC:GFAKEISSUER",
+          },
+        ]),
+      ],
+      pagination: { limit: 100, total: 1 },
+    });
+
+    const portfolio = await service.getPortfolio("user1");
+
+    expect(portfolio.positions[0]).toEqual(
+      expect.objectContaining({
+        asset: "USDC:GFAKEISSUER",
+        quantity: 10,
+        costBasis: 0,
+        marketValue: null,
+        unrealizedPnl: null,
+      })
+    );
+    expect(portfolio.warnings).toHaveLength(2);
+    expect(stellarPriceService.getHistoricalPrice).not.toHaveBeenCalled();
+  });
+
+  it("yields swaps with the P&L they realized", async () => {
+    const trades = [];
+    for await (const trade of service.realizedTrades(ACCOUNT)) {
+      trades.push(trade);
+    }
+
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toEqual(
+      expect.objectContaining({
+        transactionHash: "swap",
+        executedAt: "2026-03-10T00:00:00.000Z",
+        soldAsset: "XLM",
+        soldAmount: 150,
+        boughtAsset: USDC,
+        boughtAmount: 45,
+        value: 45,
+        fee: 0.1,
+      })
+    );
+    expect(trades[0].costBasis).toBeCloseTo(20.01, 7);
+    expect(trades[0].realizedPnl).toBeCloseTo(24.99, 7);
+    expect(trades[0].feeValue).toBeCloseTo(0.03, 7);
+  });
+
+  it("rejects unsupported quote assets", async () => {
+    await expect(
+      service.getPortfolio("user1", { quoteAsset: "DOGE" })
+    ).rejects.toEqual(new PortfolioError("Unsupported quote asset: DOGE"));
+  });
+});
+
+describe("PortfolioTool", () => {
+  it("reports P&L for the current month", async () => {
+    const tool = new PortfolioTool();
+    const getPortfolio = jest
+      .spyOn(portfolioService, "getPortfolio")
+      .mockResolvedValue({
+        quoteAsset: "USDC",
+        totals: {
+          costBasis: 9.98,
+          marketValue: 14.97,
+          realizedPnl: 24.99,
+          unrealizedPnl: 4.99,
+          feesPaid: 0.01,
+        },
+      } as PortfolioReport);
+
+    const result = await tool.execute(
+      { asset: "XLM", period: "month" },
+      "user1"
+    );
+
+    const now = new Date();
+    expect(getPortfolio).toHaveBeenCalledWith(
+      "user1",
+      expect.objectContaining({
+        asset: "XLM",
+        startDate: new Date(
+          Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)
+        ).toISOString(),
+      })
+    );
+    expect(result.status).toBe("success");
+    expect(result.message).toBe(
+      "Realized P&L on XLM (this month): +24.99 USDC. Unrealized P&L on XLM: +4.99 USDC on a cost basis of 9.98 USDC."
+    );
+  });
+});
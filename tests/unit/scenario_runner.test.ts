@@ -0,0 +1,136 @@
+import "reflect-metadata";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  loadScenarios,
+  Scenario,
+  ScenarioError,
+} from "../../src/simulation/Scenario";
+import {
+  formatReport,
+  ScenarioRunner,
+} from "../../src/simulation/ScenarioRunner";
+
+jest.unmock("@stellar/stellar-sdk");
+jest.mock("../../src/config/logger");
+jest.mock("../../src/services/priceCache.service", () => ({
+  __esModule: true,
+  default: {},
+}));
+jest.mock("../../src/services/flashSwapRiskAnalyzer", () => ({
+  flashSwapRiskAnalyzer: { analyzeSwapRisk: jest.fn() },
+}));
+jest.mock("../../src/Signing/signing.service", () => ({
+  transactionSigningService: { forUser: jest.fn() },
+}));
+jest.mock("../../src/Agents/registry/PromptVersionService", () => ({
+  promptVersionService: {
+    selectPrompt: jest.fn().mockResolvedValue(null),
+    trackMetric: jest.fn(),
+  },
+}));
+jest.mock("../../src/Agents/memory/memory", () => ({
+  memoryStore: { get: jest.fn(() => []), add: jest.fn(), clear: jest.fn() },
+}));
+jest.mock("../../src/Agents/registry/ToolAutoDiscovery", () => ({
+  toolAutoDiscovery: {
+    initialize: jest.fn(async () => {
+      const { toolRegistry } =
+        await import("../../src/Agents/registry/ToolRegistry");
+      const { swapTool } = await import("../../src/Agents/tools/swap");
+      const { walletTool } = await import("../../src/Agents/tools/wallet");
+      const { sorobanTool } = await import("../../src/Agents/tools/soroban");
+      if (!toolRegistry.getTool(swapTool.metadata.name)) {
+        toolRegistry.register(swapTool);
+        toolRegistry.register(walletTool);
+        toolRegistry.register(sorobanTool);
+      }
+    }),
+  },
+}));
+
+const USDC = "USDC:GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN";
+
+describe("scenario runner", () => {
+  const runner = new ScenarioRunner();
+  let tempDir: string | undefined;
+
+  afterEach(() => {
+    if (tempDir) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      tempDir = undefined;
+    }
+  });
+
+  it("passes the example scenarios", async () => {
+    const report = await runner.runAll(
+      loadScenarios(path.join(__dirname, "../../scenarios"))
+    );
+
+    expect(report.results.flatMap((result) => result.failures)).toEqual([]);
+    expect(report).toEqual(
+      expect.objectContaining({ passed: report.results.length, failed: 0 })
+    );
+  });
+
+  it("reports every broken expectation and unused LLM response", async () => {
+    const scenario: Scenario = {
+      name: "wrong expectations",
+      chain: {
+        accounts: [{ userId: "alice", balances: { XLM: "1000", [USDC]: "0" } }],
+      },
+      llm: [{ agent: "response", response: "never asked for" }],
+      steps: [
+        {
+          userId: "alice",
+          plan: {
+            steps: [
+              {
+                action: "swap_tool",
+                payload: { from: "XLM", to: "USDC", amount: 5000 },
+              },
+            ],
+          },
+          expect: { steps: [{ result: "success" }] },
+        },
+      ],
+      expect: {
+        accounts: [
+          { userId: "alice", balances: { XLM: "1000", [USDC]: { min: 1 } } },
+        ],
+      },
+    };
+
+    const result = await runner.run(scenario, "wrong.json");
+
+    expect(result.passed).toBe(false);
+    expect(result.failures).toEqual([
+      expect.stringMatching(
+        /^step 1\.1: expected result "success", got "error" \(Swap failed: Insufficient XLM balance/
+      ),
+      expect.stringMatching(
+        /^alice on stellar XLM balance: expected "1000", got "99\d\.\d+"$/
+      ),
+      `alice on stellar ${USDC} balance: expected at least 1, got 0.0000000`,
+      'unused LLM response for response: "never asked for"',
+    ]);
+    expect(formatReport({ passed: 0, failed: 1, results: [result] })).toContain(
+      "FAIL wrong expectations (wrong.json)"
+    );
+  });
+
+  it("rejects steps that are neither a query nor a plan", () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "scenarios-"));
+    const file = path.join(tempDir, "broken.json");
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ name: "broken", steps: [{ expect: {} }] })
+    );
+
+    expect(() => loadScenarios(file)).toThrow(ScenarioError);
+    expect(() => loadScenarios(file)).toThrow(
+      "step 1 must have either a query or a plan with steps"
+    );
+  });
+});
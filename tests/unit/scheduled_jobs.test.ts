@@ -0,0 +1,398 @@
+import AppDataSource from "../../src/config/Datasource";
+import { agentPlanner } from "../../src/Agents/planner/AgentPlanner";
+import { HashedPlan } from "../../src/Agents/planner/planHash";
+import { auditLogService } from "../../src/AuditLog/auditLog.service";
+import { JobSchedulerService } from "../../src/Scheduler/jobScheduler.service";
+import {
+  ScheduledJob,
+  ScheduledJobRun,
+} from "../../src/Scheduler/scheduledJob.entity";
+import {
+  ScheduledJobError,
+  ScheduledJobService,
+} from "../../src/Scheduler/scheduledJob.service";
+import {
+  describeSchedule,
+  nextRunAfter,
+  ScheduleError,
+  validateSchedule,
+} from "../../src/Scheduler/schedule";
+
+jest.mock("../../src/config/Datasource", () => ({
+  __esModule: true,
+  default: { getRepository: jest.fn() },
+}));
+jest.mock("../../src/config/logger");
+jest.mock("../../src/AuditLog/auditLog.service", () => ({
+  auditLogService: { log: jest.fn() },
+}));
+jest.mock("../../src/Agents/planner/AgentPlanner", () => ({
+  agentPlanner: { createPlan: jest.fn() },
+  PlanValidationError: class PlanValidationError extends Error {},
+}));
+jest.mock("../../src/Agents/planner/PlanExecutor", () => ({
+  planExecutor: { executePlan: jest.fn() },
+}));
+jest.mock("../../src/Scheduler/jobNotifications", () => ({
+  jobNotificationService: { notify: jest.fn() },
+}));
+
+const plan = {
+  planId: "plan-1",
+  planHash: "a".repeat(64),
+  steps: [
+    {
+      stepNumber: 1,
+      action: "swap_tool",
+      payload: { from: "USDC", to: "XLM", amount: 50 },
+      description: "Buy 50 XLM with USDC",
+    },
+  ],
+  totalSteps: 1,
+  estimatedDuration: 5000,
+  riskLevel: "low",
+  requiresApproval: false,
+  summary: "Buy 50 XLM with USDC",
+} as HashedPlan;
+
+// 2026-03-02 is a Monday
+const MONDAY_NINE = new Date("2026-03-02T09:00:00.000Z");
+
+describe("schedule", () => {
+  it("computes the next weekly run", () => {
+    const schedule = validateSchedule({
+      frequency: "weekly",
+      dayOfWeek: 1,
+      time: "09:00",
+    });
+
+    expect(nextRunAfter(schedule, new Date("2026-02-27T12:00:00Z"))).toEqual(
+      MONDAY_NINE
+    );
+    expect(nextRunAfter(schedule, MONDAY_NINE)).toEqual(
+      new Date("2026-03-09T09:00:00.000Z")
+    );
+    expect(describeSchedule(schedule)).toBe("every Monday at 09:00 UTC");
+  });
+
+  it("runs monthly jobs on the last day of short months", () => {
+    const schedule = validateSchedule({ frequency: "monthly", dayOfMonth: 31 });
+
+    expect(nextRunAfter(schedule, new Date("2026-02-01T00:00:00Z"))).toEqual(
+      new Date("2026-02-28T00:00:00.000Z")
+    );
+    expect(nextRunAfter(schedule, new Date("2026-12-31T00:00:00Z"))).toEqual(
+      new Date("2027-01-31T00:00:00.000Z")
+    );
+  });
+
+  it("keeps interval runs on their original cadence", () => {
+    const schedule = validateSchedule(
+      { frequency: "interval", intervalMinutes: 60 },
+      new Date("2026-03-01T00:00:00Z")
+    );
+
+    expect(nextRunAfter(schedule, new Date("2026-03-01T05:30:00Z"))).toEqual(
+      new Date("2026-03-01T06:00:00.000Z")
+    );
+  });
+
+  it("rejects invalid schedules", () => {
+    expect(() => validateSchedule({ frequency: "hourly" })).toThrow(
+      ScheduleError
+    );
+    expect(() =>
+      validateSchedule({ frequency: "weekly", dayOfWeek: 7 })
+    ).toThrow("dayOfWeek must be 0 (Sunday) to 6 (Saturday)");
+    expect(() =>
+      validateSchedule({ frequency: "daily", time: "25:00" })
+    ).toThrow("time must be HH:MM in 24 hour UTC time");
+    expect(() =>
+      validateSchedule({ frequency: "interval", intervalMinutes: 1 })
+    ).toThrow(ScheduleError);
+  });
+});
+
+describe("ScheduledJobService", () => {
+  let service: ScheduledJobService;
+  let jobRepository: { create: jest.Mock; save: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jobRepository = {
+      create: jest.fn((job) => job),
+      save: jest.fn(async (job) => ({ id: "job-1", ...job })),
+    };
+    (AppDataSource.getRepository as jest.Mock).mockImplementation((entity) =>
+      entity === ScheduledJob ? jobRepository : {}
+    );
+    (agentPlanner.createPlan as jest.Mock).mockResolvedValue(plan);
+    service = new ScheduledJobService();
+  });
+
+  it("plans the instruction once and stores the hashed plan", async () => {
+    const job = await service.createJob("user-1", {
+      instruction: "buy 50 XLM with USDC",
+      schedule: { frequency: "weekly", dayOfWeek: 1, time: "09:00" },
+    });
+
+    expect(agentPlanner.createPlan).toHaveBeenCalledWith({
+      userId: "user-1",
+      userInput: "buy 50 XLM with USDC",
+      userRole: undefined,
+    });
+    expect(job).toEqual(
+      expect.objectContaining({
+        status: "active",
+        planHash: plan.planHash,
+        missedRunPolicy: "run_once",
+        name: "buy 50 XLM with USDC",
+      })
+    );
+    expect(job.nextRunAt!.getUTCDay()).toBe(1);
+  });
+
+  it("refuses plans that need approval", async () => {
+    (agentPlanner.createPlan as jest.Mock).mockResolvedValue({
+      ...plan,
+      requiresApproval: true,
+    });
+
+    await expect(
+      service.createJob("user-1", {
+        instruction: "send everything to Bob",
+        schedule: { frequency: "daily" },
+      })
+    ).rejects.toThrow(ScheduledJobError);
+    expect(jobRepository.save).not.toHaveBeenCalled();
+  });
+});
+
+describe("JobSchedulerService", () => {
+  let jobRepository: {
+    find: jest.Mock;
+    update: jest.Mock;
+    createQueryBuilder: jest.Mock;
+  };
+  let runRepository: { create: jest.Mock; save: jest.Mock };
+  let claimResult: { affected: number };
+  let executor: { executePlan: jest.Mock };
+  let notifier: { notify: jest.Mock };
+  let savedRuns: ScheduledJobRun[];
+  let scheduler: JobSchedulerService;
+
+  const buildJob = (overrides: Partial<ScheduledJob> = {}): ScheduledJob =>
+    ({
+      id: "job-1",
+      userId: "user-1",
+      name: "Weekly XLM",
+      instruction: "buy 50 XLM with USDC",
+      plan,
+      planHash: plan.planHash,
+      schedule: { frequency: "weekly", dayOfWeek: 1, time: "09:00" },
+      missedRunPolicy: "run_once",
+      status: "active",
+      nextRunAt: MONDAY_NINE,
+      runCount: 0,
+      consecutiveFailures: 0,
+      notify: true,
+      ...overrides,
+    }) as ScheduledJob;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    savedRuns = [];
+    claimResult = { affected: 1 };
+    const updateBuilder = {
+      update: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      execute: jest.fn(async () => claimResult),
+    };
+    jobRepository = {
+      find: jest.fn(),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      createQueryBuilder: jest.fn(() => updateBuilder),
+    };
+    runRepository = {
+      create: jest.fn((run) => run),
+      save: jest.fn(async (runs) => {
+        for (const run of [runs].flat()) {
+          if (!savedRuns.includes(run)) savedRuns.push(run);
+        }
+        return runs;
+      }),
+    };
+    (AppDataSource.getRepository as jest.Mock).mockImplementation((entity) =>
+      entity === ScheduledJob ? jobRepository : runRepository
+    );
+    executor = {
+      executePlan: jest.fn().mockResolvedValue({
+        planId: plan.planId,
+        status: "success",
+        completedSteps: 1,
+        totalSteps: 1,
+        stepResults: [],
+        duration: 10,
+      }),
+    };
+    notifier = { notify: jest.fn() };
+    scheduler = new JobSchedulerService({
+      executor,
+      notifier,
+      missedRunGraceMs: 5 * 60 * 1000,
+    });
+  });
+
+  it("runs a due job with hash verification and schedules the next run", async () => {
+    jobRepository.find.mockResolvedValue([buildJob()]);
+
+    const processed = await scheduler.runDueJobs(
+      new Date("2026-03-02T09:00:30Z")
+    );
+
+    expect(processed).toBe(1);
+    expect(executor.executePlan).toHaveBeenCalledWith(plan, "user-1", {
+      verifyHash: true,
+      stopOnError: true,
+    });
+    expect(auditLogService.log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        resource: plan.planId,
+        metadata: expect.objectContaining({ scheduledJobId: "job-1" }),
+      })
+    );
+    expect(savedRuns).toEqual([
+      expect.objectContaining({
+        scheduledFor: MONDAY_NINE,
+        status: "success",
+        completedSteps: 1,
+      }),
+    ]);
+    expect(jobRepository.update).toHaveBeenCalledWith(
+      { id: "job-1", status: "active" },
+      expect.objectContaining({
+        status: "active",
+        nextRunAt: new Date("2026-03-09T09:00:00.000Z"),
+        runCount: 1,
+        lastRunStatus: "success",
+        lockedUntil: null,
+      })
+    );
+    expect(notifier.notify).toHaveBeenCalledWith(
+      expect.anything(),
+      "run_finished",
+      expect.objectContaining({ status: "success" })
+    );
+  });
+
+  it("leaves jobs claimed by another worker alone", async () => {
+    jobRepository.find.mockResolvedValue([buildJob()]);
+    claimResult = { affected: 0 };
+
+    expect(await scheduler.runDueJobs(MONDAY_NINE)).toBe(0);
+    expect(executor.executePlan).not.toHaveBeenCalled();
+  });
+
+  it("catches up once on the latest missed run", async () => {
+    jobRepository.find.mockResolvedValue([buildJob()]);
+
+    // Three Mondays were missed
+    await scheduler.runDueJobs(new Date("2026-03-17T12:00:00Z"));
+
+    expect(executor.executePlan).toHaveBeenCalledTimes(1);
+    expect(savedRuns.map((run) => [run.scheduledFor, run.status])).toEqual([
+      [MONDAY_NINE, "skipped"],
+      [new Date("2026-03-09T09:00:00.000Z"), "skipped"],
+      [new Date("2026-03-16T09:00:00.000Z"), "success"],
+    ]);
+    expect(jobRepository.update).toHaveBeenCalledWith(
+      { id: "job-1", status: "active" },
+      expect.objectContaining({
+        nextRunAt: new Date("2026-03-23T09:00:00.000Z"),
+      })
+    );
+  });
+
+  it("skips missed runs when the policy says so", async () => {
+    jobRepository.find.mockResolvedValue([
+      buildJob({ missedRunPolicy: "skip" }),
+    ]);
+
+    await scheduler.runDueJobs(new Date("2026-03-10T12:00:00Z"));
+
+    expect(executor.executePlan).not.toHaveBeenCalled();
+    expect(savedRuns.map((run) => run.status)).toEqual(["skipped", "skipped"]);
+    expect(notifier.notify).toHaveBeenCalledWith(
+      expect.anything(),
+      "runs_skipped",
+      undefined,
+      expect.stringContaining("2 missed run(s)")
+    );
+  });
+
+  it("pauses a job after repeated failures", async () => {
+    jobRepository.find.mockResolvedValue([
+      buildJob({ consecutiveFailures: 2 }),
+    ]);
+    executor.executePlan.mockRejectedValue(
+      new Error("Plan verification failed: Plan hash mismatch")
+    );
+
+    await scheduler.runDueJobs(MONDAY_NINE);
+
+    expect(savedRuns[0]).toEqual(
+      expect.objectContaining({
+        status: "failed",
+        error: "Plan verification failed: Plan hash mismatch",
+      })
+    );
+    expect(jobRepository.update).toHaveBeenCalledWith(
+      { id: "job-1", status: "active" },
+      expect.objectContaining({
+        status: "paused",
+        nextRunAt: null,
+        consecutiveFailures: 3,
+      })
+    );
+    expect(notifier.notify).toHaveBeenCalledWith(
+      expect.anything(),
+      "job_paused",
+      undefined,
+      expect.any(String)
+    );
+  });
+
+  it("keeps a pause made while the job was running", async () => {
+    jobRepository.find.mockResolvedValue([buildJob()]);
+    // The job is no longer active by the time its run finishes
+    jobRepository.update.mockResolvedValueOnce({ affected: 0 });
+
+    await scheduler.runDueJobs(new Date("2026-03-02T09:00:30Z"));
+
+    expect(jobRepository.update).toHaveBeenCalledTimes(2);
+    expect(jobRepository.update).toHaveBeenLastCalledWith("job-1", {
+      lastRunAt: expect.any(Date),
+      lastRunStatus: "success",
+      runCount: 1,
+      consecutiveFailures: 0,
+      lockedUntil: null,
+    });
+  });
+
+  it("completes one-off jobs after their run", async () => {
+    jobRepository.find.mockResolvedValue([
+      buildJob({
+        schedule: { frequency: "once", runAt: MONDAY_NINE.toISOString() },
+      }),
+    ]);
+
+    await scheduler.runDueJobs(MONDAY_NINE);
+
+    expect(jobRepository.update).toHaveBeenCalledWith(
+      { id: "job-1", status: "active" },
+      expect.objectContaining({ status: "completed", nextRunAt: null })
+    );
+  });
+});
@@ -0,0 +1,264 @@
+import "reflect-metadata";
+import { SwapTool } from "../../src/Agents/tools/swap";
+import { WalletTool } from "../../src/Agents/tools/wallet";
+import { liquidityPoolId } from "../../src/simulation/Ledger";
+import { LocalChainManager } from "../../src/simulation/LocalChainManager";
+import {
+  createSimulationSession,
+  runInSimulation,
+} from "../../src/simulation/simulationContext";
+import { LiquidityPool } from "../../src/simulation/types";
+
+jest.unmock("@stellar/stellar-sdk");
+jest.mock("../../src/config/logger");
+jest.mock("../../src/services/priceCache.service", () => ({
+  __esModule: true,
+  default: {},
+}));
+jest.mock("../../src/services/flashSwapRiskAnalyzer", () => ({
+  flashSwapRiskAnalyzer: { analyzeSwapRisk: jest.fn() },
+}));
+jest.mock("../../src/Signing/signing.service", () => ({
+  transactionSigningService: { forUser: jest.fn() },
+}));
+jest.mock("../../src/Contacts/contact.service", () => ({
+  __esModule: true,
+  default: class {
+    getContactByName = jest.fn().mockResolvedValue(null);
+  },
+}));
+
+const USDC = "USDC:GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN";
+const POOL = liquidityPoolId("XLM", USDC);
+
+const startChain = async (stellarBalances: Record<string, string>) => {
+  const manager = new LocalChainManager({
+    enabled: false,
+    mode: "local",
+    latencyMs: 0,
+    errorRate: 0,
+    stellarBalances,
+    starknetBalances: { STRK: "50.0000000" },
+    liquidityPools: [
+      {
+        assetA: "XLM",
+        assetB: USDC,
+        reserveA: "100000.0000000",
+        reserveB: "10000.0000000",
+        feeBps: 30,
+      },
+    ],
+  });
+  await manager.initialize();
+  return manager;
+};
+
+const simulate = <T>(userId: string, fn: () => Promise<T>) => {
+  const session = createSimulationSession(userId);
+  return runInSimulation(session, fn).then((result) => ({ result, session }));
+};
+
+describe("simulated ledger", () => {
+  const swapTool = new SwapTool({ verifyAsset: jest.fn() });
+
+  describe("swaps", () => {
+    let manager: LocalChainManager;
+
+    beforeEach(async () => {
+      manager = await startChain({ XLM: "1000.0000000", [USDC]: "0.0000000" });
+    });
+
+    const accountOf = (userId: string) =>
+      manager.getSimulationEngine().getLedger().account(userId, "stellar");
+
+    it("prices a strict send from the pool and moves balances, fee and reserves", async () => {
+      const { result, session } = await simulate("alice", () =>
+        swapTool.execute({ from: "XLM", to: "USDC", amount: 100 }, "alice")
+      );
+
+      // 100 XLM less the 0.3% pool fee against 100000 XLM / 10000 USDC
+      expect(result.status).toBe("success");
+      expect(result.data).toEqual(
+        expect.objectContaining({
+          sentAmount: 100,
+          receivedAmount: 9.9600698,
+          simulated: true,
+        })
+      );
+
+      const account = accountOf("alice");
+      const fee = parseFloat(result.data!.fee as string);
+      expect(fee).toBeGreaterThan(0);
+      expect(parseFloat(account.balances.XLM)).toBeCloseTo(900 - fee, 7);
+      expect(account.balances[USDC]).toBe("9.9600698");
+      expect(account.trustlines).toEqual([
+        expect.objectContaining({ asset_code: "USDC", balance: "9.9600698" }),
+      ]);
+      expect(account.sequence).toBe(1);
+
+      const pool = manager
+        .getSimulationEngine()
+        .getStateManager()
+        .getContractState(POOL)!.storage as unknown as LiquidityPool;
+      expect(pool.reserveA).toBe("100100.0000000");
+      expect(pool.reserveB).toBe("9990.0399302");
+      expect(session.stateChanges.map((change) => change.id)).toEqual([
+        account.address,
+        POOL,
+      ]);
+    });
+
+    it("spends what the pool asks for a strict receive", async () => {
+      const { result } = await simulate("alice", () =>
+        swapTool.execute(
+          { from: "XLM", to: "USDC", amount: 10, mode: "strict_receive" },
+          "alice"
+        )
+      );
+
+      expect(result.data).toEqual(
+        expect.objectContaining({ receivedAmount: 10, sentAmount: 100.4013041 })
+      );
+      expect(accountOf("alice").balances[USDC]).toBe("10.0000000");
+    });
+
+    it("rejects swaps the account cannot fund but still charges the fee", async () => {
+      const { result, session } = await simulate("alice", () =>
+        swapTool.execute({ from: "XLM", to: "USDC", amount: 5000 }, "alice")
+      );
+
+      expect(result.status).toBe("error");
+      expect(result.error).toBe(
+        "Swap failed: Insufficient XLM balance for swap"
+      );
+      const account = accountOf("alice");
+      expect(parseFloat(account.balances.XLM)).toBeLessThan(1000);
+      expect(account.balances[USDC]).toBe("0.0000000");
+      expect(account.sequence).toBe(1);
+      expect(session.stateChanges.map((change) => change.id)).toEqual([
+        account.address,
+      ]);
+    });
+
+    it("refuses fills beyond the slippage tolerance like a live path payment", async () => {
+      // 900 XLM moves the pool's price by about 0.9% past its quote
+      const { result } = await simulate("alice", () =>
+        swapTool.execute(
+          { from: "XLM", to: "USDC", amount: 900, maxSlippageBps: 50 },
+          "alice"
+        )
+      );
+      const { result: bought } = await simulate("alice", () =>
+        swapTool.execute(
+          {
+            from: "XLM",
+            to: "USDC",
+            amount: 95,
+            mode: "strict_receive",
+            maxSlippageBps: 50,
+          },
+          "alice"
+        )
+      );
+
+      const slippageError =
+        "Swap failed: The price moved beyond the slippage tolerance before the swap executed";
+      expect(result.error).toBe(slippageError);
+      expect(bought.error).toBe(slippageError);
+      expect(accountOf("alice").balances[USDC]).toBe("0.0000000");
+      expect(accountOf("alice").sequence).toBe(2);
+
+      const { result: tolerated } = await simulate("alice", () =>
+        swapTool.execute(
+          { from: "XLM", to: "USDC", amount: 900, maxSlippageBps: 200 },
+          "alice"
+        )
+      );
+      expect(tolerated.status).toBe("success");
+    });
+
+    it("fills small swaps within a tolerance below the pool fee", async () => {
+      const { result: sold } = await simulate("alice", () =>
+        swapTool.execute(
+          { from: "XLM", to: "USDC", amount: 10, maxSlippageBps: 10 },
+          "alice"
+        )
+      );
+      const { result: bought } = await simulate("alice", () =>
+        swapTool.execute(
+          {
+            from: "XLM",
+            to: "USDC",
+            amount: 1,
+            mode: "strict_receive",
+            maxSlippageBps: 10,
+          },
+          "alice"
+        )
+      );
+
+      expect(sold.status).toBe("success");
+      expect(bought.status).toBe("success");
+    });
+
+    it("rejects swaps into an asset the account does not trust", async () => {
+      manager = await startChain({ XLM: "1000.0000000" });
+
+      const { result } = await simulate("bob", () =>
+        swapTool.execute({ from: "XLM", to: "USDC", amount: 100 }, "bob")
+      );
+
+      expect(result.error).toBe(
+        "Swap failed: No trustline exists for USDC. Please establish a trustline first."
+      );
+      expect(accountOf("bob").balances[USDC]).toBeUndefined();
+    });
+  });
+
+  describe("wallet", () => {
+    const walletTool = new WalletTool();
+
+    beforeEach(async () => {
+      await startChain({ XLM: "1000.0000000" });
+    });
+
+    it("debits the sender and credits the recipient of a transfer", async () => {
+      const { result: address } = await simulate("bob", () =>
+        walletTool.execute({ operation: "get_address" }, "bob")
+      );
+      const recipient = address.data!.address as string;
+
+      const { result } = await simulate("alice", () =>
+        walletTool.execute(
+          { operation: "transfer", to: recipient, amount: 20, token: "STRK" },
+          "alice"
+        )
+      );
+      expect(result.status).toBe("success");
+
+      const balance = async (userId: string) =>
+        (
+          await simulate(userId, () =>
+            walletTool.execute(
+              { operation: "get_balance", token: "STRK" },
+              userId
+            )
+          )
+        ).result.data!.balance;
+      expect(await balance("alice")).toBe("30.00 STRK");
+      expect(await balance("bob")).toBe("70.00 STRK");
+    });
+
+    it("fails transfers beyond the balance with op_underfunded", async () => {
+      const { result } = await simulate("alice", () =>
+        walletTool.execute(
+          { operation: "transfer", to: "0x1234", amount: 500, token: "STRK" },
+          "alice"
+        )
+      );
+
+      expect(result.status).toBe("error");
+      expect(result.error).toContain("op_underfunded");
+    });
+  });
+});
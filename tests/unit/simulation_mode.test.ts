@@ -0,0 +1,231 @@
+import * as StellarSdk from "@stellar/stellar-sdk";
+import { PlanExecutor } from "../../src/Agents/planner/PlanExecutor";
+import { ExecutionPlan } from "../../src/Agents/planner/AgentPlanner";
+import { toolRegistry } from "../../src/Agents/registry/ToolRegistry";
+import { ToolMetadata } from "../../src/Agents/registry/ToolMetadata";
+import { SwapTool } from "../../src/Agents/tools/swap";
+import { invokeContract } from "../../src/services/sorobanService";
+import { transactionSigningService } from "../../src/Signing/signing.service";
+import { LocalChainManager } from "../../src/simulation/LocalChainManager";
+import { interceptorFor } from "../../src/simulation/ServiceInterceptor";
+import {
+  createSimulationSession,
+  runInSimulation,
+} from "../../src/simulation/simulationContext";
+
+jest.unmock("@stellar/stellar-sdk");
+jest.mock("../../src/config/logger");
+jest.mock("../../src/services/priceCache.service", () => ({
+  __esModule: true,
+  default: {},
+}));
+jest.mock("../../src/services/flashSwapRiskAnalyzer", () => ({
+  flashSwapRiskAnalyzer: { analyzeSwapRisk: jest.fn() },
+}));
+jest.mock("../../src/Signing/signing.service", () => ({
+  transactionSigningService: { forUser: jest.fn() },
+}));
+
+const CONTRACT_ID = "CAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD2KM";
+
+const invokeBalance = () =>
+  invokeContract({
+    network: "testnet",
+    contractId: CONTRACT_ID,
+    method: "balance",
+    args: [],
+  });
+
+describe("simulate mode", () => {
+  it("refuses to go live when no local chain is initialized", async () => {
+    await expect(
+      runInSimulation(createSimulationSession("user-1"), invokeBalance)
+    ).rejects.toThrow("Simulate mode is unavailable");
+  });
+
+  describe("with a local chain", () => {
+    let manager: LocalChainManager;
+
+    beforeAll(async () => {
+      manager = new LocalChainManager({
+        enabled: false,
+        mode: "local",
+        latencyMs: 0,
+        errorRate: 0,
+      });
+      await manager.initialize();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("leaves requests that did not opt in on the live network", () => {
+      expect(interceptorFor("soroban")).toBeNull();
+    });
+
+    it("answers Soroban calls from the engine and records their effects", async () => {
+      const stateChanges = [
+        { type: "contract" as const, id: CONTRACT_ID, changes: {} },
+      ];
+      const processRequest = jest
+        .spyOn(manager.getSimulationEngine(), "processRequest")
+        .mockResolvedValue({
+          success: true,
+          data: {
+            network: "testnet",
+            contractId: CONTRACT_ID,
+            method: "balance",
+            result: "42",
+          },
+          metadata: { simulatedGas: 120, processingTime: 1, stateChanges },
+        });
+      const session = createSimulationSession("user-1");
+
+      const result = await runInSimulation(session, invokeBalance);
+
+      expect(result.result).toBe("42");
+      expect(processRequest).toHaveBeenCalledWith(
+        expect.objectContaining({
+          service: "soroban",
+          operation: "invoke_contract",
+          userId: "user-1",
+        })
+      );
+      expect(session.stateChanges).toEqual(stateChanges);
+      expect(session.simulatedGas).toBe(120);
+    });
+
+    it("fails simulated calls instead of falling back to the network", async () => {
+      jest
+        .spyOn(manager.getSimulationEngine(), "processRequest")
+        .mockResolvedValue({
+          success: false,
+          data: null,
+          error: "Simulated contract error: Insufficient gas",
+          metadata: { simulatedGas: 0, processingTime: 1, stateChanges: [] },
+        });
+
+      await expect(
+        runInSimulation(createSimulationSession("user-1"), invokeBalance)
+      ).rejects.toThrow("Simulated contract error: Insufficient gas");
+    });
+
+    it("fills swaps on the local chain without touching Horizon", async () => {
+      const strictSendPaths = jest.spyOn(
+        StellarSdk.Horizon.Server.prototype,
+        "strictSendPaths"
+      );
+      const tool = new SwapTool({ verifyAsset: jest.fn() });
+      const session = createSimulationSession("user-1");
+
+      const result = await runInSimulation(session, () =>
+        tool.execute({ from: "XLM", to: "USDC", amount: 100 }, "user-1")
+      );
+
+      expect(result.status).toBe("success");
+      expect(result.data).toEqual(
+        expect.objectContaining({
+          simulated: true,
+          mode: "strict_send",
+          sentAmount: 100,
+          receivedAmount: expect.any(Number),
+          txHash: expect.any(String),
+        })
+      );
+      expect(strictSendPaths).not.toHaveBeenCalled();
+      expect(transactionSigningService.forUser).not.toHaveBeenCalled();
+      expect(session.simulatedGas).toBeGreaterThan(0);
+    });
+
+    describe("PlanExecutor", () => {
+      const liveTool = jest.fn();
+      const tool = (name: string, simulation?: ToolMetadata["simulation"]) => ({
+        metadata: {
+          name,
+          description: `${name} for tests`,
+          parameters: {},
+          examples: [],
+          category: "test",
+          version: "1.0.0",
+          simulation,
+        },
+        execute: async () => {
+          liveTool(name);
+          const result = await invokeBalance();
+          return {
+            action: name,
+            status: "success" as const,
+            data: { result: result.result },
+          };
+        },
+      });
+
+      const plan: ExecutionPlan = {
+        planId: "plan_sim",
+        steps: [
+          {
+            stepNumber: 1,
+            action: "simulated_test_tool",
+            payload: {},
+            description: "Simulated",
+          },
+          {
+            stepNumber: 2,
+            action: "unmarked_test_tool",
+            payload: {},
+            description: "Unmarked",
+          },
+        ],
+        totalSteps: 2,
+        estimatedDuration: 2000,
+        riskLevel: "low",
+        requiresApproval: false,
+        summary: "simulation test plan",
+      };
+
+      beforeAll(() => {
+        toolRegistry.register(tool("simulated_test_tool", "simulated"));
+        toolRegistry.register(tool("unmarked_test_tool"));
+      });
+
+      it("returns each step's simulated state changes", async () => {
+        jest
+          .spyOn(manager.getSimulationEngine(), "processRequest")
+          .mockResolvedValue({
+            success: true,
+            data: { result: "42" },
+            metadata: {
+              simulatedGas: 80,
+              processingTime: 1,
+              stateChanges: [{ type: "account", id: "GUSER", changes: {} }],
+            },
+          });
+
+        const result = await new PlanExecutor().executePlan(plan, "user-1", {
+          verifyHash: false,
+          simulate: true,
+          stopOnError: false,
+        });
+
+        expect(result.stepResults[0]).toEqual(
+          expect.objectContaining({
+            status: "success",
+            simulation: {
+              stateChanges: [{ type: "account", id: "GUSER", changes: {} }],
+              simulatedGas: 80,
+            },
+          })
+        );
+        // Tools that could reach the network are never run
+        expect(result.stepResults[1]).toEqual(
+          expect.objectContaining({
+            status: "failed",
+            error: expect.stringContaining("not available in simulate mode"),
+          })
+        );
+        expect(liveTool).not.toHaveBeenCalledWith("unmarked_test_tool");
+      });
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import * as StellarSdk from "@stellar/stellar-sdk";
+import AppDataSource from "../../src/config/Datasource";
+import { EventIndexingService } from "../../src/services/eventIndexingService";
+import {
+  SorobanEvent,
+  SorobanEventCheckpoint,
+} from "../../src/services/sorobanEvent.entity";
+
+// Events are decoded from real ScVals
+jest.unmock("@stellar/stellar-sdk");
+jest.mock("../../src/config/Datasource", () => ({
+  __esModule: true,
+  default: { getRepository: jest.fn() },
+}));
+jest.mock("../../src/config/logger");
+
+const CONTRACT_ID = "CCONTRACT";
+
+const buildEvent = (ledger: number, index: number, amount: number) =>
+  ({
+    id: `${String(ledger).padStart(19, "0")}-${String(index).padStart(10, "0")}`,
+    type: "contract",
+    ledger,
+    ledgerClosedAt: "2026-01-01T00:00:00Z",
+    transactionIndex: 1,
+    operationIndex: 0,
+    inSuccessfulContractCall: true,
+    txHash: `tx_${ledger}_${index}`,
+    topic: [
+      StellarSdk.nativeToScVal("transfer", { type: "symbol" }),
+      StellarSdk.nativeToScVal("alice", { type: "symbol" }),
+    ],
+    value: StellarSdk.nativeToScVal(BigInt(amount), { type: "i128" }),
+  }) as unknown as StellarSdk.rpc.Api.EventResponse;
+
+const createRepositories = () => {
+  const events = new Map<string, SorobanEvent>();
+  const checkpoints = new Map<string, SorobanEventCheckpoint>();
+
+  return {
+    events,
+    checkpoints,
+    eventRepository: {
+      upsert: jest.fn(async (records: SorobanEvent[]) => {
+        records.forEach((record) => events.set(record.id, record));
+      }),
+      find: jest.fn(async ({ take }: { take: number }) =>
+        [...events.values()]
+          .sort((a, b) => a.id.localeCompare(b.id))
+          .slice(0, take)
+      ),
+    },
+    checkpointRepository: {
+      create: jest.fn(
+        (data: Partial<SorobanEventCheckpoint>) =>
+          ({ ...data }) as SorobanEventCheckpoint
+      ),
+      findOne: jest.fn(
+        async ({ where }: { where: { contractId: string } }) =>
+          checkpoints.get(where.contractId) ?? null
+      ),
+      save: jest.fn(async (checkpoint: SorobanEventCheckpoint) => {
+        checkpoints.set(checkpoint.contractId, { ...checkpoint });
+        return checkpoint;
+      }),
+      update: jest.fn(
+        async (
+          { contractId }: { contractId: string },
+          changes: Partial<SorobanEventCheckpoint>
+        ) => {
+          const existing = checkpoints.get(contractId);
+          if (existing) Object.assign(existing, changes);
+        }
+      ),
+    },
+  };
+};
+
+describe("EventIndexingService", () => {
+  let repositories: ReturnType<typeof createRepositories>;
+  let server: { getEvents: jest.Mock; getHealth: jest.Mock };
+  let indexer: EventIndexingService;
+
+  const page = (
+    events: StellarSdk.rpc.Api.EventResponse[],
+    cursor: string,
+    latestLedger = 120
+  ) => ({
+    events,
+    cursor,
+    latestLedger,
+    oldestLedger: 50,
+    latestLedgerCloseTime: "",
+    oldestLedgerCloseTime: "",
+  });
+
+  beforeEach(() => {
+    repositories = createRepositories();
+    (AppDataSource.getRepository as jest.Mock).mockImplementation((entity) =>
+      entity === SorobanEvent
+        ? repositories.eventRepository
+        : repositories.checkpointRepository
+    );
+    server = {
+      getHealth: jest.fn().mockResolvedValue({
+        status: "healthy",
+        latestLedger: 120,
+        oldestLedger: 50,
+        ledgerRetentionWindow: 70,
+      }),
+      getEvents: jest.fn(),
+    };
+    indexer = new EventIndexingService({
+      server,
+      enabled: true,
+      contractIds: [CONTRACT_ID],
+      pageLimit: 2,
+    });
+  });
+
+  it("pages through events with cursors and stores them decoded", async () => {
+    server.getEvents
+      .mockResolvedValueOnce(
+        page([buildEvent(60, 1, 100), buildEvent(61, 1, 200)], "cursor-1")
+      )
+      .mockResolvedValueOnce(page([buildEvent(70, 1, 300)], "cursor-2"));
+
+    const result = await indexer.indexContract(CONTRACT_ID);
+
+    expect(result).toEqual({
+      contractId: CONTRACT_ID,
+      indexed: 3,
+      lastLedger: 120,
+    });
+    // New contracts backfill the retention window
+    expect(server.getEvents).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ startLedger: 50, limit: 2 })
+    );
+    expect(server.getEvents).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ cursor: "cursor-1" })
+    );
+
+    const stored = [...repositories.events.values()];
+    expect(stored).toHaveLength(3);
+    expect(stored[0]).toEqual(
+      expect.objectContaining({
+        contractId: CONTRACT_ID,
+        ledger: 60,
+        topic: ["transfer", "alice"],
+        topic0: "transfer",
+        topic1: "alice",
+        topic2: null,
+        value: "100",
+      })
+    );
+    expect(repositories.checkpoints.get(CONTRACT_ID)).toEqual(
+      expect.objectContaining({ lastLedger: 120, cursor: "cursor-2" })
+    );
+  });
+
+  it("resumes from the stored cursor", async () => {
+    repositories.checkpoints.set(CONTRACT_ID, {
+      contractId: CONTRACT_ID,
+      lastLedger: 100,
+      cursor: "cursor-9",
+      gaps: [],
+    } as unknown as SorobanEventCheckpoint);
+    server.getEvents.mockResolvedValueOnce(page([], "cursor-10"));
+
+    await indexer.indexContract(CONTRACT_ID);
+
+    expect(server.getEvents).toHaveBeenCalledTimes(1);
+    expect(server.getEvents).toHaveBeenCalledWith(
+      expect.objectContaining({ cursor: "cursor-9" })
+    );
+    expect(repositories.checkpoints.get(CONTRACT_ID)?.cursor).toBe("cursor-10");
+  });
+
+  it("records a gap when the checkpoint fell out of RPC retention", async () => {
+    repositories.checkpoints.set(CONTRACT_ID, {
+      contractId: CONTRACT_ID,
+      lastLedger: 20,
+      cursor: "stale-cursor",
+      gaps: [],
+    } as unknown as SorobanEventCheckpoint);
+    server.getEvents.mockResolvedValueOnce(page([], "cursor-1"));
+
+    const result = await indexer.indexContract(CONTRACT_ID);
+
+    expect(result.gap).toEqual(
+      expect.objectContaining({ fromLedger: 21, toLedger: 49 })
+    );
+    expect(server.getEvents).toHaveBeenCalledWith(
+      expect.objectContaining({ startLedger: 50 })
+    );
+    expect(repositories.checkpoints.get(CONTRACT_ID)?.gaps).toHaveLength(1);
+  });
+
+  it("keeps the checkpoint and records the error when RPC fails", async () => {
+    repositories.checkpoints.set(CONTRACT_ID, {
+      contractId: CONTRACT_ID,
+      lastLedger: 100,
+      cursor: "cursor-9",
+      gaps: [],
+    } as unknown as SorobanEventCheckpoint);
+    server.getEvents.mockRejectedValueOnce(new Error("rpc unavailable"));
+
+    await expect(indexer.indexAll()).resolves.toEqual([]);
+
+    expect(repositories.checkpoints.get(CONTRACT_ID)).toEqual(
+      expect.objectContaining({
+        lastLedger: 100,
+        cursor: "cursor-9",
+        lastError: "rpc unavailable",
+      })
+    );
+  });
+
+  it("serves indexed events in pages", async () => {
+    server.getEvents
+      .mockResolvedValueOnce(
+        page([buildEvent(60, 1, 100), buildEvent(61, 1, 200)], "cursor-1")
+      )
+      .mockResolvedValueOnce(page([buildEvent(70, 1, 300)], "cursor-2"));
+    await indexer.indexContract(CONTRACT_ID);
+
+    const result = await indexer.queryEvents({
+      contractId: CONTRACT_ID,
+      topic: "transfer",
+      limit: 2,
+    });
+
+    expect(result.events.map((event) => event.ledger)).toEqual([60, 61]);
+    expect(result.nextCursor).toBe(result.events[1].id);
+    expect(repositories.eventRepository.find).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { contractId: CONTRACT_ID, topic0: "transfer" },
+        take: 3,
+      })
+    );
+  });
+});
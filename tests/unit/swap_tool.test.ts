@@ -0,0 +1,250 @@
+import * as StellarSdk from "@stellar/stellar-sdk";
+import { SwapTool } from "../../src/Agents/tools/swap";
+import { transactionSigningService } from "../../src/Signing/signing.service";
+import { flashSwapRiskAnalyzer } from "../../src/services/flashSwapRiskAnalyzer";
+
+jest.unmock("@stellar/stellar-sdk");
+jest.mock("../../src/config/logger");
+jest.mock("../../src/services/priceCache.service", () => ({
+  __esModule: true,
+  default: {},
+}));
+jest.mock("../../src/services/flashSwapRiskAnalyzer", () => ({
+  flashSwapRiskAnalyzer: { analyzeSwapRisk: jest.fn() },
+}));
+jest.mock("../../src/Signing/signing.service", () => ({
+  transactionSigningService: { forUser: jest.fn() },
+}));
+
+const USER_KEY = StellarSdk.Keypair.random().publicKey();
+const USDC_ISSUER = "GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN";
+const AQUA_ISSUER = "GBNZILSTVQZ4R7IKQDGHYGY2QXL5QOFJYQMXPKWRRM5PAV7Y4M67AQUA";
+
+const callResult = (result: unknown) =>
+  ({ call: jest.fn().mockResolvedValue(result) }) as never;
+
+describe("SwapTool", () => {
+  let verifier: { verifyAsset: jest.Mock };
+  let signTransaction: jest.Mock;
+  let strictSendPaths: jest.SpyInstance;
+  let strictReceivePaths: jest.SpyInstance;
+  let operations: jest.SpyInstance;
+  let tool: SwapTool;
+
+  const signedOperation = () =>
+    signTransaction.mock.calls[0][0].transaction.operations[0];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    verifier = {
+      verifyAsset: jest
+        .fn()
+        .mockResolvedValue({ isSafe: true, status: "VERIFIED" }),
+    };
+    signTransaction = jest.fn(async ({ transaction }) => ({
+      status: "signed",
+      transaction,
+    }));
+    (transactionSigningService.forUser as jest.Mock).mockResolvedValue({
+      getPublicKey: async () => USER_KEY,
+      signTransaction,
+    });
+    (flashSwapRiskAnalyzer.analyzeSwapRisk as jest.Mock).mockResolvedValue({
+      riskLevel: "low",
+      sandwichAttackRisk: 0.1,
+      warnings: [],
+      recommendations: [],
+    });
+
+    jest
+      .spyOn(StellarSdk.Horizon.Server.prototype, "loadAccount")
+      .mockResolvedValue(
+        new StellarSdk.Account(
+          USER_KEY,
+          "100"
+        ) as unknown as StellarSdk.Horizon.AccountResponse
+      );
+    jest
+      .spyOn(StellarSdk.Horizon.Server.prototype, "submitTransaction")
+      .mockResolvedValue({
+        hash: "swap_hash",
+        ledger: 42,
+        successful: true,
+      } as unknown as StellarSdk.Horizon.HorizonApi.SubmitTransactionResponse);
+    strictSendPaths = jest
+      .spyOn(StellarSdk.Horizon.Server.prototype, "strictSendPaths")
+      .mockReturnValue(
+        callResult({
+          records: [
+            { source_amount: "100", destination_amount: "9.8", path: [] },
+            {
+              source_amount: "100",
+              destination_amount: "10",
+              path: [
+                {
+                  asset_type: "credit_alphanum4",
+                  asset_code: "AQUA",
+                  asset_issuer: AQUA_ISSUER,
+                },
+              ],
+            },
+          ],
+        })
+      );
+    strictReceivePaths = jest
+      .spyOn(StellarSdk.Horizon.Server.prototype, "strictReceivePaths")
+      .mockReturnValue(
+        callResult({
+          records: [
+            { source_amount: "260", destination_amount: "25", path: [] },
+            { source_amount: "250", destination_amount: "25", path: [] },
+          ],
+        })
+      );
+    operations = jest
+      .spyOn(StellarSdk.Horizon.Server.prototype, "operations")
+      .mockReturnValue({
+        forTransaction: () =>
+          callResult({
+            records: [
+              {
+                type: "path_payment_strict_send",
+                source_amount: "100.0000000",
+                amount: "9.9500000",
+              },
+            ],
+          }),
+      } as never);
+
+    tool = new SwapTool(verifier);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("sends exactly the amount along the best path with a slippage floor", async () => {
+    const result = await tool.execute(
+      { from: "XLM", to: "USDC", amount: 100, maxSlippageBps: 50 },
+      "user-1"
+    );
+
+    expect(result.status).toBe("success");
+    const operation = signedOperation();
+    expect(operation).toEqual(
+      expect.objectContaining({
+        type: "pathPaymentStrictSend",
+        sendAmount: "100.0000000",
+        destMin: "9.9500000",
+        destination: USER_KEY,
+      })
+    );
+    expect(operation.path.map((asset: StellarSdk.Asset) => asset.code)).toEqual(
+      ["AQUA"]
+    );
+    expect(result.data).toEqual(
+      expect.objectContaining({
+        mode: "strict_send",
+        quotedPrice: 0.1,
+        destMin: "9.9500000",
+        sentAmount: 100,
+        receivedAmount: 9.95,
+        executedPrice: expect.closeTo(0.0995),
+        slippageBps: 50,
+        path: ["XLM", `AQUA:${AQUA_ISSUER}`, `USDC:${USDC_ISSUER}`],
+        txHash: "swap_hash",
+      })
+    );
+    expect(operations).toHaveBeenCalled();
+  });
+
+  it("receives exactly the amount for at most the quoted cost plus slippage", async () => {
+    const result = await tool.execute(
+      { from: "XLM", to: "USDC", amount: 25, mode: "strict_receive" },
+      "user-1"
+    );
+
+    expect(strictReceivePaths).toHaveBeenCalledWith(
+      [StellarSdk.Asset.native()],
+      expect.any(StellarSdk.Asset),
+      "25.0000000"
+    );
+    expect(signedOperation()).toEqual(
+      expect.objectContaining({
+        type: "pathPaymentStrictReceive",
+        destAmount: "25.0000000",
+        // The cheapest path, 250 XLM, plus the default 1%
+        sendMax: "252.5000000",
+      })
+    );
+    expect(result.data).toEqual(
+      expect.objectContaining({ sendAmount: 250, sendMax: "252.5000000" })
+    );
+  });
+
+  it("verifies assets given by issuer before trading them", async () => {
+    await tool.execute(
+      { from: "XLM", to: `AQUA:${AQUA_ISSUER}`, amount: 100 },
+      "user-1"
+    );
+    expect(verifier.verifyAsset).toHaveBeenCalledWith("AQUA", AQUA_ISSUER);
+
+    verifier.verifyAsset.mockResolvedValue({
+      isSafe: false,
+      status: "MALICIOUS",
+      details:
+        "Asset issuer claims domain but asset is not listed in TOML file.",
+    });
+    const result = await tool.execute(
+      { from: "XLM", to: `AQUA:${AQUA_ISSUER}`, amount: 100 },
+      "user-1"
+    );
+
+    expect(result.status).toBe("error");
+    expect(result.error).toContain("failed verification (MALICIOUS)");
+    expect(signTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it("trusts the built-in assets without verification", async () => {
+    await tool.execute(
+      { from: `USDC:${USDC_ISSUER}`, to: "XLM", amount: 10 },
+      "user-1"
+    );
+
+    expect(verifier.verifyAsset).not.toHaveBeenCalled();
+    expect(strictSendPaths).toHaveBeenCalled();
+  });
+
+  it("rejects out of range slippage and unknown symbols", async () => {
+    const tooLoose = await tool.execute(
+      { from: "XLM", to: "USDC", amount: 100, maxSlippageBps: 5000 },
+      "user-1"
+    );
+    expect(tooLoose.error).toBe(
+      "maxSlippageBps must be a whole number from 1 to 1000"
+    );
+
+    const unknown = await tool.execute(
+      { from: "XLM", to: "AQUA", amount: 100 },
+      "user-1"
+    );
+    expect(unknown.error).toBe(
+      "Swap failed: Unknown token AQUA. Identify other assets as CODE:ISSUER"
+    );
+    expect(strictSendPaths).not.toHaveBeenCalled();
+  });
+
+  it("rolls a strict receive back by selling the exact amount received", () => {
+    expect(
+      tool.getRollbackAction({
+        from: "XLM",
+        to: "USDC",
+        amount: 25,
+        mode: "strict_receive",
+      })
+    ).toEqual({
+      action: "swap_tool",
+      payload: { from: "USDC", to: "XLM", amount: 25 },
+    });
+  });
+});
@@ -1,96 +1,154 @@
-import { TransactionHistoryService } from "../../src/Gateway/transaction.service";
+import {
+  determineTransactionType,
+  TransactionHistoryService,
+} from "../../src/Gateway/transaction.service";
 import AppDataSource from "../../src/config/Datasource";
 import { User } from "../../src/Auth/user.entity";
-
-// Mock the Stellar SDK
-jest.mock("@stellar/stellar-sdk", () => ({
-  Horizon: {
-    Server: jest.fn().mockImplementation(() => ({
-      transactions: jest.fn().mockReturnThis(),
-      forAccount: jest.fn().mockReturnThis(),
-      order: jest.fn().mockReturnThis(),
-      limit: jest.fn().mockReturnThis(),
-      cursor: jest.fn().mockReturnThis(),
-      call: jest.fn().mockResolvedValue({
-        records: [
-          {
-            id: "tx1",
-            hash: "hash1",
-            ledger: 12345,
-            created_at: "2024-01-15T10:00:00Z",
-            source_account: "GD77MOCKPUBLICKEY1234567890",
-            fee_paid: 100,
-            operation_count: 1,
-            successful: true,
-            memo_type: "none",
-            memo: null,
-            paging_token: "cursor1",
-            operations: [
-              {
-                id: "op1",
-                type: "payment",
-                source_account: "GD77MOCKPUBLICKEY1234567890",
-                created_at: "2024-01-15T10:00:00Z",
-                transaction_hash: "hash1",
-                from: "GD77MOCKPUBLICKEY1234567890",
-                to: "GDANOTHERPUBLICKEY1234567890",
-                amount: "100.0000000",
-                asset_type: "native",
-              },
-            ],
-          },
-        ],
-      }),
-      effects: jest.fn().mockReturnThis(),
-      forTransaction: jest.fn().mockReturnThis(),
-    })),
-  },
-}));
+import {
+  AccountEffect,
+  AccountOperation,
+  AccountTransaction,
+} from "../../src/Gateway/accountHistory.entity";
 
 // Mock the database
 jest.mock("../../src/config/Datasource", () => ({
   __esModule: true,
   default: {
-    getRepository: jest.fn().mockReturnValue({
-      findOne: jest.fn(),
-    }),
+    getRepository: jest.fn(),
   },
 }));
 
+const ADDRESS = "GD77MOCKPUBLICKEY1234567890";
+
+const mockUser = {
+  id: "user1",
+  name: "testuser",
+  address: ADDRESS,
+  pk: "SABC...MOCKSECRET",
+  isDeployed: false,
+  isFunded: true,
+  tokenType: "STRK",
+  createdAt: new Date(),
+  updatedAt: new Date(),
+} as User;
+
+const buildTransaction = (pagingToken: string, hash: string) =>
+  ({
+    account: ADDRESS,
+    id: hash,
+    pagingToken,
+    hash,
+    ledger: 12345,
+    type: "transfer",
+    sourceAccount: ADDRESS,
+    feePaid: "100",
+    operationCount: 1,
+    successful: true,
+    memoType: "text",
+    memo: "rent march",
+    createdAt: new Date("2024-01-15T10:00:00Z"),
+  }) as AccountTransaction;
+
+/**
+ * Chainable stand-in for the account_transaction query builder
+ */
+interface MockQueryBuilder {
+  conditions: { sql: string; parameters?: Record<string, unknown> }[];
+  andWhere: jest.Mock;
+  orderBy: jest.Mock;
+  addOrderBy: jest.Mock;
+  take: jest.Mock;
+  getMany: jest.Mock;
+}
+
+const createQueryBuilder = (rows: AccountTransaction[]): MockQueryBuilder => {
+  const builder: MockQueryBuilder = {
+    conditions: [],
+    andWhere: jest.fn(
+      (sql: string, parameters?: Record<string, unknown>) => {
+        builder.conditions.push({ sql, parameters });
+        return builder;
+      },
+    ),
+    orderBy: jest.fn(() => builder),
+    addOrderBy: jest.fn(() => builder),
+    take: jest.fn(() => builder),
+    getMany: jest.fn(async () => rows),
+  };
+  return builder;
+};
+
 describe("TransactionHistoryService", () => {
   let service: TransactionHistoryService;
   let mockUserRepository: { findOne: jest.Mock };
+  let queryBuilder: ReturnType<typeof createQueryBuilder>;
+  let mockOperationRepository: { find: jest.Mock };
+  let mockEffectRepository: { find: jest.Mock };
 
   beforeEach(() => {
-    service = new TransactionHistoryService();
-    mockUserRepository = AppDataSource.getRepository(User) as unknown as {
-      findOne: jest.Mock;
-    };
     jest.clearAllMocks();
+    queryBuilder = createQueryBuilder([
+      buildTransaction("300", "hash3"),
+      buildTransaction("200", "hash2"),
+    ]);
+    mockUserRepository = { findOne: jest.fn().mockResolvedValue(mockUser) };
+    mockOperationRepository = {
+      find: jest.fn().mockResolvedValue([
+        {
+          id: "op3",
+          transactionHash: "hash3",
+          type: "payment",
+          from: ADDRESS,
+          to: "GDANOTHERPUBLICKEY1234567890",
+          amount: "100.0000000",
+          asset: "XLM",
+        },
+      ] as AccountOperation[]),
+    };
+    mockEffectRepository = {
+      find: jest.fn().mockResolvedValue([
+        {
+          id: "0000000000000003-0000000001",
+          transactionHash: "hash3",
+          type: "account_debited",
+          amount: "100.0000000",
+          asset: "XLM",
+        },
+      ] as AccountEffect[]),
+    };
+    (AppDataSource.getRepository as jest.Mock).mockImplementation((entity) => {
+      if (entity === User) return mockUserRepository;
+      if (entity === AccountOperation) return mockOperationRepository;
+      if (entity === AccountEffect) return mockEffectRepository;
+      return { createQueryBuilder: jest.fn(() => queryBuilder) };
+    });
+    service = new TransactionHistoryService();
   });
 
   describe("getTransactionHistory", () => {
     it("should return transaction history for a valid user", async () => {
-      const mockUser: User = {
-        id: "user1",
-        name: "testuser",
-        address: "GD77MOCKPUBLICKEY1234567890",
-        pk: "SABC...MOCKSECRET",
-        isDeployed: false,
-        isFunded: true,
-        tokenType: "STRK",
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      mockUserRepository.findOne.mockResolvedValue(mockUser);
-
       const result = await service.getTransactionHistory("user1", {});
 
-      expect(result).toBeDefined();
-      expect(result.transactions).toBeDefined();
-      expect(result.pagination).toBeDefined();
       expect(result.pagination.limit).toBe(20);
+      expect(result.transactions).toHaveLength(2);
+      expect(result.transactions[0]).toEqual(
+        expect.objectContaining({
+          hash: "hash3",
+          account: ADDRESS,
+          feePaid: 100,
+          memo: "rent march",
+          createdAt: "2024-01-15T10:00:00.000Z",
+          operations: [
+            expect.objectContaining({ type: "payment", asset: "XLM" }),
+          ],
+          effects: [expect.objectContaining({ type: "account_debited" })],
+        }),
+      );
+      expect(result.transactions[1].operations).toEqual([]);
+      expect(queryBuilder.conditions[0]).toEqual({
+        sql: "tx.account = :account",
+        parameters: { account: ADDRESS },
+      });
     });
 
     it("should throw error for non-existent user", async () => {
@@ -102,196 +160,134 @@ describe("TransactionHistoryService", () => {
     });
 
     it("should apply type filter", async () => {
-      const mockUser: User = {
-        id: "user1",
-        name: "testuser",
-        address: "GD77MOCKPUBLICKEY1234567890",
-        pk: "SABC...MOCKSECRET",
-        isDeployed: false,
-        isFunded: true,
-        tokenType: "STRK",
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      await service.getTransactionHistory("user1", { type: "transfer" });
 
-      const result = await service.getTransactionHistory("user1", {
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith("tx.type = :type", {
         type: "transfer",
       });
-
-      expect(result.transactions).toBeDefined();
     });
 
     it("should apply date range filter", async () => {
-      const mockUser: User = {
-        id: "user1",
-        name: "testuser",
-        address: "GD77MOCKPUBLICKEY1234567890",
-        pk: "SABC...MOCKSECRET",
-        isDeployed: false,
-        isFunded: true,
-        tokenType: "STRK",
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      mockUserRepository.findOne.mockResolvedValue(mockUser);
-
-      const result = await service.getTransactionHistory("user1", {
+      await service.getTransactionHistory("user1", {
         startDate: "2024-01-01T00:00:00Z",
         endDate: "2024-12-31T23:59:59Z",
       });
 
-      expect(result.transactions).toBeDefined();
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        "tx.createdAt >= :startDate",
+        { startDate: new Date("2024-01-01T00:00:00Z") },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        "tx.createdAt <= :endDate",
+        { endDate: new Date("2024-12-31T23:59:59Z") },
+      );
     });
 
-    it("should respect custom limit", async () => {
-      const mockUser: User = {
-        id: "user1",
-        name: "testuser",
-        address: "GD77MOCKPUBLICKEY1234567890",
-        pk: "SABC...MOCKSECRET",
-        isDeployed: false,
-        isFunded: true,
-        tokenType: "STRK",
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
+    it("should search memos with the full-text index expression", async () => {
+      await service.getTransactionHistory("user1", { search: "rent" });
 
-      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        "to_tsvector('simple', coalesce(tx.memo, '')) @@ plainto_tsquery('simple', :search)",
+        { search: "rent" },
+      );
+    });
 
-      const result = await service.getTransactionHistory("user1", {
-        limit: 50,
+    it("should filter by asset and amount on either path payment leg", async () => {
+      await service.getTransactionHistory("user1", {
+        asset: "USDC",
+        minAmount: 50,
       });
 
-      expect(result.pagination.limit).toBe(50);
+      const condition = queryBuilder.conditions.find(({ sql }) =>
+        sql.startsWith("EXISTS"),
+      );
+      expect(condition?.sql).toContain(
+        `(split_part(op."asset", ':', 1) = :asset AND op."amount" >= :minAmount)`,
+      );
+      expect(condition?.sql).toContain(
+        `(split_part(op."sourceAsset", ':', 1) = :asset AND op."sourceAmount" >= :minAmount)`,
+      );
+      expect(condition?.parameters).toEqual(
+        expect.objectContaining({ asset: "USDC", minAmount: 50 }),
+      );
     });
 
-    it("should throw error for limit > 100", async () => {
-      const mockUser: User = {
-        id: "user1",
-        name: "testuser",
-        address: "GD77MOCKPUBLICKEY1234567890",
-        pk: "SABC...MOCKSECRET",
-        isDeployed: false,
-        isFunded: true,
-        tokenType: "STRK",
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
+    it("should page by paging token", async () => {
+      const result = await service.getTransactionHistory("user1", {
+        limit: 1,
+        cursor: "400",
+      });
 
-      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        "tx.pagingToken < :pagingToken",
+        { pagingToken: "400" },
+      );
+      expect(queryBuilder.take).toHaveBeenCalledWith(2);
+      expect(result.transactions).toHaveLength(1);
+      expect(result.pagination).toEqual(
+        expect.objectContaining({ nextCursor: "300", prevCursor: "400" }),
+      );
+    });
 
+    it("should throw error for limit > 100", async () => {
       await expect(
         service.getTransactionHistory("user1", { limit: 150 }),
       ).rejects.toThrow("Limit cannot exceed 100");
     });
+  });
 
-    it("should cache results for 30 seconds", async () => {
-      const mockUser: User = {
-        id: "user1",
-        name: "testuser",
-        address: "GD77MOCKPUBLICKEY1234567890",
-        pk: "SABC...MOCKSECRET",
-        isDeployed: false,
-        isFunded: true,
-        tokenType: "STRK",
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
+  describe("searchTransactions", () => {
+    it("should include the account in cursors when searching all accounts", async () => {
+      const result = await service.searchTransactions({ limit: 1 });
 
-      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      expect(queryBuilder.conditions).toEqual([]);
+      expect(result.pagination.nextCursor).toBe(`300:${ADDRESS}`);
+    });
 
-      // First call
-      const result1 = await service.getTransactionHistory("user1", {});
-      // Second call should use cache
-      const result2 = await service.getTransactionHistory("user1", {});
+    it("should page oldest first when ascending", async () => {
+      await service.searchTransactions({
+        account: ADDRESS,
+        order: "asc",
+        cursor: "100",
+      });
 
-      expect(result1).toEqual(result2);
-      // Should only call findOne once due to caching
-      expect(mockUserRepository.findOne).toHaveBeenCalledTimes(1);
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        "tx.pagingToken > :pagingToken",
+        { pagingToken: "100" },
+      );
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith("tx.pagingToken", "ASC");
     });
   });
 
   describe("determineTransactionType", () => {
     it("should identify funding transactions", () => {
-      const operations = [
-        {
-          type: "create_account",
-          source_account: "GD77MOCKPUBLICKEY1234567890",
-          created_at: "2024-01-15T10:00:00Z",
-          transaction_hash: "hash1",
-          starting_balance: "100.0000000",
-        },
-      ];
-
-      const type = (
-        service as unknown as {
-          determineTransactionType: (ops: unknown[]) => string;
-        }
-      ).determineTransactionType(operations);
-      expect(type).toBe("funding");
+      expect(determineTransactionType([{ type: "create_account" }])).toBe(
+        "funding",
+      );
     });
 
     it("should identify swap transactions", () => {
-      const operations = [
-        {
-          type: "path_payment_strict_send",
-          source_account: "GD77MOCKPUBLICKEY1234567890",
-          created_at: "2024-01-15T10:00:00Z",
-          transaction_hash: "hash1",
-          amount: "100.0000000",
-        },
-      ];
-
-      const type = (
-        service as unknown as {
-          determineTransactionType: (ops: unknown[]) => string;
-        }
-      ).determineTransactionType(operations);
-      expect(type).toBe("swap");
+      expect(
+        determineTransactionType([{ type: "path_payment_strict_send" }]),
+      ).toBe("swap");
     });
 
     it("should identify transfer transactions", () => {
-      const operations = [
-        {
-          type: "payment",
-          source_account: "GD77MOCKPUBLICKEY1234567890",
-          created_at: "2024-01-15T10:00:00Z",
-          transaction_hash: "hash1",
-          from: "GD77MOCKPUBLICKEY1234567890",
-          to: "GDANOTHERPUBLICKEY1234567890",
-          amount: "100.0000000",
-        },
-      ];
-
-      const type = (
-        service as unknown as {
-          determineTransactionType: (ops: unknown[]) => string;
-        }
-      ).determineTransactionType(operations);
-      expect(type).toBe("transfer");
+      expect(
+        determineTransactionType([
+          {
+            type: "payment",
+            from: ADDRESS,
+            to: "GDANOTHERPUBLICKEY1234567890",
+          },
+        ]),
+      ).toBe("transfer");
     });
 
     it("should identify deployment transactions", () => {
-      const operations = [
-        {
-          type: "manage_data",
-          source_account: "GD77MOCKPUBLICKEY1234567890",
-          created_at: "2024-01-15T10:00:00Z",
-          transaction_hash: "hash1",
-          name: "deployment",
-          value: "deployed",
-        },
-      ];
-
-      const type = (
-        service as unknown as {
-          determineTransactionType: (ops: unknown[]) => string;
-        }
-      ).determineTransactionType(operations);
-      expect(type).toBe("deployment");
+      expect(
+        determineTransactionType([{ type: "manage_data", name: "deployment" }]),
+      ).toBe("deployment");
     });
   });
 });
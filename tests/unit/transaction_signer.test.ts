@@ -0,0 +1,350 @@
+import http from "http";
+import { AddressInfo } from "net";
+import * as StellarSdk from "@stellar/stellar-sdk";
+import AppDataSource from "../../src/config/Datasource";
+import { auditLogService } from "../../src/AuditLog/auditLog.service";
+import { AuditAction } from "../../src/AuditLog/auditLog.entity";
+import { RemoteTransactionSigner } from "../../src/Signing/remoteTransactionSigner";
+import {
+  SigningRequestStateError,
+  TransactionSigningService,
+} from "../../src/Signing/signing.service";
+import { SigningRequestStore } from "../../src/Signing/signingRequests";
+import { SigningRequestRecord } from "../../src/Signing/signingRequest.entity";
+import { SigningError } from "../../src/Signing/transactionSigner";
+
+// Signatures are checked for real, so use the actual SDK
+jest.unmock("@stellar/stellar-sdk");
+jest.mock("../../src/config/Datasource", () => ({
+  __esModule: true,
+  default: { getRepository: jest.fn() },
+}));
+jest.mock("../../src/AuditLog/auditLog.service");
+jest.mock("../../src/Custody/custody.service");
+jest.mock("../../src/config/logger");
+
+const userKeypair = StellarSdk.Keypair.random();
+const otherKeypair = StellarSdk.Keypair.random();
+
+const buildTransaction = () =>
+  new StellarSdk.TransactionBuilder(
+    new StellarSdk.Account(userKeypair.publicKey(), "1"),
+    {
+      fee: StellarSdk.BASE_FEE,
+      networkPassphrase: StellarSdk.Networks.TESTNET,
+    }
+  )
+    .addOperation(StellarSdk.Operation.bumpSequence({ bumpTo: "2" }))
+    .setTimeout(300)
+    .build();
+
+const signXdr = (xdr: string, keypair: StellarSdk.Keypair) => {
+  const transaction = new StellarSdk.Transaction(
+    xdr,
+    StellarSdk.Networks.TESTNET
+  );
+  transaction.sign(keypair);
+  return transaction.toXDR();
+};
+
+describe("RemoteTransactionSigner", () => {
+  let server: http.Server;
+  let url: string;
+  let respond: (body: { xdr: string }) => {
+    status: number;
+    body: Record<string, unknown>;
+  };
+  const received: Array<Record<string, unknown>> = [];
+
+  beforeAll(async () => {
+    // Local stand-in for an external signing service
+    server = http.createServer((req, res) => {
+      let data = "";
+      req.on("data", (chunk) => (data += chunk));
+      req.on("end", () => {
+        const body = JSON.parse(data);
+        received.push({ ...body, authorization: req.headers.authorization });
+        const reply = respond(body);
+        res.writeHead(reply.status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/sign`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+  });
+
+  const createSigner = () =>
+    new RemoteTransactionSigner(
+      { url, token: "signer-token", timeoutMs: 2000 },
+      async () => userKeypair.publicKey()
+    );
+
+  it("returns the transaction signed by the remote signer", async () => {
+    respond = ({ xdr }) => ({
+      status: 200,
+      body: { signedXdr: signXdr(xdr, userKeypair) },
+    });
+    const transaction = buildTransaction();
+
+    const result = await createSigner().signTransaction({
+      userId: "user123",
+      transaction,
+      purpose: "swap",
+    });
+
+    expect(result.status).toBe("signed");
+    const signed =
+      result.status === "signed" ? result.transaction : transaction;
+    expect(signed.hash()).toEqual(transaction.hash());
+    expect(
+      userKeypair.verify(signed.hash(), signed.signatures[0].signature())
+    ).toBe(true);
+    expect(received[0]).toEqual(
+      expect.objectContaining({
+        userId: "user123",
+        publicKey: userKeypair.publicKey(),
+        purpose: "swap",
+        networkPassphrase: StellarSdk.Networks.TESTNET,
+        xdr: transaction.toXDR(),
+        authorization: "Bearer signer-token",
+      })
+    );
+  });
+
+  it("rejects envelopes signed by another key", async () => {
+    respond = ({ xdr }) => ({
+      status: 200,
+      body: { signedXdr: signXdr(xdr, otherKeypair) },
+    });
+
+    await expect(
+      createSigner().signTransaction({
+        userId: "user123",
+        transaction: buildTransaction(),
+        purpose: "swap",
+      })
+    ).rejects.toThrow(
+      `Transaction is not signed by ${userKeypair.publicKey()}`
+    );
+  });
+
+  it("rejects envelopes for a different transaction", async () => {
+    const other = buildTransaction();
+    other.sign(userKeypair);
+    respond = () => ({ status: 200, body: { signedXdr: other.toXDR() } });
+    const transaction = new StellarSdk.TransactionBuilder(
+      new StellarSdk.Account(userKeypair.publicKey(), "5"),
+      {
+        fee: StellarSdk.BASE_FEE,
+        networkPassphrase: StellarSdk.Networks.TESTNET,
+      }
+    )
+      .addOperation(StellarSdk.Operation.bumpSequence({ bumpTo: "9" }))
+      .setTimeout(300)
+      .build();
+
+    await expect(
+      createSigner().signTransaction({
+        userId: "user123",
+        transaction,
+        purpose: "swap",
+      })
+    ).rejects.toThrow("Signed envelope does not match the transaction");
+  });
+
+  it("surfaces signer refusals as SigningError", async () => {
+    respond = () => ({ status: 403, body: { error: "denied" } });
+
+    await expect(
+      createSigner().signTransaction({
+        userId: "user123",
+        transaction: buildTransaction(),
+        purpose: "swap",
+      })
+    ).rejects.toEqual(
+      new SigningError("Remote signer refused to sign (HTTP 403)")
+    );
+  });
+});
+
+describe("TransactionSigningService client signing", () => {
+  const userRepository = {
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
+  // Keeps signing requests in memory in place of the signing_request table
+  const signingRequests = new Map<string, SigningRequestRecord>();
+  const signingRequestRepository = {
+    save: jest.fn(async (record: SigningRequestRecord) => {
+      signingRequests.set(record.id, { ...record });
+      return record;
+    }),
+    findOne: jest.fn(async ({ where }: { where: { id: string } }) => {
+      const record = signingRequests.get(where.id);
+      return record ? { ...record } : null;
+    }),
+    find: jest.fn(async ({ where }: { where: Partial<SigningRequestRecord> }) =>
+      [...signingRequests.values()].filter(
+        (record) =>
+          record.userId === where.userId && record.status === where.status
+      )
+    ),
+    update: jest.fn(
+      async (
+        where: Pick<SigningRequestRecord, "id" | "status">,
+        changes: Partial<SigningRequestRecord>
+      ) => {
+        const record = signingRequests.get(where.id);
+        if (!record || record.status !== where.status) return { affected: 0 };
+        Object.assign(record, changes);
+        return { affected: 1 };
+      }
+    ),
+  };
+  let service: TransactionSigningService;
+  let submitTransaction: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    signingRequests.clear();
+    (AppDataSource.getRepository as jest.Mock).mockImplementation((entity) =>
+      entity === SigningRequestRecord
+        ? signingRequestRepository
+        : userRepository
+    );
+    (auditLogService.log as jest.Mock).mockResolvedValue({});
+    userRepository.findOne.mockResolvedValue({
+      id: "user123",
+      address: userKeypair.publicKey(),
+      signingMode: "client",
+    });
+    submitTransaction = jest
+      .spyOn(StellarSdk.Horizon.Server.prototype, "submitTransaction")
+      .mockResolvedValue({
+        hash: "submitted_hash",
+      } as unknown as StellarSdk.Horizon.HorizonApi.SubmitTransactionResponse);
+    service = new TransactionSigningService(new SigningRequestStore(60000));
+  });
+
+  afterEach(() => {
+    submitTransaction.mockRestore();
+  });
+
+  const requestSignature = async () => {
+    const signer = await service.forUser("user123");
+    const result = await signer.signTransaction({
+      userId: "user123",
+      transaction: buildTransaction(),
+      purpose: "swap",
+    });
+    if (result.status !== "pending") throw new Error("expected pending");
+    return result.request;
+  };
+
+  it("hands back unsigned XDR and submits the wallet-signed envelope", async () => {
+    const request = await requestSignature();
+
+    expect(request).toEqual(
+      expect.objectContaining({
+        userId: "user123",
+        publicKey: userKeypair.publicKey(),
+        status: "pending",
+      })
+    );
+    expect(await service.listPendingRequests("user123")).toHaveLength(1);
+
+    const submitted = await service.submitSignedRequest(
+      request.id,
+      "user123",
+      signXdr(request.xdr, userKeypair)
+    );
+
+    expect(submitted).toEqual(
+      expect.objectContaining({ status: "submitted", txHash: "submitted_hash" })
+    );
+    expect(submitTransaction).toHaveBeenCalledTimes(1);
+    expect(await service.listPendingRequests("user123")).toHaveLength(0);
+    expect(auditLogService.log).toHaveBeenCalledWith(
+      expect.objectContaining({ action: AuditAction.SIGNATURE_SUBMITTED })
+    );
+  });
+
+  it("keeps the request pending when the envelope is not the user's", async () => {
+    const request = await requestSignature();
+
+    await expect(
+      service.submitSignedRequest(
+        request.id,
+        "user123",
+        signXdr(request.xdr, otherKeypair)
+      )
+    ).rejects.toBeInstanceOf(SigningError);
+
+    expect(submitTransaction).not.toHaveBeenCalled();
+    expect((await service.getRequest(request.id, "user123")).status).toBe(
+      "pending"
+    );
+  });
+
+  it("does not accept signatures for rejected requests", async () => {
+    const request = await requestSignature();
+    await service.rejectRequest(request.id, "user123");
+
+    await expect(
+      service.submitSignedRequest(
+        request.id,
+        "user123",
+        signXdr(request.xdr, userKeypair)
+      )
+    ).rejects.toBeInstanceOf(SigningRequestStateError);
+  });
+
+  it("notifies listeners once the signed envelope is submitted", async () => {
+    const listener = jest.fn();
+    service.onRequestSettled(listener);
+    const request = await requestSignature();
+
+    await service.submitSignedRequest(
+      request.id,
+      "user123",
+      signXdr(request.xdr, userKeypair)
+    );
+
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: request.id,
+        status: "submitted",
+        txHash: "submitted_hash",
+      })
+    );
+  });
+
+  it("keeps requests across service instances", async () => {
+    const request = await requestSignature();
+
+    // A restarted process reads the same table
+    const restarted = new TransactionSigningService(
+      new SigningRequestStore(60000)
+    );
+
+    expect(await restarted.getRequest(request.id, "user123")).toEqual(request);
+  });
+
+  it("hides requests from other users", async () => {
+    const request = await requestSignature();
+
+    await expect(
+      service.getRequest(request.id, "someone-else")
+    ).rejects.toThrow(`Signing request not found: ${request.id}`);
+  });
+});